@@ -1,318 +1,612 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { JournalMode, JournalEntry, CalendarEvent, ChatMessage, Task, FinanceTransaction } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { JournalMode, JournalEntry, ChatMessage, TrashItem, MediaRef, Citation } from './types';
+import { useEntries, useCalendarEvents, useTasks, useReviewItems, useDuplicateCandidates, useMemories, useAIJobs } from './hooks/useStorage';
 import Sidebar from './components/Sidebar';
 import CalendarWidget from './components/CalendarWidget';
 import ChatInterface from './components/ChatInterface';
 import TasksView from './components/TasksView';
 import FinanceView from './components/FinanceView';
-import { RefreshCw, BookOpen, Search, Upload, FileText, CheckCircle, AlertCircle, Loader2, Download, Save, Key, Image as ImageIcon, Receipt, Share2, CheckSquare, Calendar, DollarSign, Cloud, Edit2, Trash2, X } from 'lucide-react';
+import UnlockScreen from './components/UnlockScreen';
+import VaultSettings from './components/VaultSettings';
+import SyncSettings from './components/SyncSettings';
+import ConflictInbox from './components/ConflictInbox';
+import EntryHistoryPanel from './components/EntryHistoryPanel';
+import TrashView from './components/TrashView';
+import UndoToast from './components/UndoToast';
+import DeleteEntryDialog from './components/DeleteEntryDialog';
+import RestoreWizard from './components/RestoreWizard';
+import MediaImage from './components/MediaImage';
+import StorageUsagePanel from './components/StorageUsagePanel';
+import AIProviderSettings from './components/AIProviderSettings';
+import AIUsageSettings from './components/AIUsageSettings';
+import AIQueueSettings from './components/AIQueueSettings';
+import PrivacySettings from './components/PrivacySettings';
+import ReviewInbox from './components/ReviewInbox';
+import MoodView from './components/MoodView';
+import EntryAIToolbar, { EntryActionChanges } from './components/EntryAIToolbar';
+import ReceiptScanner from './components/ReceiptScanner';
+import { RefreshCw, BookOpen, Search, Upload, FileText, CheckCircle, AlertCircle, Loader2, Download, Save, Key, Image as ImageIcon, Receipt, Share2, CheckSquare, Calendar, DollarSign, Cloud, Edit2, Trash2, X, History, ClipboardCheck, Newspaper } from 'lucide-react';
 import { 
-    getEntries, saveEntry, deleteEntry, simulateCloudSync, 
-    getCalendarEvents, addCalendarEvents, 
-    getTasks, saveTasks, 
-    getTransactions, addTransactions,
-    getAllData, restoreData,
+    saveEntry, deleteEntry,
     getChatHistory, saveChatHistory,
-    getLastBackupTime, updateLastBackupTime
+    getLastBackupTime, updateLastBackupTime,
+    getLinkedItems, restoreFromTrash, purgeExpiredTrash, subscribe,
+    getActiveMode, setActiveMode, inWorkspace, modeOf
 } from './services/storageService';
-import { generateEntryFromChat, processUploadedFile, hasValidApiKey } from './services/geminiService';
+import { PreparedRestore, prepareRestore, getRestoreSnapshotTime, rollbackRestore } from './services/restoreService';
+import { createBackupArchive, readBackupArchive } from './services/backupService';
+import { pruneUnusedMedia, internMedia } from './services/mediaService';
+import { isEncryptedBackup } from './services/cryptoService';
+import {
+    VaultStatus, DEFAULT_AUTO_LOCK_MINUTES,
+    getVaultStatus, unlockVault, lockVault, onVaultLocked, getAutoLockMinutes,
+    getStoredApiKey, saveApiKey
+} from './services/vaultService';
+import { SyncStatus, getSyncStatus, onSyncStatusChange, refreshSyncStatus, syncNow } from './services/syncService';
+import { hasValidApiKey } from './services/geminiService';
+import { describeAIError } from './services/llmProvider';
+import { startEmbeddingIndexer, updateEmbeddings } from './services/embeddingService';
+import { startMoodAnalyzer } from './services/moodService';
+import { startMemoryKeeper } from './services/memoryService';
+import { getReviewBeforeSave, setReviewBeforeSave } from './services/reviewService';
+import { getSplitReceipts, setSplitReceipts } from './services/receiptService';
+import { queueChatExtraction } from './services/extractionService';
+import { ImportResult, importWithAI, queueImport } from './services/importService';
+import { startAIQueue, runAIJobs, isTemporaryAIError } from './services/aiQueueService';
+import { startDigestScheduler, createDigest, getDigestSchedule, setDigestSchedule, isDigest, DigestPeriod, DigestSchedule } from './services/digestService';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+const EMPTY_CHATS: Record<JournalMode, ChatMessage[]> = { [JournalMode.PERSONAL]: [], [JournalMode.PROFESSIONAL]: [] };
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('chat');
+
+  // Workspace: Personal or Professional. Views show the active one only, unless the user asks for both.
+  const [mode, setMode] = useState<JournalMode>(JournalMode.PERSONAL);
+  const [showAllModes, setShowAllModes] = useState(false);
+
+  // Vault (Encryption) State
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | 'checking'>('checking');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
   
-  // Data State
-  const [entries, setEntries] = useState<JournalEntry[]>([]);
-  const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [transactions, setTransactions] = useState<FinanceTransaction[]>([]);
+  // Data State (kept current by storage change subscriptions; empty while the vault is locked)
+  const isDataReadable = vaultStatus === 'disabled' || vaultStatus === 'unlocked';
+  const storedEntries = useEntries(isDataReadable);
+  const entries = useMemo(() => [...storedEntries].sort((a, b) => b.lastModified - a.lastModified), [storedEntries]);
+  const calendarEvents = useCalendarEvents(isDataReadable);
+  const tasks = useTasks(isDataReadable);
+  const reviewItems = useReviewItems(isDataReadable);
+  const duplicates = useDuplicateCandidates(isDataReadable);
+  const memories = useMemories(isDataReadable);
+  const aiJobs = useAIJobs(isDataReadable);
   
-  // Chat State
-  const [personalMessages, setPersonalMessages] = useState<ChatMessage[]>([]);
+  // Chat State (one daily chat per workspace)
+  const [chatMessages, setChatMessages] = useState<Record<JournalMode, ChatMessage[]>>(EMPTY_CHATS);
   
   // Auto-Sync State
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus());
   const [isAutoSaving, setIsAutoSaving] = useState(false);
+  const [aiConfigVersion, setAIConfigVersion] = useState(0); // Bumped when the provider changes, so its model chains are shown
   
-  // Tracking for incremental processing
-  const personalProcessedCountRef = useRef(0);
+  // Tracking for incremental processing: ids of the messages already queued for extraction
+  const processedIdsRef = useRef<Record<JournalMode, Set<string>>>({ [JournalMode.PERSONAL]: new Set(), [JournalMode.PROFESSIONAL]: new Set() });
+  const chatMessagesRef = useRef(chatMessages);
+  chatMessagesRef.current = chatMessages;
   const autoSyncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [showDigestsOnly, setShowDigestsOnly] = useState(false);
   
   // Import State
   const [isImporting, setIsImporting] = useState(false);
   const [importStatus, setImportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [importMessage, setImportMessage] = useState('');
+  const [pendingRestore, setPendingRestore] = useState<PreparedRestore | null>(null);
+  const [restoreSnapshotAt, setRestoreSnapshotAt] = useState<number | undefined>();
 
   // API Key State
   const [apiKey, setApiKey] = useState('');
   const [keySaved, setKeySaved] = useState(false);
   const [hasConfiguredKey, setHasConfiguredKey] = useState(false);
+  const [reviewBeforeSave, setReviewBeforeSaveState] = useState(false);
+  const [splitReceipts, setSplitReceiptsState] = useState(false);
+  const [digestSchedule, setDigestScheduleState] = useState<DigestSchedule>({ week: true, month: true });
+  const [writingDigest, setWritingDigest] = useState<DigestPeriod | null>(null);
 
   // Backup Reminder State
   const [showBackupReminder, setShowBackupReminder] = useState(false);
 
   // Editing State
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
-  const [editForm, setEditForm] = useState({ title: '', content: '' });
+  const [editForm, setEditForm] = useState({ title: '', content: '', tags: [] as string[] });
+  const [editUsedAI, setEditUsedAI] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [viewingMedia, setViewingMedia] = useState<MediaRef | null>(null);
+  const [highlightedEntryId, setHighlightedEntryId] = useState<string | null>(null);
+
+  // Trash State
+  const [undoState, setUndoState] = useState<{ message: string; items: TrashItem[] } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ entry: JournalEntry; linked: { calendarEvents: number; tasks: number; transactions: number } } | null>(null);
+
+  useEffect(() => onSyncStatusChange(setSyncStatus), []);
 
   useEffect(() => {
-    loadData();
-    const personalChat = getChatHistory(JournalMode.PERSONAL);
-    setPersonalMessages(personalChat);
-    personalProcessedCountRef.current = personalChat.length;
+    getVaultStatus()
+        .then(setVaultStatus)
+        .catch(error => {
+            console.error("Failed to read vault status", error);
+            setVaultStatus('disabled');
+        });
+
+    // Wipe decrypted data from memory whenever the vault locks
+    return onVaultLocked(() => {
+        if (autoSyncTimeoutRef.current) clearTimeout(autoSyncTimeoutRef.current);
+        setChatMessages(EMPTY_CHATS);
+        setEditingEntry(null);
+        setApiKey('');
+        setHasConfiguredKey(false);
+        setVaultStatus('locked');
+    });
+  }, []);
 
-    const storedKey = localStorage.getItem('gemini_api_key');
+  // Nothing is read from storage until the vault (if enabled) is unlocked
+  useEffect(() => {
+    if (vaultStatus !== 'disabled' && vaultStatus !== 'unlocked') return;
+
+    const init = async () => {
+        if (vaultStatus === 'unlocked') setAutoLockMinutes(await getAutoLockMinutes());
+        setMode(await getActiveMode());
+        setReviewBeforeSaveState(await getReviewBeforeSave());
+        setSplitReceiptsState(await getSplitReceipts());
+        setDigestScheduleState(await getDigestSchedule());
+        await purgeExpiredTrash();
+        await pruneUnusedMedia();
+        await reloadChat();
+
+        // Check Backup Status
+        const lastBackup = await getLastBackupTime();
+        const now = Date.now();
+        const oneWeek = 7 * 24 * 60 * 60 * 1000;
+        
+        if (now - lastBackup > oneWeek) {
+            setShowBackupReminder(true);
+        }
+
+        if ((await refreshSyncStatus()).phase !== 'unconfigured') runBackgroundSync();
+    };
+    init();
+
+    const storedKey = getStoredApiKey();
     if (storedKey) setApiKey(storedKey);
     
     // Check key validity for UI banner
     setHasConfiguredKey(hasValidApiKey());
+  }, [vaultStatus]);
 
-    // Check Backup Status
-    const lastBackup = getLastBackupTime();
-    const now = Date.now();
-    const oneWeek = 7 * 24 * 60 * 60 * 1000;
-    
-    if (now - lastBackup > oneWeek) {
-        setShowBackupReminder(true);
+  // Auto-lock after a period of inactivity
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => lockVault(), autoLockMinutes * 60 * 1000);
+    };
+    const activityEvents = ['mousemove', 'keydown', 'touchstart', 'scroll', 'click'];
+    activityEvents.forEach(evt => window.addEventListener(evt, resetTimer, { passive: true }));
+    resetTimer();
+
+    return () => {
+        clearTimeout(timer);
+        activityEvents.forEach(evt => window.removeEventListener(evt, resetTimer));
+    };
+  }, [vaultStatus, autoLockMinutes]);
+
+  // Periodic sync, plus one as soon as the connection comes back
+  useEffect(() => {
+    if (vaultStatus !== 'disabled' && vaultStatus !== 'unlocked') return;
+
+    const interval = setInterval(() => {
+        if (getSyncStatus().phase !== 'unconfigured') runBackgroundSync();
+    }, SYNC_INTERVAL_MS);
+    const handleOnline = () => {
+        if (getSyncStatus().phase !== 'unconfigured') runBackgroundSync();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+        clearInterval(interval);
+        window.removeEventListener('online', handleOnline);
+    };
+  }, [vaultStatus]);
+
+  const handleUnlock = async (passphrase: string) => {
+    await unlockVault(passphrase);
+    setVaultStatus('unlocked');
+  };
+
+  // Chat is held in state so replies show immediately; it is re-read when another tab or a restore changes it.
+  // Messages already on disk count as processed, so auto-sync only turns this tab's new messages into entries.
+  // This tab's own messages still waiting for auto-sync stay unprocessed, wherever they now sit in the chat.
+  const reloadChat = async () => {
+    const [personalChat, professionalChat] = await Promise.all([
+        getChatHistory(JournalMode.PERSONAL),
+        getChatHistory(JournalMode.PROFESSIONAL)
+    ]);
+    const markProcessed = (chatMode: JournalMode, stored: ChatMessage[]) => {
+        const processed = processedIdsRef.current[chatMode];
+        const pending = new Set(chatMessagesRef.current[chatMode].filter(m => !processed.has(m.id)).map(m => m.id));
+        processedIdsRef.current[chatMode] = new Set(stored.filter(m => !pending.has(m.id)).map(m => m.id));
+    };
+    markProcessed(JournalMode.PERSONAL, personalChat);
+    markProcessed(JournalMode.PROFESSIONAL, professionalChat);
+    setChatMessages({ [JournalMode.PERSONAL]: personalChat, [JournalMode.PROFESSIONAL]: professionalChat });
+  };
+
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return subscribe('chat', change => {
+        if (change.remote) reloadChat();
+    });
+  }, [isDataReadable]);
+
+  // Semantic search index, kept current as records are saved
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return startEmbeddingIndexer();
+  }, [isDataReadable]);
+
+  // Mood scores, added to entries as they are saved
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return startMoodAnalyzer();
+  }, [isDataReadable]);
+
+  // Chat memory, summarised from older turns as the chat grows
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return startMemoryKeeper();
+  }, [isDataReadable]);
+
+  // Queued AI work (chat batches, imports, digests), retried until it succeeds
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return startAIQueue();
+  }, [isDataReadable]);
+
+  // Weekly and monthly digests, written once each period is over
+  useEffect(() => {
+    if (!isDataReadable) return;
+    return startDigestScheduler();
+  }, [isDataReadable]);
+
+  // A new provider or key may mean a different embedding model, so the index is brought up to date.
+  // Queued AI work waiting for a provider is tried straight away.
+  const handleAIConfigChanged = () => {
+    setHasConfiguredKey(hasValidApiKey());
+    setAIConfigVersion(v => v + 1);
+    updateEmbeddings().catch(error => console.warn("Search index update failed", error));
+    runAIJobs(true).catch(error => console.warn("AI jobs failed", error));
+  };
+
+  const handleToggleReviewBeforeSave = async () => {
+    const enabled = !reviewBeforeSave;
+    await setReviewBeforeSave(enabled);
+    setReviewBeforeSaveState(enabled);
+  };
+
+  const handleToggleDigest = async (period: DigestPeriod) => {
+    const next = { ...digestSchedule, [period]: !digestSchedule[period] };
+    await setDigestSchedule(next);
+    setDigestScheduleState(next);
+  };
+
+  // Digest of the current week or month so far; the full one replaces it once the period is over
+  const handleWriteDigestNow = async (period: DigestPeriod) => {
+    setWritingDigest(period);
+    try {
+        const entry = await createDigest(period, new Date());
+        if (!entry) {
+            alert(`Nothing has been recorded this ${period} yet.`);
+            return;
+        }
+        setSearchQuery('');
+        setShowDigestsOnly(true);
+        setActiveTab('journal');
+    } catch (error: any) {
+        alert(`Could not write the digest. ${describeAIError(error)}`);
+    } finally {
+        setWritingDigest(null);
     }
-  }, []);
+  };
 
-  const loadData = () => {
-    setEntries(getEntries().sort((a, b) => b.lastModified - a.lastModified));
-    setCalendarEvents(getCalendarEvents());
-    setTasks(getTasks());
-    setTransactions(getTransactions());
+  const handleToggleSplitReceipts = async () => {
+    const enabled = !splitReceipts;
+    await setSplitReceipts(enabled);
+    setSplitReceiptsState(enabled);
   };
 
-  const handleSaveApiKey = () => {
+  const handleSaveApiKey = async () => {
+    await saveApiKey(apiKey.trim());
     if(apiKey.trim()) {
-        localStorage.setItem('gemini_api_key', apiKey.trim());
         setKeySaved(true);
-        setHasConfiguredKey(true);
         setTimeout(() => setKeySaved(false), 2000);
-    } else {
-        localStorage.removeItem('gemini_api_key');
-        setHasConfiguredKey(false);
     }
+    handleAIConfigChanged();
+  };
+
+  // --- Workspaces ---
+  // Chat not yet turned into an entry is saved to the workspace it was written in before switching
+  const handleModeChange = (next: JournalMode) => {
+      if (next === mode) return;
+      if (autoSyncTimeoutRef.current) {
+          clearTimeout(autoSyncTimeoutRef.current);
+          autoSyncTimeoutRef.current = null;
+          handleAutoSync(mode);
+      }
+      setMode(next);
+      setShowAllModes(false);
+      setActiveMode(next).catch(error => console.error("Failed to save workspace", error));
+  };
+
+  // --- Citations ---
+  const handleOpenEntry = (id: string) => {
+      const entry = entries.find(e => e.id === id);
+      if (!entry) {
+          alert("This entry no longer exists.");
+          return;
+      }
+      if (!inWorkspace(mode, showAllModes)(entry)) handleModeChange(modeOf(entry));
+      setSearchQuery('');
+      setHighlightedEntryId(id);
+      setActiveTab('journal');
   };
 
+  const handleOpenCitation = (citation: Citation) => {
+      if (citation.kind !== 'entry') {
+          setActiveTab(citation.kind === 'task' ? 'tasks' : 'finance');
+          return;
+      }
+      handleOpenEntry(citation.id);
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'journal' || !highlightedEntryId) return;
+    const frame = requestAnimationFrame(() => {
+        document.getElementById(`entry-${highlightedEntryId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    const timer = setTimeout(() => setHighlightedEntryId(null), 3000);
+    return () => {
+        cancelAnimationFrame(frame);
+        clearTimeout(timer);
+    };
+  }, [activeTab, highlightedEntryId]);
+
   // --- Editing Logic ---
   const openEditModal = (entry: JournalEntry) => {
       setEditingEntry(entry);
-      setEditForm({ title: entry.title, content: entry.content });
+      setEditForm({ title: entry.title, content: entry.content, tags: entry.tags });
+      setEditUsedAI(false);
+      setShowHistory(false);
   };
 
-  const handleSaveEdit = () => {
+  const handleRestoreRevision = async (entry: JournalEntry) => {
+      setEditingEntry(entry);
+      setEditForm({ title: entry.title, content: entry.content, tags: entry.tags });
+      setEditUsedAI(false);
+      setShowHistory(false);
+  };
+
+  const handleSaveEdit = async () => {
       if (!editingEntry) return;
       const updatedEntry = {
           ...editingEntry,
           title: editForm.title,
           content: editForm.content,
+          tags: editForm.tags,
           lastModified: Date.now()
       };
-      saveEntry(updatedEntry);
+      // An edit that took in an accepted suggestion is recorded as an AI revision
+      await saveEntry(updatedEntry, editUsedAI ? 'ai' : 'manual');
       setEditingEntry(null);
-      loadData();
+  };
+
+  // Accepted AI toolbar suggestions: saved at once on a card, kept as unsaved edits in the modal
+  const handleApplyEntryAction = async (entry: JournalEntry, changes: EntryActionChanges) => {
+      await saveEntry({ ...entry, ...changes, lastModified: Date.now() }, 'ai');
+  };
+
+  const handleApplyEditAction = (changes: EntryActionChanges) => {
+      const { calendarEvents, ...fields } = changes;
+      setEditForm(prev => ({ ...prev, ...fields }));
+      setEditUsedAI(true);
+      if (calendarEvents && editingEntry) setEditingEntry({ ...editingEntry, calendarEvents });
   };
 
   // --- Auto-Sync Logic ---
-  const handleAutoSync = useCallback(async () => {
-      const messages = personalMessages;
-      const processedCountRef = personalProcessedCountRef;
-      
-      const newMessagesCount = messages.length - processedCountRef.current;
+  // Everything extracted is stamped with the workspace of the chat it came from
+  const handleAutoSync = useCallback(async (syncMode: JournalMode) => {
+      const messages = chatMessages[syncMode];
+      const processed = processedIdsRef.current[syncMode];
+      const newMessages = messages.filter(m => !processed.has(m.id));
       
-      if (newMessagesCount <= 0) return; 
+      if (newMessages.length === 0) return; 
 
       setIsAutoSaving(true);
       try {
-          const context = messages.slice(0, processedCountRef.current);
-          const newInput = messages.slice(processedCountRef.current);
-
-          // CRITICAL FIX: Update cursor immediately to prevent race conditions/duplicates
-          processedCountRef.current = messages.length;
-
-          // Extract Media from new messages to attach to the entry
-          const collectedMedia: { type: 'image'; content: string; mimeType: string }[] = [];
-          newInput.forEach(msg => {
-              if (msg.attachment && msg.attachment.type === 'image') {
-                  collectedMedia.push({
-                      type: 'image',
-                      content: msg.attachment.content,
-                      mimeType: msg.attachment.mimeType || 'image/jpeg'
-                  });
-              }
-          });
-
-          const generatedData = await generateEntryFromChat(newInput, context);
-          
-          // Generate an ID for linking
-          const entryId = Date.now().toString();
-
-          // Helper: Get raw user text (excluding attachment tags) to use as fallback
-          const rawUserText = newInput
-            .filter(m => m.role === 'user')
-            .map(m => m.text.replace(/\[Attachment:.*?\]/gi, '').trim())
-            .filter(t => t.length > 0)
-            .join('\n');
-          
-          // Determine if we should create a Journal Entry
-          const shouldCreateEntry = generatedData.hasContent === true || collectedMedia.length > 0;
-
-          // 1. Process Calendar Events
-          let newEvents: CalendarEvent[] = [];
-          if (generatedData.calendarEvents?.length > 0) {
-                newEvents = generatedData.calendarEvents
-                    .filter((evt: any) => {
-                         // Validate date format to prevent calendar crashes
-                         const start = new Date(evt.startTime);
-                         const end = new Date(evt.endTime);
-                         return !isNaN(start.getTime()) && !isNaN(end.getTime());
-                    })
-                    .map((evt: any, i: number) => ({
-                        ...evt,
-                        id: `${entryId}-evt-${i}`,
-                        linkedEntryId: shouldCreateEntry ? entryId : undefined
-                    }));
-                
-                if (newEvents.length > 0) {
-                     addCalendarEvents(newEvents);
-                }
-          }
-
-          // 2. Process Tasks
-          let newTasks: Task[] = [];
-          if (generatedData.tasks?.length > 0) {
-                newTasks = generatedData.tasks.map((t: any, i: number) => ({
-                    ...t,
-                    id: `${entryId}-task-${i}`,
-                    completed: false,
-                    linkedEntryId: shouldCreateEntry ? entryId : undefined,
-                    dueDate: t.dueDate || new Date().toISOString()
-                }));
-                saveTasks(newTasks);
-          }
-
-          // 3. Process Transactions
-          let newTxs: FinanceTransaction[] = [];
-          if (generatedData.transactions?.length > 0) {
-                newTxs = generatedData.transactions.map((tx: any, i: number) => ({
-                    ...tx,
-                    id: `${entryId}-tx-${i}`,
-                    linkedEntryId: shouldCreateEntry ? entryId : undefined,
-                    date: tx.date || new Date().toISOString()
-                }));
-                addTransactions(newTxs);
-          }
-
-          // 4. Save Entry (CONDITIONAL)
-          if (shouldCreateEntry) {
-                let finalTitle = generatedData.title;
-                let finalContent = generatedData.content;
-
-                // Fallback Title: Use user's typed text if AI failed to return a title
-                if (!finalTitle || finalTitle.trim() === "") {
-                    if (rawUserText) {
-                         const firstLine = rawUserText.split('\n')[0];
-                         finalTitle = firstLine.length > 50 ? firstLine.substring(0, 50) + "..." : firstLine;
-                    } else if (collectedMedia.length > 0) {
-                         finalTitle = "Photo Memory";
-                    } else {
-                         finalTitle = `Log: ${new Date().toLocaleTimeString()}`;
-                    }
-                }
-
-                // Fallback Content: Use user's typed text if AI failed to return content
-                if (!finalContent || finalContent.trim() === "") {
-                    if (rawUserText) {
-                        finalContent = rawUserText;
-                    }
-                    // If no text but has media, leave content empty (don't force "Media Entry")
-                }
+          // CRITICAL FIX: Mark them processed immediately to prevent race conditions/duplicates
+          newMessages.forEach(m => processed.add(m.id));
 
-                if (finalContent || collectedMedia.length > 0) {
-                    const newEntry: JournalEntry = {
-                        id: entryId,
-                        title: finalTitle,
-                        content: finalContent || "",
-                        date: new Date().toISOString(),
-                        mode: JournalMode.PERSONAL,
-                        tags: generatedData.tags || [],
-                        media: collectedMedia,
-                        tasks: newTasks,
-                        calendarEvents: newEvents,
-                        transactions: newTxs,
-                        lastModified: Date.now()
-                    };
-                    saveEntry(newEntry);
-                }
-          }
-          
-          // Refresh if any data was processed
-          if (shouldCreateEntry || newEvents.length > 0 || newTasks.length > 0 || newTxs.length > 0) {
-              loadData(); 
-          }
-          
+          // Once queued, the batch is kept until it is saved, even if this attempt fails
+          await queueChatExtraction(newMessages, messages.slice(0, messages.indexOf(newMessages[0])), syncMode);
       } catch (error) {
           console.error("Auto-sync failed", error);
+          // The batch was not queued: the same messages are tried again with the next sync
+          newMessages.forEach(m => processedIdsRef.current[syncMode].delete(m.id));
       } finally {
           setIsAutoSaving(false);
       }
-  }, [personalMessages]);
+  }, [chatMessages]);
 
   useEffect(() => {
-      const messages = personalMessages;
-      const processedCountRef = personalProcessedCountRef;
+      const messages = chatMessages[mode];
       
-      if (messages.length > processedCountRef.current) {
+      if (messages.some(m => !processedIdsRef.current[mode].has(m.id))) {
           if (autoSyncTimeoutRef.current) clearTimeout(autoSyncTimeoutRef.current);
           autoSyncTimeoutRef.current = setTimeout(() => {
-              handleAutoSync();
+              handleAutoSync(mode);
           }, 2000); 
       }
-  }, [personalMessages, handleAutoSync]);
+  }, [chatMessages, mode, handleAutoSync]);
 
   useEffect(() => {
       if (activeTab !== 'chat') {
            if (autoSyncTimeoutRef.current) {
                clearTimeout(autoSyncTimeoutRef.current);
-               handleAutoSync(); 
+               handleAutoSync(mode); 
            }
       }
-  }, [activeTab, handleAutoSync]);
+  }, [activeTab, mode, handleAutoSync]);
+
+  const runBackgroundSync = async () => {
+    try {
+        await syncNow();
+    } catch (error) {
+        // Failure is surfaced through the sync status indicator
+        console.warn("Sync failed", error);
+    }
+  };
+
+  // --- Trash Logic ---
+  const handleTrashed = useCallback((message: string, items: TrashItem[]) => {
+      setUndoState({ message, items });
+  }, []);
+
+  const dismissUndo = useCallback(() => setUndoState(null), []);
+
+  const handleUndoDelete = async () => {
+      if (!undoState) return;
+      const { items } = undoState;
+      setUndoState(null);
+      await restoreFromTrash(items);
+  };
+
+  const deleteEntryWithUndo = async (entry: JournalEntry, cascade: boolean) => {
+      setPendingDelete(null);
+      const trashed = await deleteEntry(entry.id, cascade);
+      const linkedCount = trashed.length - 1;
+      handleTrashed(linkedCount > 0 ? `Entry and ${linkedCount} linked item${linkedCount === 1 ? '' : 's'} moved to Trash` : "Entry moved to Trash", trashed);
+  };
+
+  // Asks what to do with linked items only when there are any
+  const handleDeleteEntry = async (entry: JournalEntry) => {
+      const { calendarEvents, tasks, transactions } = await getLinkedItems(entry.id);
+      if (calendarEvents.length + tasks.length + transactions.length === 0) {
+          await deleteEntryWithUndo(entry, false);
+          return;
+      }
+      setPendingDelete({ entry, linked: { calendarEvents: calendarEvents.length, tasks: tasks.length, transactions: transactions.length } });
+  };
+
+  // --- Restore Logic ---
+  useEffect(() => {
+      if (activeTab === 'settings') getRestoreSnapshotTime().then(setRestoreSnapshotAt);
+  }, [activeTab]);
+
+  const handleRestored = async (summary: string) => {
+      setPendingRestore(null);
+      setImportMessage(summary);
+      setImportStatus('success');
+      setTimeout(() => setImportStatus('idle'), 4000);
+      setRestoreSnapshotAt(await getRestoreSnapshotTime());
+      await reloadChat();
+  };
+
+  const handleRollbackRestore = async () => {
+      if (!restoreSnapshotAt) return;
+      if (!window.confirm(`Undo the last restore and return to your data from ${new Date(restoreSnapshotAt).toLocaleString()}?`)) return;
+      try {
+          await rollbackRestore();
+          setRestoreSnapshotAt(undefined);
+          setImportMessage('Restore rolled back');
+          setImportStatus('success');
+      } catch (error: any) {
+          setImportMessage(error?.message || '');
+          setImportStatus('error');
+      }
+      setTimeout(() => setImportStatus('idle'), 4000);
+      await reloadChat();
+  };
+
+  const handleConflictResolved = () => {
+    runBackgroundSync();
+  };
 
   const handleSync = async () => {
-    setIsSyncing(true);
-    await simulateCloudSync();
-    setIsSyncing(false);
+    if (syncStatus.phase === 'unconfigured' || syncStatus.conflicts) {
+        setActiveTab('settings');
+        return;
+    }
+    await runBackgroundSync();
   };
 
-  const handleExportData = () => {
-    const data = getAllData();
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const handleExportData = async () => {
+    // A zip of the JSON and the stored images, encrypted with the vault key when encryption is enabled
+    const blob = await createBackupArchive();
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `gemini_journal_backup_${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `gemini_journal_backup_${new Date().toISOString().split('T')[0]}.zip`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
     
     // Update Backup Time
-    updateLastBackupTime();
+    await updateLastBackupTime();
     setShowBackupReminder(false);
   };
 
+  // Backup archives (.zip) carry their images next to the JSON
+  const handleArchiveUpload = async (file: File) => {
+    setIsImporting(true);
+    setImportStatus('idle');
+    setImportMessage('');
+    try {
+        const { backup, files } = await readBackupArchive(new Uint8Array(await file.arrayBuffer()));
+        let passphrase: string | undefined;
+        if (isEncryptedBackup(backup)) {
+            passphrase = window.prompt("This backup is encrypted. Enter the passphrase it was created with:") || undefined;
+            if (!passphrase) throw new Error("Restore cancelled: passphrase required.");
+        }
+        setPendingRestore(await prepareRestore(backup, passphrase, files));
+    } catch (error: any) {
+        console.error("Archive Import Error", error);
+        setImportMessage(error?.message || '');
+        setImportStatus('error');
+        setTimeout(() => setImportStatus('idle'), 4000);
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith('.zip')) {
+        handleArchiveUpload(file);
+        e.target.value = '';
+        return;
+    }
+
     const reader = new FileReader();
     reader.onload = async (event) => {
         let text = event.target?.result as string;
         setIsImporting(true);
         setImportStatus('idle');
+        setImportMessage('');
 
         try {
             let cleanText = text.trim();
@@ -329,27 +623,34 @@ const App: React.FC = () => {
             }
 
             if (parsedData) {
-                if (parsedData.entries || parsedData.tasks || parsedData.finance || parsedData.calendar) {
-                    restoreData(parsedData);
-                    loadData();
-                    directImportSuccess = true;
+                if (isEncryptedBackup(parsedData)) {
+                    const passphrase = window.prompt("This backup is encrypted. Enter the passphrase it was created with:");
+                    if (!passphrase) throw new Error("Restore cancelled: passphrase required.");
+                    setPendingRestore(await prepareRestore(parsedData, passphrase));
+                    setIsImporting(false);
+                    return;
+                }
+                else if (parsedData.entries || parsedData.tasks || parsedData.finance || parsedData.calendar) {
+                    // Backups go through the restore wizard instead of overwriting
+                    setPendingRestore(await prepareRestore(parsedData));
+                    setIsImporting(false);
+                    return;
                 }
                 else if (Array.isArray(parsedData)) {
-                    const newEntries = parsedData.map((item: any) => ({
+                    const newEntries = await Promise.all(parsedData.map(async (item: any) => ({
                         id: item.id || (Date.now().toString() + Math.random()),
                         title: item.title || "Imported Entry",
                         content: item.content || (typeof item === 'string' ? item : JSON.stringify(item)),
                         date: item.date || new Date().toISOString(),
-                        mode: item.mode || JournalMode.PERSONAL,
+                        mode: Object.values(JournalMode).includes(item.mode) ? item.mode : mode,
                         tags: [...(item.tags || []), 'imported'],
-                        media: item.media || [],
+                        media: (await internMedia(item.media)) || [],
                         tasks: item.tasks || [],
                         calendarEvents: item.calendarEvents || [],
                         transactions: item.transactions || [],
                         lastModified: Date.now()
-                    }));
-                    newEntries.forEach((e: JournalEntry) => saveEntry(e));
-                    loadData();
+                    })));
+                    await Promise.all(newEntries.map((e: JournalEntry) => saveEntry(e, 'import')));
                     directImportSuccess = true;
                 }
             }
@@ -361,102 +662,29 @@ const App: React.FC = () => {
                 return;
             }
 
-            let data: any = {};
+            let result: ImportResult;
             try {
-                data = await processUploadedFile(text);
+                result = await importWithAI(text, mode);
             } catch (aiError) {
-                console.error("AI Processing failed", aiError);
-            }
-            
-            let addedCount = 0;
-            
-            if (data.entries?.length) {
-                const newEntries = data.entries.map((item: any) => ({
-                    id: Date.now().toString() + Math.random(),
-                    title: item.title || "Imported Entry",
-                    content: item.content || "",
-                    date: item.date || new Date().toISOString(),
-                    mode: JournalMode.PERSONAL,
-                    tags: [...(item.tags || []), 'imported'],
-                    lastModified: Date.now()
-                }));
-                newEntries.forEach((e: JournalEntry) => saveEntry(e));
-                addedCount += newEntries.length;
-            }
-
-            if (data.transactions?.length) {
-                    const newTxs = data.transactions.map((item: any) => ({
-                    id: Date.now().toString() + Math.random(),
-                    description: item.description || "Imported Tx",
-                    amount: item.amount || 0,
-                    type: item.type || 'expense',
-                    category: item.category || 'Uncategorized',
-                    date: item.date || new Date().toISOString()
-                }));
-                addTransactions(newTxs);
-                addedCount += newTxs.length;
-            }
-
-            if (data.tasks?.length) {
-                const newTasks = data.tasks.map((t: any) => ({
-                    id: Date.now().toString() + Math.random(),
-                    title: t.title || "Imported Task",
-                    completed: false,
-                    dueDate: t.dueDate || new Date().toISOString()
-                }));
-                saveTasks(newTasks);
-                addedCount += newTasks.length;
-            }
-
-            if (data.calendarEvents?.length) {
-                const newEvents = data.calendarEvents.map((evt: any) => ({
-                    id: Date.now().toString() + Math.random(),
-                    title: evt.title || "Imported Event",
-                    startTime: evt.startTime || new Date().toISOString(),
-                    endTime: evt.endTime || new Date(Date.now() + 3600000).toISOString(),
-                    description: evt.description || ""
-                }));
-                addCalendarEvents(newEvents);
-                addedCount += newEvents.length;
-            }
-
-            if (data.unstructured_summary && !addedCount) {
-                const summaryEntry: JournalEntry = {
-                    id: Date.now().toString(),
-                    title: "Imported Context File",
-                    content: data.unstructured_summary,
-                    date: new Date().toISOString(),
-                    mode: JournalMode.PERSONAL,
-                    tags: ['imported', 'context'],
-                    lastModified: Date.now()
-                };
-                saveEntry(summaryEntry);
-                addedCount++;
-            }
-
-            if (addedCount === 0 && text.trim().length > 0) {
-                 const rawEntry: JournalEntry = {
-                    id: Date.now().toString(),
-                    title: "Imported File (Raw)",
-                    content: text.substring(0, 100000), 
-                    date: new Date().toISOString(),
-                    mode: JournalMode.PERSONAL,
-                    tags: ['imported', 'raw'],
-                    lastModified: Date.now()
-                };
-                saveEntry(rawEntry);
-                addedCount++;
+                if (!isTemporaryAIError(aiError)) throw aiError;
+                // The AI cannot be reached for now: the file waits in the queue rather than being saved raw
+                await queueImport(file.name, text, mode);
+                setImportMessage(`queued. ${describeAIError(aiError)} It will be read once the AI is reachable again.`);
+                setImportStatus('success');
+                setTimeout(() => setImportStatus('idle'), 4000);
+                return;
             }
+            if (result.aiError) setImportMessage(`saved as raw text. ${describeAIError(result.aiError)}`);
 
-            if (addedCount > 0) {
-                loadData();
+            if (result.added > 0) {
                 setImportStatus('success');
             } else {
                 setImportStatus('error');
             }
             setTimeout(() => setImportStatus('idle'), 4000);
-        } catch (error) {
+        } catch (error: any) {
             console.error("Import Critical Error", error);
+            setImportMessage(error?.message || '');
             setImportStatus('error');
             setTimeout(() => setImportStatus('idle'), 4000);
         } finally {
@@ -467,17 +695,34 @@ const App: React.FC = () => {
     e.target.value = '';
   };
 
-  const updateCurrentChatMessages = (msgs: ChatMessage[]) => {
-      setPersonalMessages(msgs);
-      saveChatHistory(JournalMode.PERSONAL, msgs);
-      // Reset AI processing cursor if chat is cleared
+  // Takes the workspace explicitly, so a reply that arrives after switching lands in the chat it was asked in
+  const updateChatMessages = (chatMode: JournalMode, msgs: ChatMessage[]) => {
+      setChatMessages(prev => ({ ...prev, [chatMode]: msgs }));
+      saveChatHistory(chatMode, msgs).catch(error => console.error("Failed to save chat history", error));
+      // Reset AI processing tracking if chat is cleared
       if (msgs.length === 0) {
-          personalProcessedCountRef.current = 0;
+          processedIdsRef.current[chatMode] = new Set();
       }
   };
 
+  const workspaceEntries = useMemo(() => entries.filter(inWorkspace(mode)), [entries, mode]);
+  const workspaceTasks = useMemo(() => tasks.filter(inWorkspace(mode)), [tasks, mode]);
+  const workspaceEvents = useMemo(() => calendarEvents.filter(inWorkspace(mode)), [calendarEvents, mode]);
+  const workspaceMemories = useMemo(() => memories.filter(inWorkspace(mode)), [memories, mode]);
+
+  // Why parts of this chat are still waiting in the AI queue to be saved
+  const chatSaveError = useMemo(() => {
+      const unsaved = aiJobs.filter(job => job.kind === 'extraction' && job.mode === mode && job.lastError);
+      if (unsaved.length === 0) return null;
+      const latest = unsaved[unsaved.length - 1];
+      const parts = unsaved.length === 1 ? 'Part of this chat is' : `${unsaved.length} parts of this chat are`;
+      const next = unsaved.some(job => job.failed) ? 'Retry or discard it under Queued AI Work in Settings.' : 'It is kept and retried automatically.';
+      return `${parts} not saved yet. ${latest.lastError!.message} ${next}`;
+  }, [aiJobs, mode]);
+
   const filteredEntries = entries.filter(e => 
-    e.mode === JournalMode.PERSONAL && 
+    inWorkspace(mode, showAllModes)(e) && 
+    (!showDigestsOnly || isDigest(e)) &&
     (e.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
      e.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
      e.tags.some(t => t.toLowerCase().includes(searchQuery.toLowerCase())))
@@ -491,6 +736,17 @@ const App: React.FC = () => {
   });
   const sortedDateKeys = Object.keys(groupedEntries).sort((a,b) => new Date(b).getTime() - new Date(a).getTime());
 
+  if (vaultStatus === 'checking') {
+    return (
+        <div className="flex items-center justify-center h-[100dvh] bg-slate-950 text-slate-500">
+            <Loader2 size={24} className="animate-spin" />
+        </div>
+    );
+  }
+
+  if (vaultStatus === 'locked') {
+    return <UnlockScreen onUnlock={handleUnlock} />;
+  }
 
   return (
     <div className="flex flex-col md:flex-row h-[100dvh] bg-slate-950 text-slate-200 overflow-hidden relative">
@@ -532,11 +788,30 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
             <div className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
                 <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-950/50">
-                    <h3 className="font-bold text-white">Edit Entry</h3>
-                    <button onClick={() => setEditingEntry(null)} className="text-slate-400 hover:text-white p-1 hover:bg-slate-800 rounded-lg transition-colors">
-                        <X size={20} />
-                    </button>
+                    <h3 className="font-bold text-white">{showHistory ? 'Entry History' : 'Edit Entry'}</h3>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className={`p-1 rounded-lg transition-colors ${showHistory ? 'text-blue-400 bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                            title="Revision history"
+                        >
+                            <History size={20} />
+                        </button>
+                        <button onClick={() => setEditingEntry(null)} className="text-slate-400 hover:text-white p-1 hover:bg-slate-800 rounded-lg transition-colors">
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+                {showHistory ? (
+                <div className="p-4 flex-1 overflow-y-auto">
+                    <EntryHistoryPanel
+                        entryId={editingEntry.id}
+                        currentTitle={editForm.title}
+                        currentContent={editForm.content}
+                        onRestore={handleRestoreRevision}
+                    />
                 </div>
+                ) : (
                 <div className="p-4 flex-1 overflow-y-auto space-y-4">
                     <div>
                         <label className="block text-xs font-bold text-slate-500 mb-1.5 uppercase tracking-wide">Title</label>
@@ -556,7 +831,24 @@ const App: React.FC = () => {
                             placeholder="Journal content..."
                         />
                     </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 mb-1.5 uppercase tracking-wide">Tags</label>
+                        <input
+                            value={editForm.tags.join(', ')}
+                            onChange={e => setEditForm({...editForm, tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean)})}
+                            className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 transition-colors"
+                            placeholder="Tags, comma separated"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 mb-1.5 uppercase tracking-wide">AI Tools</label>
+                        <EntryAIToolbar
+                            entry={{ ...editingEntry, title: editForm.title, content: editForm.content, tags: editForm.tags }}
+                            onApply={handleApplyEditAction}
+                        />
+                    </div>
                 </div>
+                )}
                 <div className="p-4 border-t border-slate-800 flex justify-end gap-3 bg-slate-950/50">
                     <button 
                         onClick={() => setEditingEntry(null)}
@@ -575,44 +867,99 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {pendingDelete && (
+        <DeleteEntryDialog
+            entry={pendingDelete.entry}
+            linked={pendingDelete.linked}
+            onConfirm={(cascade) => deleteEntryWithUndo(pendingDelete.entry, cascade)}
+            onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {pendingRestore && (
+        <RestoreWizard
+            prepared={pendingRestore}
+            onClose={() => setPendingRestore(null)}
+            onRestored={handleRestored}
+        />
+      )}
+
+      {viewingMedia && (
+        <div onClick={() => setViewingMedia(null)} className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm animate-in fade-in cursor-zoom-out">
+            <MediaImage media={viewingMedia} alt="memory" className="max-w-full max-h-full object-contain rounded-lg" />
+        </div>
+      )}
+
+      {undoState && (
+        <UndoToast message={undoState.message} onUndo={handleUndoDelete} onDismiss={dismissUndo} />
+      )}
+
       <Sidebar 
         activeTab={activeTab} 
         setActiveTab={setActiveTab} 
         onSync={handleSync}
-        isSyncing={isSyncing}
+        syncStatus={syncStatus}
+        reviewCount={reviewItems.length + duplicates.length}
+        mode={mode}
+        onModeChange={handleModeChange}
+        showAllModes={showAllModes}
+        onToggleAllModes={() => setShowAllModes(!showAllModes)}
       />
       
       <main className="flex-1 flex flex-col h-full overflow-hidden relative pt-16 md:pt-0 pb-20 md:pb-0">
         
         {activeTab === 'chat' && (
             <ChatInterface 
-                messages={personalMessages}
-                onUpdateMessages={updateCurrentChatMessages}
+                key={mode}
+                mode={mode}
+                messages={chatMessages[mode]}
+                onUpdateMessages={msgs => updateChatMessages(mode, msgs)}
                 isConsolidating={isAutoSaving}
-                entries={entries}
-                tasks={tasks} // Pass tasks
-                calendarEvents={calendarEvents} // Pass calendar
+                consolidationError={chatSaveError}
+                entries={workspaceEntries}
+                tasks={workspaceTasks} // Pass tasks
+                calendarEvents={workspaceEvents} // Pass calendar
+                memories={workspaceMemories}
                 hasApiKey={hasConfiguredKey}
                 onOpenSettings={() => setActiveTab('settings')}
+                onOpenCitation={handleOpenCitation}
             />
         )}
 
         {/* CALENDAR VIEW - Added */}
         {activeTab === 'calendar' && (
             <div className="flex-1 p-4 md:p-6 overflow-hidden">
-                <CalendarWidget events={calendarEvents} onEventsChange={loadData} />
+                <CalendarWidget mode={mode} showAllModes={showAllModes} />
             </div>
         )}
 
         {activeTab === 'tasks' && (
             <div className="flex-1 p-4 md:p-6 overflow-hidden">
-                <TasksView tasks={tasks} onTasksChange={loadData} />
+                <TasksView mode={mode} showAllModes={showAllModes} onDeleted={handleTrashed} />
             </div>
         )}
 
         {activeTab === 'finance' && (
             <div className="flex-1 p-4 md:p-6 overflow-hidden">
-                <FinanceView transactions={transactions} onTransactionsChange={loadData} />
+                <FinanceView mode={mode} showAllModes={showAllModes} onDeleted={handleTrashed} />
+            </div>
+        )}
+
+        {activeTab === 'mood' && (
+            <div className="flex-1 p-4 md:p-6 overflow-hidden">
+                <MoodView mode={mode} showAllModes={showAllModes} hasApiKey={hasConfiguredKey} onOpenEntry={handleOpenEntry} />
+            </div>
+        )}
+
+        {activeTab === 'review' && (
+            <div className="flex-1 p-4 md:p-6 overflow-hidden">
+                <ReviewInbox items={reviewItems} messages={[...chatMessages[JournalMode.PERSONAL], ...chatMessages[JournalMode.PROFESSIONAL]]} duplicates={duplicates} onTrashed={handleTrashed} />
+            </div>
+        )}
+
+        {activeTab === 'trash' && (
+            <div className="flex-1 p-4 md:p-6 overflow-hidden">
+                <TrashView />
             </div>
         )}
 
@@ -621,15 +968,26 @@ const App: React.FC = () => {
              <div className="flex flex-col h-full bg-slate-950">
                 {/* Search Header */}
                 <div className="h-16 border-b border-slate-800 bg-slate-950/80 backdrop-blur-md flex items-center justify-between px-4 z-20 shrink-0 sticky top-0">
-                    <div className="relative w-full max-w-2xl mx-auto">
-                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 w-4 h-4" />
-                        <input 
-                            type="text" 
-                            placeholder="Search memories..."
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className="w-full bg-slate-900 border border-slate-800 rounded-full pl-10 pr-4 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors"
-                        />
+                    <div className="w-full max-w-2xl mx-auto flex items-center gap-2">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 w-4 h-4" />
+                            <input 
+                                type="text" 
+                                placeholder="Search memories..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="w-full bg-slate-900 border border-slate-800 rounded-full pl-10 pr-4 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors"
+                            />
+                        </div>
+                        <button
+                            onClick={() => setShowDigestsOnly(!showDigestsOnly)}
+                            title={showDigestsOnly ? "Show all entries" : "Show weekly and monthly digests only"}
+                            className={`p-2 rounded-full border transition-colors shrink-0 ${
+                                showDigestsOnly ? 'bg-purple-500/20 border-purple-500/40 text-purple-300' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-300'
+                            }`}
+                        >
+                            <Newspaper size={16} />
+                        </button>
                     </div>
                 </div>
 
@@ -657,15 +1015,19 @@ const App: React.FC = () => {
                                 {/* Cards Grid for this Date */}
                                 <div className="space-y-6">
                                     {groupedEntries[dateKey].map(entry => {
-                                        const hasBill = entry.tags.some(t => t.toLowerCase().includes('bill') || t.toLowerCase().includes('receipt'));
+                                        const taggedBill = entry.tags.some(t => t.toLowerCase().includes('bill') || t.toLowerCase().includes('receipt'));
+                                        const readReceiptIds = new Set((entry.transactions || []).map(tx => tx.receipt?.mediaId));
                                         
                                         return (
-                                            <div key={entry.id} className="bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 shadow-sm relative group">
+                                            <div key={entry.id} id={`entry-${entry.id}`} className={`bg-slate-900 rounded-2xl overflow-hidden border shadow-sm relative group transition-colors ${highlightedEntryId === entry.id ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-slate-800'}`}>
                                                 
                                                 {/* Header: Title & Actions */}
                                                 <div className="p-4 pb-2">
                                                     <div className="flex justify-between items-start gap-4">
-                                                        <h4 className="font-semibold text-slate-100 text-base leading-snug">{entry.title}</h4>
+                                                        <h4 className="font-semibold text-slate-100 text-base leading-snug flex items-center gap-2">
+                                                            {isDigest(entry) && <Newspaper size={16} className="text-purple-400 shrink-0" />}
+                                                            {entry.title}
+                                                        </h4>
                                                         
                                                         <div className="flex items-center gap-1 bg-slate-950/50 rounded-lg p-1 border border-slate-800/50">
                                                             <button 
@@ -677,12 +1039,7 @@ const App: React.FC = () => {
                                                             </button>
                                                             <div className="w-px h-4 bg-slate-800"></div>
                                                             <button 
-                                                                onClick={() => {
-                                                                    if(confirm('Are you sure you want to delete this memory? This cannot be undone.')) {
-                                                                        deleteEntry(entry.id);
-                                                                        loadData();
-                                                                    }
-                                                                }}
+                                                                onClick={() => handleDeleteEntry(entry)}
                                                                 className="text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors p-1.5 rounded-md"
                                                                 title="Delete Entry"
                                                             >
@@ -696,20 +1053,20 @@ const App: React.FC = () => {
                                                 {entry.media && entry.media.length > 0 && (
                                                     <div className="mt-2 mb-2 overflow-x-auto flex gap-2 px-4 pb-2 snap-x">
                                                         {entry.media.map((m, idx) => (
-                                                            <div key={idx} className="snap-center shrink-0 relative rounded-lg overflow-hidden border border-slate-800 bg-black max-w-[200px] max-h-[250px] flex items-center justify-center">
-                                                                <img 
-                                                                    src={`data:${m.mimeType};base64,${m.content}`} 
-                                                                    alt="memory" 
+                                                            <button key={idx} onClick={() => setViewingMedia(m)} className="snap-center shrink-0 relative rounded-lg overflow-hidden border border-slate-800 bg-black max-w-[200px] max-h-[250px] flex items-center justify-center">
+                                                                <MediaImage
+                                                                    media={m}
+                                                                    thumbnail
+                                                                    alt="memory"
                                                                     className="max-w-full max-h-[250px] object-contain"
-                                                                    loading="lazy"
                                                                 />
                                                                 {/* Overlay for Bills */}
-                                                                {hasBill && (
+                                                                {(taggedBill || readReceiptIds.has(m.mediaId)) && (
                                                                     <div className="absolute top-2 right-2 bg-black/60 backdrop-blur-md p-1.5 rounded-full border border-white/10">
                                                                         <Receipt size={12} className="text-green-400" />
                                                                     </div>
                                                                 )}
-                                                            </div>
+                                                            </button>
                                                         ))}
                                                     </div>
                                                 )}
@@ -779,6 +1136,9 @@ const App: React.FC = () => {
                                                                         <div className="flex items-center gap-2">
                                                                             <div className={`mt-0.5 w-1 h-1 rounded-full shrink-0 ${tx.type === 'income' ? 'bg-emerald-500' : 'bg-rose-500'}`}></div>
                                                                             <span>{tx.description}</span>
+                                                                            {tx.receipt?.typedAmount !== undefined && (
+                                                                                <span className="text-[10px] text-amber-400" title={`Receipt total ₹${tx.receipt.total}`}>(you wrote {tx.receipt.typedAmount})</span>
+                                                                            )}
                                                                         </div>
                                                                         <span className={tx.type === 'income' ? 'text-emerald-400' : 'text-rose-400'}>
                                                                             {tx.amount}
@@ -789,10 +1149,23 @@ const App: React.FC = () => {
                                                         </div>
                                                     )}
 
+                                                    {entry.tags.length > 0 && (
+                                                        <div className="flex flex-wrap gap-1.5">
+                                                            {entry.tags.map(tag => (
+                                                                <span key={tag} className="text-[10px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400">#{tag}</span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+
+                                                    <div className="pt-2 border-t border-slate-800/30 space-y-2">
+                                                        <EntryAIToolbar entry={entry} onApply={changes => handleApplyEntryAction(entry, changes)} />
+                                                        <ReceiptScanner entry={entry} onTrashed={handleTrashed} />
+                                                    </div>
+
                                                     <div className="mt-3 pt-2 border-t border-slate-800/30 text-[10px] text-slate-600 flex items-center gap-1">
                                                         <span>{new Date(entry.date).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</span>
                                                         <span>•</span>
-                                                        <span>Personal Log</span>
+                                                        <span>{isDigest(entry) ? 'Digest' : modeOf(entry) === JournalMode.PROFESSIONAL ? 'Work Log' : 'Personal Log'}</span>
                                                     </div>
                                                 </div>
                                             </div>
@@ -817,6 +1190,10 @@ const App: React.FC = () => {
                         <div className="p-4 bg-slate-950/50 border-b border-slate-800">
                             <h3 className="font-semibold text-slate-200">AI Configuration</h3>
                         </div>
+                        <AIProviderSettings onChange={handleAIConfigChanged} />
+                        <AIUsageSettings key={aiConfigVersion} />
+                        <AIQueueSettings jobs={aiJobs} />
+                        <PrivacySettings />
                         <div className="p-6">
                              <div className="flex items-start gap-4">
                                 <div className="p-3 bg-blue-500/10 rounded-lg text-blue-500 shrink-0">
@@ -846,8 +1223,123 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         </div>
+                        <div className="p-6 border-t border-slate-800">
+                             <div className="flex items-start gap-4">
+                                <div className="p-3 bg-amber-500/10 rounded-lg text-amber-500 shrink-0">
+                                    <ClipboardCheck size={24} />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <h4 className="font-medium text-slate-200 mb-1">Review Before Save</h4>
+                                    <p className="text-sm text-slate-500 mb-4 leading-relaxed">
+                                        Hold entries, events, tasks and transactions the AI extracts from the chat in the Review inbox until you approve them, instead of saving them straight away.
+                                    </p>
+                                    <button
+                                        onClick={handleToggleReviewBeforeSave}
+                                        className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                            reviewBeforeSave ? 'bg-amber-500/10 border-amber-500/40 text-amber-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                                        }`}
+                                    >
+                                        <span className={`w-8 h-4 rounded-full relative transition-colors ${reviewBeforeSave ? 'bg-amber-500' : 'bg-slate-600'}`}>
+                                            <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${reviewBeforeSave ? 'left-4' : 'left-0.5'}`} />
+                                        </span>
+                                        {reviewBeforeSave ? 'On' : 'Off'}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="p-6 border-t border-slate-800">
+                             <div className="flex items-start gap-4">
+                                <div className="p-3 bg-green-500/10 rounded-lg text-green-500 shrink-0">
+                                    <Receipt size={24} />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <h4 className="font-medium text-slate-200 mb-1">Split Receipts by Item</h4>
+                                    <p className="text-sm text-slate-500 mb-4 leading-relaxed">
+                                        Record each line of a photographed receipt as its own transaction, with tax on a separate line, instead of one transaction for the total.
+                                    </p>
+                                    <button
+                                        onClick={handleToggleSplitReceipts}
+                                        className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                            splitReceipts ? 'bg-green-500/10 border-green-500/40 text-green-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                                        }`}
+                                    >
+                                        <span className={`w-8 h-4 rounded-full relative transition-colors ${splitReceipts ? 'bg-green-500' : 'bg-slate-600'}`}>
+                                            <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${splitReceipts ? 'left-4' : 'left-0.5'}`} />
+                                        </span>
+                                        {splitReceipts ? 'On' : 'Off'}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="p-6 border-t border-slate-800">
+                             <div className="flex items-start gap-4">
+                                <div className="p-3 bg-purple-500/10 rounded-lg text-purple-500 shrink-0">
+                                    <Newspaper size={24} />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <h4 className="font-medium text-slate-200 mb-1">Weekly & Monthly Digests</h4>
+                                    <p className="text-sm text-slate-500 mb-4 leading-relaxed">
+                                        When a week or month ends, write an entry tagged #digest with its highlights, recurring themes, tasks, events and spending, compared with the period before.
+                                    </p>
+                                    <div className="flex flex-wrap gap-3">
+                                        {(['week', 'month'] as DigestPeriod[]).map(period => (
+                                            <div key={period} className="flex items-center gap-2">
+                                                <button
+                                                    onClick={() => handleToggleDigest(period)}
+                                                    className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                                        digestSchedule[period] ? 'bg-purple-500/10 border-purple-500/40 text-purple-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                                                    }`}
+                                                >
+                                                    <span className={`w-8 h-4 rounded-full relative transition-colors ${digestSchedule[period] ? 'bg-purple-500' : 'bg-slate-600'}`}>
+                                                        <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${digestSchedule[period] ? 'left-4' : 'left-0.5'}`} />
+                                                    </span>
+                                                    {period === 'week' ? 'Weekly' : 'Monthly'}
+                                                </button>
+                                                <button
+                                                    onClick={() => handleWriteDigestNow(period)}
+                                                    disabled={!!writingDigest}
+                                                    className="px-3 py-2 text-xs text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50"
+                                                >
+                                                    {writingDigest === period && <Loader2 size={12} className="animate-spin" />}
+                                                    This {period} so far
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
                      </div>
                      
+                     {/* Privacy & Security Section */}
+                     <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden mb-8">
+                        <div className="p-4 bg-slate-950/50 border-b border-slate-800">
+                            <h3 className="font-semibold text-slate-200">Privacy & Security</h3>
+                        </div>
+                        <VaultSettings 
+                            status={vaultStatus}
+                            onStatusChange={setVaultStatus}
+                            onAutoLockChange={setAutoLockMinutes}
+                        />
+                     </div>
+
+                     {/* Cloud Sync Section */}
+                     <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden mb-8">
+                        <div className="p-4 bg-slate-950/50 border-b border-slate-800">
+                            <h3 className="font-semibold text-slate-200">Cloud Sync</h3>
+                        </div>
+                        <SyncSettings status={syncStatus} onSync={runBackgroundSync} />
+                        <ConflictInbox conflictCount={syncStatus.conflicts || 0} onResolved={handleConflictResolved} />
+                     </div>
+
+                     {/* Storage Section */}
+                     <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden mb-8">
+                        <div className="p-4 bg-slate-950/50 border-b border-slate-800">
+                            <h3 className="font-semibold text-slate-200">Storage</h3>
+                        </div>
+                        <StorageUsagePanel />
+                     </div>
+
                      {/* Data Management Section */}
                      <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden mb-8">
                         <div className="p-4 bg-slate-950/50 border-b border-slate-800">
@@ -863,14 +1355,14 @@ const App: React.FC = () => {
                                 <div className="flex-1">
                                     <h4 className="font-medium text-slate-200 mb-1">Backup Data to Drive</h4>
                                     <p className="text-sm text-slate-500 mb-4 leading-relaxed">
-                                        Save your entire journal history to a JSON file. Upload this file to your Google Drive to keep it safe.
+                                        Save your entire journal history and its photos to a zip file. Upload this file to your Google Drive to keep it safe.
                                     </p>
                                     <button 
                                         onClick={handleExportData}
                                         className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all text-sm font-medium group"
                                     >
                                         <Download size={16} className="text-purple-400 group-hover:text-purple-300" />
-                                        <span>Backup to Device / Drive (.json)</span>
+                                        <span>Backup to Device / Drive (.zip)</span>
                                     </button>
                                 </div>
                             </div>
@@ -885,7 +1377,7 @@ const App: React.FC = () => {
                                 <div className="flex-1">
                                     <h4 className="font-medium text-slate-200 mb-1">Import / Restore</h4>
                                     <p className="text-sm text-slate-500 mb-4 leading-relaxed">
-                                        Upload a backup file (<code>.json</code>) to restore data, or a text file (<code>.txt</code>) for Gemini to analyze.
+                                        Upload a backup file (<code>.zip</code> or <code>.json</code>) to restore data, or a text file (<code>.txt</code>) for Gemini to analyze.
                                     </p>
                                     
                                     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
@@ -894,7 +1386,7 @@ const App: React.FC = () => {
                                             <span className="text-sm font-medium">Select File</span>
                                             <input 
                                                 type="file" 
-                                                accept=".txt,.json"
+                                                accept=".txt,.json,.zip"
                                                 className="hidden"
                                                 onChange={handleFileUpload}
                                                 disabled={isImporting}
@@ -911,17 +1403,49 @@ const App: React.FC = () => {
                                         {!isImporting && importStatus === 'success' && (
                                             <div className="flex items-center gap-2 text-green-500 text-sm animate-in fade-in slide-in-from-left-4">
                                                 <CheckCircle size={16} />
-                                                <span>Success!</span>
+                                                <span>Success!{importMessage && ` (${importMessage})`}</span>
                                             </div>
                                         )}
                                         
                                         {!isImporting && importStatus === 'error' && (
                                             <div className="flex items-center gap-2 text-red-400 text-sm animate-in fade-in slide-in-from-left-4">
                                                 <AlertCircle size={16} />
-                                                <span>Failed. Try again.</span>
+                                                <span>{importMessage || 'Failed. Try again.'}</span>
                                             </div>
                                         )}
                                     </div>
+
+                                    {restoreSnapshotAt && (
+                                        <button
+                                            onClick={handleRollbackRestore}
+                                            className="mt-4 flex items-center gap-2 text-xs font-medium text-amber-400 hover:text-amber-300 transition-colors"
+                                        >
+                                            <RefreshCw size={12} />
+                                            Roll back last restore (data from {new Date(restoreSnapshotAt).toLocaleString()})
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Trash */}
+                        <div className="p-6">
+                            <div className="flex items-start gap-4">
+                                <div className="p-3 bg-red-500/10 rounded-lg text-red-400 shrink-0">
+                                    <Trash2 size={24} />
+                                </div>
+                                <div className="flex-1">
+                                    <h4 className="font-medium text-slate-200 mb-1">Trash</h4>
+                                    <p className="text-sm text-slate-500 mb-4 leading-relaxed">
+                                        Deleted entries, tasks, events and transactions can be restored from here until they expire.
+                                    </p>
+                                    <button 
+                                        onClick={() => setActiveTab('trash')}
+                                        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all text-sm font-medium"
+                                    >
+                                        <Trash2 size={16} className="text-red-400" />
+                                        <span>Open Trash</span>
+                                    </button>
                                 </div>
                             </div>
                         </div>
@@ -948,7 +1472,7 @@ const App: React.FC = () => {
                             }}
                             className="flex items-center gap-2 px-4 py-2 bg-slate-800 rounded-full text-xs font-bold text-blue-400 hover:bg-slate-700 transition-colors"
                         >
-                            <RefreshCw size={12} className={isSyncing ? "animate-spin" : ""} />
+                            <RefreshCw size={12} className={syncStatus.phase === 'syncing' ? "animate-spin" : ""} />
                             Check for Updates / Reload
                         </button>
                      </div>
@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquare, X, Send, Sparkles } from 'lucide-react';
 import { ChatMessage, JournalEntry } from '../types';
 import { chatWithJournal } from '../services/geminiService';
+import { describeAIError } from '../services/llmProvider';
+import CitationList from './CitationList';
 
 interface AIChatProps {
   entries: JournalEntry[];
@@ -32,17 +34,18 @@ const AIChat: React.FC<AIChatProps> = ({ entries }) => {
 
     try {
         const history = [...messages, userMsg].map(m => ({ role: m.role, text: m.text }));
-        const responseText = await chatWithJournal(history, entries);
+        const reply = await chatWithJournal(history, entries);
         
         const aiMsg: ChatMessage = { 
             id: (Date.now() + 1).toString(), 
             role: 'model', 
-            text: responseText || "I'm having trouble thinking right now.", 
-            timestamp: Date.now() 
+            text: reply.text,
+            timestamp: Date.now(),
+            citations: reply.citations
         };
         setMessages(prev => [...prev, aiMsg]);
     } catch (e) {
-        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: "Sorry, I couldn't connect to Gemini.", timestamp: Date.now() }]);
+        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: `⚠️ ${describeAIError(e)}`, timestamp: Date.now() }]);
     } finally {
         setIsLoading(false);
     }
@@ -82,6 +85,7 @@ const AIChat: React.FC<AIChatProps> = ({ entries }) => {
                             : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
                         }`}>
                             {msg.text}
+                            {msg.citations && msg.citations.length > 0 && <CitationList citations={msg.citations} />}
                         </div>
                     </div>
                 ))}
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Cpu, Save, CheckCircle } from 'lucide-react';
+import { ProviderId, getProviderConfig, saveProviderConfig } from '../services/llmProvider';
+
+interface AIProviderSettingsProps {
+  onChange: () => void;
+}
+
+const PROVIDERS: { id: ProviderId; label: string; description: string }[] = [
+    { id: 'gemini', label: 'Gemini', description: 'Google Gemini with search grounding. Needs the API key below.' },
+    { id: 'openai', label: 'Local / OpenAI-compatible', description: 'Any server with an OpenAI-style /chat/completions endpoint, such as llama.cpp, Ollama or LM Studio.' },
+    { id: 'mock', label: 'Offline demo', description: 'Canned replies generated on this device. Nothing is sent anywhere; useful for trying the app without a model.' }
+];
+
+const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({ onChange }) => {
+  const initial = getProviderConfig();
+  const [provider, setProvider] = useState<ProviderId>(initial.provider);
+  const [baseUrl, setBaseUrl] = useState(initial.openai?.baseUrl || '');
+  const [model, setModel] = useState(initial.openai?.model || '');
+  const [fallbackModel, setFallbackModel] = useState(initial.openai?.fallbackModel || '');
+  const [apiKey, setApiKey] = useState(initial.openai?.apiKey || '');
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+      await saveProviderConfig({ provider, openai: baseUrl.trim() ? { baseUrl, model, fallbackModel, apiKey } : undefined });
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      onChange();
+  };
+
+  const inputClass = "flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 w-full";
+
+  return (
+    <div className="p-6 border-b border-slate-800">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-purple-500/10 rounded-lg text-purple-500 shrink-0">
+                <Cpu size={24} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">AI Provider</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        {PROVIDERS.find(p => p.id === provider)?.description}
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {PROVIDERS.map(p => (
+                        <button
+                            key={p.id}
+                            onClick={() => setProvider(p.id)}
+                            className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${provider === p.id ? 'bg-purple-600/20 border-purple-500 text-purple-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                        >
+                            {p.label}
+                        </button>
+                    ))}
+                </div>
+
+                {provider === 'openai' && (
+                    <div className="space-y-3">
+                        <input
+                            type="url"
+                            placeholder="http://localhost:11434/v1"
+                            value={baseUrl}
+                            onChange={(e) => setBaseUrl(e.target.value)}
+                            className={inputClass}
+                        />
+                        <div className="flex flex-col sm:flex-row gap-3">
+                            <input
+                                type="text"
+                                placeholder="Model (e.g. llama3.1)"
+                                value={model}
+                                onChange={(e) => setModel(e.target.value)}
+                                className={inputClass}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Fallback model (optional)"
+                                value={fallbackModel}
+                                onChange={(e) => setFallbackModel(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <input
+                            type="password"
+                            placeholder="API key (optional, stored on this device)"
+                            value={apiKey}
+                            onChange={(e) => setApiKey(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 text-sm font-medium transition-colors flex items-center gap-2"
+                >
+                    {saved ? <CheckCircle size={16} /> : <Save size={16} />}
+                    {saved ? 'Saved' : 'Save Provider'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default AIProviderSettings;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Hourglass, Database, RotateCw, Trash2, Loader2 } from 'lucide-react';
+import { AIJob, AIJobKind, JournalMode } from '../types';
+import { retryAIJobs, discardAIJobs } from '../services/aiQueueService';
+import { getResponseCacheSize, clearResponseCache } from '../services/llmPipeline';
+import { formatBytes } from '../services/mediaService';
+
+interface AIQueueSettingsProps {
+  jobs: AIJob[]; // Oldest first
+}
+
+const describeJob = (job: AIJob): string => {
+    const workspace = job.mode === JournalMode.PROFESSIONAL ? 'work' : 'personal';
+    switch (job.kind) {
+        case 'extraction': return `Saving ${job.messages.length} ${workspace} chat message${job.messages.length === 1 ? '' : 's'}`;
+        case 'import': return `Importing ${job.fileName}`;
+        case 'digest': return `${job.period === 'month' ? 'Monthly' : 'Weekly'} digest`;
+    }
+};
+
+const KIND_COLORS: Record<AIJobKind, string> = {
+    extraction: 'text-purple-400',
+    import: 'text-emerald-400',
+    digest: 'text-blue-400'
+};
+
+// AI work waiting to be retried, and the cache of answers that spares repeated requests
+const AIQueueSettings: React.FC<AIQueueSettingsProps> = ({ jobs }) => {
+  const [retrying, setRetrying] = useState(false);
+  const [cacheSize, setCacheSize] = useState<{ count: number; bytes: number } | null>(null);
+
+  const loadCacheSize = () => {
+      getResponseCacheSize().then(setCacheSize).catch(error => console.error("Failed to measure the response cache", error));
+  };
+
+  useEffect(loadCacheSize, []);
+
+  const handleRetry = async () => {
+      setRetrying(true);
+      try {
+          await retryAIJobs();
+      } finally {
+          setRetrying(false);
+      }
+  };
+
+  const handleClearCache = async () => {
+      await clearResponseCache();
+      loadCacheSize();
+  };
+
+  return (
+    <>
+        <div className="p-6 border-b border-slate-800">
+            <div className="flex items-start gap-4">
+                <div className="p-3 bg-orange-500/10 rounded-lg text-orange-500 shrink-0">
+                    <Hourglass size={24} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-4">
+                    <div>
+                        <h4 className="font-medium text-slate-200 mb-1">Queued AI Work</h4>
+                        <p className="text-sm text-slate-500 leading-relaxed">
+                            Chat to save, files to import and digests to write that the AI could not handle yet. They are kept across reloads and retried when the connection, rate limit or daily budget allows.
+                        </p>
+                    </div>
+
+                    {jobs.length === 0 ? (
+                        <p className="text-xs text-slate-500">Nothing is waiting.</p>
+                    ) : (
+                        <>
+                            <div className="space-y-2">
+                                {jobs.map(job => (
+                                    <div key={job.id} className="p-3 rounded-lg bg-slate-950 border border-slate-800 space-y-1">
+                                        <div className="flex items-center justify-between gap-3 text-sm">
+                                            <span className={`truncate ${KIND_COLORS[job.kind]}`}>{describeJob(job)}</span>
+                                            <button onClick={() => discardAIJobs([job.id])} className="p-1 text-slate-500 hover:text-red-400 shrink-0" title="Discard">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-slate-500">
+                                            Queued {new Date(job.createdAt).toLocaleString()}
+                                            {job.attempts > 0 && ` · ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}`}
+                                            {job.attempts > 0 && (job.failed ? ' · stopped' : ` · next try ${new Date(job.nextAttemptAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`)}
+                                        </p>
+                                        {job.lastError && <p className={`text-xs ${job.failed ? 'text-red-400' : 'text-amber-400/80'}`}>{job.lastError.message}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                onClick={handleRetry}
+                                disabled={retrying}
+                                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                {retrying ? <Loader2 size={16} className="animate-spin text-orange-400" /> : <RotateCw size={16} className="text-orange-400" />}
+                                Retry Now
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+
+        <div className="p-6 border-b border-slate-800">
+            <div className="flex items-start gap-4">
+                <div className="p-3 bg-cyan-500/10 rounded-lg text-cyan-500 shrink-0">
+                    <Database size={24} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-4">
+                    <div>
+                        <h4 className="font-medium text-slate-200 mb-1">Response Cache</h4>
+                        <p className="text-sm text-slate-500 leading-relaxed">
+                            Answers to imports, auto-saves, receipts, mood scores and digests are kept for 30 days, so sending the exact same request again (like re-importing a file) does not use the AI budget.
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-xs text-slate-500">
+                            {cacheSize ? `${cacheSize.count} answer${cacheSize.count === 1 ? '' : 's'}, ${formatBytes(cacheSize.bytes)}` : 'Measuring…'}
+                        </span>
+                        {cacheSize && cacheSize.count > 0 && (
+                            <button onClick={handleClearCache} className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-400">
+                                <Trash2 size={12} /> Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    </>
+  );
+};
+
+export default AIQueueSettings;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, ListOrdered, ChevronUp, ChevronDown, X, Plus, RotateCcw, CheckCircle, Save } from 'lucide-react';
+import { getActiveProvider } from '../services/llmProvider';
+import {
+    ModelChainKind, MODEL_CHAIN_KINDS, RequestBudget, DailyUsage,
+    getModelChain, getDefaultModelChain, saveModelChain, getRequestBudget, setRequestBudget, getDailyUsage, onUsageChange
+} from '../services/llmPipeline';
+
+const KIND_LABELS: Record<ModelChainKind, { label: string; description: string }> = {
+    chat: { label: 'Chat', description: 'The companion chat and the journal assistant' },
+    extraction: { label: 'Extraction', description: 'Auto-saving chats, memory, entry actions, mood, receipts and digests' },
+    import: { label: 'Import', description: 'Reading imported files' },
+    finance: { label: 'Finance', description: 'The finance assistant' }
+};
+
+const BAR_COLORS: Record<ModelChainKind, string> = {
+    chat: 'bg-blue-500',
+    extraction: 'bg-purple-500',
+    import: 'bg-emerald-500',
+    finance: 'bg-amber-500'
+};
+
+const Meter: React.FC<{ label: string; used: number; limit?: number; usage: DailyUsage; field: 'requests' | 'tokens' }> = ({ label, used, limit, usage, field }) => {
+  const total = Math.max(limit || used, 1);
+  return (
+    <div className="space-y-1.5">
+        <div className="flex justify-between text-xs">
+            <span className="text-slate-300">{label}</span>
+            <span className={limit && used >= limit ? 'text-red-400' : 'text-slate-500'}>
+                {used.toLocaleString()}{limit ? ` / ${limit.toLocaleString()}` : ' (no limit)'}
+            </span>
+        </div>
+        <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+            {MODEL_CHAIN_KINDS.map(kind => (
+                <div key={kind} className={BAR_COLORS[kind]} style={{ width: `${Math.min(100, ((usage.byKind[kind]?.[field] || 0) / total) * 100)}%` }} />
+            ))}
+        </div>
+    </div>
+  );
+};
+
+// Today's AI usage against the daily budget, and the order models are tried in for each kind of request
+const AIUsageSettings: React.FC = () => {
+  const provider = getActiveProvider();
+  const [usage, setUsage] = useState<DailyUsage | null>(null);
+  const [budget, setBudget] = useState<RequestBudget>({});
+  const [budgetSaved, setBudgetSaved] = useState(false);
+  const [chains, setChains] = useState<Record<ModelChainKind, string[]>>(() =>
+      Object.fromEntries(MODEL_CHAIN_KINDS.map(kind => [kind, getModelChain(kind, provider)])) as Record<ModelChainKind, string[]>
+  );
+  const [newModels, setNewModels] = useState<Partial<Record<ModelChainKind, string>>>({});
+
+  useEffect(() => {
+      getDailyUsage().then(setUsage).catch(error => console.error("Failed to load AI usage", error));
+      getRequestBudget().then(setBudget).catch(error => console.error("Failed to load AI budget", error));
+      return onUsageChange(setUsage);
+  }, []);
+
+  const handleSaveBudget = async () => {
+      await setRequestBudget({ requests: budget.requests || undefined, tokens: budget.tokens || undefined });
+      setBudgetSaved(true);
+      setTimeout(() => setBudgetSaved(false), 2000);
+  };
+
+  const updateChain = (kind: ModelChainKind, models: string[]) => {
+      saveModelChain(provider.id, kind, models);
+      setChains(prev => ({ ...prev, [kind]: getModelChain(kind, provider) }));
+  };
+
+  const move = (kind: ModelChainKind, index: number, by: number) => {
+      const models = [...chains[kind]];
+      [models[index], models[index + by]] = [models[index + by], models[index]];
+      updateChain(kind, models);
+  };
+
+  const handleAdd = (kind: ModelChainKind) => {
+      const model = newModels[kind]?.trim();
+      if (!model) return;
+      updateChain(kind, [...chains[kind], model]);
+      setNewModels(prev => ({ ...prev, [kind]: '' }));
+  };
+
+  const defaults = getDefaultModelChain(provider);
+  const isDefault = (kind: ModelChainKind) => chains[kind].join('\n') === defaults.join('\n');
+  const inputClass = "bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 w-full";
+
+  return (
+    <>
+        <div className="p-6 border-b border-slate-800">
+            <div className="flex items-start gap-4">
+                <div className="p-3 bg-sky-500/10 rounded-lg text-sky-500 shrink-0">
+                    <Gauge size={24} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-4">
+                    <div>
+                        <h4 className="font-medium text-slate-200 mb-1">Daily AI Budget</h4>
+                        <p className="text-sm text-slate-500 leading-relaxed">
+                            Requests to the AI provider today, retries and fallbacks included. Token counts are estimated from the length of what is sent and received. Once a limit is reached, AI features stop until midnight.
+                        </p>
+                    </div>
+
+                    {usage && (
+                        <>
+                            <Meter label="Requests" used={usage.requests} limit={budget.requests} usage={usage} field="requests" />
+                            <Meter label="Tokens (estimated)" used={usage.tokens} limit={budget.tokens} usage={usage} field="tokens" />
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1.5">
+                                {MODEL_CHAIN_KINDS.map(kind => (
+                                    <div key={kind} className="flex items-center gap-2 text-xs">
+                                        <span className={`w-2 h-2 rounded-full shrink-0 ${BAR_COLORS[kind]}`} />
+                                        <span className="text-slate-300 flex-1 truncate">{KIND_LABELS[kind].label}</span>
+                                        <span className="text-slate-500">{usage.byKind[kind]?.requests || 0}</span>
+                                        <span className="text-slate-400 w-20 text-right">~{(usage.byKind[kind]?.tokens || 0).toLocaleString()}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            {usage.failed > 0 && <p className="text-xs text-slate-500">{usage.failed} of today's requests failed.</p>}
+                            {!!usage.cacheHits && <p className="text-xs text-slate-500">{usage.cacheHits} more {usage.cacheHits === 1 ? 'was' : 'were'} answered from the response cache.</p>}
+                        </>
+                    )}
+
+                    <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                        <label className="flex-1 space-y-1">
+                            <span className="text-xs text-slate-500">Requests per day (0 for no limit)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={budget.requests || 0}
+                                onChange={(e) => setBudget(prev => ({ ...prev, requests: Math.max(0, Number(e.target.value) || 0) }))}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="flex-1 space-y-1">
+                            <span className="text-xs text-slate-500">Tokens per day (0 for no limit)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1000}
+                                value={budget.tokens || 0}
+                                onChange={(e) => setBudget(prev => ({ ...prev, tokens: Math.max(0, Number(e.target.value) || 0) }))}
+                                className={inputClass}
+                            />
+                        </label>
+                        <button
+                            onClick={handleSaveBudget}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 text-sm font-medium transition-colors flex items-center justify-center gap-2 shrink-0"
+                        >
+                            {budgetSaved ? <CheckCircle size={16} /> : <Save size={16} />}
+                            {budgetSaved ? 'Saved' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+
+        <div className="p-6 border-b border-slate-800">
+            <div className="flex items-start gap-4">
+                <div className="p-3 bg-indigo-500/10 rounded-lg text-indigo-500 shrink-0">
+                    <ListOrdered size={24} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-4">
+                    <div>
+                        <h4 className="font-medium text-slate-200 mb-1">Model Chains</h4>
+                        <p className="text-sm text-slate-500 leading-relaxed">
+                            Models of {provider.label} to try, in order, for each kind of request. When one fails, the next is used.
+                        </p>
+                    </div>
+
+                    {MODEL_CHAIN_KINDS.map(kind => (
+                        <div key={kind} className="space-y-2">
+                            <div className="flex items-baseline justify-between gap-3">
+                                <div className="min-w-0">
+                                    <span className="text-sm text-slate-200">{KIND_LABELS[kind].label}</span>
+                                    <span className="text-xs text-slate-500 ml-2">{KIND_LABELS[kind].description}</span>
+                                </div>
+                                {!isDefault(kind) && (
+                                    <button
+                                        onClick={() => updateChain(kind, [])}
+                                        className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-200 shrink-0"
+                                    >
+                                        <RotateCcw size={12} /> Defaults
+                                    </button>
+                                )}
+                            </div>
+                            <div className="space-y-1">
+                                {chains[kind].map((model, i) => (
+                                    <div key={model} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-950 border border-slate-800 text-sm">
+                                        <span className="text-xs text-slate-600 w-4">{i + 1}</span>
+                                        <span className="flex-1 truncate font-mono text-slate-300">{model}</span>
+                                        <button onClick={() => move(kind, i, -1)} disabled={i === 0} className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Try earlier">
+                                            <ChevronUp size={14} />
+                                        </button>
+                                        <button onClick={() => move(kind, i, 1)} disabled={i === chains[kind].length - 1} className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Try later">
+                                            <ChevronDown size={14} />
+                                        </button>
+                                        <button onClick={() => updateChain(kind, chains[kind].filter(m => m !== model))} disabled={chains[kind].length === 1} className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30" title="Remove">
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    placeholder="Add a model"
+                                    value={newModels[kind] || ''}
+                                    onChange={(e) => setNewModels(prev => ({ ...prev, [kind]: e.target.value }))}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(kind); }}
+                                    className={inputClass}
+                                />
+                                <button
+                                    onClick={() => handleAdd(kind)}
+                                    disabled={!newModels[kind]?.trim()}
+                                    className="px-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 transition-colors disabled:opacity-50"
+                                    title="Add"
+                                >
+                                    <Plus size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    </>
+  );
+};
+
+export default AIUsageSettings;
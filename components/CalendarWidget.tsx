@@ -1,17 +1,20 @@
-import React, { useState } from 'react';
-import { CalendarEvent, Task } from '../types';
+import React, { useState, useMemo } from 'react';
+import { CalendarEvent, Task, JournalMode } from '../types';
 import { ChevronLeft, ChevronRight, Clock, Plus, X, Calendar, Save, Repeat } from 'lucide-react';
-import { addCalendarEvents, saveTasks } from '../services/storageService';
-
-interface CalendarWidgetProps {
-  events: CalendarEvent[];
-  onEventsChange?: () => void;
-}
+import { addCalendarEvents, saveTasks, inWorkspace } from '../services/storageService';
+import { useCalendarEvents } from '../hooks/useStorage';
 
 type ViewMode = 'day' | 'week' | 'month';
 type RepeatMode = 'none' | 'daily' | 'weekly' | 'monthly';
 
-const CalendarWidget: React.FC<CalendarWidgetProps> = ({ events, onEventsChange }) => {
+interface CalendarWidgetProps {
+  mode: JournalMode;
+  showAllModes?: boolean; // Both workspaces' events
+}
+
+const CalendarWidget: React.FC<CalendarWidgetProps> = ({ mode, showAllModes = false }) => {
+  const storedEvents = useCalendarEvents();
+  const events = useMemo(() => storedEvents.filter(inWorkspace(mode, showAllModes)), [storedEvents, mode, showAllModes]);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>('month');
 
@@ -65,7 +68,7 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ events, onEventsChange
   const handleToday = () => setCurrentDate(new Date());
 
   // --- Add Event Logic ---
-  const handleSaveEvent = () => {
+  const handleSaveEvent = async () => {
       if (!newEvent.title || !newEvent.date || !newEvent.startTime || !newEvent.endTime) {
           alert("Please fill in all required fields.");
           return;
@@ -95,12 +98,13 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ events, onEventsChange
               title: newEvent.title,
               description: newEvent.description,
               startTime: startISO,
-              endTime: endISO
+              endTime: endISO,
+              mode
           });
       }
 
       // 1. Save to Calendar
-      addCalendarEvents(eventsToCreate);
+      await addCalendarEvents(eventsToCreate);
 
       // 2. Mirror to Tasks (Requested Feature)
       const tasksToCreate: Task[] = eventsToCreate.map(evt => ({
@@ -108,9 +112,10 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ events, onEventsChange
           title: evt.title, // Mirror title directly
           completed: false,
           dueDate: evt.startTime, // Use event start time as due date
-          linkedEntryId: evt.id // Optionally link back to the event ID
+          linkedEntryId: evt.id, // Optionally link back to the event ID
+          mode
       }));
-      saveTasks(tasksToCreate);
+      await saveTasks(tasksToCreate);
 
       setIsModalOpen(false);
       
@@ -123,9 +128,6 @@ const CalendarWidget: React.FC<CalendarWidgetProps> = ({ events, onEventsChange
           endTime: '10:00',
           repeat: 'none'
       });
-
-      // Trigger refresh in parent
-      if (onEventsChange) onEventsChange();
   };
 
   const getEventsForDay = (date: Date) => {
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, HelpCircle, Loader2 } from 'lucide-react';
+import { ChatAction } from '../types';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  onConfirm: (action: ChatAction) => Promise<void>;
+  onCancel: (action: ChatAction) => void;
+}
+
+const STATUS_STYLES: Record<ChatAction['status'], { icon: typeof CheckCircle; className: string; label: string }> = {
+  applied: { icon: CheckCircle, className: 'border-emerald-500/30 text-emerald-300', label: 'Done' },
+  pending: { icon: HelpCircle, className: 'border-amber-500/40 text-amber-200', label: 'Needs your confirmation' },
+  cancelled: { icon: XCircle, className: 'border-slate-700 text-slate-500', label: 'Cancelled' },
+  failed: { icon: AlertTriangle, className: 'border-red-500/40 text-red-300', label: 'Failed' }
+};
+
+// A change the assistant made or proposed. Pending changes are applied only when confirmed here.
+const ChatActionCard: React.FC<ChatActionCardProps> = ({ action, onConfirm, onCancel }) => {
+  const [isApplying, setIsApplying] = useState(false);
+  const style = STATUS_STYLES[action.status];
+  const Icon = style.icon;
+
+  const handleConfirm = async () => {
+      setIsApplying(true);
+      try {
+          await onConfirm(action);
+      } finally {
+          setIsApplying(false);
+      }
+  };
+
+  return (
+    <div className={`mt-2 p-2.5 rounded-lg bg-slate-900/60 border text-xs ${style.className}`}>
+        <div className="flex items-start gap-2">
+            <Icon size={14} className="shrink-0 mt-0.5" />
+            <div className="min-w-0">
+                <p className={`text-slate-200 ${action.status === 'cancelled' ? 'line-through opacity-60' : ''}`}>{action.summary}</p>
+                <p className="text-[10px] opacity-70 mt-0.5">{action.error ? `${style.label}: ${action.error}` : style.label}</p>
+            </div>
+        </div>
+        {action.status === 'pending' && (
+            <div className="flex justify-end gap-2 mt-2">
+                <button
+                    onClick={() => onCancel(action)}
+                    disabled={isApplying}
+                    className="px-3 py-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleConfirm}
+                    disabled={isApplying}
+                    className="flex items-center gap-1.5 px-3 py-1 rounded-md bg-amber-600 hover:bg-amber-500 text-white font-medium transition-colors disabled:opacity-50"
+                >
+                    {isApplying && <Loader2 size={12} className="animate-spin" />}
+                    Confirm
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ChatActionCard;
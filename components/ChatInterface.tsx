@@ -1,17 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Cpu, Bot, CheckCircle, RefreshCw, Sparkles, Mic, MicOff, Paperclip, X, FileText, Image as ImageIcon, AlertTriangle, Settings, Trash2, ArrowDown } from 'lucide-react';
-import { ChatMessage, JournalEntry, Task, CalendarEvent } from '../types';
+import { Send, Cpu, Bot, CheckCircle, RefreshCw, Sparkles, Mic, MicOff, Paperclip, X, FileText, Image as ImageIcon, AlertTriangle, Settings, Trash2, ArrowDown, Square, Briefcase, Brain } from 'lucide-react';
+import { ChatMessage, JournalEntry, JournalMode, Task, CalendarEvent, Citation, ChatAction, MemoryNote } from '../types';
 import { sendMessageToGemini } from '../services/geminiService';
+import { applyChatAction } from '../services/chatTools';
+import { isAbortError, describeAIError } from '../services/llmProvider';
+import { compressImage, storeMedia } from '../services/mediaService';
+import MediaImage from './MediaImage';
+import CitationList from './CitationList';
+import ChatActionCard from './ChatActionCard';
+import MemoryPanel from './MemoryPanel';
 
 interface ChatInterfaceProps {
+  mode: JournalMode; // Workspace the chat belongs to; entries, tasks and events are that workspace's
   messages: ChatMessage[];
   onUpdateMessages: (msgs: ChatMessage[]) => void;
   isConsolidating: boolean; 
+  consolidationError?: string | null; // Why part of the chat is not saved yet; it waits in the AI queue
   entries: JournalEntry[];
   tasks: Task[];
   calendarEvents: CalendarEvent[];
+  memories: MemoryNote[]; // What the companion remembers in this workspace
   hasApiKey: boolean;
   onOpenSettings: () => void;
+  onOpenCitation: (citation: Citation) => void;
 }
 
 interface Attachment {
@@ -21,44 +32,24 @@ interface Attachment {
     mimeType?: string;
 }
 
-// Helper to compress images for "smaller memory size"
-const compressImage = (base64Str: string, maxWidth = 800, quality = 0.7): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.src = `data:image/jpeg;base64,${base64Str}`;
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            let width = img.width;
-            let height = img.height;
-
-            if (width > maxWidth) {
-                height = (height * maxWidth) / width;
-                width = maxWidth;
-            }
-
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            ctx?.drawImage(img, 0, 0, width, height);
-            // Compress to JPEG
-            const dataUrl = canvas.toDataURL('image/jpeg', quality);
-            resolve(dataUrl.split(',')[1]); // Return only base64 data
-        };
-        img.onerror = () => resolve(base64Str); // Fallback
-    });
-};
-
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessages, isConsolidating, entries, tasks, calendarEvents, hasApiKey, onOpenSettings }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ mode, messages, onUpdateMessages, isConsolidating, consolidationError, entries, tasks, calendarEvents, memories, hasApiKey, onOpenSettings, onOpenCitation }) => {
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [attachment, setAttachment] = useState<Attachment | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [showMemory, setShowMemory] = useState(false);
+  const isWork = mode === JournalMode.PROFESSIONAL;
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const streamedRef = useRef(''); // Latest streamed text, read when the reply is stopped
+  const messagesRef = useRef(messages); // Latest messages, read after an action finishes applying
+  messagesRef.current = messages;
 
   // Auto-resize textarea
   useEffect(() => {
@@ -73,7 +64,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
     if (scrollRef.current) {
         scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping, attachment]);
+  }, [messages, isTyping, streamingText, attachment]);
 
   // Handle Scroll to show/hide "Scroll to Bottom" button
   const handleScroll = () => {
@@ -91,6 +82,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
       }
   };
 
+  // Replaces one action card on a message, e.g. once the user confirms or cancels it
+  const updateAction = (messageId: string, updated: ChatAction) => {
+      onUpdateMessages(messagesRef.current.map(msg => msg.id === messageId
+          ? { ...msg, actions: msg.actions?.map(action => action.id === updated.id ? updated : action) }
+          : msg));
+  };
+
+  const handleConfirmAction = async (messageId: string, action: ChatAction) => {
+      updateAction(messageId, await applyChatAction(action, mode));
+  };
+
   const handleClearChat = () => {
       if (window.confirm("Are you sure you want to clear the chat history? This cannot be undone.")) {
           onUpdateMessages([]);
@@ -157,7 +159,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
               const rawBase64 = base64String.split(',')[1];
               
               // Compress immediately upon selection to save memory
-              const compressedBase64 = await compressImage(rawBase64);
+              const compressedBase64 = await compressImage(rawBase64, 800, 0.7, file.type);
               
               setAttachment({ type: 'image', content: compressedBase64, name: file.name, mimeType: 'image/jpeg' });
           };
@@ -183,6 +185,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
 
     const userText = input;
     const currentAttachment = attachment;
+
+    // Images go to the media store; the message (and later the journal entry) only keeps the reference
+    let mediaId: string | undefined;
+    if (currentAttachment?.type === 'image') {
+        try {
+            mediaId = (await storeMedia(currentAttachment.content, currentAttachment.mimeType || 'image/jpeg')).mediaId;
+        } catch (error) {
+            console.error("Failed to store image", error);
+            alert("Could not save the image. Your device storage may be full.");
+            return;
+        }
+    }
     
     setInput('');
     setAttachment(null);
@@ -196,7 +210,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
         // Save attachment in history so it can be synced to journal
         attachment: currentAttachment ? {
             type: currentAttachment.type,
-            content: currentAttachment.content,
+            content: mediaId ? undefined : currentAttachment.content,
+            mediaId,
             mimeType: currentAttachment.mimeType,
             name: currentAttachment.name
         } : undefined
@@ -206,49 +221,74 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
     onUpdateMessages(newHistory);
     
     setIsTyping(true);
+    setStreamingText('');
+    streamedRef.current = '';
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-        // Pass tasks and calendarEvents to the service
-        const responseText = await sendMessageToGemini(newHistory, userText, entries, tasks, calendarEvents, currentAttachment || undefined);
+        // Pass tasks and calendarEvents to the service; the reply streams into the typing bubble
+        const reply = await sendMessageToGemini(newHistory, userText, entries, tasks, calendarEvents, currentAttachment || undefined, {
+            signal: controller.signal,
+            mode,
+            memories,
+            onText: text => {
+                streamedRef.current = text;
+                setStreamingText(text);
+            }
+        });
         const aiMsg: ChatMessage = {
             id: (Date.now() + 1).toString(),
             role: 'model',
-            text: responseText,
-            timestamp: Date.now()
+            text: reply.text,
+            timestamp: Date.now(),
+            citations: reply.citations,
+            actions: reply.actions
         };
         onUpdateMessages([...newHistory, aiMsg]);
     } catch (error: any) {
-        console.error("Chat Interface Error Catch:", error);
-        
-        let errorMsg = "I'm having trouble connecting right now.";
-        
-        if (error.message === 'MISSING_API_KEY') {
-            errorMsg = "⚠️ API Key Missing. Please go to the Settings tab (⚙️) and enter your Gemini API Key to enable AI features.";
-        } else if (error.message && (error.message.includes('429') || error.message.includes('quota'))) {
-             errorMsg = "⚠️ Quota Exceeded. The AI is temporarily unavailable due to high usage. Please try again in a few moments.";
-        } else if (error.message) {
-            // Show exact error to help debugging
-            errorMsg = `⚠️ Error: ${error.message}`;
+        // Stopped: keep whatever had arrived
+        if (isAbortError(error)) {
+            if (streamedRef.current.trim()) {
+                onUpdateMessages([...newHistory, {
+                    id: (Date.now() + 1).toString(),
+                    role: 'model',
+                    text: streamedRef.current,
+                    timestamp: Date.now(),
+                    stopped: true
+                }]);
+            }
+            return;
         }
+
+        console.error("Chat Interface Error Catch:", error);
         
         const aiMsg: ChatMessage = {
             id: (Date.now() + 1).toString(),
             role: 'model',
-            text: errorMsg,
+            text: `⚠️ ${describeAIError(error)}`,
             timestamp: Date.now()
         };
         onUpdateMessages([...newHistory, aiMsg]);
     } finally {
+        abortRef.current = null;
         setIsTyping(false);
+        setStreamingText('');
     }
   };
 
+  const handleStop = () => {
+      abortRef.current?.abort();
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-950 relative">
+        {showMemory && <MemoryPanel mode={mode} memories={memories} onClose={() => setShowMemory(false)} />}
+
         {/* API Key Warning Banner */}
         {!hasApiKey && (
              <div className="bg-orange-500/10 border-b border-orange-500/30 p-2 text-center flex items-center justify-center gap-3 shrink-0 backdrop-blur-sm z-20">
-                 <span className="text-orange-300 text-xs font-medium">⚠️ Setup Required: Gemini API Key missing</span>
+                 <span className="text-orange-300 text-xs font-medium">⚠️ Setup Required: no AI provider configured</span>
                  <button 
                     onClick={onOpenSettings}
                     className="flex items-center gap-1 bg-orange-600/20 hover:bg-orange-600/40 text-orange-300 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors border border-orange-500/30"
@@ -262,20 +302,34 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
         {/* Header */}
         <div className="p-3 md:p-6 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 backdrop-blur-sm z-10 shrink-0">
             <div className="flex items-center gap-3">
-                 <div className="w-8 h-8 rounded-full flex items-center justify-center bg-purple-600/20 text-purple-500">
-                    <Sparkles size={18} />
+                 <div className={`w-8 h-8 rounded-full flex items-center justify-center ${isWork ? 'bg-amber-500/20 text-amber-400' : 'bg-purple-600/20 text-purple-500'}`}>
+                    {isWork ? <Briefcase size={18} /> : <Sparkles size={18} />}
                  </div>
                  <div>
                     <h2 className="text-base md:text-xl font-bold text-slate-100">
-                        Personal AI
+                        {isWork ? 'Work AI' : 'Personal AI'}
                     </h2>
                     <p className="text-[10px] md:text-xs text-slate-400">
-                        Journal Companion with Search
+                        {isWork ? 'Meetings, action items and decisions' : 'Journal Companion with Search'}
                     </p>
                 </div>
             </div>
             
             <div className="flex items-center gap-3">
+                {/* Memory Button */}
+                <button
+                    onClick={() => setShowMemory(true)}
+                    className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-purple-400 transition-colors relative"
+                    title="What the assistant remembers"
+                >
+                    <Brain size={18} />
+                    {memories.length > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-purple-600 text-white text-[9px] font-bold flex items-center justify-center">
+                            {memories.length}
+                        </span>
+                    )}
+                </button>
+
                 {/* Clear Chat Button */}
                 <button 
                     onClick={handleClearChat}
@@ -292,6 +346,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
                             <RefreshCw size={12} className="text-blue-500 animate-spin" />
                             <span className="text-[10px] text-blue-400 font-medium">Syncing...</span>
                         </>
+                    ) : consolidationError ? (
+                        <span title={consolidationError} className="flex items-center gap-2">
+                            <AlertTriangle size={12} className="text-red-400" />
+                            <span className="text-[10px] text-red-400 font-medium">Not saved</span>
+                        </span>
                     ) : (
                         <>
                             <CheckCircle size={12} className="text-emerald-500" />
@@ -311,7 +370,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
             {messages.length === 0 && (
                 <div className="flex flex-col items-center justify-center h-full text-slate-600 opacity-50">
                     <Bot size={48} className="mb-4" />
-                    <p className="text-center text-sm">Start a conversation or search the web.<br/>I know your tasks and schedule.</p>
+                    <p className="text-center text-sm">
+                        {isWork
+                            ? <>Log a meeting, a decision or what you worked on.<br/>I know your work tasks and schedule.</>
+                            : <>Start a conversation or search the web.<br/>I know your tasks and schedule.</>}
+                    </p>
                 </div>
             )}
             
@@ -327,9 +390,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
                         {/* Render Attached Image in Chat History */}
                         {msg.attachment && msg.attachment.type === 'image' && (
                             <div className="mb-2 rounded-lg overflow-hidden border border-white/10">
-                                <img 
-                                    src={`data:${msg.attachment.mimeType || 'image/jpeg'};base64,${msg.attachment.content}`} 
-                                    alt="attachment" 
+                                <MediaImage
+                                    media={{ mediaId: msg.attachment.mediaId || '', mimeType: msg.attachment.mimeType || 'image/jpeg', content: msg.attachment.content }}
+                                    alt="attachment"
                                     className="w-full h-auto max-h-60 object-cover"
                                 />
                             </div>
@@ -342,14 +405,38 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
                                 <p key={i} className="mb-1 last:mb-0 min-h-[1em]">{line}</p>
                             ))}
                         </div>
+                        {msg.citations && msg.citations.length > 0 && (
+                            <CitationList citations={msg.citations} onOpen={onOpenCitation} />
+                        )}
+                        {msg.actions?.map(action => (
+                            <ChatActionCard
+                                key={action.id}
+                                action={action}
+                                onConfirm={a => handleConfirmAction(msg.id, a)}
+                                onCancel={a => updateAction(msg.id, { ...a, status: 'cancelled' })}
+                            />
+                        ))}
                         <span className="text-[10px] opacity-50 mt-1 block text-right">
+                            {msg.stopped && 'Stopped · '}
                             {new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                         </span>
                     </div>
                 </div>
             ))}
             
-            {isTyping && (
+            {isTyping && streamingText && (
+                <div className="flex justify-start">
+                    <div className="max-w-[85%] lg:max-w-[70%] p-3 md:p-4 rounded-2xl shadow-sm bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700">
+                        <div className="whitespace-pre-wrap leading-relaxed text-sm">
+                            {streamingText.split('\n').map((line, i) => (
+                                <p key={i} className="mb-1 last:mb-0 min-h-[1em]">{line}</p>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {isTyping && !streamingText && (
                  <div className="flex justify-start">
                     <div className="bg-slate-800 p-3 rounded-2xl rounded-bl-none border border-slate-700 flex gap-2 items-center">
                         <div className="w-1.5 h-1.5 bg-slate-500 rounded-full animate-bounce"></div>
@@ -431,10 +518,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
                     />
                 </div>
 
+                {/* Stop Button (while a reply is coming in) */}
+                {isTyping && (
+                    <button
+                        onClick={handleStop}
+                        className="p-3 rounded-full shrink-0 transition-all shadow-lg flex items-center justify-center w-12 h-12 bg-slate-800 hover:bg-slate-700 text-red-400"
+                        title="Stop generating"
+                    >
+                        <Square size={18} fill="currentColor" />
+                    </button>
+                )}
+
                 {/* Send/Mic Button */}
-                <button
+                {!isTyping && <button
                     onClick={input.trim() || attachment ? () => handleSend() : toggleListening}
-                    disabled={isTyping}
                     className={`p-3 rounded-full shrink-0 transition-all shadow-lg flex items-center justify-center w-12 h-12 ${
                         input.trim() || attachment
                             ? 'bg-purple-600 hover:bg-purple-500 text-white'
@@ -448,7 +545,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onUpdateMessage
                     ) : (
                         isListening ? <MicOff size={22} /> : <Mic size={22} />
                     )}
-                </button>
+                </button>}
             </div>
         </div>
     </div>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { BookOpen, CheckSquare, Wallet } from 'lucide-react';
+import { Citation } from '../types';
+
+interface CitationListProps {
+  citations: Citation[];
+  onOpen?: (citation: Citation) => void;
+}
+
+const KIND_ICONS = { entry: BookOpen, task: CheckSquare, transaction: Wallet };
+
+// The records an AI answer cited, as links back to them
+const CitationList: React.FC<CitationListProps> = ({ citations, onOpen }) => {
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-700/60 flex flex-wrap gap-1.5">
+        {citations.map(citation => {
+            const Icon = KIND_ICONS[citation.kind];
+            return (
+                <button
+                    key={citation.label}
+                    onClick={() => onOpen?.(citation)}
+                    disabled={!onOpen}
+                    className="flex items-center gap-1.5 max-w-full px-2 py-1 rounded-md bg-slate-900/60 border border-slate-700 text-[11px] text-slate-300 hover:border-blue-500/50 hover:text-blue-300 transition-colors disabled:hover:border-slate-700 disabled:hover:text-slate-300"
+                    title={citation.date ? new Date(citation.date).toDateString() : undefined}
+                >
+                    <span className="font-mono text-slate-500">{citation.label}</span>
+                    <Icon size={11} className="shrink-0" />
+                    <span className="truncate">{citation.title || 'Untitled'}</span>
+                </button>
+            );
+        })}
+    </div>
+  );
+};
+
+export default CitationList;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { GitMerge, Smartphone, Laptop, Check, Loader2 } from 'lucide-react';
+import { SyncConflict } from '../types';
+import { getConflicts, resolveConflict } from '../services/syncService';
+import { resolveConflictFields } from '../services/mergeService';
+
+interface ConflictInboxProps {
+  conflictCount: number;
+  onResolved: () => void;
+}
+
+type Side = 'local' | 'remote';
+
+const COLLECTION_LABELS: Record<SyncConflict['collection'], string> = {
+  entries: 'Journal entry',
+  calendar: 'Calendar event',
+  tasks: 'Task',
+  finance: 'Transaction'
+};
+
+const describeRecord = (record: any): string => record?.title || record?.description || 'Untitled';
+
+const formatValue = (field: string, value: any): string => {
+    if (value === undefined || value === null || value === '') return '(empty)';
+    if (field === 'tags' && Array.isArray(value)) return value.map(t => `#${t}`).join(' ');
+    if (field === 'media' && Array.isArray(value)) return `${value.length} attachment${value.length === 1 ? '' : 's'}`;
+    if (field === 'completed') return value ? 'Done' : 'Open';
+    if ((field === 'date' || field === 'dueDate') && !isNaN(new Date(value).getTime())) return new Date(value).toLocaleString();
+    return String(value);
+};
+
+const ConflictCard: React.FC<{ conflict: SyncConflict; onResolved: () => void }> = ({ conflict, onResolved }) => {
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (picks: Record<string, Side>) => {
+      setIsSaving(true);
+      try {
+          await resolveConflict(conflict, resolveConflictFields(conflict, picks));
+          onResolved();
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const pickAll = (side: Side) => save(Object.fromEntries(conflict.fields.map(f => [f, side])));
+
+  const renderSide = (field: string, side: Side) => {
+      const selected = (choices[field] || 'local') === side;
+      const value = side === 'local' ? conflict.local[field] : conflict.remote[field];
+      return (
+          <button
+              onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+              className={`text-left p-3 rounded-lg border text-sm transition-colors min-w-0 ${
+                  selected ? 'border-blue-500 bg-blue-500/10 text-slate-200' : 'border-slate-700 bg-slate-950 text-slate-400 hover:border-slate-600'
+              }`}
+          >
+              <div className="whitespace-pre-wrap break-words max-h-48 overflow-y-auto">{formatValue(field, value)}</div>
+          </button>
+      );
+  };
+
+  return (
+    <div className="p-4 border border-slate-800 rounded-xl bg-slate-950/50 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+                <span className="text-[10px] font-bold text-amber-400 uppercase tracking-wide">{COLLECTION_LABELS[conflict.collection]}</span>
+                <h5 className="font-medium text-slate-200 truncate">{describeRecord(conflict.local)}</h5>
+            </div>
+            <span className="text-xs text-slate-500 shrink-0">{new Date(conflict.detectedAt).toLocaleString()}</span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-xs font-bold text-slate-500 uppercase tracking-wide">
+            <span className="flex items-center gap-1.5"><Laptop size={14} /> This device</span>
+            <span className="flex items-center gap-1.5"><Smartphone size={14} /> Other device</span>
+        </div>
+
+        {conflict.fields.map(field => (
+            <div key={field} className="space-y-1.5">
+                <span className="text-xs text-slate-500 capitalize">{field}</span>
+                <div className="grid grid-cols-2 gap-3">
+                    {renderSide(field, 'local')}
+                    {renderSide(field, 'remote')}
+                </div>
+            </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2 pt-1">
+            <button
+                onClick={() => save(choices)}
+                disabled={isSaving}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 text-xs font-medium transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                Save Selection
+            </button>
+            <button
+                onClick={() => pickAll('local')}
+                disabled={isSaving}
+                className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+                Keep This Device
+            </button>
+            <button
+                onClick={() => pickAll('remote')}
+                disabled={isSaving}
+                className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+                Keep Other Device
+            </button>
+        </div>
+    </div>
+  );
+};
+
+const ConflictInbox: React.FC<ConflictInboxProps> = ({ conflictCount, onResolved }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  useEffect(() => {
+      getConflicts().then(setConflicts);
+  }, [conflictCount]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="p-6 border-t border-slate-800">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-amber-500/10 rounded-lg text-amber-500 shrink-0">
+                <GitMerge size={24} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">Conflicts ({conflicts.length})</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        These were edited on two devices at once. Everything else was merged automatically; pick which version to keep for the fields below.
+                    </p>
+                </div>
+                {conflicts.map(conflict => (
+                    <ConflictCard key={`${conflict.collection}:${conflict.id}`} conflict={conflict} onResolved={onResolved} />
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ConflictInbox;
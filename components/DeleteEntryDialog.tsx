@@ -0,0 +1,55 @@
+import React from 'react';
+import { Trash2, Link2Off } from 'lucide-react';
+import { JournalEntry } from '../types';
+
+interface DeleteEntryDialogProps {
+  entry: JournalEntry;
+  linked: { calendarEvents: number; tasks: number; transactions: number };
+  onConfirm: (cascade: boolean) => void;
+  onCancel: () => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const DeleteEntryDialog: React.FC<DeleteEntryDialogProps> = ({ entry, linked, onConfirm, onCancel }) => {
+  const parts = [
+      linked.calendarEvents && plural(linked.calendarEvents, 'event'),
+      linked.tasks && plural(linked.tasks, 'task'),
+      linked.transactions && plural(linked.transactions, 'transaction')
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+        <div className="bg-slate-900 w-full max-w-sm rounded-2xl border border-slate-700 shadow-2xl p-5 space-y-4">
+            <div>
+                <h3 className="font-bold text-white mb-1">Delete "{entry.title}"?</h3>
+                <p className="text-sm text-slate-400 leading-relaxed">
+                    This entry created {parts.join(', ')}. Deleted items stay in the Trash until it is emptied.
+                </p>
+            </div>
+            <div className="space-y-2">
+                <button
+                    onClick={() => onConfirm(true)}
+                    className="w-full flex items-center gap-2 px-4 py-3 rounded-xl bg-red-600/90 hover:bg-red-500 text-white text-sm font-bold transition-colors"
+                >
+                    <Trash2 size={16} /> Delete entry and linked items
+                </button>
+                <button
+                    onClick={() => onConfirm(false)}
+                    className="w-full flex items-center gap-2 px-4 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 text-sm font-medium transition-colors"
+                >
+                    <Link2Off size={16} /> Delete entry only, keep linked items
+                </button>
+                <button
+                    onClick={onCancel}
+                    className="w-full px-4 py-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 text-sm font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default DeleteEntryDialog;
@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import { diffText } from '../services/textDiff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+}
+
+// Word-level changes between two texts: additions in green, removals struck through in red
+const DiffView: React.FC<DiffViewProps> = ({ before, after }) => {
+  const parts = useMemo(() => diffText(before, after), [before, after]);
+  return (
+    <div className="whitespace-pre-wrap break-words text-sm leading-relaxed text-slate-400">
+        {parts.map((part, i) => (
+            <span
+                key={i}
+                className={
+                    part.type === 'added' ? 'bg-emerald-500/20 text-emerald-300' :
+                    part.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : ''
+                }
+            >
+                {part.text}
+            </span>
+        ))}
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, GitMerge, Check, Loader2 } from 'lucide-react';
+import { DuplicateCandidate, TrashItem } from '../types';
+import { getDuplicatePair, mergeDuplicate, dismissDuplicate } from '../services/dedupService';
+
+interface DuplicateCardProps {
+  candidate: DuplicateCandidate;
+  onTrashed?: (message: string, items: TrashItem[]) => void;
+}
+
+const KIND_LABELS: Record<DuplicateCandidate['kind'], string> = {
+  event: 'Event',
+  task: 'Task',
+  transaction: 'Transaction'
+};
+
+const describeRecord = (record: any): { title: string; detail: string } => {
+    if (!record) return { title: 'Missing', detail: '' };
+    if ('amount' in record) return { title: record.description, detail: `${record.type === 'income' ? '+' : '-'}₹${record.amount} · ${record.category} · ${new Date(record.date).toLocaleDateString()}` };
+    if ('startTime' in record) return { title: record.title, detail: new Date(record.startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) };
+    return { title: record.title, detail: record.dueDate ? `Due ${new Date(record.dueDate).toLocaleDateString()}` : 'No due date' };
+};
+
+// A saved record the dedup engine thinks may repeat another; the user merges them or keeps both
+const DuplicateCard: React.FC<DuplicateCardProps> = ({ candidate, onTrashed }) => {
+  const [pair, setPair] = useState<{ record?: any; match?: any }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+      getDuplicatePair(candidate).then(setPair);
+  }, [candidate]);
+
+  const handleMerge = async () => {
+      setIsSaving(true);
+      try {
+          const trashed = await mergeDuplicate(candidate);
+          if (trashed.length > 0) onTrashed?.("Duplicate merged and moved to Trash", trashed);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const handleKeepBoth = async () => {
+      setIsSaving(true);
+      try {
+          await dismissDuplicate(candidate);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const sides = [
+      { label: 'Existing', ...describeRecord(pair.match) },
+      { label: 'New', ...describeRecord(pair.record) }
+  ];
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-950/50 border border-amber-500/30 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2 text-[10px] font-bold text-amber-400 uppercase tracking-wide">
+                <Copy size={12} /> Possible duplicate {KIND_LABELS[candidate.kind].toLowerCase()} · {Math.round(candidate.score * 100)}% match
+            </span>
+            <span className="text-xs text-slate-500 shrink-0">{new Date(candidate.detectedAt).toLocaleDateString()}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+            {sides.map(side => (
+                <div key={side.label} className="p-3 rounded-lg bg-slate-900 border border-slate-800 min-w-0">
+                    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1">{side.label}</div>
+                    <div className="text-sm text-slate-200 truncate">{side.title}</div>
+                    <div className="text-xs text-slate-500 truncate">{side.detail}</div>
+                </div>
+            ))}
+        </div>
+        <p className="text-xs text-slate-500">{candidate.reasons.join(' · ')}</p>
+        <div className="flex flex-wrap gap-2">
+            <button
+                onClick={handleMerge}
+                disabled={isSaving}
+                className="px-3 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <GitMerge size={14} />}
+                Same — Merge
+            </button>
+            <button
+                onClick={handleKeepBoth}
+                disabled={isSaving}
+                className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+                <Check size={14} /> Different — Keep Both
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default DuplicateCard;
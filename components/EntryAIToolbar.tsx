@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { AlignLeft, SpellCheck, CalendarPlus, Tags, Lightbulb, Loader2, Check, X } from 'lucide-react';
+import { AIActionType, JournalEntry, CalendarEvent } from '../types';
+import { analyzeEntry, EntryActionResult } from '../services/geminiService';
+import { describeAIError } from '../services/llmProvider';
+import { saveExtraction } from '../services/reviewService';
+import DiffView from './DiffView';
+
+// What accepting a suggestion changes on the entry
+export type EntryActionChanges = Partial<Pick<JournalEntry, 'content' | 'tags' | 'calendarEvents'>>;
+
+interface EntryAIToolbarProps {
+  entry: JournalEntry; // Current values, including unsaved edits
+  onApply: (changes: EntryActionChanges) => void | Promise<void>;
+}
+
+const ACTIONS: { type: AIActionType; icon: any; label: string }[] = [
+  { type: AIActionType.SUMMARIZE, icon: AlignLeft, label: 'Summarize' },
+  { type: AIActionType.FIX_GRAMMAR, icon: SpellCheck, label: 'Fix grammar' },
+  { type: AIActionType.EXTRACT_EVENTS, icon: CalendarPlus, label: 'Find events' },
+  { type: AIActionType.GENERATE_TAGS, icon: Tags, label: 'Suggest tags' },
+  { type: AIActionType.ADVICE, icon: Lightbulb, label: 'Advice' }
+];
+
+const withSummary = (content: string, summary: string) => `Summary: ${summary}\n\n${content}`;
+
+const withAdvice = (content: string, advice: string[]) => `${content.trimEnd()}\n\nReflection:\n${advice.map(a => `- ${a}`).join('\n')}`;
+
+// Each suggestion in a list can be ticked on or off before accepting
+const SuggestionList: React.FC<{ items: string[]; selected: Set<number>; onToggle: (i: number) => void }> = ({ items, selected, onToggle }) => (
+  <div className="space-y-1.5">
+      {items.map((item, i) => (
+          <label key={i} className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={selected.has(i)} onChange={() => onToggle(i)} className="mt-1 accent-purple-500" />
+              <span>{item}</span>
+          </label>
+      ))}
+  </div>
+);
+
+// AI actions on one entry. Results are previewed (as a diff or a list of suggestions) and only
+// change the entry, its tags or the calendar once accepted.
+const EntryAIToolbar: React.FC<EntryAIToolbarProps> = ({ entry, onApply }) => {
+  const [running, setRunning] = useState<AIActionType | null>(null);
+  const [result, setResult] = useState<EntryActionResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleRun = async (action: AIActionType) => {
+      setRunning(action);
+      setResult(null);
+      setError('');
+      try {
+          const next = await analyzeEntry(entry, action);
+          const count = next.action === AIActionType.GENERATE_TAGS ? next.tags.length
+              : next.action === AIActionType.EXTRACT_EVENTS ? next.events.length
+              : next.action === AIActionType.ADVICE ? next.advice.length : 0;
+          setSelected(new Set(Array.from({ length: count }, (_, i) => i)));
+          setResult(next);
+      } catch (e) {
+          setError(describeAIError(e));
+      } finally {
+          setRunning(null);
+      }
+  };
+
+  const toggle = (i: number) => setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+  });
+
+  const pick = <T,>(items: T[]) => items.filter((_, i) => selected.has(i));
+
+  const handleAccept = async () => {
+      if (!result) return;
+      setIsApplying(true);
+      try {
+          switch (result.action) {
+              case AIActionType.SUMMARIZE:
+                  await onApply({ content: withSummary(entry.content, result.summary) });
+                  break;
+              case AIActionType.FIX_GRAMMAR:
+                  await onApply({ content: result.content });
+                  break;
+              case AIActionType.GENERATE_TAGS:
+                  await onApply({ tags: [...entry.tags, ...pick(result.tags)] });
+                  break;
+              case AIActionType.EXTRACT_EVENTS: {
+                  // Calendar events are saved straight away (merging any that repeat saved ones)
+                  const events: CalendarEvent[] = pick(result.events).map(event => ({ ...event, mode: entry.mode }));
+                  await saveExtraction({ calendarEvents: events, tasks: [], transactions: [] });
+                  await onApply({ calendarEvents: [...(entry.calendarEvents || []), ...events] });
+                  break;
+              }
+              case AIActionType.ADVICE:
+                  await onApply({ content: withAdvice(entry.content, pick(result.advice)) });
+                  break;
+          }
+          setResult(null);
+      } catch (e: any) {
+          setError(`Could not apply: ${e.message || e}`);
+      } finally {
+          setIsApplying(false);
+      }
+  };
+
+  const renderPreview = () => {
+      if (!result) return null;
+      switch (result.action) {
+          case AIActionType.SUMMARIZE:
+              return <DiffView before={entry.content} after={withSummary(entry.content, result.summary)} />;
+          case AIActionType.FIX_GRAMMAR:
+              return result.content === entry.content
+                  ? <p className="text-sm text-slate-500">No corrections needed.</p>
+                  : <DiffView before={entry.content} after={result.content} />;
+          case AIActionType.GENERATE_TAGS:
+              return result.tags.length === 0
+                  ? <p className="text-sm text-slate-500">No new tags to suggest.</p>
+                  : <SuggestionList items={result.tags.map(t => `#${t}`)} selected={selected} onToggle={toggle} />;
+          case AIActionType.EXTRACT_EVENTS:
+              return result.events.length === 0
+                  ? <p className="text-sm text-slate-500">No upcoming events found in this entry.</p>
+                  : <SuggestionList
+                        items={result.events.map(e => `${e.title} · ${new Date(e.startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`)}
+                        selected={selected}
+                        onToggle={toggle}
+                    />;
+          case AIActionType.ADVICE:
+              return <SuggestionList items={result.advice} selected={selected} onToggle={toggle} />;
+      }
+  };
+
+  const hasChange = !!result && (
+      result.action === AIActionType.SUMMARIZE ? !!result.summary :
+      result.action === AIActionType.FIX_GRAMMAR ? result.content !== entry.content :
+      selected.size > 0
+  );
+  const acceptLabel = result?.action === AIActionType.EXTRACT_EVENTS ? 'Add to Calendar'
+      : result?.action === AIActionType.GENERATE_TAGS ? 'Add Tags'
+      : result?.action === AIActionType.ADVICE ? 'Add to Entry'
+      : 'Accept';
+
+  return (
+    <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-1">
+            {ACTIONS.map(({ type, icon: Icon, label }) => (
+                <button
+                    key={type}
+                    onClick={() => handleRun(type)}
+                    disabled={!!running || isApplying}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] font-medium transition-colors disabled:opacity-50 ${
+                        result?.action === type ? 'bg-purple-500/20 text-purple-300' : 'text-slate-500 hover:text-purple-300 hover:bg-slate-800'
+                    }`}
+                    title={label}
+                >
+                    {running === type ? <Loader2 size={12} className="animate-spin" /> : <Icon size={12} />}
+                    <span className="hidden sm:inline">{label}</span>
+                </button>
+            ))}
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {result && (
+            <div className="p-3 rounded-lg bg-slate-950 border border-purple-500/30 space-y-3">
+                <div className="max-h-60 overflow-y-auto">{renderPreview()}</div>
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={() => setResult(null)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                    >
+                        <X size={12} /> Discard
+                    </button>
+                    {hasChange && (
+                        <button
+                            onClick={handleAccept}
+                            disabled={isApplying}
+                            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                            {isApplying ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} {acceptLabel}
+                        </button>
+                    )}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default EntryAIToolbar;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Loader2, History } from 'lucide-react';
+import { EntryRevision, JournalEntry, RevisionSource } from '../types';
+import { getEntryRevisions, restoreEntryRevision, subscribeToRecord } from '../services/storageService';
+import DiffView from './DiffView';
+
+interface EntryHistoryPanelProps {
+  entryId: string;
+  currentTitle: string;
+  currentContent: string;
+  onRestore: (entry: JournalEntry) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, { label: string; className: string }> = {
+  manual: { label: 'Edited', className: 'bg-blue-500/10 text-blue-400' },
+  ai: { label: 'AI', className: 'bg-purple-500/10 text-purple-400' },
+  import: { label: 'Import', className: 'bg-emerald-500/10 text-emerald-400' },
+  restore: { label: 'Restored', className: 'bg-amber-500/10 text-amber-400' }
+};
+
+const EntryHistoryPanel: React.FC<EntryHistoryPanelProps> = ({ entryId, currentTitle, currentContent, onRestore }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [selected, setSelected] = useState<EntryRevision | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+      let cancelled = false;
+      setIsLoading(true);
+      getEntryRevisions(entryId).then(list => {
+          if (cancelled) return;
+          setRevisions(list);
+          setSelected(list[1] || list[0] || null);
+          setIsLoading(false);
+      });
+      // A save from elsewhere (another tab, sync) adds a version; keep the current selection
+      const unsubscribe = subscribeToRecord('entries', entryId, () => {
+          getEntryRevisions(entryId).then(list => { if (!cancelled) setRevisions(list); });
+      });
+      return () => {
+          cancelled = true;
+          unsubscribe();
+      };
+  }, [entryId]);
+
+  const handleRestore = async () => {
+      if (!selected) return;
+      setIsRestoring(true);
+      try {
+          const restored = await restoreEntryRevision(selected);
+          if (restored) onRestore(restored);
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
+  if (isLoading) {
+      return <div className="flex justify-center py-10 text-slate-500"><Loader2 size={20} className="animate-spin" /></div>;
+  }
+
+  if (revisions.length === 0) {
+      return (
+          <div className="flex flex-col items-center gap-2 py-10 text-slate-500 text-sm">
+              <History size={24} />
+              <span>No earlier versions yet. History starts with the next save.</span>
+          </div>
+      );
+  }
+
+  return (
+    <div className="space-y-4">
+        <div className="flex gap-2 overflow-x-auto pb-1">
+            {revisions.map(rev => {
+                const source = rev.source ? SOURCE_LABELS[rev.source] : null;
+                const isSelected = selected?.revision === rev.revision;
+                return (
+                    <button
+                        key={rev.revision}
+                        onClick={() => setSelected(rev)}
+                        className={`shrink-0 text-left px-3 py-2 rounded-lg border text-xs transition-colors ${
+                            isSelected ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 bg-slate-950 hover:border-slate-600'
+                        }`}
+                    >
+                        <div className="text-slate-300 font-medium">{new Date(rev.savedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>
+                        <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${source ? source.className : 'bg-slate-800 text-slate-500'}`}>
+                            {source ? source.label : 'Earlier'}
+                        </span>
+                    </button>
+                );
+            })}
+        </div>
+
+        {selected && (
+            <div className="space-y-3">
+                <p className="text-xs text-slate-500">
+                    Changes from this version to what is in the editor now.
+                    <span className="ml-2 text-red-300">Removed</span>
+                    <span className="ml-2 text-emerald-300">Added</span>
+                </p>
+                {selected.title !== currentTitle && (
+                    <div className="p-3 bg-slate-950 border border-slate-800 rounded-xl font-medium">
+                        <DiffView before={selected.title} after={currentTitle} />
+                    </div>
+                )}
+                <div className="p-3 bg-slate-950 border border-slate-800 rounded-xl max-h-72 overflow-y-auto">
+                    {selected.content === currentContent
+                        ? <span className="text-sm text-slate-500">Content is identical to the editor.</span>
+                        : <DiffView before={selected.content} after={currentContent} />}
+                </div>
+                <button
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    {isRestoring ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} className="text-amber-400" />}
+                    Restore This Version
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default EntryHistoryPanel;
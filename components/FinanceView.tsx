@@ -1,15 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { FinanceTransaction } from '../types';
-import { DollarSign, Send, Bot, Wallet, Sparkles, Search, ArrowUpRight, ArrowDownLeft, Filter, Mic, MicOff, Plus, X, Edit2, Trash2, CheckCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { FinanceTransaction, TrashItem, JournalMode } from '../types';
+import { DollarSign, Send, Bot, Wallet, Sparkles, Search, ArrowUpRight, ArrowDownLeft, Filter, Mic, MicOff, Plus, X, Edit2, Trash2, CheckCircle, Receipt, AlertTriangle, Briefcase } from 'lucide-react';
 import { chatWithFinance } from '../services/geminiService';
-import { saveTransaction, deleteTransaction } from '../services/storageService';
+import { describeAIError } from '../services/llmProvider';
+import { saveTransaction, deleteTransaction, inWorkspace, modeOf } from '../services/storageService';
+import { useTransactions } from '../hooks/useStorage';
 
 interface FinanceViewProps {
-  transactions: FinanceTransaction[];
-  onTransactionsChange: () => void;
+  mode: JournalMode;
+  showAllModes?: boolean; // Both workspaces' ledgers, with work transactions marked
+  onDeleted?: (message: string, items: TrashItem[]) => void;
 }
 
-const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsChange }) => {
+const FinanceView: React.FC<FinanceViewProps> = ({ mode, showAllModes = false, onDeleted }) => {
+  const storedTransactions = useTransactions();
+  const transactions = useMemo(() => storedTransactions.filter(inWorkspace(mode, showAllModes)), [storedTransactions, mode, showAllModes]);
   // Chat State
   const [messages, setMessages] = useState<{id: string, role: string, text: string}[]>([]);
   const [input, setInput] = useState('');
@@ -105,7 +110,7 @@ const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsC
         setMessages(prev => [...prev, {
             id: Date.now().toString(),
             role: 'model',
-            text: "Connection error. Please try again."
+            text: `⚠️ ${describeAIError(error)}`
         }]);
     } finally {
         setIsTyping(false);
@@ -133,14 +138,12 @@ const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsC
       setIsModalOpen(true);
   };
 
-  const handleDelete = (id: string) => {
-      if(window.confirm("Are you sure you want to delete this transaction?")) {
-          deleteTransaction(id);
-          onTransactionsChange();
-      }
+  const handleDelete = async (id: string) => {
+      const trashed = await deleteTransaction(id);
+      if (onDeleted && trashed.length > 0) onDeleted("Transaction moved to Trash", trashed);
   };
 
-  const handleSaveTx = () => {
+  const handleSaveTx = async () => {
       if (!editingTx.description || !editingTx.amount || !editingTx.date) {
           alert("Please fill in description and amount.");
           return;
@@ -152,11 +155,17 @@ const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsC
           amount: Number(editingTx.amount),
           type: editingTx.type || 'expense',
           category: editingTx.category || 'General',
-          date: editingTx.date // ISO date string from input
+          date: editingTx.date, // ISO date string from input
+          linkedEntryId: editingTx.linkedEntryId,
+          mode: editingTx.id ? editingTx.mode : mode // Edits stay in the workspace they were made in
       };
+      // Saving an edit confirms the amount, which settles any disagreement with the receipt
+      if (editingTx.receipt) {
+          const { typedAmount, ...receipt } = editingTx.receipt;
+          txToSave.receipt = receipt;
+      }
 
-      saveTransaction(txToSave);
-      onTransactionsChange();
+      await saveTransaction(txToSave);
       setIsModalOpen(false);
   };
 
@@ -257,7 +266,7 @@ const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsC
                 <div>
                     <h2 className="text-lg font-bold text-white flex items-center gap-2">
                         <Wallet className="text-blue-500" size={20} />
-                        Financial Ledger
+                        {showAllModes ? 'All Ledgers' : mode === JournalMode.PROFESSIONAL ? 'Work Ledger' : 'Financial Ledger'}
                     </h2>
                 </div>
                 <div className="flex items-center gap-2 w-full sm:w-auto">
@@ -307,7 +316,16 @@ const FinanceView: React.FC<FinanceViewProps> = ({ transactions, onTransactionsC
                                     {tx.type === 'income' ? <ArrowDownLeft size={16} /> : <ArrowUpRight size={16} />}
                                 </div>
                                 <div className="min-w-0">
-                                    <span className="font-medium text-slate-200 block truncate">{tx.description}</span>
+                                    <span className="font-medium text-slate-200 flex items-center gap-1.5 min-w-0">
+                                        {showAllModes && modeOf(tx) === JournalMode.PROFESSIONAL && <span title="Work" className="shrink-0"><Briefcase size={12} className="text-amber-400" /></span>}
+                                        <span className="truncate">{tx.description}</span>
+                                        {tx.receipt && <span title="Read from a receipt" className="shrink-0"><Receipt size={12} className="text-green-400" /></span>}
+                                    </span>
+                                    {tx.receipt?.typedAmount !== undefined && (
+                                        <span className="flex items-center gap-1 text-[10px] text-amber-400">
+                                            <AlertTriangle size={10} /> You wrote ₹{tx.receipt.typedAmount}, receipt says ₹{tx.receipt.total}
+                                        </span>
+                                    )}
                                     {/* Mobile Category shown below desc */}
                                     <span className="sm:hidden text-[10px] text-slate-500">{tx.category}</span>
                                 </div>
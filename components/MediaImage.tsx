@@ -0,0 +1,41 @@
+import React, { useState, useEffect } from 'react';
+import { ImageOff } from 'lucide-react';
+import { MediaRef } from '../types';
+import { getMediaUrl } from '../services/mediaService';
+
+interface MediaImageProps {
+  media: Pick<MediaRef, 'mediaId' | 'mimeType' | 'content'>;
+  thumbnail?: boolean;
+  alt: string;
+  className?: string;
+}
+
+// Loads an image from the media store; shows a placeholder while loading or if this device does not have it yet
+const MediaImage: React.FC<MediaImageProps> = ({ media, thumbnail = false, alt, className = '' }) => {
+  const [src, setSrc] = useState<string | undefined>();
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+      let cancelled = false;
+      setSrc(undefined);
+      setIsMissing(false);
+      getMediaUrl(media, thumbnail).then(url => {
+          if (cancelled) return;
+          setSrc(url);
+          setIsMissing(!url);
+      });
+      return () => { cancelled = true; };
+  }, [media.mediaId, media.content, media.mimeType, thumbnail]);
+
+  if (isMissing) {
+      return (
+          <div className={`flex items-center justify-center bg-slate-900 text-slate-600 min-w-[80px] min-h-[80px] ${className}`} title="Image not available on this device yet">
+              <ImageOff size={20} />
+          </div>
+      );
+  }
+  if (!src) return <div className={`bg-slate-800 animate-pulse min-w-[80px] min-h-[80px] ${className}`} />;
+  return <img src={src} alt={alt} className={className} loading="lazy" />;
+};
+
+export default MediaImage;
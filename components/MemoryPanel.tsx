@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Brain, X, Edit2, Trash2, Check, Briefcase } from 'lucide-react';
+import { JournalMode, MemoryNote, MemoryCategory } from '../types';
+import { saveMemory, deleteMemories } from '../services/memoryService';
+
+interface MemoryPanelProps {
+  mode: JournalMode;
+  memories: MemoryNote[]; // The workspace's notes, newest first
+  onClose: () => void;
+}
+
+const CATEGORIES: { id: MemoryCategory; label: string }[] = [
+    { id: 'person', label: 'People' },
+    { id: 'situation', label: 'Ongoing' },
+    { id: 'preference', label: 'Preferences' }
+];
+
+// What the companion remembers from older conversations in this workspace, to read, correct or forget
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ mode, memories, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (note: MemoryNote) => {
+      setEditingId(note.id);
+      setDraft(note.text);
+  };
+
+  const handleSave = async (note: MemoryNote) => {
+      if (draft.trim()) await saveMemory({ ...note, text: draft });
+      else await deleteMemories([note.id]);
+      setEditingId(null);
+  };
+
+  const handleForgetAll = async () => {
+      if (!window.confirm(`Forget everything the ${mode === JournalMode.PROFESSIONAL ? 'work' : 'personal'} companion remembers? This cannot be undone.`)) return;
+      await deleteMemories(memories.map(note => note.id));
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full sm:w-96 bg-slate-900 border-l border-slate-800 z-30 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between shrink-0">
+            <div className="flex items-center gap-2">
+                {mode === JournalMode.PROFESSIONAL ? <Briefcase size={18} className="text-amber-400" /> : <Brain size={18} className="text-purple-400" />}
+                <h3 className="font-semibold text-slate-200">What I Remember</h3>
+            </div>
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                <X size={18} />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {memories.length === 0 && (
+                <p className="text-sm text-slate-500 leading-relaxed">
+                    Nothing yet. As the chat grows, older messages are summarised here into notes about people, what is going on and what you prefer, so they are not forgotten.
+                </p>
+            )}
+
+            {CATEGORIES.map(({ id, label }) => {
+                const notes = memories.filter(note => note.category === id);
+                if (notes.length === 0) return null;
+                return (
+                    <div key={id} className="space-y-2">
+                        <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500">{label}</h4>
+                        {notes.map(note => (
+                            <div key={note.id} className="group p-3 rounded-lg bg-slate-950 border border-slate-800">
+                                {editingId === note.id ? (
+                                    <div className="space-y-2">
+                                        <textarea
+                                            value={draft}
+                                            onChange={e => setDraft(e.target.value)}
+                                            rows={3}
+                                            autoFocus
+                                            className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 focus:outline-none focus:border-purple-500 resize-none"
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button onClick={() => setEditingId(null)} className="px-3 py-1 text-xs text-slate-400 hover:text-white rounded-lg hover:bg-slate-800">
+                                                Cancel
+                                            </button>
+                                            <button onClick={() => handleSave(note)} className="flex items-center gap-1 px-3 py-1 text-xs bg-purple-600 hover:bg-purple-500 text-white rounded-lg">
+                                                <Check size={12} /> Save
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-start gap-2">
+                                        <p className="flex-1 text-sm text-slate-300 leading-relaxed">{note.text}</p>
+                                        <div className="flex gap-1 shrink-0 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <button onClick={() => startEditing(note)} className="p-1 text-slate-500 hover:text-blue-400" title="Edit">
+                                                <Edit2 size={14} />
+                                            </button>
+                                            <button onClick={() => deleteMemories([note.id])} className="p-1 text-slate-500 hover:text-red-400" title="Forget">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="text-[10px] text-slate-600 mt-1">
+                                    {note.editedByUser ? 'Edited by you' : 'Remembered'} {new Date(note.updatedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                );
+            })}
+        </div>
+
+        {memories.length > 0 && (
+            <div className="p-4 border-t border-slate-800 shrink-0">
+                <button onClick={handleForgetAll} className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-red-400 hover:bg-red-500/10 border border-red-500/30 rounded-lg transition-colors">
+                    <Trash2 size={14} /> Forget Everything
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default MemoryPanel;
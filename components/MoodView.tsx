@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Smile, Zap, Tag, Wallet, CheckSquare, Loader2, RefreshCw } from 'lucide-react';
+import { JournalMode } from '../types';
+import { useEntries, useTasks, useTransactions } from '../hooks/useStorage';
+import { inWorkspace } from '../services/storageService';
+import { getMoodInsights, updateMoods, countUnscoredEntries, MoodDay, MoodComparison } from '../services/moodService';
+
+interface MoodViewProps {
+  mode: JournalMode;
+  showAllModes?: boolean; // Mood across both workspaces
+  hasApiKey: boolean;
+  onOpenEntry: (id: string) => void;
+}
+
+const RANGE_OPTIONS = [3, 6, 12];
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const describeValence = (valence: number | null): string => {
+    if (valence === null) return 'No data';
+    if (valence >= 0.5) return 'Very positive';
+    if (valence >= 0.15) return 'Positive';
+    if (valence > -0.15) return 'Neutral';
+    if (valence > -0.5) return 'Low';
+    return 'Very low';
+};
+
+const valenceColor = (valence?: number): string => {
+    if (valence === undefined) return 'bg-slate-800';
+    if (valence >= 0.5) return 'bg-emerald-500';
+    if (valence >= 0.15) return 'bg-emerald-500/50';
+    if (valence > -0.15) return 'bg-slate-600';
+    if (valence > -0.5) return 'bg-rose-500/50';
+    return 'bg-rose-500';
+};
+
+const signed = (value: number | null) => value === null ? '–' : `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const formatMoney = (amount: number | null) => amount === null ? '–' : `₹${Math.round(amount).toLocaleString()}`;
+
+// Daily valence (and energy, faded) as a line chart over the selected months
+const MoodTimeline: React.FC<{ days: MoodDay[]; from: Date; to: Date }> = ({ days, from, to }) => {
+  const width = 600;
+  const height = 140;
+  const span = Math.max(1, to.getTime() - from.getTime());
+  const x = (date: Date) => ((date.getTime() - from.getTime()) / span) * width;
+  const yValence = (v: number) => height / 2 - v * (height / 2 - 6);
+  const yEnergy = (e: number) => height - 6 - e * (height - 12);
+
+  if (days.length === 0) return <p className="text-sm text-slate-500">No scored entries in this period yet.</p>;
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36" preserveAspectRatio="none">
+        <line x1={0} x2={width} y1={height / 2} y2={height / 2} className="stroke-slate-700" strokeDasharray="4 4" />
+        <polyline
+            fill="none"
+            className="stroke-amber-400/40"
+            strokeWidth={1.5}
+            points={days.map(d => `${x(d.date)},${yEnergy(d.energy)}`).join(' ')}
+        />
+        <polyline
+            fill="none"
+            className="stroke-purple-400"
+            strokeWidth={2}
+            points={days.map(d => `${x(d.date)},${yValence(d.valence)}`).join(' ')}
+        />
+        {days.map(d => (
+            <circle key={d.key} cx={x(d.date)} cy={yValence(d.valence)} r={3} className="fill-purple-400">
+                <title>{`${d.date.toLocaleDateString()}: ${describeValence(d.valence)}${d.emotions.length ? ` (${d.emotions.join(', ')})` : ''}`}</title>
+            </circle>
+        ))}
+    </svg>
+  );
+};
+
+// One calendar grid per month, each day coloured by its average mood
+const MoodHeatmap: React.FC<{ days: MoodDay[]; months: Date[]; onOpenEntry: (id: string) => void }> = ({ days, months, onOpenEntry }) => {
+  const byKey = new Map(days.map(d => [d.key, d]));
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {months.map(start => {
+            const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+            const offset = (start.getDay() + 6) % 7; // Weeks start on Monday
+            return (
+                <div key={start.toISOString()}>
+                    <div className="text-xs font-medium text-slate-400 mb-1.5">{start.toLocaleDateString([], { month: 'long', year: 'numeric' })}</div>
+                    <div className="grid grid-cols-7 gap-1">
+                        {WEEKDAYS.map((d, i) => <div key={i} className="text-[9px] text-slate-600 text-center">{d}</div>)}
+                        {Array.from({ length: offset }, (_, i) => <div key={`pad-${i}`} />)}
+                        {Array.from({ length: daysInMonth }, (_, i) => {
+                            const date = new Date(start.getFullYear(), start.getMonth(), i + 1);
+                            const day = byKey.get(date.toDateString());
+                            return (
+                                <button
+                                    key={i}
+                                    onClick={() => day && onOpenEntry(day.entryIds[0])}
+                                    disabled={!day}
+                                    title={day ? `${date.toLocaleDateString()}: ${describeValence(day.valence)}${day.emotions.length ? ` (${day.emotions.join(', ')})` : ''}` : date.toLocaleDateString()}
+                                    className={`aspect-square rounded-sm ${valenceColor(day?.valence)} ${day ? 'hover:ring-1 hover:ring-white/60' : 'cursor-default'}`}
+                                />
+                            );
+                        })}
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+  );
+};
+
+const ComparisonRow: React.FC<{ label: string; comparison: MoodComparison }> = ({ label, comparison }) => (
+  <div className="flex items-center justify-between gap-3 text-sm">
+      <span className="text-slate-400">{label} <span className="text-slate-600">({comparison.days} day{comparison.days === 1 ? '' : 's'})</span></span>
+      <span className="flex items-center gap-2 text-slate-200">
+          <span className={`w-2.5 h-2.5 rounded-full ${valenceColor(comparison.valence ?? undefined)}`} />
+          {signed(comparison.valence)}
+      </span>
+  </div>
+);
+
+// Mood over time and what it moves with: tags, spending days and completed tasks
+const MoodView: React.FC<MoodViewProps> = ({ mode, showAllModes = false, hasApiKey, onOpenEntry }) => {
+  const storedEntries = useEntries();
+  const storedTransactions = useTransactions();
+  const storedTasks = useTasks();
+  const include = useMemo(() => inWorkspace(mode, showAllModes), [mode, showAllModes]);
+  const entries = useMemo(() => storedEntries.filter(include), [storedEntries, include]);
+  const transactions = useMemo(() => storedTransactions.filter(include), [storedTransactions, include]);
+  const tasks = useMemo(() => storedTasks.filter(include), [storedTasks, include]);
+  const [months, setMonths] = useState(6);
+  const [unscored, setUnscored] = useState(0);
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const insights = useMemo(() => getMoodInsights(entries, transactions, tasks, months), [entries, transactions, tasks, months]);
+  const monthStarts = insights.months.map(m => m.start);
+  const from = monthStarts[0];
+  const to = new Date();
+
+  useEffect(() => { countUnscoredEntries(entries).then(setUnscored); }, [entries]);
+
+  const handleScore = async () => {
+      setIsScoring(true);
+      setError('');
+      try {
+          await updateMoods();
+      } catch (e: any) {
+          setError(`Scoring stopped: ${e.message || e}`);
+      } finally {
+          setIsScoring(false);
+      }
+  };
+
+  const maxSpent = Math.max(1, ...insights.months.map(m => m.spent));
+  const maxTasks = Math.max(1, ...insights.months.map(m => m.tasksCompleted));
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-xl max-w-5xl mx-auto">
+        <div className="p-6 border-b border-slate-800 bg-slate-950 flex flex-wrap gap-4 justify-between items-center">
+            <div>
+                <h2 className="text-2xl font-bold text-white mb-1">Mood</h2>
+                <p className="text-sm text-slate-400">Scored from your entries as you save them</p>
+            </div>
+            <div className="flex items-center gap-3">
+                {unscored > 0 && hasApiKey && (
+                    <button
+                        onClick={handleScore}
+                        disabled={isScoring}
+                        className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-purple-300 transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {isScoring ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                        Score {unscored} entr{unscored === 1 ? 'y' : 'ies'}
+                    </button>
+                )}
+                <select
+                    value={months}
+                    onChange={(e) => setMonths(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                >
+                    {RANGE_OPTIONS.map(m => <option key={m} value={m}>Last {m} months</option>)}
+                </select>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            {!hasApiKey && <p className="text-sm text-amber-400">Set up an AI provider in Settings to score the mood of your entries.</p>}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="p-4 rounded-xl bg-slate-950/50 border border-slate-800">
+                    <div className="flex items-center gap-2 text-xs text-slate-500 uppercase tracking-wide mb-2"><Smile size={14} /> Average mood</div>
+                    <div className="text-xl font-semibold text-white">{describeValence(insights.valence)}</div>
+                    <div className="text-xs text-slate-500">{signed(insights.valence)} across {insights.days.length} days</div>
+                </div>
+                <div className="p-4 rounded-xl bg-slate-950/50 border border-slate-800">
+                    <div className="flex items-center gap-2 text-xs text-slate-500 uppercase tracking-wide mb-2"><Zap size={14} /> Average energy</div>
+                    <div className="text-xl font-semibold text-white">{insights.energy === null ? 'No data' : `${Math.round(insights.energy * 100)}%`}</div>
+                </div>
+                <div className="p-4 rounded-xl bg-slate-950/50 border border-slate-800">
+                    <div className="text-xs text-slate-500 uppercase tracking-wide mb-2">Most felt</div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {insights.emotions.length === 0 && <span className="text-sm text-slate-500">No data</span>}
+                        {insights.emotions.slice(0, 6).map(({ emotion, count }) => (
+                            <span key={emotion} className="px-2 py-0.5 rounded-full bg-purple-500/10 text-purple-300 text-xs">{emotion} · {count}</span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Timeline */}
+            <section>
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-slate-300">Timeline</h3>
+                    <span className="flex items-center gap-3 text-[11px] text-slate-500">
+                        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-purple-400" /> Mood</span>
+                        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-amber-400/40" /> Energy</span>
+                    </span>
+                </div>
+                {from && <MoodTimeline days={insights.days} from={from} to={to} />}
+            </section>
+
+            {/* Heatmap */}
+            <section>
+                <h3 className="text-sm font-semibold text-slate-300 mb-3">By day</h3>
+                <MoodHeatmap days={insights.days} months={monthStarts} onOpenEntry={onOpenEntry} />
+            </section>
+
+            {/* Correlations */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <section className="p-4 rounded-xl bg-slate-950/50 border border-slate-800">
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300 mb-3"><Tag size={14} /> Tags</h3>
+                    {insights.tags.length === 0 && <p className="text-xs text-slate-500">Tags used on at least two scored entries show up here.</p>}
+                    <div className="space-y-2">
+                        {insights.tags.slice(0, 8).map(t => (
+                            <div key={t.tag} className="flex items-center justify-between gap-3 text-sm">
+                                <span className="text-slate-400 truncate">#{t.tag} <span className="text-slate-600">({t.entries})</span></span>
+                                <span className={t.difference >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{signed(t.difference)}</span>
+                            </div>
+                        ))}
+                    </div>
+                    {insights.tags.length > 0 && <p className="text-[11px] text-slate-600 mt-3">Difference from your average mood</p>}
+                </section>
+
+                <section className="p-4 rounded-xl bg-slate-950/50 border border-slate-800 space-y-2">
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300 mb-3"><Wallet size={14} /> Spending</h3>
+                    <ComparisonRow label="Days you spent" comparison={insights.spending.withSpending} />
+                    <ComparisonRow label="No-spend days" comparison={insights.spending.withoutSpending} />
+                    <div className="pt-2 mt-2 border-t border-slate-800 text-xs text-slate-500 space-y-1">
+                        <div className="flex justify-between"><span>Spent on good days</span><span className="text-slate-300">{formatMoney(insights.spending.spentOnGoodDays)}</span></div>
+                        <div className="flex justify-between"><span>Spent on low days</span><span className="text-slate-300">{formatMoney(insights.spending.spentOnLowDays)}</span></div>
+                    </div>
+                </section>
+
+                <section className="p-4 rounded-xl bg-slate-950/50 border border-slate-800 space-y-2">
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300 mb-3"><CheckSquare size={14} /> Tasks</h3>
+                    <ComparisonRow label="Days you finished tasks" comparison={insights.tasks.withCompletions} />
+                    <ComparisonRow label="Other days" comparison={insights.tasks.withoutCompletions} />
+                </section>
+            </div>
+
+            {/* Months */}
+            <section>
+                <h3 className="text-sm font-semibold text-slate-300 mb-3">By month</h3>
+                <div className="space-y-2">
+                    {insights.months.map(m => (
+                        <div key={m.label} className="grid grid-cols-[5rem_1fr_1fr_1fr] items-center gap-3 text-xs">
+                            <span className="text-slate-400">{m.label}</span>
+                            <span className="flex items-center gap-2 text-slate-300">
+                                <span className={`w-2.5 h-2.5 rounded-full ${valenceColor(m.valence ?? undefined)}`} />
+                                {signed(m.valence)} <span className="text-slate-600">({m.scoredEntries})</span>
+                            </span>
+                            <span className="flex items-center gap-2 text-slate-400" title={`${m.tasksCompleted} tasks completed`}>
+                                <span className="h-1.5 rounded-full bg-emerald-500/60" style={{ width: `${(m.tasksCompleted / maxTasks) * 60}%`, minWidth: m.tasksCompleted ? 4 : 0 }} />
+                                {m.tasksCompleted}
+                            </span>
+                            <span className="flex items-center gap-2 text-slate-400" title={`${formatMoney(m.spent)} spent`}>
+                                <span className="h-1.5 rounded-full bg-amber-500/60" style={{ width: `${(m.spent / maxSpent) * 60}%`, minWidth: m.spent ? 4 : 0 }} />
+                                {formatMoney(m.spent)}
+                            </span>
+                        </div>
+                    ))}
+                    <div className="grid grid-cols-[5rem_1fr_1fr_1fr] gap-3 text-[10px] text-slate-600 uppercase tracking-wide pt-1">
+                        <span />
+                        <span>Mood (entries)</span>
+                        <span>Tasks done</span>
+                        <span>Spent</span>
+                    </div>
+                </div>
+            </section>
+        </div>
+    </div>
+  );
+};
+
+export default MoodView;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, X, Plus, ScrollText, Trash2 } from 'lucide-react';
+import {
+    RedactionRule, RedactionKind, RedactionSettings, RedactionLogEntry, REDACTION_RULES,
+    getRedactionSettings, setRedactionSettings, getRedactionLog, clearRedactionLog
+} from '../services/redactionService';
+
+const RULE_LABELS: Record<RedactionRule, string> = {
+    email: 'Email and UPI addresses',
+    phone: 'Phone numbers',
+    account: 'Account, card and Aadhaar numbers',
+    idNumber: 'PAN and IBAN'
+};
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+    NAME: 'Name or place',
+    EMAIL: 'Email or UPI address',
+    PHONE: 'Phone number',
+    ACCOUNT: 'Account or card number',
+    ID: 'ID number'
+};
+
+const TASK_LABELS: Record<RedactionLogEntry['task'], string> = {
+    companionChat: 'Chat',
+    journalChat: 'Journal assistant',
+    financeChat: 'Finance assistant',
+    entryExtraction: 'Auto-save',
+    fileImport: 'Import',
+    entryAction: 'Entry action',
+    moodAnalysis: 'Mood',
+    receiptScan: 'Receipt',
+    digest: 'Digest',
+    memory: 'Memory',
+    embedding: 'Search index'
+};
+
+// What the privacy filter replaces before text is sent to the AI provider, and what it replaced
+const PrivacySettings: React.FC = () => {
+  const [settings, setSettings] = useState<RedactionSettings | null>(null);
+  const [newTerm, setNewTerm] = useState('');
+  const [log, setLog] = useState<RedactionLogEntry[] | null>(null);
+
+  useEffect(() => {
+      getRedactionSettings().then(setSettings).catch(error => console.error("Failed to load privacy settings", error));
+  }, []);
+
+  const update = async (next: RedactionSettings) => {
+      setSettings(next);
+      await setRedactionSettings(next);
+  };
+
+  const handleAddTerm = () => {
+      if (!settings || !newTerm.trim()) return;
+      update({ ...settings, neverSend: [...settings.neverSend, newTerm.trim()] });
+      setNewTerm('');
+  };
+
+  const handleToggleLog = async () => {
+      setLog(log ? null : await getRedactionLog());
+  };
+
+  const handleClearLog = async () => {
+      await clearRedactionLog();
+      setLog([]);
+  };
+
+  if (!settings) return null;
+
+  return (
+    <div className="p-6 border-b border-slate-800">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-teal-500/10 rounded-lg text-teal-500 shrink-0">
+                <ShieldCheck size={24} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">Privacy Filter</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        Replaces personal details with placeholders like [PHONE_3F9A] before anything is sent to the AI provider, and puts them back in its replies. Photos are sent as they are.
+                    </p>
+                </div>
+
+                <button
+                    onClick={() => update({ ...settings, enabled: !settings.enabled })}
+                    className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                        settings.enabled ? 'bg-teal-500/10 border-teal-500/40 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                    }`}
+                >
+                    <span className={`w-8 h-4 rounded-full relative transition-colors ${settings.enabled ? 'bg-teal-500' : 'bg-slate-600'}`}>
+                        <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${settings.enabled ? 'left-4' : 'left-0.5'}`} />
+                    </span>
+                    {settings.enabled ? 'On' : 'Off'}
+                </button>
+
+                {settings.enabled && (
+                    <>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {REDACTION_RULES.map(rule => (
+                                <label key={rule} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.rules[rule]}
+                                        onChange={e => update({ ...settings, rules: { ...settings.rules, [rule]: e.target.checked } })}
+                                        className="accent-teal-500"
+                                    />
+                                    {RULE_LABELS[rule]}
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-xs text-slate-500">Never send these names and places (whole words, any case)</p>
+                            {settings.neverSend.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {settings.neverSend.map(term => (
+                                        <span key={term} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-slate-800 border border-slate-700 text-xs text-slate-300">
+                                            {term}
+                                            <button
+                                                onClick={() => update({ ...settings, neverSend: settings.neverSend.filter(t => t !== term) })}
+                                                className="p-0.5 rounded-full text-slate-500 hover:text-red-400"
+                                                title="Remove"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    placeholder="e.g. a name or a street"
+                                    value={newTerm}
+                                    onChange={e => setNewTerm(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleAddTerm(); }}
+                                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-teal-500 w-full"
+                                />
+                                <button
+                                    onClick={handleAddTerm}
+                                    disabled={!newTerm.trim()}
+                                    className="px-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 transition-colors disabled:opacity-50"
+                                    title="Add"
+                                >
+                                    <Plus size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={handleToggleLog}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    >
+                        <ScrollText size={16} className="text-teal-400" />
+                        {log ? 'Hide Redaction Log' : 'Show Redaction Log'}
+                    </button>
+                    {log && log.length > 0 && (
+                        <button onClick={handleClearLog} className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-400">
+                            <Trash2 size={12} /> Clear
+                        </button>
+                    )}
+                </div>
+
+                {log && (
+                    log.length === 0 ? (
+                        <p className="text-xs text-slate-500">Nothing has been redacted yet.</p>
+                    ) : (
+                        <div className="space-y-2 max-h-72 overflow-y-auto">
+                            {log.map(entry => (
+                                <div key={entry.id} className="p-3 rounded-lg bg-slate-950 border border-slate-800 space-y-1">
+                                    <div className="flex justify-between text-xs">
+                                        <span className="text-slate-300">{TASK_LABELS[entry.task] || entry.task}</span>
+                                        <span className="text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+                                    </div>
+                                    {entry.spans.map(span => (
+                                        <div key={span.placeholder} className="flex gap-2 text-xs font-mono">
+                                            <span className="text-teal-400 shrink-0">{span.placeholder}</span>
+                                            <span className="text-slate-400 truncate">{KIND_LABELS[span.kind]}{span.count > 1 ? ` ×${span.count}` : ''}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default PrivacySettings;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Receipt, Loader2, Check, X, AlertTriangle } from 'lucide-react';
+import { JournalEntry, TrashItem } from '../types';
+import {
+    scanReceipts, proposeReceipts, toReceiptTransactions, applyReceipts, getSplitReceipts, getReadReceiptIds, ReceiptProposal
+} from '../services/receiptService';
+import { describeAIError } from '../services/llmProvider';
+
+interface ReceiptScannerProps {
+  entry: JournalEntry;
+  onTrashed?: (message: string, items: TrashItem[]) => void;
+}
+
+const formatMoney = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// Reads the entry's unread photos as receipts and previews the transactions they would become
+const ReceiptScanner: React.FC<ReceiptScannerProps> = ({ entry, onTrashed }) => {
+  const [proposals, setProposals] = useState<ReceiptProposal[] | null>(null);
+  const [split, setSplit] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const readIds = getReadReceiptIds(entry);
+  const unread = (entry.media || []).filter(m => m.mediaId && !readIds.has(m.mediaId));
+  if (unread.length === 0 && !proposals) return null;
+
+  const handleScan = async () => {
+      setIsScanning(true);
+      setError('');
+      try {
+          const [receipts, splitByDefault] = await Promise.all([scanReceipts(unread), getSplitReceipts()]);
+          setSplit(splitByDefault);
+          setProposals(proposeReceipts(receipts, entry.transactions || []));
+      } catch (e) {
+          setError(describeAIError(e));
+      } finally {
+          setIsScanning(false);
+      }
+  };
+
+  const handleAccept = async () => {
+      if (!proposals) return;
+      setIsSaving(true);
+      try {
+          const trashed = await applyReceipts(entry, proposals, split);
+          if (trashed.length > 0) onTrashed?.("Typed amounts replaced by the receipt", trashed);
+          setProposals(null);
+      } catch (e: any) {
+          setError(`Could not save: ${e.message || e}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  if (!proposals) {
+      return (
+        <div className="space-y-1">
+            <button
+                onClick={handleScan}
+                disabled={isScanning}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] font-medium text-slate-500 hover:text-green-300 hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+                {isScanning ? <Loader2 size={12} className="animate-spin" /> : <Receipt size={12} />}
+                Read receipt{unread.length === 1 ? '' : 's'}
+            </button>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      );
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-950 border border-green-500/30 space-y-3">
+        {proposals.length === 0 && <p className="text-sm text-slate-500">No receipt found in the photos.</p>}
+        {proposals.map((proposal, i) => {
+            const { scan } = proposal.receipt;
+            const lines = toReceiptTransactions(proposal, { split, date: entry.date, idPrefix: 'preview' });
+            return (
+                <div key={i} className="space-y-2">
+                    <div className="flex items-baseline justify-between gap-3">
+                        <span className="text-sm font-medium text-slate-200 truncate">{scan.merchant}</span>
+                        <span className="text-xs text-slate-500 shrink-0">{scan.date ? new Date(scan.date).toLocaleDateString() : 'No date printed'}</span>
+                    </div>
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                        {lines.map(line => (
+                            <div key={line.id} className="flex justify-between gap-3 text-xs text-slate-400">
+                                <span className="truncate">{split ? line.description.replace(`${scan.merchant}: `, '') : `${line.category}`}</span>
+                                <span className="font-mono shrink-0">{formatMoney(line.amount)}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-between text-xs border-t border-slate-800 pt-1.5">
+                        <span className="text-slate-500">Total{scan.tax > 0 ? ` (tax ${formatMoney(scan.tax)})` : ''}</span>
+                        <span className="font-mono text-slate-200">{formatMoney(scan.total)}</span>
+                    </div>
+                    {proposal.replaces && (
+                        <p className={`flex items-start gap-1.5 text-xs ${proposal.typedAmount !== undefined ? 'text-amber-400' : 'text-slate-500'}`}>
+                            {proposal.typedAmount !== undefined && <AlertTriangle size={12} className="mt-0.5 shrink-0" />}
+                            {proposal.typedAmount !== undefined
+                                ? `You wrote ${formatMoney(proposal.typedAmount)} for "${proposal.replaces.description}", but the receipt totals ${formatMoney(scan.total)}.`
+                                : `Replaces "${proposal.replaces.description}".`}
+                        </p>
+                    )}
+                </div>
+            );
+        })}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex items-center justify-between gap-2">
+            {proposals.some(p => p.receipt.scan.items.length > 0) ? (
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={split} onChange={e => setSplit(e.target.checked)} className="accent-green-500" />
+                    Split by item
+                </label>
+            ) : <span />}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setProposals(null)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                >
+                    <X size={12} /> Discard
+                </button>
+                {proposals.length > 0 && (
+                    <button
+                        onClick={handleAccept}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs bg-green-600 hover:bg-green-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                        {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} Add to Finance
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ReceiptScanner;
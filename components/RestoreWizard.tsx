@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Upload, AlertCircle } from 'lucide-react';
+import { CollectionName, describeReport } from '../services/schema';
+import {
+    PreparedRestore, RestoreStrategy, RestorePreview, RESTORE_COLLECTIONS,
+    previewRestore, applyRestore, summarizePreview
+} from '../services/restoreService';
+
+interface RestoreWizardProps {
+  prepared: PreparedRestore;
+  onClose: () => void;
+  onRestored: (summary: string) => void;
+}
+
+const COLLECTION_LABELS: Record<CollectionName, string> = {
+  entries: 'Journal entries',
+  calendar: 'Calendar events',
+  tasks: 'Tasks',
+  finance: 'Transactions',
+  chatPersonal: 'Chat history',
+  chatProf: 'Work chat history'
+};
+
+const STRATEGY_LABELS: Record<RestoreStrategy, string> = {
+  keepNewer: 'Keep newer',
+  keepBoth: 'Keep both',
+  overwrite: 'Overwrite'
+};
+
+const RestoreWizard: React.FC<RestoreWizardProps> = ({ prepared, onClose, onRestored }) => {
+  const collections = RESTORE_COLLECTIONS.filter(c => Array.isArray(prepared.data[c]));
+  const [strategies, setStrategies] = useState<Partial<Record<CollectionName, RestoreStrategy>>>(
+      () => Object.fromEntries(collections.map(c => [c, 'keepNewer']))
+  );
+  const [preview, setPreview] = useState<RestorePreview>({});
+  const [isPreviewing, setIsPreviewing] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+      let cancelled = false;
+      setIsPreviewing(true);
+      previewRestore(prepared.data, strategies).then(result => {
+          if (cancelled) return;
+          setPreview(result);
+          setIsPreviewing(false);
+      });
+      return () => { cancelled = true; };
+  }, [prepared, strategies]);
+
+  const handleRestore = async () => {
+      setIsRestoring(true);
+      setError('');
+      try {
+          const result = await applyRestore(prepared.data, strategies, prepared.media);
+          const repairs = describeReport(prepared.report);
+          onRestored(repairs ? `${summarizePreview(result)}; ${repairs}` : summarizePreview(result));
+      } catch (err: any) {
+          setError(err?.message || 'Restore failed.');
+          setIsRestoring(false);
+      }
+  };
+
+  const repairs = describeReport(prepared.report);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+        <div className="bg-slate-900 w-full max-w-2xl rounded-2xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+            <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-950/50">
+                <h3 className="font-bold text-white">Restore Backup</h3>
+                <button onClick={onClose} disabled={isRestoring} className="text-slate-400 hover:text-white p-1 hover:bg-slate-800 rounded-lg transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="p-4 flex-1 overflow-y-auto space-y-4">
+                <p className="text-sm text-slate-400 leading-relaxed">
+                    Choose how each part of the backup is combined with what is on this device. Your current data is saved first, so you can roll the restore back from Settings.
+                </p>
+                {repairs && (
+                    <div className="flex items-center gap-2 text-amber-400 text-xs">
+                        <AlertCircle size={14} />
+                        <span>Backup {repairs}.</span>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    {collections.map(collection => {
+                        const p = preview[collection];
+                        return (
+                            <div key={collection} className="p-3 rounded-xl bg-slate-950/50 border border-slate-800 flex flex-col sm:flex-row sm:items-center gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium text-slate-200">{COLLECTION_LABELS[collection]}</div>
+                                    <div className="text-xs text-slate-500">
+                                        {p ? `${p.inBackup} in backup · ${p.current} on this device` : '...'}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-1.5 text-[11px] font-bold">
+                                    {isPreviewing || !p ? (
+                                        <Loader2 size={14} className="animate-spin text-slate-500" />
+                                    ) : (
+                                        <>
+                                            <span className="px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-400">+{p.added}</span>
+                                            <span className="px-2 py-0.5 rounded bg-blue-500/10 text-blue-400">~{p.updated}</span>
+                                            <span className="px-2 py-0.5 rounded bg-slate-800 text-slate-400">={p.skipped}</span>
+                                            {p.removed > 0 && <span className="px-2 py-0.5 rounded bg-red-500/10 text-red-400">-{p.removed}</span>}
+                                        </>
+                                    )}
+                                </div>
+                                <select
+                                    value={strategies[collection]}
+                                    onChange={(e) => setStrategies(prev => ({ ...prev, [collection]: e.target.value as RestoreStrategy }))}
+                                    className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                                >
+                                    {(Object.keys(STRATEGY_LABELS) as RestoreStrategy[]).map(s => (
+                                        <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <p className="text-xs text-slate-500 leading-relaxed">
+                    <span className="text-emerald-400">+added</span> · <span className="text-blue-400">~updated</span> · <span className="text-slate-400">=unchanged or skipped</span> · <span className="text-red-400">-moved to Trash</span>.
+                    Keep newer compares modification times; keep both saves conflicting backup records as copies; overwrite makes this collection match the backup exactly.
+                </p>
+
+                {error && (
+                    <div className="flex items-center gap-2 text-red-400 text-sm">
+                        <AlertCircle size={16} />
+                        <span>{error}</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="p-4 border-t border-slate-800 flex justify-end gap-3 bg-slate-950/50">
+                <button
+                    onClick={onClose}
+                    disabled={isRestoring}
+                    className="px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleRestore}
+                    disabled={isRestoring || isPreviewing}
+                    className="px-5 py-2 rounded-lg bg-blue-600 text-white font-bold hover:bg-blue-500 flex items-center gap-2 shadow-lg shadow-blue-900/20 transition-all active:scale-95 disabled:opacity-50"
+                >
+                    {isRestoring ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                    Restore
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default RestoreWizard;
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, Check, X, Edit2, BookOpen, Calendar, CheckSquare, DollarSign, MessageSquare, Loader2 } from 'lucide-react';
+import { ReviewItem, ReviewKind, ChatMessage, JournalEntry, CalendarEvent, Task, FinanceTransaction, DuplicateCandidate, TrashItem } from '../types';
+import { approveReviewItems, rejectReviewItems, updateReviewItem } from '../services/reviewService';
+import DuplicateCard from './DuplicateCard';
+
+interface ReviewInboxProps {
+  items: ReviewItem[];
+  messages: ChatMessage[]; // Both workspaces' chats, to show the messages each batch came from
+  duplicates?: DuplicateCandidate[]; // Saved records that may repeat others
+  onTrashed?: (message: string, items: TrashItem[]) => void;
+}
+
+const KIND_META: Record<ReviewKind, { icon: any; label: string; className: string }> = {
+  entry: { icon: BookOpen, label: 'Entry', className: 'text-purple-400 bg-purple-500/10' },
+  event: { icon: Calendar, label: 'Event', className: 'text-blue-400 bg-blue-500/10' },
+  task: { icon: CheckSquare, label: 'Task', className: 'text-emerald-400 bg-emerald-500/10' },
+  transaction: { icon: DollarSign, label: 'Transaction', className: 'text-amber-400 bg-amber-500/10' }
+};
+
+const formatDate = (iso?: string) => iso && !isNaN(new Date(iso).getTime()) ? new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : 'No date';
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso?: string) => {
+    if (!iso || isNaN(new Date(iso).getTime())) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string, fallback?: string) => value ? new Date(value).toISOString() : fallback;
+
+const describeItem = (item: ReviewItem): { title: string; detail: string } => {
+    switch (item.kind) {
+        case 'entry': {
+            const entry = item.record as JournalEntry;
+            return { title: entry.title || 'Untitled', detail: [entry.content.slice(0, 160), entry.tags.map(t => `#${t}`).join(' ')].filter(Boolean).join(' · ') };
+        }
+        case 'event': {
+            const event = item.record as CalendarEvent;
+            return { title: event.title, detail: `${formatDate(event.startTime)} – ${formatDate(event.endTime)}` };
+        }
+        case 'task': {
+            const task = item.record as Task;
+            return { title: task.title, detail: `Due ${formatDate(task.dueDate)}` };
+        }
+        case 'transaction': {
+            const tx = item.record as FinanceTransaction;
+            const mismatch = tx.receipt?.typedAmount !== undefined ? ` · you wrote ₹${tx.receipt.typedAmount}, receipt says ₹${tx.receipt.total}` : '';
+            return { title: tx.description, detail: `${tx.type === 'income' ? '+' : '-'}₹${tx.amount} · ${tx.category} · ${formatDate(tx.date)}${mismatch}` };
+        }
+    }
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+// Fields the user can correct before approving, per kind of record
+const ItemEditor: React.FC<{ item: ReviewItem; onSave: (item: ReviewItem) => void; onCancel: () => void }> = ({ item, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<any>(item.record);
+  const set = (field: string, value: any) => setDraft((prev: any) => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="space-y-2 mt-3">
+        {item.kind === 'entry' && (
+            <>
+                <input className={inputClass} value={draft.title} onChange={e => set('title', e.target.value)} placeholder="Title" />
+                <textarea className={`${inputClass} h-28 resize-none`} value={draft.content} onChange={e => set('content', e.target.value)} />
+                <input
+                    className={inputClass}
+                    value={draft.tags.join(', ')}
+                    onChange={e => set('tags', e.target.value.split(',').map((t: string) => t.trim()).filter(Boolean))}
+                    placeholder="Tags, comma separated"
+                />
+            </>
+        )}
+        {item.kind === 'event' && (
+            <>
+                <input className={inputClass} value={draft.title} onChange={e => set('title', e.target.value)} placeholder="Title" />
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="datetime-local" className={inputClass} value={toLocalInput(draft.startTime)} onChange={e => set('startTime', fromLocalInput(e.target.value, draft.startTime))} />
+                    <input type="datetime-local" className={inputClass} value={toLocalInput(draft.endTime)} onChange={e => set('endTime', fromLocalInput(e.target.value, draft.endTime))} />
+                </div>
+            </>
+        )}
+        {item.kind === 'task' && (
+            <>
+                <input className={inputClass} value={draft.title} onChange={e => set('title', e.target.value)} placeholder="Title" />
+                <input type="datetime-local" className={inputClass} value={toLocalInput(draft.dueDate)} onChange={e => set('dueDate', fromLocalInput(e.target.value))} />
+            </>
+        )}
+        {item.kind === 'transaction' && (
+            <>
+                <input className={inputClass} value={draft.description} onChange={e => set('description', e.target.value)} placeholder="Description" />
+                <div className="grid grid-cols-3 gap-2">
+                    <input type="number" min="0" step="0.01" className={inputClass} value={draft.amount} onChange={e => set('amount', parseFloat(e.target.value) || 0)} />
+                    <select className={inputClass} value={draft.type} onChange={e => set('type', e.target.value)}>
+                        <option value="expense">Expense</option>
+                        <option value="income">Income</option>
+                    </select>
+                    <input className={inputClass} value={draft.category} onChange={e => set('category', e.target.value)} placeholder="Category" />
+                </div>
+                <input type="datetime-local" className={inputClass} value={toLocalInput(draft.date)} onChange={e => set('date', fromLocalInput(e.target.value, draft.date))} />
+            </>
+        )}
+        <div className="flex justify-end gap-2">
+            <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">Cancel</button>
+            <button onClick={() => onSave({ ...item, record: draft })} className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-colors">Save Changes</button>
+        </div>
+    </div>
+  );
+};
+
+const ReviewInbox: React.FC<ReviewInboxProps> = ({ items, messages, duplicates = [], onTrashed }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Items extracted together are reviewed together, newest batch first
+  const batches = items.reduce<ReviewItem[][]>((groups, item) => {
+      const group = groups.find(g => g[0].batchId === item.batchId);
+      if (group) group.push(item);
+      else groups.push([item]);
+      return groups;
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+      setIsWorking(true);
+      try {
+          await action();
+      } catch (error: any) {
+          console.error("Review action failed", error);
+          alert(`Could not save: ${error.message || error}`);
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleSave = (item: ReviewItem) => run(async () => {
+      await updateReviewItem(item);
+      setEditingId(null);
+  });
+
+  const handleRejectAll = () => {
+      if (!window.confirm(`Discard all ${items.length} extracted items?`)) return;
+      run(() => rejectReviewItems(items));
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-xl max-w-4xl mx-auto">
+        <div className="p-6 border-b border-slate-800 bg-slate-950 flex flex-wrap gap-4 justify-between items-center">
+            <div>
+                <h2 className="text-2xl font-bold text-white mb-1">Review</h2>
+                <p className="text-sm text-slate-400">Items extracted from your chats are saved once you approve them. Possible duplicates are already saved.</p>
+            </div>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={handleRejectAll}
+                    disabled={items.length === 0 || isWorking}
+                    className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-red-400 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <X size={16} /> Reject All
+                </button>
+                <button
+                    onClick={() => run(() => approveReviewItems(items))}
+                    disabled={items.length === 0 || isWorking}
+                    className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-sm font-medium text-white transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} Approve All
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {duplicates.map(candidate => (
+                <DuplicateCard key={candidate.id} candidate={candidate} onTrashed={onTrashed} />
+            ))}
+            {batches.length === 0 && duplicates.length === 0 && (
+                <div className="flex flex-col items-center gap-2 py-16 text-slate-500">
+                    <ClipboardCheck size={32} className="opacity-50" />
+                    <span className="text-sm">Nothing waiting for review</span>
+                </div>
+            )}
+            {batches.map(batch => {
+                const sourceIds = new Set(batch[0].sourceMessageIds);
+                const sources = messages.filter(m => sourceIds.has(m.id) && m.text.trim());
+                return (
+                    <div key={batch[0].batchId} className="p-4 rounded-xl bg-slate-950/50 border border-slate-800 space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <span className="text-xs text-slate-500">Extracted {new Date(batch[0].createdAt).toLocaleString()}</span>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => run(() => rejectReviewItems(batch))}
+                                    disabled={isWorking}
+                                    className="px-2.5 py-1 text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                                >
+                                    Reject batch
+                                </button>
+                                <button
+                                    onClick={() => run(() => approveReviewItems(batch))}
+                                    disabled={isWorking}
+                                    className="px-2.5 py-1 text-xs text-emerald-400 hover:bg-emerald-500/10 rounded-lg font-medium transition-colors disabled:opacity-50"
+                                >
+                                    Approve batch
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* The chat messages this batch was extracted from */}
+                        {sources.length > 0 && (
+                            <div className="space-y-1.5 border-l-2 border-amber-500/60 pl-3">
+                                {sources.map(m => (
+                                    <div key={m.id} className={`text-xs leading-relaxed ${m.role === 'user' ? 'text-amber-100 bg-amber-500/10 rounded px-2 py-1' : 'text-slate-500'}`}>
+                                        <MessageSquare size={10} className="inline mr-1.5 mb-0.5" />
+                                        {m.text.length > 300 ? `${m.text.slice(0, 300)}...` : m.text}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {batch.map(item => {
+                            const meta = KIND_META[item.kind];
+                            const Icon = meta.icon;
+                            const { title, detail } = describeItem(item);
+                            return (
+                                <div key={item.id} className="p-3 rounded-lg bg-slate-900 border border-slate-800">
+                                    <div className="flex items-center gap-3">
+                                        <div className={`p-2 rounded-lg shrink-0 ${meta.className}`}>
+                                            <Icon size={16} />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-sm text-slate-200 truncate">{title}</div>
+                                            <div className="text-xs text-slate-500 truncate">{meta.label} · {detail}</div>
+                                        </div>
+                                        <button
+                                            onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                                            className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                                            title="Edit"
+                                        >
+                                            <Edit2 size={16} />
+                                        </button>
+                                        <button
+                                            onClick={() => run(() => rejectReviewItems([item]))}
+                                            disabled={isWorking}
+                                            className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                                            title="Reject"
+                                        >
+                                            <X size={16} />
+                                        </button>
+                                        <button
+                                            onClick={() => run(() => approveReviewItems([item]))}
+                                            disabled={isWorking}
+                                            className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                                            title="Approve"
+                                        >
+                                            <Check size={16} />
+                                        </button>
+                                    </div>
+                                    {editingId === item.id && (
+                                        <ItemEditor item={item} onSave={handleSave} onCancel={() => setEditingId(null)} />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default ReviewInbox;
@@ -1,15 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { JournalMode } from '../types';
-import { BookOpen, Briefcase, Calendar, Settings, Cloud, User, Anchor, MessageSquare, CheckSquare, DollarSign, Key, Save, Upload, Download, AlertCircle, CheckCircle, Loader2, FileText } from 'lucide-react';
+import { SyncStatus } from '../services/syncService';
+import { describeSyncTime } from './SyncSettings';
+import { BookOpen, Briefcase, Calendar, Settings, Cloud, User, Anchor, MessageSquare, CheckSquare, DollarSign, Trash2, Key, Save, Upload, Download, AlertCircle, CheckCircle, Loader2, FileText, ClipboardCheck, Smile, Layers } from 'lucide-react';
 
 interface SidebarProps {
   activeTab: string;
   setActiveTab: (tab: string) => void;
   onSync: () => void;
-  isSyncing: boolean;
+  syncStatus: SyncStatus;
+  reviewCount?: number; // AI-extracted items waiting for approval, and possible duplicates
+  mode: JournalMode;
+  onModeChange: (mode: JournalMode) => void;
+  showAllModes: boolean; // Entries, calendar, tasks, ledger and mood from both workspaces
+  onToggleAllModes: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSyncing }) => {
+const MODES = [
+  { mode: JournalMode.PERSONAL, label: 'Personal', icon: User, active: 'bg-purple-600 text-white' },
+  { mode: JournalMode.PROFESSIONAL, label: 'Work', icon: Briefcase, active: 'bg-amber-500 text-slate-950' }
+];
+
+const SYNC_STYLES: Record<SyncStatus['phase'], string> = {
+  unconfigured: 'bg-slate-700/50 text-slate-400',
+  idle: 'bg-green-500/20 text-green-500',
+  syncing: 'animate-pulse bg-yellow-500/20 text-yellow-500',
+  error: 'bg-red-500/20 text-red-400',
+  offline: 'bg-slate-700/50 text-slate-400'
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, syncStatus, reviewCount = 0, mode, onModeChange, showAllModes, onToggleAllModes }) => {
+  const isSyncing = syncStatus.phase === 'syncing';
+  const hasConflicts = !!syncStatus.conflicts && syncStatus.phase === 'idle';
+  const syncLabel = hasConflicts ? `${syncStatus.conflicts} conflict${syncStatus.conflicts === 1 ? '' : 's'} to review` : {
+      unconfigured: 'Not set up',
+      idle: describeSyncTime(syncStatus.lastSyncedAt),
+      syncing: 'Syncing...',
+      error: 'Sync failed',
+      offline: 'Offline'
+  }[syncStatus.phase];
   const [apiKey, setApiKey] = useState('');
   
   useEffect(() => {
@@ -18,7 +47,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
   }, []);
 
   // Helper for Nav Items
-  const NavButton = ({ tab, icon: Icon, label, mobileHideLabel }: any) => (
+  const NavButton = ({ tab, icon: Icon, label, mobileHideLabel, badge }: any) => (
     <button 
         onClick={() => setActiveTab(tab)}
         className={`flex items-center gap-3 px-3 py-3 rounded-lg transition-colors w-full md:w-full justify-center md:justify-start ${
@@ -29,6 +58,9 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
     >
         <Icon size={20} />
         <span className={`${mobileHideLabel ? 'hidden md:block' : 'hidden lg:block'}`}>{label}</span>
+        {badge > 0 && (
+            <span className="hidden lg:block ml-auto px-1.5 py-0.5 rounded-full bg-amber-500/20 text-amber-400 text-[10px] font-bold">{badge}</span>
+        )}
     </button>
   );
 
@@ -46,6 +78,35 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
           </h1>
         </div>
 
+        {/* Workspace Switcher */}
+        <div className="px-4 space-y-2">
+            <div className="flex flex-col lg:flex-row gap-1 p-1 rounded-lg bg-slate-800/60">
+                {MODES.map(({ mode: option, label, icon: Icon, active }) => (
+                    <button
+                        key={option}
+                        onClick={() => onModeChange(option)}
+                        title={`${label} workspace`}
+                        className={`flex-1 flex items-center justify-center gap-2 px-2 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                            mode === option ? active : 'text-slate-400 hover:text-white'
+                        }`}
+                    >
+                        <Icon size={16} />
+                        <span className="hidden lg:block">{label}</span>
+                    </button>
+                ))}
+            </div>
+            <button
+                onClick={onToggleAllModes}
+                title={showAllModes ? 'Show this workspace only' : 'Show personal and work records together'}
+                className={`w-full flex items-center justify-center lg:justify-start gap-2 px-2 py-1 rounded-md text-xs transition-colors ${
+                    showAllModes ? 'text-amber-300 bg-amber-500/10' : 'text-slate-500 hover:text-slate-300'
+                }`}
+            >
+                <Layers size={14} />
+                <span className="hidden lg:block">{showAllModes ? 'Showing both workspaces' : 'Include other workspace'}</span>
+            </button>
+        </div>
+
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 space-y-2 overflow-y-auto">
             <NavButton tab="chat" icon={MessageSquare} label="Daily Chat" mobileHideLabel />
@@ -53,10 +114,13 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
             <NavButton tab="calendar" icon={Calendar} label="Calendar" mobileHideLabel />
             <NavButton tab="tasks" icon={CheckSquare} label="Tasks" mobileHideLabel />
             <NavButton tab="finance" icon={DollarSign} label="Finance" mobileHideLabel />
+            <NavButton tab="mood" icon={Smile} label="Mood" mobileHideLabel />
+            {reviewCount > 0 && <NavButton tab="review" icon={ClipboardCheck} label="Review" mobileHideLabel badge={reviewCount} />}
         </nav>
 
         {/* Footer Settings */}
-        <div className="px-4 pb-4">
+        <div className="px-4 pb-4 space-y-2">
+             <NavButton tab="trash" icon={Trash2} label="Trash" mobileHideLabel />
              <NavButton tab="settings" icon={Settings} label="Settings" mobileHideLabel />
         </div>
 
@@ -67,12 +131,12 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
                 disabled={isSyncing}
                 className="w-full flex items-center gap-3 px-3 py-3 rounded-lg bg-slate-800/50 hover:bg-slate-800 transition-all group justify-center lg:justify-start"
             >
-                <div className={`p-2 rounded-full ${isSyncing ? 'animate-pulse bg-yellow-500/20 text-yellow-500' : 'bg-green-500/20 text-green-500'}`}>
+                <div className={`p-2 rounded-full ${hasConflicts ? 'bg-amber-500/20 text-amber-400' : SYNC_STYLES[syncStatus.phase]}`}>
                     <Cloud size={18} className={isSyncing ? 'animate-spin' : ''} />
                 </div>
                 <div className="hidden lg:flex flex-col items-start">
-                    <span className="text-xs font-medium text-slate-300">Google Drive</span>
-                    <span className="text-xs text-slate-500">{isSyncing ? 'Syncing...' : 'Synced'}</span>
+                    <span className="text-xs font-medium text-slate-300">Cloud Sync</span>
+                    <span className="text-xs text-slate-500" title={syncStatus.error}>{syncLabel}</span>
                 </div>
             </button>
         </div>
@@ -86,6 +150,27 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
                 </div>
                 <span className="font-bold text-slate-100 text-base">My Journal</span>
            </div>
+           <div className="flex items-center gap-1">
+                <button
+                    onClick={onToggleAllModes}
+                    title={showAllModes ? 'Show this workspace only' : 'Show personal and work records together'}
+                    className={`p-1.5 rounded-md ${showAllModes ? 'text-amber-300 bg-amber-500/10' : 'text-slate-500'}`}
+                >
+                    <Layers size={16} />
+                </button>
+                <div className="flex gap-1 p-0.5 rounded-lg bg-slate-800/60">
+                    {MODES.map(({ mode: option, label, icon: Icon, active }) => (
+                        <button
+                            key={option}
+                            onClick={() => onModeChange(option)}
+                            title={`${label} workspace`}
+                            className={`p-1.5 rounded-md transition-colors ${mode === option ? active : 'text-slate-400'}`}
+                        >
+                            <Icon size={16} />
+                        </button>
+                    ))}
+                </div>
+           </div>
       </div>
 
       {/* --- MOBILE BOTTOM NAV (Hidden on Desktop) --- */}
@@ -96,6 +181,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onSync, isSy
               <button onClick={() => setActiveTab('calendar')} className={`p-2 rounded-xl flex-1 flex justify-center ${activeTab === 'calendar' ? 'text-blue-400 bg-slate-900' : 'text-slate-500'}`}><Calendar size={20} /></button>
               <button onClick={() => setActiveTab('tasks')} className={`p-2 rounded-xl flex-1 flex justify-center ${activeTab === 'tasks' ? 'text-blue-400 bg-slate-900' : 'text-slate-500'}`}><CheckSquare size={20} /></button>
               <button onClick={() => setActiveTab('finance')} className={`p-2 rounded-xl flex-1 flex justify-center ${activeTab === 'finance' ? 'text-blue-400 bg-slate-900' : 'text-slate-500'}`}><DollarSign size={20} /></button>
+              <button onClick={() => setActiveTab('mood')} className={`p-2 rounded-xl flex-1 flex justify-center ${activeTab === 'mood' ? 'text-blue-400 bg-slate-900' : 'text-slate-500'}`}><Smile size={20} /></button>
+              {reviewCount > 0 && (
+                  <button onClick={() => setActiveTab('review')} className={`p-2 rounded-xl flex-1 flex justify-center relative ${activeTab === 'review' ? 'text-blue-400 bg-slate-900' : 'text-amber-400'}`}><ClipboardCheck size={20} /></button>
+              )}
               <button onClick={() => setActiveTab('settings')} className={`p-2 rounded-xl flex-1 flex justify-center ${activeTab === 'settings' ? 'text-blue-400 bg-slate-900' : 'text-slate-500'}`}><Settings size={20} /></button>
           </div>
       </div>
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive, Loader2, Sparkles } from 'lucide-react';
+import { StorageUsage, getStorageUsage, pruneUnusedMedia, formatBytes } from '../services/mediaService';
+
+const BAR_COLORS = ['bg-purple-500', 'bg-blue-500', 'bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-pink-500', 'bg-red-500', 'bg-orange-500', 'bg-slate-500'];
+
+const StorageUsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+      try {
+          setUsage(await getStorageUsage());
+      } catch (error) {
+          console.error("Failed to measure storage", error);
+      }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const handleCleanUp = async () => {
+      setIsCleaning(true);
+      try {
+          const removed = await pruneUnusedMedia();
+          setMessage(removed ? `Removed ${removed} unused image${removed === 1 ? '' : 's'}.` : 'No unused images found.');
+          await load();
+      } finally {
+          setIsCleaning(false);
+      }
+  };
+
+  const visible = usage ? usage.items.filter(item => item.count > 0) : [];
+
+  return (
+    <div className="p-6">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-emerald-500/10 rounded-lg text-emerald-500 shrink-0">
+                <HardDrive size={24} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">Storage Usage</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        {usage
+                            ? <>About <span className="text-slate-300">{formatBytes(usage.total)}</span> used by your journal on this device{usage.quota ? ` (browser allows up to ${formatBytes(usage.quota)})` : ''}. Identical images are stored once.</>
+                            : 'Measuring...'}
+                    </p>
+                </div>
+
+                {!usage && <Loader2 size={16} className="animate-spin text-slate-500" />}
+
+                {usage && usage.total > 0 && (
+                    <>
+                        <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+                            {visible.map((item, i) => (
+                                <div key={item.label} className={BAR_COLORS[i % BAR_COLORS.length]} style={{ width: `${(item.bytes / usage.total) * 100}%` }} />
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1.5">
+                            {visible.map((item, i) => (
+                                <div key={item.label} className="flex items-center gap-2 text-xs">
+                                    <span className={`w-2 h-2 rounded-full shrink-0 ${BAR_COLORS[i % BAR_COLORS.length]}`} />
+                                    <span className="text-slate-300 flex-1 truncate">{item.label}</span>
+                                    <span className="text-slate-500">{item.count}</span>
+                                    <span className="text-slate-400 w-16 text-right">{formatBytes(item.bytes)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={handleCleanUp}
+                        disabled={isCleaning}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {isCleaning ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} className="text-emerald-400" />}
+                        Clean Up Unused Images
+                    </button>
+                    {message && <span className="text-xs text-slate-500">{message}</span>}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default StorageUsagePanel;
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, Save, CheckCircle, AlertCircle } from 'lucide-react';
+import { SyncStatus, getSyncConfig, saveSyncConfig } from '../services/syncService';
+
+interface SyncSettingsProps {
+  status: SyncStatus;
+  onSync: () => Promise<void>;
+}
+
+export const describeSyncTime = (timestamp?: number): string => {
+    if (!timestamp) return 'Never synced';
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'Synced just now';
+    if (minutes < 60) return `Synced ${minutes}m ago`;
+    if (minutes < 24 * 60) return `Synced ${Math.floor(minutes / 60)}h ago`;
+    return `Synced ${new Date(timestamp).toLocaleDateString()}`;
+};
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ status, onSync }) => {
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+      getSyncConfig().then(config => {
+          if (!config) return;
+          setServerUrl(config.serverUrl);
+          setToken(config.token || '');
+      });
+  }, []);
+
+  const handleSave = async () => {
+      await saveSyncConfig(serverUrl.trim() ? { serverUrl, token: token.trim() } : null);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      if (serverUrl.trim()) await onSync();
+  };
+
+  return (
+    <div className="p-6">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-sky-500/10 rounded-lg text-sky-500 shrink-0">
+                {status.phase === 'unconfigured' || status.phase === 'offline' ? <CloudOff size={24} /> : <Cloud size={24} />}
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">Sync Server</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        Keep entries, tasks, calendar and ledger in sync across devices through a server you host (<code>npm run sync-server</code>). Chat history stays on this device. Records are sent unencrypted, so sync is paused while the vault is on.
+                    </p>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                        type="url"
+                        placeholder="https://sync.example.com"
+                        value={serverUrl}
+                        onChange={(e) => setServerUrl(e.target.value)}
+                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 w-full"
+                    />
+                    <input
+                        type="password"
+                        placeholder="Access token"
+                        value={token}
+                        onChange={(e) => setToken(e.target.value)}
+                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 w-full"
+                    />
+                </div>
+
+                {status.phase === 'error' && status.error && (
+                    <div className="flex items-center gap-2 text-red-400 text-sm">
+                        <AlertCircle size={16} />
+                        <span>{status.error}</span>
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={handleSave}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 text-sm font-medium transition-colors flex items-center gap-2"
+                    >
+                        {saved ? <CheckCircle size={16} /> : <Save size={16} />}
+                        {saved ? 'Saved' : 'Save'}
+                    </button>
+                    {status.phase !== 'unconfigured' && (
+                        <button
+                            onClick={() => onSync()}
+                            disabled={status.phase === 'syncing'}
+                            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <RefreshCw size={16} className={status.phase === 'syncing' ? 'animate-spin text-sky-400' : 'text-sky-400'} />
+                            Sync Now
+                        </button>
+                    )}
+                    {status.phase !== 'unconfigured' && (
+                        <span className="text-xs text-slate-500">
+                            {status.phase === 'offline' ? 'Offline' : describeSyncTime(status.lastSyncedAt)}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
@@ -1,41 +1,43 @@
-import React, { useState } from 'react';
-import { Task } from '../types';
-import { Check, Plus, Trash2, Calendar as CalIcon, ChevronDown, ChevronRight } from 'lucide-react';
-import { saveTasks, updateTaskStatus, deleteTask } from '../services/storageService';
+import React, { useState, useMemo } from 'react';
+import { Task, TrashItem, JournalMode } from '../types';
+import { Check, Plus, Trash2, Calendar as CalIcon, ChevronDown, ChevronRight, Briefcase } from 'lucide-react';
+import { saveTasks, updateTaskStatus, deleteTask, inWorkspace, modeOf } from '../services/storageService';
+import { useTasks } from '../hooks/useStorage';
 
 interface TasksViewProps {
-  tasks: Task[];
-  onTasksChange: () => void;
+  mode: JournalMode;
+  showAllModes?: boolean; // Both workspaces' tasks, with work ones marked
+  onDeleted?: (message: string, items: TrashItem[]) => void;
 }
 
-const TasksView: React.FC<TasksViewProps> = ({ tasks, onTasksChange }) => {
+const TasksView: React.FC<TasksViewProps> = ({ mode, showAllModes = false, onDeleted }) => {
+  const storedTasks = useTasks();
+  const tasks = useMemo(() => storedTasks.filter(inWorkspace(mode, showAllModes)), [storedTasks, mode, showAllModes]);
+  const isWork = mode === JournalMode.PROFESSIONAL;
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [showCompleted, setShowCompleted] = useState(false);
 
-  const handleAddTask = () => {
+  const handleAddTask = async () => {
       if (!newTaskTitle.trim()) return;
       const newTask: Task = {
           id: Date.now().toString(),
           title: newTaskTitle,
           completed: false,
-          dueDate: new Date().toISOString()
+          dueDate: new Date().toISOString(),
+          mode
       };
-      saveTasks([newTask]);
+      await saveTasks([newTask]);
       setNewTaskTitle('');
-      onTasksChange();
   };
 
-  const toggleTask = (id: string, currentStatus: boolean) => {
-      updateTaskStatus(id, !currentStatus);
-      onTasksChange();
+  const toggleTask = async (id: string, currentStatus: boolean) => {
+      await updateTaskStatus(id, !currentStatus);
   };
 
-  const handleDelete = (id: string, e: React.MouseEvent) => {
+  const handleDelete = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
-      if (confirm("Delete this task?")) {
-          deleteTask(id);
-          onTasksChange();
-      }
+      const trashed = await deleteTask(id);
+      if (onDeleted && trashed.length > 0) onDeleted("Task moved to Trash", trashed);
   }
 
   const activeTasks = tasks.filter(t => !t.completed).sort((a,b) => Number(b.id) - Number(a.id));
@@ -45,8 +47,8 @@ const TasksView: React.FC<TasksViewProps> = ({ tasks, onTasksChange }) => {
     <div className="h-full flex flex-col bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-xl max-w-4xl mx-auto">
         <div className="p-6 border-b border-slate-800 bg-slate-950 flex justify-between items-center">
             <div>
-                <h2 className="text-2xl font-bold text-white mb-1">My Tasks</h2>
-                <p className="text-sm text-slate-400">Captured from your daily chats</p>
+                <h2 className="text-2xl font-bold text-white mb-1">{showAllModes ? 'All Tasks' : isWork ? 'Work Tasks' : 'My Tasks'}</h2>
+                <p className="text-sm text-slate-400">{showAllModes ? 'Personal and work, together' : isWork ? 'Action items from your work chats' : 'Captured from your daily chats'}</p>
             </div>
             <div className="bg-blue-600/20 text-blue-400 text-xs font-bold px-3 py-1 rounded-full">
                 {activeTasks.length} Pending
@@ -95,7 +97,10 @@ const TasksView: React.FC<TasksViewProps> = ({ tasks, onTasksChange }) => {
                         >
                         </button>
                         <div className="flex-1 min-w-0 pr-8">
-                            <p className="text-slate-200 text-sm leading-relaxed break-words">{task.title}</p>
+                            <p className="text-slate-200 text-sm leading-relaxed break-words">
+                                {showAllModes && modeOf(task) === JournalMode.PROFESSIONAL && <Briefcase size={12} className="inline mr-1.5 text-amber-400" />}
+                                {task.title}
+                            </p>
                             {task.dueDate && (
                                 <p className="text-[10px] text-blue-400 flex items-center gap-1 mt-1">
                                     <CalIcon size={10} /> {new Date(task.dueDate).toLocaleDateString()}
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, RotateCcw, BookOpen, Calendar, CheckSquare, DollarSign } from 'lucide-react';
+import { TrashItem } from '../types';
+import {
+    restoreFromTrash, purgeFromTrash, emptyTrash,
+    getTrashRetentionDays, setTrashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS
+} from '../services/storageService';
+import { useTrash } from '../hooks/useStorage';
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+const COLLECTION_META: Record<TrashItem['collection'], { icon: any; label: string; className: string }> = {
+  entries: { icon: BookOpen, label: 'Entry', className: 'text-purple-400 bg-purple-500/10' },
+  calendar: { icon: Calendar, label: 'Event', className: 'text-blue-400 bg-blue-500/10' },
+  tasks: { icon: CheckSquare, label: 'Task', className: 'text-emerald-400 bg-emerald-500/10' },
+  finance: { icon: DollarSign, label: 'Transaction', className: 'text-amber-400 bg-amber-500/10' }
+};
+
+const describeItem = (item: TrashItem): string => {
+    const r = item.record || {};
+    if (item.collection === 'finance') return `${r.description || 'Transaction'} · ${r.type === 'income' ? '+' : '-'}${Number(r.amount || 0).toFixed(2)}`;
+    return r.title || 'Untitled';
+};
+
+const TrashView: React.FC = () => {
+  const items = useTrash();
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  useEffect(() => { getTrashRetentionDays().then(setRetentionDays); }, []);
+
+  // Items trashed together with an entry are shown under it
+  const topLevel = items.filter(item => !item.cascadeOf || !items.some(i => i.collection === 'entries' && i.id === item.cascadeOf));
+  const childrenOf = (item: TrashItem) => item.collection === 'entries' ? items.filter(i => i.cascadeOf === item.id) : [];
+
+  const handleRestore = async (item: TrashItem) => {
+      await restoreFromTrash([item]);
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+      if (!window.confirm("Delete this permanently? This cannot be undone.")) return;
+      await purgeFromTrash([item, ...childrenOf(item)]);
+  };
+
+  const handleEmpty = async () => {
+      if (!window.confirm(`Permanently delete all ${items.length} items in the Trash?`)) return;
+      await emptyTrash();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+      setRetentionDays(days);
+      await setTrashRetentionDays(days);
+  };
+
+  const daysLeft = (item: TrashItem) => Math.max(0, Math.ceil((item.deletedAt + retentionDays * 86400000 - Date.now()) / 86400000));
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden shadow-xl max-w-4xl mx-auto">
+        <div className="p-6 border-b border-slate-800 bg-slate-950 flex flex-wrap gap-4 justify-between items-center">
+            <div>
+                <h2 className="text-2xl font-bold text-white mb-1">Trash</h2>
+                <p className="text-sm text-slate-400">Deleted items are removed for good after {retentionDays} days</p>
+            </div>
+            <div className="flex items-center gap-3">
+                <select
+                    value={retentionDays}
+                    onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                >
+                    {RETENTION_OPTIONS.map(d => <option key={d} value={d}>Keep {d} days</option>)}
+                </select>
+                <button
+                    onClick={handleEmpty}
+                    disabled={items.length === 0}
+                    className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-red-400 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <Trash2 size={16} /> Empty
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {topLevel.length === 0 && (
+                <div className="flex flex-col items-center gap-2 py-16 text-slate-500">
+                    <Trash2 size={32} className="opacity-50" />
+                    <span className="text-sm">Trash is empty</span>
+                </div>
+            )}
+            {topLevel.map(item => {
+                const meta = COLLECTION_META[item.collection];
+                const Icon = meta.icon;
+                const children = childrenOf(item);
+                return (
+                    <div key={`${item.collection}:${item.id}`} className="flex items-center gap-3 p-3 rounded-xl bg-slate-950/50 border border-slate-800 group">
+                        <div className={`p-2 rounded-lg shrink-0 ${meta.className}`}>
+                            <Icon size={18} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-sm text-slate-200 truncate">{describeItem(item)}</div>
+                            <div className="text-xs text-slate-500">
+                                {meta.label} · deleted {new Date(item.deletedAt).toLocaleDateString()} · {daysLeft(item)}d left
+                                {children.length > 0 && ` · with ${children.length} linked item${children.length === 1 ? '' : 's'}`}
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleRestore(item)}
+                            className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                            title="Restore"
+                        >
+                            <RotateCcw size={16} />
+                        </button>
+                        <button
+                            onClick={() => handlePurge(item)}
+                            className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+                            title="Delete permanently"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { Trash2, RotateCcw, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+      const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+      return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-[60] animate-in fade-in slide-in-from-bottom-4">
+        <div className="flex items-center gap-3 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl pl-4 pr-2 py-2 text-sm text-slate-200">
+            <Trash2 size={16} className="text-slate-400 shrink-0" />
+            <span className="truncate max-w-[220px] md:max-w-sm">{message}</span>
+            <button
+                onClick={onUndo}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-blue-400 hover:bg-slate-700 font-bold transition-colors"
+            >
+                <RotateCcw size={14} /> Undo
+            </button>
+            <button onClick={onDismiss} className="p-1.5 text-slate-500 hover:text-white rounded-lg hover:bg-slate-700 transition-colors">
+                <X size={14} />
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, AlertCircle, BookOpen } from 'lucide-react';
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleUnlock = async () => {
+      if (!passphrase || isUnlocking) return;
+      setIsUnlocking(true);
+      setError('');
+      try {
+          await onUnlock(passphrase);
+      } catch (err: any) {
+          setError(err?.message || 'Unable to unlock.');
+          setPassphrase('');
+      } finally {
+          setIsUnlocking(false);
+      }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-[100dvh] bg-slate-950 text-slate-200 p-4">
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 max-w-sm w-full shadow-2xl">
+            <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 rounded-xl bg-purple-600">
+                    <BookOpen className="text-white w-6 h-6" />
+                </div>
+                <div>
+                    <h1 className="text-lg font-bold text-white">My Journal</h1>
+                    <p className="text-xs text-slate-500">Your journal is encrypted</p>
+                </div>
+            </div>
+
+            <label className="block text-xs font-bold text-slate-500 mb-1.5 uppercase tracking-wide">Passphrase</label>
+            <input
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-blue-500 transition-colors mb-3"
+                placeholder="Enter your passphrase"
+            />
+
+            {error && (
+                <div className="flex items-center gap-2 text-red-400 text-sm mb-3">
+                    <AlertCircle size={16} />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <button
+                onClick={handleUnlock}
+                disabled={!passphrase || isUnlocking}
+                className="w-full py-3 px-4 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-500 transition-colors shadow-lg shadow-blue-900/20 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                {isUnlocking ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />}
+                {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default UnlockScreen;
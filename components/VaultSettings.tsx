@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, ShieldCheck, Loader2, AlertCircle } from 'lucide-react';
+import {
+    VaultStatus, DEFAULT_AUTO_LOCK_MINUTES,
+    enableVault, disableVault, lockVault, getAutoLockMinutes, setAutoLockMinutes
+} from '../services/vaultService';
+
+interface VaultSettingsProps {
+  status: VaultStatus;
+  onStatusChange: (status: VaultStatus) => void;
+  onAutoLockChange: (minutes: number) => void;
+}
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+
+const VaultSettings: React.FC<VaultSettingsProps> = ({ status, onStatusChange, onAutoLockChange }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+      if (status === 'unlocked') getAutoLockMinutes().then(setAutoLock);
+  }, [status]);
+
+  const run = async (action: () => Promise<void>) => {
+      setIsWorking(true);
+      setError('');
+      try {
+          await action();
+          setPassphrase('');
+          setConfirmPassphrase('');
+      } catch (err: any) {
+          setError(err?.message || 'Something went wrong.');
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleEnable = () => run(async () => {
+      if (passphrase.length < 8) throw new Error("Use at least 8 characters.");
+      if (passphrase !== confirmPassphrase) throw new Error("Passphrases do not match.");
+      await enableVault(passphrase, autoLock);
+      onAutoLockChange(autoLock);
+      onStatusChange('unlocked');
+  });
+
+  const handleDisable = () => run(async () => {
+      if (!window.confirm("Decrypt your journal and store it in plaintext on this device?")) return;
+      await disableVault(passphrase);
+      onStatusChange('disabled');
+  });
+
+  const handleAutoLockChange = async (minutes: number) => {
+      setAutoLock(minutes);
+      if (status === 'unlocked') {
+          await setAutoLockMinutes(minutes);
+          onAutoLockChange(minutes);
+      }
+  };
+
+  return (
+    <div className="p-6">
+        <div className="flex items-start gap-4">
+            <div className="p-3 bg-emerald-500/10 rounded-lg text-emerald-500 shrink-0">
+                {status === 'unlocked' ? <ShieldCheck size={24} /> : <Lock size={24} />}
+            </div>
+            <div className="flex-1 min-w-0 space-y-4">
+                <div>
+                    <h4 className="font-medium text-slate-200 mb-1">Encryption at Rest</h4>
+                    <p className="text-sm text-slate-500 leading-relaxed">
+                        {status === 'unlocked'
+                            ? 'Your entries, chats, tasks, calendar, ledger and API key are encrypted with your passphrase. If you forget it, the data cannot be recovered.'
+                            : 'Encrypt everything stored on this device with a passphrase. You will need to unlock the journal each time you open it.'}
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Auto-lock after</label>
+                    <select
+                        value={autoLock}
+                        onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+                        className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                    >
+                        {AUTO_LOCK_OPTIONS.map(m => (
+                            <option key={m} value={m}>{m} min idle</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                        type="password"
+                        placeholder={status === 'unlocked' ? 'Current passphrase' : 'New passphrase'}
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 w-full"
+                    />
+                    {status === 'disabled' && (
+                        <input
+                            type="password"
+                            placeholder="Confirm passphrase"
+                            value={confirmPassphrase}
+                            onChange={(e) => setConfirmPassphrase(e.target.value)}
+                            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-white focus:outline-none focus:border-blue-500 w-full"
+                        />
+                    )}
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-2 text-red-400 text-sm">
+                        <AlertCircle size={16} />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <div className="flex flex-wrap gap-3">
+                    {status === 'disabled' ? (
+                        <button
+                            onClick={handleEnable}
+                            disabled={isWorking || !passphrase}
+                            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-500 text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />}
+                            Enable Encryption
+                        </button>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => lockVault()}
+                                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                            >
+                                <Lock size={16} className="text-emerald-400" />
+                                Lock Now
+                            </button>
+                            <button
+                                onClick={handleDisable}
+                                disabled={isWorking || !passphrase}
+                                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-red-400 transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Unlock size={16} />}
+                                Disable Encryption
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default VaultSettings;
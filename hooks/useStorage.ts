@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { JournalEntry, CalendarEvent, Task, FinanceTransaction, TrashItem, ReviewItem, DuplicateCandidate, MemoryNote, AIJob } from '../types';
+import {
+    WatchedCollection, subscribe,
+    getEntries, getCalendarEvents, getTasks, getTransactions, getTrash
+} from '../services/storageService';
+import { getReviewItems } from '../services/reviewService';
+import { getDuplicateCandidates } from '../services/dedupService';
+import { getMemories } from '../services/memoryService';
+import { getAIJobs } from '../services/aiQueueService';
+
+// React hooks over storageService: each loads a collection and reloads it whenever storage
+// reports a change to it, whether made in this tab or another. Pass enabled = false while the
+// data cannot be read (e.g. the vault is locked); the hook then holds an empty list.
+
+const useStoredCollection = <T>(collection: WatchedCollection, load: () => Promise<T[]>, enabled: boolean): T[] => {
+    const [records, setRecords] = useState<T[]>([]);
+
+    useEffect(() => {
+        if (!enabled) {
+            setRecords([]);
+            return;
+        }
+
+        let cancelled = false;
+        let latest = 0;
+        // Only the most recent load may set state, so a slow read cannot overwrite a newer one
+        const reload = () => {
+            const request = ++latest;
+            load()
+                .then(result => {
+                    if (!cancelled && request === latest) setRecords(result);
+                })
+                .catch(error => console.error(`Failed to load ${collection}`, error));
+        };
+
+        reload();
+        const unsubscribe = subscribe(collection, reload);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [collection, load, enabled]);
+
+    return records;
+};
+
+export const useEntries = (enabled = true): JournalEntry[] => useStoredCollection('entries', getEntries, enabled);
+
+export const useCalendarEvents = (enabled = true): CalendarEvent[] => useStoredCollection('calendar', getCalendarEvents, enabled);
+
+export const useTasks = (enabled = true): Task[] => useStoredCollection('tasks', getTasks, enabled);
+
+export const useTransactions = (enabled = true): FinanceTransaction[] => useStoredCollection('finance', getTransactions, enabled);
+
+export const useTrash = (enabled = true): TrashItem[] => useStoredCollection('trash', getTrash, enabled);
+
+export const useReviewItems = (enabled = true): ReviewItem[] => useStoredCollection('review', getReviewItems, enabled);
+
+export const useDuplicateCandidates = (enabled = true): DuplicateCandidate[] => useStoredCollection('duplicates', getDuplicateCandidates, enabled);
+
+export const useMemories = (enabled = true): MemoryNote[] => useStoredCollection('memories', getMemories, enabled);
+
+export const useAIJobs = (enabled = true): AIJob[] => useStoredCollection('aiJobs', getAIJobs, enabled);
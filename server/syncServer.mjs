@@ -0,0 +1,194 @@
+// Minimal self-hostable sync server for My Journal.
+//
+//   SYNC_TOKEN=secret npm run sync-server
+//
+// Environment:
+//   SYNC_PORT       port to listen on (default 8787)
+//   SYNC_DATA_FILE  JSON file the records are kept in (default ./sync-data.json)
+//   SYNC_TOKEN      bearer token clients must send; without one the server only listens on 127.0.0.1
+//   SYNC_HOST       interface to listen on when a token is set (default 0.0.0.0)
+//   SYNC_ORIGINS    comma-separated origins the app is served from (default http://localhost:3000,http://127.0.0.1:3000)
+//   SYNC_MEDIA_DIR  folder images are kept in, one file per hash (default ./sync-media)
+//
+// Every record is stored under "collection:id" with its revision and a server sequence number.
+// A push is accepted only if it was made on top of the revision the server holds; otherwise the
+// client pulls the newer version, merges, and pushes again. Pulls return everything after a cursor.
+// Images are content-addressed: records only reference them by SHA-256, and each image is
+// uploaded once and fetched by hash.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE || 'sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const HOST = TOKEN ? (process.env.SYNC_HOST || '0.0.0.0') : '127.0.0.1';
+const ORIGINS = new Set((process.env.SYNC_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim()).filter(Boolean));
+const MEDIA_DIR = process.env.SYNC_MEDIA_DIR || 'sync-media';
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Uploaded images are base64, and old clients still inline them in entries
+const MEDIA_ID = /^[0-9a-f]{64}$/;
+const COLLECTIONS = new Set(['entries', 'calendar', 'tasks', 'finance']);
+
+const loadState = () => {
+    try {
+        return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    } catch (error) {
+        return { seq: 0, records: {} };
+    }
+};
+
+const state = loadState();
+
+const saveState = () => {
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state));
+    fs.renameSync(tmp, DATA_FILE);
+};
+
+// Browsers only let the listed origins read responses; other pages are turned away outright
+const isAllowedOrigin = (origin) => !origin || ORIGINS.has(origin);
+
+const send = (req, res, status, body) => {
+    const headers = { 'Content-Type': 'application/json', 'Vary': 'Origin' };
+    if (req.headers.origin && ORIGINS.has(req.headers.origin)) {
+        headers['Access-Control-Allow-Origin'] = req.headers.origin;
+        headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
+        headers['Access-Control-Allow-Methods'] = 'GET, POST, OPTIONS';
+    }
+    res.writeHead(status, headers);
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch (error) {
+            reject(error);
+        }
+    });
+    req.on('error', reject);
+});
+
+// --- Handlers ---
+const handlePush = ({ deviceId, changes }) => {
+    if (typeof deviceId !== 'string' || !Array.isArray(changes)) return { status: 400, body: { error: 'Invalid push' } };
+
+    const accepted = [];
+    const rejected = [];
+    changes.forEach(change => {
+        if (!change || !COLLECTIONS.has(change.collection) || typeof change.id !== 'string' || typeof change.revision !== 'number') return;
+        const key = `${change.collection}:${change.id}`;
+        const existing = state.records[key];
+        if (existing && (existing.revision ?? 0) !== (change.baseRevision ?? 0)) {
+            rejected.push(key);
+            return;
+        }
+
+        state.seq += 1;
+        state.records[key] = {
+            collection: change.collection,
+            id: change.id,
+            revision: change.revision,
+            lastModified: change.lastModified,
+            deleted: !!change.deleted,
+            record: change.deleted ? undefined : change.record,
+            seq: state.seq,
+            deviceId
+        };
+        accepted.push(key);
+    });
+
+    if (accepted.length > 0) saveState();
+    return { status: 200, body: { accepted, rejected } };
+};
+
+const handlePull = (params) => {
+    const since = Number(params.get('since')) || 0;
+    const deviceId = params.get('deviceId');
+    const changes = Object.values(state.records)
+        .filter(r => r.seq > since && r.deviceId !== deviceId)
+        .sort((a, b) => a.seq - b.seq)
+        .map(({ seq, deviceId, ...change }) => change);
+    return { status: 200, body: { changes, cursor: state.seq } };
+};
+
+const mediaPath = (id) => path.join(MEDIA_DIR, `${id}.json`);
+
+const handleMissingMedia = ({ ids }) => {
+    if (!Array.isArray(ids)) return { status: 400, body: { error: 'Invalid request' } };
+    const missing = ids.filter(id => typeof id === 'string' && MEDIA_ID.test(id) && !fs.existsSync(mediaPath(id)));
+    return { status: 200, body: { missing } };
+};
+
+const handleUploadMedia = ({ id, mimeType, data }) => {
+    if (typeof id !== 'string' || !MEDIA_ID.test(id) || typeof data !== 'string') return { status: 400, body: { error: 'Invalid media' } };
+    const hash = crypto.createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex');
+    if (hash !== id) return { status: 400, body: { error: 'Media does not match its hash' } };
+
+    fs.mkdirSync(MEDIA_DIR, { recursive: true });
+    if (!fs.existsSync(mediaPath(id))) fs.writeFileSync(mediaPath(id), JSON.stringify({ id, mimeType, data }));
+    return { status: 200, body: { id } };
+};
+
+const handleGetMedia = (id) => {
+    if (!MEDIA_ID.test(id) || !fs.existsSync(mediaPath(id))) return { status: 404, body: { error: 'Not found' } };
+    return { status: 200, body: JSON.parse(fs.readFileSync(mediaPath(id), 'utf8')) };
+};
+
+const server = http.createServer(async (req, res) => {
+    if (!isAllowedOrigin(req.headers.origin)) return send(req, res, 403, { error: 'Origin not allowed' });
+    if (req.method === 'OPTIONS') return send(req, res, 204);
+
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+        return send(req, res, 401, { error: 'Unauthorized' });
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    try {
+        if (req.method === 'POST' && url.pathname === '/sync/push') {
+            const { status, body } = handlePush(await readBody(req));
+            return send(req, res, status, body);
+        }
+        if (req.method === 'GET' && url.pathname === '/sync/pull') {
+            const { status, body } = handlePull(url.searchParams);
+            return send(req, res, status, body);
+        }
+        if (req.method === 'POST' && url.pathname === '/sync/media/missing') {
+            const { status, body } = handleMissingMedia(await readBody(req));
+            return send(req, res, status, body);
+        }
+        if (req.method === 'POST' && url.pathname === '/sync/media') {
+            const { status, body } = handleUploadMedia(await readBody(req));
+            return send(req, res, status, body);
+        }
+        if (req.method === 'GET' && url.pathname.startsWith('/sync/media/')) {
+            const { status, body } = handleGetMedia(url.pathname.slice('/sync/media/'.length));
+            return send(req, res, status, body);
+        }
+        send(req, res, 404, { error: 'Not found' });
+    } catch (error) {
+        send(req, res, 400, { error: error.message });
+    }
+});
+
+if (!TOKEN && process.env.SYNC_HOST && process.env.SYNC_HOST !== HOST) {
+    console.warn(`SYNC_HOST is ignored without SYNC_TOKEN; listening on ${HOST} only.`);
+}
+
+server.listen(PORT, HOST, () => {
+    console.log(`Sync server listening on http://${HOST}:${PORT} (data: ${DATA_FILE}, media: ${MEDIA_DIR}, origins: ${[...ORIGINS].join(' ')}${TOKEN ? ', token required' : ', no token: this machine only'})`);
+});
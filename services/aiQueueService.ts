@@ -0,0 +1,123 @@
+import { AIJob, AIJobKind, AIJobPayload, JournalMode } from '../types';
+import { getAllRecords, putRecords, deleteRecords } from './db';
+import { AIErrorCode, toAIError } from './llmProvider';
+
+// Background AI work that must not be lost: a batch of chat to turn into records, a file waiting to
+// be read, a digest that is due. Jobs stay in the 'aiJobs' store until they succeed, so they survive
+// reloads. While the provider is unreachable, rate limiting, over today's budget or not set up, a
+// job is retried with growing gaps, and straight away once the connection comes back. A job that
+// fails for any other reason stops and waits for the user to retry or discard it.
+// Each kind of job is run by the module that owns that work, through registerAIJobHandler.
+
+const LOCK_NAME = 'gemini_journal_ai_jobs';
+const CHECK_INTERVAL_MS = 60 * 1000;
+const FIRST_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// Failures that pass with time, or once AI is set up
+const TEMPORARY_ERRORS: AIErrorCode[] = ['MISSING_API_KEY', 'BUDGET_EXCEEDED', 'RATE_LIMITED', 'UNAVAILABLE'];
+
+export const isTemporaryAIError = (error: unknown) => TEMPORARY_ERRORS.includes(toAIError(error).code);
+
+export type NewAIJob = AIJobPayload & { mode: JournalMode };
+
+type AIJobOf<K extends AIJobKind> = Extract<AIJob, { kind: K }>;
+
+const handlers: { [K in AIJobKind]?: (job: AIJobOf<K>) => Promise<void> } = {};
+
+export const registerAIJobHandler = <K extends AIJobKind>(kind: K, handler: (job: AIJobOf<K>) => Promise<void>) => {
+    handlers[kind] = handler as typeof handlers[K];
+};
+
+// --- Jobs ---
+
+// Oldest first
+export const getAIJobs = async (): Promise<AIJob[]> => {
+    const jobs = await getAllRecords<AIJob>('aiJobs');
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Keeps the job until it succeeds; runAIJobs runs it
+export const queueAIJob = async (job: NewAIJob): Promise<AIJob> => {
+    const now = Date.now();
+    const queued = { ...job, id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now, attempts: 0, nextAttemptAt: now } as AIJob;
+    await putRecords('aiJobs', [queued]);
+    return queued;
+};
+
+export const discardAIJobs = async (ids: string[]): Promise<void> => {
+    if (ids.length > 0) await deleteRecords('aiJobs', ids);
+};
+
+// Puts failed jobs back in line and runs everything waiting, without waiting out the retry gaps
+export const retryAIJobs = async (): Promise<number> => {
+    const failed = (await getAIJobs()).filter(job => job.failed);
+    if (failed.length > 0) await putRecords('aiJobs', failed.map(job => ({ ...job, failed: undefined })));
+    return runAIJobs(true);
+};
+
+// --- Running ---
+
+// Runs one after another in this tab, and (where the browser has Web Locks) never alongside another tab
+let jobQueue: Promise<unknown> = Promise.resolve();
+
+const withJobLock = <T>(run: () => Promise<T>): Promise<T> => {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    return locks ? locks.request(LOCK_NAME, run) as Promise<T> : run();
+};
+
+// A failure is recorded on the job: 'waiting' to be retried, or 'failed' for good
+const attempt = async (job: AIJob): Promise<'done' | 'waiting' | 'failed'> => {
+    try {
+        await (handlers[job.kind] as (job: AIJob) => Promise<void>)(job);
+        await deleteRecords('aiJobs', [job.id]);
+        return 'done';
+    } catch (error) {
+        console.warn(`AI job ${job.kind} failed`, error);
+        const { code, message } = toAIError(error);
+        const attempts = job.attempts + 1;
+        const temporary = isTemporaryAIError(error);
+        await putRecords<AIJob>('aiJobs', [{
+            ...job,
+            attempts,
+            nextAttemptAt: Date.now() + Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * Math.pow(2, attempts - 1)),
+            failed: temporary ? undefined : true,
+            lastError: { code, message }
+        }]);
+        return temporary ? 'waiting' : 'failed';
+    }
+};
+
+// Runs the jobs that are due (with force, every job not failed), oldest first. A temporary failure
+// ends the run, since the jobs after it would meet the same. Resolves to how many succeeded.
+export const runAIJobs = (force = false): Promise<number> => {
+    const run = jobQueue.then(() => withJobLock(async () => {
+        const now = Date.now();
+        const due = (await getAIJobs()).filter(job => !job.failed && handlers[job.kind] && (force || job.nextAttemptAt <= now));
+        let done = 0;
+        for (const job of due) {
+            const outcome = await attempt(job);
+            if (outcome === 'done') done++;
+            if (outcome === 'waiting') break;
+        }
+        return done;
+    }));
+    jobQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Runs due jobs now, every minute after, and as soon as the connection comes back. Returns a function that stops it.
+export const startAIQueue = (): (() => void) => {
+    const run = (force: boolean) => {
+        runAIJobs(force).catch(error => console.warn("AI jobs failed", error));
+    };
+    const handleOnline = () => run(true);
+
+    run(false);
+    const interval = setInterval(() => run(false), CHECK_INTERVAL_MS);
+    window.addEventListener('online', handleOnline);
+    return () => {
+        clearInterval(interval);
+        window.removeEventListener('online', handleOnline);
+    };
+};
@@ -0,0 +1,64 @@
+import { MediaBlob } from '../types';
+import { getAllData } from './storageService';
+import { getMedia, collectMediaIds, mediaToBytes, bytesToMedia } from './mediaService';
+import { sealBackup, sealBackupFile } from './vaultService';
+import { EncryptedBlob, decryptJson, fromBase64 } from './cryptoService';
+import { ZipFile, createZip, readZip } from './zipArchive';
+
+// Backup archives: a zip with backup.json (sealed in vault mode) and one file per stored image
+// under media/. The JSON lists the images it expects in `media`; in vault mode every image file
+// is encrypted with the same key as the JSON.
+
+const BACKUP_FILE = 'backup.json';
+const MEDIA_FOLDER = 'media/';
+
+export interface BackupMediaInfo {
+    id: string;
+    mimeType: string;
+}
+
+export interface BackupArchive {
+    backup: any;
+    files: Map<string, Uint8Array>;
+}
+
+export const createBackupArchive = async (): Promise<Blob> => {
+    const data = await getAllData();
+    const ids = collectMediaIds([...data.entries, ...data.chatPersonal, ...data.chatProf]);
+    const blobs: MediaBlob[] = [];
+    for (const id of ids) {
+        const blob = await getMedia(id);
+        if (blob) blobs.push(blob);
+    }
+
+    const payload = { ...data, media: blobs.map((b): BackupMediaInfo => ({ id: b.id, mimeType: b.mimeType })) };
+    const encoder = new TextEncoder();
+    const files: ZipFile[] = [{ name: BACKUP_FILE, data: encoder.encode(JSON.stringify(await sealBackup(payload), null, 2)) }];
+    for (const blob of blobs) {
+        const sealed = await sealBackupFile(blob.data);
+        files.push({ name: `${MEDIA_FOLDER}${blob.id}`, data: sealed ? encoder.encode(JSON.stringify(sealed)) : mediaToBytes(blob) });
+    }
+    return createZip(files);
+};
+
+export const readBackupArchive = async (bytes: Uint8Array): Promise<BackupArchive> => {
+    const files = await readZip(bytes);
+    const json = files.get(BACKUP_FILE);
+    if (!json) throw new Error("This zip file is not a journal backup.");
+    return { backup: JSON.parse(new TextDecoder().decode(json)), files };
+};
+
+// The images a decrypted backup lists, read from its archive. Images missing from the archive are skipped.
+export const readBackupMedia = async (payload: any, files: Map<string, Uint8Array>, key?: CryptoKey): Promise<MediaBlob[]> => {
+    const listed: BackupMediaInfo[] = Array.isArray(payload?.media) ? payload.media : [];
+    const blobs: MediaBlob[] = [];
+    for (const info of listed) {
+        const file = typeof info?.id === 'string' ? files.get(`${MEDIA_FOLDER}${info.id}`) : undefined;
+        if (!file) continue;
+        const bytes = key
+            ? fromBase64(await decryptJson<string>(key, JSON.parse(new TextDecoder().decode(file)) as EncryptedBlob))
+            : file;
+        blobs.push(bytesToMedia(info.id, info.mimeType || 'image/jpeg', bytes));
+    }
+    return blobs;
+};
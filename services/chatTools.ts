@@ -0,0 +1,341 @@
+import { Task, CalendarEvent, FinanceTransaction, JournalEntry, JournalMode, ChatAction } from '../types';
+import { getRecord, getAllRecords } from './db';
+import {
+    saveTasks, updateTaskStatus,
+    addCalendarEvents, saveCalendarEvents, deleteCalendarEvent,
+    addTransactions, saveTransaction, inWorkspace
+} from './storageService';
+import { retrieveRelevant } from './embeddingService';
+import type { LLMTool, LLMToolCall } from './llmProvider';
+
+// Tools the daily chat can call to act on tasks, calendar and ledger. Creating records happens
+// immediately; anything that changes or deletes an existing record becomes a pending ChatAction
+// that ChatInterface shows as a confirmation card, and only applyChatAction carries it out.
+// Records are created in the workspace the chat belongs to, and searches stay inside it unless
+// the user asks to look across both.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CHAT_TOOLS: LLMTool[] = [
+    {
+        name: 'search_entries',
+        description: "Search the user's journal entries in the current workspace by meaning. Use it before answering questions about past events.",
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'What to look for' },
+                limit: { type: 'number', description: 'Maximum results (default 5)' },
+                allWorkspaces: { type: 'boolean', description: 'Also search the other workspace (personal or work). Only when the user explicitly asks for it.' }
+            },
+            required: ['query']
+        }
+    },
+    {
+        name: 'create_task',
+        description: 'Add a task to the to-do list.',
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                dueDate: { type: 'string', description: 'ISO-8601 date or date-time' }
+            },
+            required: ['title']
+        }
+    },
+    {
+        name: 'update_task',
+        description: 'Rename a task or change its due date. Needs confirmation from the user.',
+        parameters: {
+            type: 'object',
+            properties: {
+                taskId: { type: 'string' },
+                title: { type: 'string' },
+                dueDate: { type: 'string', description: 'ISO-8601 date or date-time' }
+            },
+            required: ['taskId']
+        }
+    },
+    {
+        name: 'complete_task',
+        description: 'Mark a task as done (or not done). Needs confirmation from the user.',
+        parameters: {
+            type: 'object',
+            properties: {
+                taskId: { type: 'string' },
+                completed: { type: 'boolean', description: 'Defaults to true' }
+            },
+            required: ['taskId']
+        }
+    },
+    {
+        name: 'create_event',
+        description: 'Add an event to the calendar.',
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                startTime: { type: 'string', description: 'ISO-8601 date-time' },
+                endTime: { type: 'string', description: 'ISO-8601 date-time; defaults to one hour after the start' },
+                description: { type: 'string' }
+            },
+            required: ['title', 'startTime']
+        }
+    },
+    {
+        name: 'move_event',
+        description: 'Reschedule a calendar event. Without an end time the event keeps its length. Needs confirmation from the user.',
+        parameters: {
+            type: 'object',
+            properties: {
+                eventId: { type: 'string' },
+                startTime: { type: 'string', description: 'ISO-8601 date-time' },
+                endTime: { type: 'string', description: 'ISO-8601 date-time' }
+            },
+            required: ['eventId', 'startTime']
+        }
+    },
+    {
+        name: 'delete_event',
+        description: 'Delete a calendar event (it goes to the trash). Needs confirmation from the user.',
+        parameters: {
+            type: 'object',
+            properties: { eventId: { type: 'string' } },
+            required: ['eventId']
+        }
+    },
+    {
+        name: 'add_transaction',
+        description: 'Record an expense or income in the ledger. Amounts are in Indian Rupees.',
+        parameters: {
+            type: 'object',
+            properties: {
+                amount: { type: 'number' },
+                type: { type: 'string', enum: ['expense', 'income'] },
+                category: { type: 'string' },
+                description: { type: 'string' },
+                date: { type: 'string', description: 'ISO-8601 date; defaults to now' }
+            },
+            required: ['amount', 'type', 'description']
+        }
+    },
+    {
+        name: 'edit_transaction',
+        description: 'Correct a ledger transaction. Needs confirmation from the user.',
+        parameters: {
+            type: 'object',
+            properties: {
+                transactionId: { type: 'string' },
+                amount: { type: 'number' },
+                type: { type: 'string', enum: ['expense', 'income'] },
+                category: { type: 'string' },
+                description: { type: 'string' },
+                date: { type: 'string', description: 'ISO-8601 date' }
+            },
+            required: ['transactionId']
+        }
+    }
+];
+
+// Tools that change or delete existing records, and so wait for confirmation
+const CONFIRMED_TOOLS = ['update_task', 'complete_task', 'move_event', 'delete_event', 'edit_transaction'];
+
+// --- Helpers ---
+
+const formatWhen = (iso?: string) => iso
+    ? new Date(iso).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : 'no date';
+
+const toIso = (value: unknown, field: string): string => {
+    const time = typeof value === 'string' ? new Date(value).getTime() : NaN;
+    if (isNaN(time)) throw new Error(`${field} must be an ISO-8601 date.`);
+    return new Date(time).toISOString();
+};
+
+const requireText = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`${field} is required.`);
+    return value.trim();
+};
+
+// Only records of the chat's workspace can be changed from it
+const requireRecord = async <T extends { mode?: JournalMode }>(store: 'tasks' | 'calendar' | 'finance', id: unknown, label: string, mode: JournalMode): Promise<T> => {
+    const record = typeof id === 'string' ? await getRecord<T>(store, id) : undefined;
+    if (!record) throw new Error(`No ${label} with id "${id}". Check the id in the dashboard or search results.`);
+    if (!inWorkspace(mode)(record)) throw new Error(`The ${label} "${id}" belongs to the other workspace and cannot be changed from this chat.`);
+    return record;
+};
+
+// --- Changes to Existing Records ---
+// Each returns a description for the confirmation card and the change to apply once confirmed.
+
+interface PlannedChange {
+    summary: string;
+    apply: () => Promise<void>;
+}
+
+const planChange = async (name: string, args: Record<string, any>, mode: JournalMode): Promise<PlannedChange> => {
+    switch (name) {
+        case 'update_task': {
+            const task = await requireRecord<Task>('tasks', args.taskId, 'task', mode);
+            const updated: Task = {
+                ...task,
+                title: args.title ? requireText(args.title, 'title') : task.title,
+                dueDate: args.dueDate ? toIso(args.dueDate, 'dueDate') : task.dueDate
+            };
+            const changes = [
+                updated.title !== task.title && `rename to "${updated.title}"`,
+                updated.dueDate !== task.dueDate && `due ${formatWhen(updated.dueDate)}`
+            ].filter(Boolean);
+            return {
+                summary: `Update task "${task.title}": ${changes.join(', ') || 'no changes'}`,
+                apply: () => saveTasks([updated])
+            };
+        }
+        case 'complete_task': {
+            const task = await requireRecord<Task>('tasks', args.taskId, 'task', mode);
+            const completed = args.completed !== false;
+            return {
+                summary: completed ? `Mark "${task.title}" as done` : `Mark "${task.title}" as not done`,
+                apply: () => updateTaskStatus(task.id, completed)
+            };
+        }
+        case 'move_event': {
+            const event = await requireRecord<CalendarEvent>('calendar', args.eventId, 'event', mode);
+            const startTime = toIso(args.startTime, 'startTime');
+            const duration = Math.max(0, new Date(event.endTime).getTime() - new Date(event.startTime).getTime()) || HOUR_MS;
+            const endTime = args.endTime ? toIso(args.endTime, 'endTime') : new Date(new Date(startTime).getTime() + duration).toISOString();
+            return {
+                summary: `Move "${event.title}" from ${formatWhen(event.startTime)} to ${formatWhen(startTime)}`,
+                apply: () => saveCalendarEvents([{ ...event, startTime, endTime }])
+            };
+        }
+        case 'delete_event': {
+            const event = await requireRecord<CalendarEvent>('calendar', args.eventId, 'event', mode);
+            return {
+                summary: `Delete "${event.title}" (${formatWhen(event.startTime)})`,
+                apply: async () => { await deleteCalendarEvent(event.id); }
+            };
+        }
+        case 'edit_transaction': {
+            const tx = await requireRecord<FinanceTransaction>('finance', args.transactionId, 'transaction', mode);
+            const updated: FinanceTransaction = {
+                ...tx,
+                amount: typeof args.amount === 'number' && args.amount > 0 ? args.amount : tx.amount,
+                type: args.type === 'income' || args.type === 'expense' ? args.type : tx.type,
+                category: args.category ? String(args.category) : tx.category,
+                description: args.description ? String(args.description) : tx.description,
+                date: args.date ? toIso(args.date, 'date') : tx.date
+            };
+            const changes = [
+                updated.amount !== tx.amount && `₹${tx.amount} → ₹${updated.amount}`,
+                updated.type !== tx.type && updated.type,
+                updated.category !== tx.category && `category ${updated.category}`,
+                updated.description !== tx.description && `"${updated.description}"`,
+                updated.date !== tx.date && `dated ${formatWhen(updated.date)}`
+            ].filter(Boolean);
+            return {
+                summary: `Edit transaction "${tx.description}": ${changes.join(', ') || 'no changes'}`,
+                apply: () => saveTransaction(updated)
+            };
+        }
+        default:
+            throw new Error(`Unknown tool "${name}".`);
+    }
+};
+
+// --- Immediate Tools ---
+
+const searchEntries = async (query: string, limit: number, include: (entry: JournalEntry) => boolean) => {
+    let entries = (await retrieveRelevant(query, limit, undefined, match => match.kind === 'entry' && include(match.record as JournalEntry)))
+        .map(match => match.record as JournalEntry);
+    // Without a search index, fall back to matching words
+    if (entries.length === 0) {
+        const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
+        entries = (await getAllRecords<JournalEntry>('entries'))
+            .filter(e => include(e) && words.some(w => `${e.title} ${e.content} ${e.tags.join(' ')}`.toLowerCase().includes(w)));
+    }
+    return entries.slice(0, limit).map(e => ({ id: e.id, title: e.title, date: e.date, mode: e.mode, excerpt: e.content.slice(0, 300) }));
+};
+
+const createRecord = async (name: string, args: Record<string, any>, mode: JournalMode): Promise<{ summary: string; id: string }> => {
+    const id = `chat-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    switch (name) {
+        case 'create_task': {
+            const task: Task = { id, title: requireText(args.title, 'title'), completed: false, dueDate: args.dueDate ? toIso(args.dueDate, 'dueDate') : undefined, mode };
+            await saveTasks([task]);
+            return { id, summary: `Added task "${task.title}"${task.dueDate ? ` due ${formatWhen(task.dueDate)}` : ''}` };
+        }
+        case 'create_event': {
+            const startTime = toIso(args.startTime, 'startTime');
+            const endTime = args.endTime ? toIso(args.endTime, 'endTime') : new Date(new Date(startTime).getTime() + HOUR_MS).toISOString();
+            const event: CalendarEvent = { id, title: requireText(args.title, 'title'), startTime, endTime, description: args.description || undefined, mode };
+            await addCalendarEvents([event]);
+            return { id, summary: `Added "${event.title}" on ${formatWhen(startTime)}` };
+        }
+        case 'add_transaction': {
+            const amount = Number(args.amount);
+            if (!(amount > 0)) throw new Error('amount must be a positive number.');
+            const tx: FinanceTransaction = {
+                id,
+                amount,
+                type: args.type === 'income' ? 'income' : 'expense',
+                category: args.category ? String(args.category) : 'General',
+                description: requireText(args.description, 'description'),
+                date: args.date ? toIso(args.date, 'date') : new Date().toISOString(),
+                mode
+            };
+            await addTransactions([tx]);
+            return { id, summary: `Recorded ${tx.type} of ₹${tx.amount} for "${tx.description}"` };
+        }
+        default:
+            throw new Error(`Unknown tool "${name}".`);
+    }
+};
+
+// --- Running Calls ---
+
+// Runs the model's tool calls for one reply and collects the actions they produced. Repeated
+// identical calls (e.g. when the request is retried) return the first result instead of acting twice.
+export const createChatToolRunner = (mode: JournalMode = JournalMode.PERSONAL) => {
+    const actions: ChatAction[] = [];
+    const results = new Map<string, Promise<unknown>>();
+
+    const run = async ({ name, args }: LLMToolCall): Promise<unknown> => {
+        try {
+            if (name === 'search_entries') {
+                const include = inWorkspace(mode, args.allWorkspaces === true);
+                return { entries: await searchEntries(requireText(args.query, 'query'), Math.min(Number(args.limit) || 5, 10), include) };
+            }
+            const id = `action-${Date.now()}-${actions.length}`;
+            if (CONFIRMED_TOOLS.includes(name)) {
+                const { summary } = await planChange(name, args, mode);
+                actions.push({ id, tool: name, args, summary, status: 'pending' });
+                return { status: 'awaiting_user_confirmation', summary };
+            }
+            const created = await createRecord(name, args, mode);
+            actions.push({ id, tool: name, args, summary: created.summary, status: 'applied' });
+            return { status: 'done', id: created.id, summary: created.summary };
+        } catch (error: any) {
+            return { status: 'error', error: error.message || String(error) };
+        }
+    };
+
+    const runTool = (call: LLMToolCall): Promise<unknown> => {
+        const key = `${call.name}:${JSON.stringify(call.args)}`;
+        if (!results.has(key)) results.set(key, run(call));
+        return results.get(key)!;
+    };
+
+    return { runTool, actions };
+};
+
+// Carries out a pending action the user confirmed in the chat of mode. The record is looked up
+// again, so the change applies to its current state.
+export const applyChatAction = async (action: ChatAction, mode: JournalMode): Promise<ChatAction> => {
+    try {
+        const change = await planChange(action.tool, action.args, mode);
+        await change.apply();
+        return { ...action, summary: change.summary, status: 'applied', error: undefined };
+    } catch (error: any) {
+        return { ...action, status: 'failed', error: error.message || String(error) };
+    }
+};
@@ -0,0 +1,114 @@
+// WebCrypto helpers for vault mode: PBKDF2 key derivation and AES-GCM encryption of JSON values.
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'gemini-journal-vault';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'gemini-journal-encrypted';
+
+export interface EncryptedBlob {
+    iv: string;   // base64
+    data: string; // base64 ciphertext
+}
+
+export interface KdfParams {
+    salt: string; // base64
+    iterations: number;
+}
+
+export interface EncryptedBackup extends EncryptedBlob {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    version: 1;
+    kdf: KdfParams;
+}
+
+// --- Encoding Helpers ---
+export const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// SHA-256 of base64 bytes, as hex: the id images are stored under
+export const hashMedia = async (base64: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', fromBase64(base64));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Keys ---
+export const createKdfParams = (): KdfParams => ({
+    salt: toBase64(randomBytes(SALT_BYTES)),
+    iterations: PBKDF2_ITERATIONS
+});
+
+export const deriveKey = async (passphrase: string, params: KdfParams): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+// --- Encrypt / Decrypt ---
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedBlob> => {
+    const iv = randomBytes(IV_BYTES);
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// Throws if the key is wrong or the data was tampered with (AES-GCM authentication)
+export const decryptJson = async <T>(key: CryptoKey, blob: EncryptedBlob): Promise<T> => {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// A known value encrypted with the vault key, used to check a passphrase without touching data
+export const createVerifier = (key: CryptoKey): Promise<EncryptedBlob> => encryptJson(key, VERIFIER_TEXT);
+
+export const checkVerifier = async (key: CryptoKey, verifier: EncryptedBlob): Promise<boolean> => {
+    try {
+        return (await decryptJson<string>(key, verifier)) === VERIFIER_TEXT;
+    } catch (error) {
+        return false;
+    }
+};
+
+// --- Backups ---
+export const isEncryptedBackup = (data: any): data is EncryptedBackup => {
+    return !!data && data.format === ENCRYPTED_BACKUP_FORMAT && !!data.kdf && typeof data.data === 'string';
+};
+
+export const encryptBackup = async (key: CryptoKey, kdf: KdfParams, payload: unknown): Promise<EncryptedBackup> => {
+    const blob = await encryptJson(key, payload);
+    return { format: ENCRYPTED_BACKUP_FORMAT, version: 1, kdf, ...blob };
+};
+
+export const decryptBackup = async <T>(backup: EncryptedBackup, passphrase: string): Promise<T> => {
+    return (await openBackup<T>(backup, passphrase)).payload;
+};
+
+// Also returns the key, so files packed with the backup (media) can be decrypted without re-deriving it
+export const openBackup = async <T>(backup: EncryptedBackup, passphrase: string): Promise<{ payload: T; key: CryptoKey }> => {
+    const key = await deriveKey(passphrase, backup.kdf);
+    try {
+        return { payload: await decryptJson<T>(key, backup), key };
+    } catch (error) {
+        throw new Error("Wrong passphrase for this backup.");
+    }
+};
@@ -0,0 +1,458 @@
+import { JournalMode } from '../types';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, normalizePayload, DataPayload, ValidationReport } from './schema';
+
+// IndexedDB persistence layer. One object store per collection, keyed by record id,
+// plus a small key/value "meta" store for flags such as the last backup time.
+
+const DB_NAME = 'gemini_journal';
+const DB_VERSION = 13;
+
+export type StoreName = 'entries' | 'calendar' | 'tasks' | 'finance' | 'chat' | 'tombstones' | 'syncBase' | 'conflicts' | 'entryRevisions' | 'trash' | 'snapshots' | 'media' | 'thumbnails' | 'embeddings' | 'review' | 'duplicates' | 'memories' | 'aiJobs' | 'aiCache' | 'secureMeta' | 'meta';
+
+// Legacy localStorage keys (pre-IndexedDB). Only read once during migration.
+const LEGACY_KEYS = {
+    entries: 'gemini_journal_data_v1',
+    calendar: 'gemini_journal_calendar_v1',
+    tasks: 'gemini_journal_tasks_v1',
+    finance: 'gemini_journal_finance_v1',
+    chatPersonal: 'gemini_journal_chat_personal_v1',
+    chatProf: 'gemini_journal_chat_prof_v1',
+    lastBackup: 'gemini_journal_last_backup'
+};
+
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+export const SCHEMA_REPORT_KEY = 'lastSchemaReport';
+export const VAULT_HEADER_KEY = 'vault';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// --- Request Helpers ---
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+    });
+};
+
+// --- Schema ---
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const entries = db.createObjectStore('entries', { keyPath: 'id' });
+        entries.createIndex('date', 'date');
+
+        const calendar = db.createObjectStore('calendar', { keyPath: 'id' });
+        calendar.createIndex('startTime', 'startTime');
+        calendar.createIndex('linkedEntryId', 'linkedEntryId');
+
+        const tasks = db.createObjectStore('tasks', { keyPath: 'id' });
+        tasks.createIndex('dueDate', 'dueDate');
+        tasks.createIndex('linkedEntryId', 'linkedEntryId');
+
+        const finance = db.createObjectStore('finance', { keyPath: 'id' });
+        finance.createIndex('date', 'date');
+        finance.createIndex('linkedEntryId', 'linkedEntryId');
+
+        // Chat messages are stored individually; ids are only unique within a mode.
+        const chat = db.createObjectStore('chat', { keyPath: ['mode', 'id'] });
+        chat.createIndex('mode', 'mode');
+
+        db.createObjectStore('meta');
+    }
+    if (oldVersion < 2) {
+        // Deleted record ids, kept until the deletion has been pushed to the sync server
+        db.createObjectStore('tombstones', { keyPath: ['collection', 'id'] });
+    }
+    if (oldVersion < 3) {
+        // Last version agreed with the sync server (the common ancestor for three-way merges)
+        db.createObjectStore('syncBase', { keyPath: ['collection', 'id'] });
+        // Edits that could not be merged automatically, waiting for the user
+        db.createObjectStore('conflicts', { keyPath: ['collection', 'id'] });
+    }
+    if (oldVersion < 4) {
+        // Earlier versions of each journal entry, one record per saved revision
+        const revisions = db.createObjectStore('entryRevisions', { keyPath: ['entryId', 'revision'] });
+        revisions.createIndex('entryId', 'entryId');
+    }
+    if (oldVersion < 5) {
+        // Soft-deleted records, restorable until purged
+        const trash = db.createObjectStore('trash', { keyPath: ['collection', 'id'] });
+        trash.createIndex('deletedAt', 'deletedAt');
+    }
+    if (oldVersion < 6) {
+        // Full copies of the data taken before a restore, so it can be rolled back
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+    }
+    if (oldVersion < 7) {
+        // Images keyed by the SHA-256 of their bytes, and small previews of them for lists
+        db.createObjectStore('media', { keyPath: 'id' });
+        db.createObjectStore('thumbnails', { keyPath: 'id' });
+    }
+    if (oldVersion < 8) {
+        // Embedding vectors of entries, tasks and transactions for semantic search
+        db.createObjectStore('embeddings', { keyPath: 'id' });
+    }
+    if (oldVersion < 9) {
+        // AI-extracted records waiting for the user's approval
+        db.createObjectStore('review', { keyPath: 'id' });
+    }
+    if (oldVersion < 10) {
+        // Possible duplicates the dedup engine was unsure about
+        db.createObjectStore('duplicates', { keyPath: 'id' });
+    }
+    if (oldVersion < 11) {
+        // What the chat companion remembers, summarised from older conversation turns
+        const memories = db.createObjectStore('memories', { keyPath: 'id' });
+        memories.createIndex('mode', 'mode');
+    }
+    if (oldVersion < 12) {
+        // AI work waiting to be retried, and structured AI responses keyed by the hash of their request
+        db.createObjectStore('aiJobs', { keyPath: 'id' });
+        db.createObjectStore('aiCache', { keyPath: 'key' });
+    }
+    if (oldVersion < 13) {
+        // Settings that hold personal details (e.g. the privacy filter's names), encrypted like the records
+        db.createObjectStore('secureMeta', { keyPath: 'key' });
+    }
+};
+
+// Stores whose records are encrypted in vault mode
+export const ENCRYPTED_STORES: StoreName[] = ['entries', 'calendar', 'tasks', 'finance', 'chat', 'syncBase', 'conflicts', 'entryRevisions', 'trash', 'snapshots', 'media', 'thumbnails', 'embeddings', 'review', 'duplicates', 'memories', 'aiJobs', 'aiCache', 'secureMeta'];
+
+// Fields that stay readable when vault encryption is on, so keys and indexes keep working.
+export const PLAINTEXT_FIELDS: Partial<Record<StoreName, string[]>> = {
+    entries: ['id', 'date'],
+    calendar: ['id', 'startTime', 'linkedEntryId'],
+    tasks: ['id', 'dueDate', 'linkedEntryId'],
+    finance: ['id', 'date', 'linkedEntryId'],
+    chat: ['mode', 'id'],
+    syncBase: ['collection', 'id'],
+    conflicts: ['collection', 'id'],
+    entryRevisions: ['entryId', 'revision'],
+    trash: ['collection', 'id', 'deletedAt', 'cascadeOf'],
+    snapshots: ['id', 'createdAt'],
+    media: ['id'],
+    thumbnails: ['id'],
+    embeddings: ['id'],
+    review: ['id'],
+    duplicates: ['id'],
+    memories: ['id', 'mode'],
+    aiJobs: ['id'],
+    aiCache: ['key'],
+    secureMeta: ['key']
+};
+
+// --- Record Codec ---
+// When the vault is enabled, records pass through a codec (encryption) on their way in and out.
+// Encoding is async, so it always happens outside of an IndexedDB transaction.
+export interface RecordCodec {
+    encode: (store: StoreName, record: any) => Promise<any>;
+    decode: (store: StoreName, stored: any) => Promise<any>;
+}
+
+let recordCodec: RecordCodec | null = null;
+
+export const setRecordCodec = (codec: RecordCodec | null) => {
+    recordCodec = codec;
+};
+
+const usesCodec = (store: StoreName) => !!recordCodec && ENCRYPTED_STORES.includes(store);
+
+export const encodeRecords = async <T>(store: StoreName, records: T[]): Promise<any[]> => {
+    if (!usesCodec(store)) return records;
+    return Promise.all(records.map(record => recordCodec!.encode(store, record)));
+};
+
+export const decodeRecords = async <T>(store: StoreName, stored: any[]): Promise<T[]> => {
+    if (!usesCodec(store)) return stored;
+    return Promise.all(stored.map(record => recordCodec!.decode(store, record)));
+};
+
+// --- One-time Migration from localStorage ---
+const readLegacyArray = (key: string): any[] => {
+    try {
+        const data = localStorage.getItem(key);
+        const parsed = data ? JSON.parse(data) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error(`Failed to read legacy key ${key}`, error);
+        return [];
+    }
+};
+
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+    if (typeof localStorage === 'undefined') return;
+
+    const flagTx = db.transaction('meta', 'readonly');
+    const alreadyMigrated = await promisifyRequest(flagTx.objectStore('meta').get(MIGRATION_FLAG));
+    if (alreadyMigrated) return;
+
+    const legacy = {
+        entries: readLegacyArray(LEGACY_KEYS.entries),
+        calendar: readLegacyArray(LEGACY_KEYS.calendar),
+        tasks: readLegacyArray(LEGACY_KEYS.tasks),
+        finance: readLegacyArray(LEGACY_KEYS.finance),
+        chatPersonal: readLegacyArray(LEGACY_KEYS.chatPersonal),
+        chatProf: readLegacyArray(LEGACY_KEYS.chatProf)
+    };
+    const hasLegacyData = Object.values(legacy).some(records => records.length > 0);
+
+    const tx = db.transaction(['entries', 'calendar', 'tasks', 'finance', 'chat', 'meta'], 'readwrite');
+    legacy.entries.forEach(e => tx.objectStore('entries').put(e));
+    legacy.calendar.forEach(e => tx.objectStore('calendar').put(e));
+    legacy.tasks.forEach(t => tx.objectStore('tasks').put(t));
+    legacy.finance.forEach(t => tx.objectStore('finance').put(t));
+    legacy.chatPersonal.forEach(m => tx.objectStore('chat').put({ ...m, mode: JournalMode.PERSONAL }));
+    legacy.chatProf.forEach(m => tx.objectStore('chat').put({ ...m, mode: JournalMode.PROFESSIONAL }));
+
+    const lastBackup = localStorage.getItem(LEGACY_KEYS.lastBackup);
+    if (lastBackup) tx.objectStore('meta').put(parseInt(lastBackup, 10), 'lastBackup');
+    tx.objectStore('meta').put(Date.now(), MIGRATION_FLAG);
+    // localStorage data has the v1 shape; a brand new database starts at the current version
+    tx.objectStore('meta').put(hasLegacyData ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+
+    await transactionDone(tx);
+
+    // Only free the quota once the copy has committed
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// --- Stored Schema Upgrades ---
+const COLLECTION_STORES = ['entries', 'calendar', 'tasks', 'finance'] as const;
+// Entry history and the trash hold older copies of records, so the migrations rewrite them too
+const HISTORY_STORES = ['entryRevisions', 'trash'] as const;
+
+// Runs the schema migrations over everything in the database when its stamped version is behind.
+// An encrypted vault can only be upgraded once it is unlocked, so it is skipped until then.
+const upgradeStoredSchema = async (db: IDBDatabase): Promise<void> => {
+    const readTx = db.transaction([...COLLECTION_STORES, ...HISTORY_STORES, 'chat', 'meta'], 'readonly');
+    const storedVersion = (await promisifyRequest(readTx.objectStore('meta').get(SCHEMA_VERSION_KEY))) ?? LEGACY_SCHEMA_VERSION;
+    if (storedVersion >= CURRENT_SCHEMA_VERSION) return;
+    const vaultHeader = await promisifyRequest(readTx.objectStore('meta').get(VAULT_HEADER_KEY));
+    if (vaultHeader && !recordCodec) return;
+
+    const raw: Record<string, any[]> = {};
+    for (const store of [...COLLECTION_STORES, ...HISTORY_STORES, 'chat' as const]) {
+        raw[store] = await promisifyRequest(readTx.objectStore(store).getAll());
+    }
+
+    const payload: DataPayload = { schemaVersion: storedVersion };
+    for (const store of [...COLLECTION_STORES, ...HISTORY_STORES]) {
+        payload[store] = await decodeRecords(store, raw[store]);
+    }
+    const chat = await decodeRecords<any>('chat', raw.chat);
+    payload.chatPersonal = chat.filter(m => m.mode === JournalMode.PERSONAL).map(({ mode, ...m }) => m);
+    payload.chatProf = chat.filter(m => m.mode === JournalMode.PROFESSIONAL).map(({ mode, ...m }) => m);
+
+    const { data, report } = await normalizePayload(payload);
+
+    const encoded: Record<string, any[]> = {};
+    for (const store of [...COLLECTION_STORES, ...HISTORY_STORES]) {
+        encoded[store] = await encodeRecords(store, data[store] || []);
+    }
+    encoded.chat = await encodeRecords('chat', [
+        ...(data.chatPersonal || []).map((m: any) => ({ ...m, mode: JournalMode.PERSONAL })),
+        ...(data.chatProf || []).map((m: any) => ({ ...m, mode: JournalMode.PROFESSIONAL }))
+    ]);
+    // Images the migrations took out of the records, written with them so no reference is left dangling
+    const movedMedia = await encodeRecords('media', data.movedMedia || []);
+
+    const writeTx = db.transaction([...COLLECTION_STORES, ...HISTORY_STORES, 'chat', 'media', 'meta'], 'readwrite');
+    for (const store of [...COLLECTION_STORES, ...HISTORY_STORES, 'chat' as const]) {
+        const objectStore = writeTx.objectStore(store);
+        objectStore.clear();
+        encoded[store].forEach(record => objectStore.put(record));
+    }
+    movedMedia.forEach(blob => writeTx.objectStore('media').put(blob));
+    writeTx.objectStore('meta').put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+    writeTx.objectStore('meta').put(report, SCHEMA_REPORT_KEY);
+    await transactionDone(writeTx);
+
+    if (report.issues.length > 0) console.warn("Stored data repaired during schema upgrade", report);
+};
+
+// Called again after the vault is unlocked, since encrypted data cannot be upgraded at open time
+export const runStoredSchemaUpgrade = async (): Promise<void> => {
+    await upgradeStoredSchema(await openDatabase());
+};
+
+export const getLastSchemaReport = (): Promise<ValidationReport | undefined> => getMeta<ValidationReport>(SCHEMA_REPORT_KEY);
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => console.warn("Database upgrade blocked by another open tab");
+        }).then(async (db) => {
+            await migrateFromLocalStorage(db);
+            await upgradeStoredSchema(db);
+            return db;
+        });
+
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+// --- Write Notifications ---
+// Listeners hear about every committed read-write transaction. `ids` lists the record ids written
+// when the caller knows them; without it any record in those stores may have changed.
+export type WriteListener = (stores: StoreName[], ids?: string[]) => void;
+
+const writeListeners = new Set<WriteListener>();
+
+export const onStoresWritten = (listener: WriteListener): (() => void) => {
+    writeListeners.add(listener);
+    return () => { writeListeners.delete(listener); };
+};
+
+const notifyWritten = (stores: StoreName[], ids?: string[]) => {
+    writeListeners.forEach(listener => {
+        try {
+            listener(stores, ids);
+        } catch (error) {
+            console.error("Write listener failed", error);
+        }
+    });
+};
+
+const idsOf = (keys: any[]): string[] | undefined => keys.every(key => typeof key === 'string') ? keys : undefined;
+
+// --- Generic Store Operations ---
+export const runTransaction = async <T>(
+    stores: StoreName | StoreName[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T> | T,
+    changedIds?: string[]
+): Promise<T> => {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, mode);
+    const done = transactionDone(tx);
+    let result: T;
+    try {
+        result = await work(tx);
+    } catch (error) {
+        done.catch(() => {});
+        try { tx.abort(); } catch (e) {}
+        throw error;
+    }
+    await done;
+    if (mode === 'readwrite') notifyWritten(Array.isArray(stores) ? stores : [stores], changedIds);
+    return result;
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+    const stored = await runTransaction(store, 'readonly', tx => promisifyRequest(tx.objectStore(store).getAll()));
+    return decodeRecords<T>(store, stored);
+};
+
+export const getAllByIndex = async <T>(store: StoreName, index: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+    const stored = await runTransaction(store, 'readonly', tx => promisifyRequest(tx.objectStore(store).index(index).getAll(query)));
+    return decodeRecords<T>(store, stored);
+};
+
+export const getAllKeys = (store: StoreName): Promise<IDBValidKey[]> => {
+    return runTransaction(store, 'readonly', tx => promisifyRequest(tx.objectStore(store).getAllKeys()));
+};
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+    const stored = await runTransaction(store, 'readonly', tx => promisifyRequest(tx.objectStore(store).get(key)));
+    if (stored === undefined) return undefined;
+    const [record] = await decodeRecords<T>(store, [stored]);
+    return record;
+};
+
+export const putRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+    const encoded = await encodeRecords(store, records);
+    return runTransaction(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        encoded.forEach(record => objectStore.put(record));
+    }, idsOf(encoded.map(record => record.id)));
+};
+
+// Inserts only records whose key is not already present
+export const addRecordsIfAbsent = async <T extends { id: string }>(store: StoreName, records: T[]): Promise<void> => {
+    const encoded = await encodeRecords(store, records);
+    return runTransaction(store, 'readwrite', async tx => {
+        const objectStore = tx.objectStore(store);
+        for (const record of encoded) {
+            const existing = await promisifyRequest(objectStore.getKey(record.id));
+            if (existing === undefined) objectStore.put(record);
+        }
+    }, idsOf(encoded.map(record => record.id)));
+};
+
+// Read-modify-write of a single record. With the codec active the read and the write
+// happen in separate transactions, since encryption cannot run inside one.
+export const updateRecord = async <T>(store: StoreName, key: IDBValidKey, updater: (current: T) => T): Promise<void> => {
+    const current = await getRecord<T>(store, key);
+    if (current !== undefined) await putRecords(store, [updater(current)]);
+};
+
+export const deleteRecords = (store: StoreName, keys: IDBValidKey[]): Promise<void> => {
+    return runTransaction(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        keys.forEach(key => objectStore.delete(key));
+    }, idsOf(keys));
+};
+
+// Replaces the full contents of a store in a single transaction
+export const replaceAllRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+    const encoded = await encodeRecords(store, records);
+    return runTransaction(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        objectStore.clear();
+        encoded.forEach(record => objectStore.put(record));
+    });
+};
+
+// Approximate on-disk size of a store, measured on the stored (possibly encrypted) form
+export const measureStore = (store: StoreName): Promise<{ count: number; bytes: number }> => {
+    return runTransaction(store, 'readonly', tx => new Promise((resolve, reject) => {
+        let count = 0;
+        let bytes = 0;
+        const request = tx.objectStore(store).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve({ count, bytes });
+            count++;
+            bytes += JSON.stringify(cursor.value).length;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    }));
+};
+
+// --- Meta (key/value) ---
+// 'meta' stays readable in vault mode; values with personal details go in 'secureMeta' instead
+export const getMeta = <T>(key: string): Promise<T | undefined> => getRecord<T>('meta', key);
+
+export const setMeta = <T>(key: string, value: T): Promise<void> => {
+    return runTransaction('meta', 'readwrite', tx => {
+        tx.objectStore('meta').put(value, key);
+    });
+};
+
+export const deleteMeta = (key: string): Promise<void> => {
+    return runTransaction('meta', 'readwrite', tx => {
+        tx.objectStore('meta').delete(key);
+    });
+};
+
+export const getSecureMeta = async <T>(key: string): Promise<T | undefined> => {
+    return (await getRecord<{ key: string; value: T }>('secureMeta', key))?.value;
+};
+
+export const setSecureMeta = <T>(key: string, value: T): Promise<void> => putRecords('secureMeta', [{ key, value }]);
@@ -0,0 +1,249 @@
+import { CalendarEvent, Task, FinanceTransaction, TrashItem, DuplicateCandidate, DuplicateKind } from '../types';
+import { getAllRecords, getRecord, putRecords, deleteRecords } from './db';
+import { saveCalendarEvents, saveTasks, saveTransactions, trashRecords, modeOf } from './storageService';
+import type { Extraction } from './reviewService';
+
+// Finds extracted events, tasks and transactions that repeat ones already saved, e.g. the same
+// meeting mentioned in two conversations. Strong matches are merged into the existing record;
+// borderline ones are saved anyway and kept as DuplicateCandidates for the user to decide.
+// Records are only compared within one workspace.
+
+export const AUTO_MERGE_SCORE = 0.85;
+export const REVIEW_SCORE = 0.6;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const KIND_STORES = { event: 'calendar', task: 'tasks', transaction: 'finance' } as const;
+
+type DedupRecord = CalendarEvent | Task | FinanceTransaction;
+
+interface Match {
+    score: number;
+    reasons: string[];
+}
+
+// --- Similarity ---
+
+const normalize = (text = '') => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+    const grams = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const gram = text.slice(i, i + 2);
+        grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+    return grams;
+};
+
+// 0..1: the larger of character-bigram (Dice) similarity and how far the shorter text's words
+// appear in the longer one, so "Dentist" matches "Dentist appointment"
+export const textSimilarity = (a?: string, b?: string): number => {
+    const x = normalize(a);
+    const y = normalize(b);
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+
+    const gramsX = bigrams(x);
+    const gramsY = bigrams(y);
+    let shared = 0;
+    gramsX.forEach((count, gram) => { shared += Math.min(count, gramsY.get(gram) || 0); });
+    const totalGrams = Math.max(1, x.length - 1 + y.length - 1);
+    const dice = (2 * shared) / totalGrams;
+
+    const wordsX = new Set(x.split(' ').filter(w => w.length > 2));
+    const wordsY = new Set(y.split(' ').filter(w => w.length > 2));
+    const common = [...wordsX].filter(w => wordsY.has(w)).length;
+    const overlap = Math.min(wordsX.size, wordsY.size) > 0 ? common / Math.min(wordsX.size, wordsY.size) : 0;
+
+    return Math.max(dice, overlap * 0.9);
+};
+
+const timeApart = (a?: string, b?: string): number => {
+    const diff = Math.abs(new Date(a || '').getTime() - new Date(b || '').getTime());
+    return isNaN(diff) ? Infinity : diff;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Events more than a day apart are separate occurrences, however alike their titles
+const matchEvents = (incoming: CalendarEvent, existing: CalendarEvent): Match | null => {
+    const apart = timeApart(incoming.startTime, existing.startTime);
+    if (apart > DAY_MS) return null;
+    const title = textSimilarity(incoming.title, existing.title);
+    const time = apart <= HOUR_MS / 2 ? 1 : apart <= 3 * HOUR_MS ? 0.7 : 0.4;
+    return {
+        score: 0.6 * title + 0.4 * time,
+        reasons: [
+            `Title ${percent(title)} similar`,
+            apart <= HOUR_MS / 2 ? 'Starts at the same time' : `Starts ${Math.round(apart / HOUR_MS)}h apart`
+        ]
+    };
+};
+
+// Only open tasks are compared; repeating a finished chore is not a duplicate
+const matchTasks = (incoming: Task, existing: Task): Match | null => {
+    if (existing.completed) return null;
+    const title = textSimilarity(incoming.title, existing.title);
+    const apart = incoming.dueDate && existing.dueDate ? timeApart(incoming.dueDate, existing.dueDate) : undefined;
+    const due = apart === undefined ? 0.5 : apart < DAY_MS ? 1 : apart <= 3 * DAY_MS ? 0.5 : 0;
+    return {
+        score: 0.75 * title + 0.25 * due,
+        reasons: [
+            `Title ${percent(title)} similar`,
+            apart === undefined ? 'Due date unknown' : apart < DAY_MS ? 'Due the same day' : `Due ${Math.round(apart / DAY_MS)} days apart`
+        ]
+    };
+};
+
+// Transactions must agree on type, be within 2% in amount and 3 days in date to be compared at all
+const matchTransactions = (incoming: FinanceTransaction, existing: FinanceTransaction): Match | null => {
+    if (incoming.type !== existing.type) return null;
+    const amountGap = Math.abs(incoming.amount - existing.amount) / Math.max(incoming.amount, existing.amount, 1);
+    const apart = timeApart(incoming.date, existing.date);
+    if (amountGap > 0.02 || apart > 3 * DAY_MS) return null;
+
+    const amount = amountGap === 0 ? 1 : 0.7;
+    const date = apart < DAY_MS ? 1 : apart < 2 * DAY_MS ? 0.6 : 0.3;
+    const description = textSimilarity(incoming.description, existing.description);
+    const category = normalize(incoming.category) === normalize(existing.category) ? 1 : 0;
+    return {
+        score: 0.35 * amount + 0.25 * date + 0.3 * description + 0.1 * category,
+        reasons: [
+            amountGap === 0 ? `Same amount (₹${existing.amount})` : `Amounts ₹${incoming.amount} and ₹${existing.amount}`,
+            apart < DAY_MS ? 'Same day' : `${Math.round(apart / DAY_MS)} days apart`,
+            `Description ${percent(description)} similar`,
+            ...(category ? [`Both ${existing.category}`] : [])
+        ]
+    };
+};
+
+const MATCHERS: Record<DuplicateKind, (a: any, b: any) => Match | null> = {
+    event: matchEvents,
+    task: matchTasks,
+    transaction: matchTransactions
+};
+
+// The existing record with any fields it lacks filled in from the duplicate
+const mergeRecords = <T extends DedupRecord>(existing: T, duplicate: T): T => {
+    const merged: any = { ...existing };
+    Object.entries(duplicate).forEach(([key, value]) => {
+        if (['id', 'lastModified', 'revision'].includes(key)) return;
+        if (merged[key] === undefined || merged[key] === null || merged[key] === '') merged[key] = value;
+    });
+    return merged;
+};
+
+// --- Engine ---
+
+export interface DedupResult {
+    extraction: Extraction; // What is still new, borderline duplicates included
+    merged: { calendarEvents: CalendarEvent[]; tasks: Task[]; transactions: FinanceTransaction[] }; // Existing records that absorbed a duplicate
+    candidates: DuplicateCandidate[];
+}
+
+const dedupeKind = <T extends DedupRecord>(kind: DuplicateKind, incoming: T[], stored: T[]) => {
+    const storedIds = new Set(stored.map(r => r.id));
+    const merged = new Map<string, T>();
+    const fresh: T[] = [];
+    const candidates: DuplicateCandidate[] = [];
+
+    for (const record of incoming) {
+        // A record that is already stored is a re-save, not a duplicate
+        if (storedIds.has(record.id)) {
+            fresh.push(record);
+            continue;
+        }
+
+        // Compare with what is stored and with earlier records of the same batch, in the same workspace
+        let best: { other: T; match: Match } | null = null;
+        for (const other of [...stored.map(r => merged.get(r.id) || r), ...fresh]) {
+            if (modeOf(other) !== modeOf(record)) continue;
+            const match = MATCHERS[kind](record, other);
+            if (match && (!best || match.score > best.match.score)) best = { other, match };
+        }
+
+        if (best && best.match.score >= AUTO_MERGE_SCORE) {
+            const combined = mergeRecords(best.other, record);
+            if (storedIds.has(best.other.id)) merged.set(best.other.id, combined);
+            else fresh[fresh.indexOf(best.other)] = combined;
+            continue;
+        }
+
+        fresh.push(record);
+        if (best && best.match.score >= REVIEW_SCORE) {
+            candidates.push({
+                id: `${kind}:${record.id}`,
+                kind,
+                recordId: record.id,
+                matchId: best.other.id,
+                score: best.match.score,
+                reasons: best.match.reasons,
+                detectedAt: Date.now()
+            });
+        }
+    }
+    return { fresh, merged: [...merged.values()], candidates };
+};
+
+// Splits an extraction into genuinely new records, merges into existing ones and borderline matches
+export const resolveDuplicates = async (extraction: Extraction): Promise<DedupResult> => {
+    const events = dedupeKind('event', extraction.calendarEvents, await getAllRecords<CalendarEvent>('calendar'));
+    const tasks = dedupeKind('task', extraction.tasks, await getAllRecords<Task>('tasks'));
+    const transactions = dedupeKind('transaction', extraction.transactions, await getAllRecords<FinanceTransaction>('finance'));
+
+    return {
+        extraction: { ...extraction, calendarEvents: events.fresh, tasks: tasks.fresh, transactions: transactions.fresh },
+        merged: { calendarEvents: events.merged, tasks: tasks.merged, transactions: transactions.merged },
+        candidates: [...events.candidates, ...tasks.candidates, ...transactions.candidates]
+    };
+};
+
+// --- Borderline Matches ---
+
+export const saveDuplicateCandidates = async (candidates: DuplicateCandidate[]): Promise<void> => {
+    if (candidates.length > 0) await putRecords('duplicates', candidates);
+};
+
+// Candidates whose records both still exist; the rest are dropped
+export const getDuplicateCandidates = async (): Promise<DuplicateCandidate[]> => {
+    const candidates = await getAllRecords<DuplicateCandidate>('duplicates');
+    const live: DuplicateCandidate[] = [];
+    const stale: string[] = [];
+    for (const candidate of candidates) {
+        const store = KIND_STORES[candidate.kind];
+        const [record, match] = await Promise.all([getRecord(store, candidate.recordId), getRecord(store, candidate.matchId)]);
+        if (record && match) live.push(candidate);
+        else stale.push(candidate.id);
+    }
+    if (stale.length > 0) await deleteRecords('duplicates', stale);
+    return live.sort((a, b) => b.detectedAt - a.detectedAt);
+};
+
+// Both records of a candidate, for showing them side by side
+export const getDuplicatePair = async (candidate: DuplicateCandidate): Promise<{ record?: DedupRecord; match?: DedupRecord }> => {
+    const store = KIND_STORES[candidate.kind];
+    const [record, match] = await Promise.all([
+        getRecord<DedupRecord>(store, candidate.recordId),
+        getRecord<DedupRecord>(store, candidate.matchId)
+    ]);
+    return { record, match };
+};
+
+// The user says they are the same: the older record absorbs the newer one, which goes to the trash
+export const mergeDuplicate = async (candidate: DuplicateCandidate): Promise<TrashItem[]> => {
+    const { record, match } = await getDuplicatePair(candidate);
+    await deleteRecords('duplicates', [candidate.id]);
+    if (!record || !match) return [];
+
+    const combined = mergeRecords(match, record);
+    if (candidate.kind === 'event') await saveCalendarEvents([combined as CalendarEvent]);
+    else if (candidate.kind === 'task') await saveTasks([combined as Task]);
+    else await saveTransactions([combined as FinanceTransaction]);
+    return trashRecords(KIND_STORES[candidate.kind], [record.id]);
+};
+
+// The user says they are different: keep both
+export const dismissDuplicate = async (candidate: DuplicateCandidate): Promise<void> => {
+    await deleteRecords('duplicates', [candidate.id]);
+};
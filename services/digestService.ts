@@ -0,0 +1,234 @@
+import { JournalEntry, JournalMode, Task, CalendarEvent, FinanceTransaction } from '../types';
+import { getAllRecords, getMeta, setMeta } from './db';
+import { saveEntry, inWorkspace } from './storageService';
+import { getActiveProvider } from './llmProvider';
+import { writeDigest } from './geminiService';
+import { registerAIJobHandler, queueAIJob, runAIJobs } from './aiQueueService';
+
+// Weekly and monthly digests: once a week (Monday to Sunday) or calendar month is over, its
+// entries, tasks, events and spending are summarised into an entry tagged 'digest'. Each period
+// is written once; a digest the user deletes is not written again. Digests cover the personal
+// workspace only. Due digests go through the AI job queue, so one the AI cannot write yet is
+// written once it can.
+
+export type DigestPeriod = 'week' | 'month';
+
+export const DIGEST_TAG = 'digest';
+
+const SCHEDULE_KEY = 'digestSchedule';
+const lastPeriodKey = (period: DigestPeriod) => `digestLastPeriod:${period}`;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_ENTRY_CHARS = 400;
+const MAX_ENTRIES = 40;
+
+export interface DigestSchedule {
+    week: boolean;
+    month: boolean;
+}
+
+export const getDigestSchedule = async (): Promise<DigestSchedule> => {
+    return { week: true, month: true, ...(await getMeta<DigestSchedule>(SCHEDULE_KEY)) };
+};
+
+export const setDigestSchedule = async (schedule: DigestSchedule): Promise<void> => {
+    await setMeta(SCHEDULE_KEY, schedule);
+};
+
+export const isDigest = (entry: Pick<JournalEntry, 'tags'>) => entry.tags.some(t => t.toLowerCase() === DIGEST_TAG);
+
+// --- Periods ---
+
+interface PeriodRange {
+    start: Date;
+    end: Date; // Exclusive
+}
+
+// The week (from Monday) or month containing `date`
+const periodOf = (period: DigestPeriod, date: Date): PeriodRange => {
+    if (period === 'month') {
+        const start = new Date(date.getFullYear(), date.getMonth(), 1);
+        return { start, end: new Date(start.getFullYear(), start.getMonth() + 1, 1) };
+    }
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7);
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7) };
+};
+
+const previousPeriod = (period: DigestPeriod, range: PeriodRange): PeriodRange => periodOf(period, new Date(range.start.getTime() - 1));
+
+const describePeriod = (period: DigestPeriod, range: PeriodRange): string => period === 'month'
+    ? range.start.toLocaleDateString([], { month: 'long', year: 'numeric' })
+    : `week of ${range.start.toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+
+const dayStamp = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// --- Stats ---
+
+interface PeriodStats {
+    entries: JournalEntry[];
+    completed: Task[];
+    overdue: Task[];
+    events: CalendarEvent[];
+    spending: { category: string; amount: number }[];
+    spent: number;
+    earned: number;
+    mood: number | null; // Average valence of scored entries
+}
+
+interface Records {
+    entries: JournalEntry[];
+    tasks: Task[];
+    events: CalendarEvent[];
+    transactions: FinanceTransaction[];
+}
+
+const within = (iso: string | undefined, range: PeriodRange) => {
+    const time = new Date(iso || '').getTime();
+    return !isNaN(time) && time >= range.start.getTime() && time < range.end.getTime();
+};
+
+const collectStats = (records: Records, range: PeriodRange): PeriodStats => {
+    const personal = inWorkspace(JournalMode.PERSONAL);
+    const tasks = records.tasks.filter(personal);
+    const events = records.events.filter(personal);
+    const transactions = records.transactions.filter(personal);
+    const periodEntries = records.entries
+        .filter(e => personal(e) && !isDigest(e) && within(e.date, range))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const expenses = transactions.filter(t => t.type === 'expense' && within(t.date, range));
+
+    const byCategory = new Map<string, number>();
+    expenses.forEach(t => byCategory.set(t.category, (byCategory.get(t.category) || 0) + t.amount));
+    const scored = periodEntries.filter(e => e.mood);
+
+    return {
+        entries: periodEntries,
+        completed: tasks.filter(t => t.completed && within(t.completedAt, range)),
+        // Due by the end of the period and not done by then
+        overdue: tasks.filter(t => !!t.dueDate && new Date(t.dueDate).getTime() < range.end.getTime()
+            && (!t.completed || (!!t.completedAt && new Date(t.completedAt).getTime() >= range.end.getTime()))),
+        events: events.filter(e => within(e.startTime, range)).sort((a, b) => a.startTime.localeCompare(b.startTime)),
+        spending: [...byCategory.entries()].map(([category, amount]) => ({ category, amount })).sort((a, b) => b.amount - a.amount),
+        spent: expenses.reduce((sum, t) => sum + t.amount, 0),
+        earned: transactions.filter(t => t.type === 'income' && within(t.date, range)).reduce((sum, t) => sum + t.amount, 0),
+        mood: scored.length ? scored.reduce((sum, e) => sum + e.mood!.valence, 0) / scored.length : null
+    };
+};
+
+const money = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const change = (current: number, previous: number) => {
+    if (previous === 0) return '';
+    const percent = Math.round(((current - previous) / previous) * 100);
+    return `, ${percent >= 0 ? '+' : ''}${percent}%`;
+};
+
+const statLines = (stats: PeriodStats): string[] => [
+    `Entries: ${stats.entries.length}`,
+    `Tasks: ${stats.completed.length} completed, ${stats.overdue.length} overdue${stats.overdue.length ? ` (${stats.overdue.slice(0, 5).map(t => t.title).join(', ')})` : ''}`,
+    `Events: ${stats.events.length}${stats.events.length ? ` (${stats.events.slice(0, 8).map(e => e.title).join(', ')})` : ''}`,
+    `Spending: ${money(stats.spent)}${stats.spending.length ? ` (${stats.spending.slice(0, 6).map(s => `${s.category} ${money(s.amount)}`).join(' · ')})` : ''}`,
+    ...(stats.earned ? [`Income: ${money(stats.earned)}`] : [])
+];
+
+const comparisonLines = (stats: PeriodStats, previous: PeriodStats): string[] => [
+    `Entries: ${stats.entries.length} (was ${previous.entries.length})`,
+    `Tasks completed: ${stats.completed.length} (was ${previous.completed.length})`,
+    `Spent: ${money(stats.spent)} (was ${money(previous.spent)}${change(stats.spent, previous.spent)})`,
+    ...(stats.mood !== null && previous.mood !== null ? [`Mood: ${stats.mood.toFixed(2)} (was ${previous.mood.toFixed(2)})`] : [])
+];
+
+// --- Writing ---
+
+const loadRecords = async (): Promise<Records> => {
+    const [entries, tasks, events, transactions] = await Promise.all([
+        getAllRecords<JournalEntry>('entries'),
+        getAllRecords<Task>('tasks'),
+        getAllRecords<CalendarEvent>('calendar'),
+        getAllRecords<FinanceTransaction>('finance')
+    ]);
+    return { entries, tasks, events, transactions };
+};
+
+// Writes the digest of the week or month containing `date`, replacing an earlier digest of the same
+// period. Resolves to undefined when nothing happened in it.
+export const createDigest = async (period: DigestPeriod, date: Date): Promise<JournalEntry | undefined> => {
+    const range = periodOf(period, date);
+    const records = await loadRecords();
+    const stats = collectStats(records, range);
+    if (stats.entries.length === 0 && stats.completed.length === 0 && stats.events.length === 0 && stats.spent === 0) return undefined;
+    const previous = collectStats(records, previousPeriod(period, range));
+
+    const label = describePeriod(period, range);
+    const previousLabel = period === 'month' ? 'previous month' : 'previous week';
+    const facts = [...statLines(stats), `Compared with the ${previousLabel}:`, ...comparisonLines(stats, previous)].join('\n');
+    const excerpts = stats.entries.slice(-MAX_ENTRIES).map(e =>
+        `[${new Date(e.date).toDateString()}] ${e.title}${e.tags.length ? ` (#${e.tags.join(' #')})` : ''}\n${e.content.slice(0, MAX_ENTRY_CHARS)}`
+    );
+    const draft = await writeDigest(label, facts, excerpts);
+
+    const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+    const content = [
+        draft.summary,
+        draft.highlights.length ? `Highlights\n${bullets(draft.highlights)}` : '',
+        draft.themes.length ? `Recurring themes\n${bullets(draft.themes)}` : '',
+        `In numbers\n${bullets(statLines(stats))}`,
+        `Compared with the ${previousLabel}\n${[draft.comparison, bullets(comparisonLines(stats, previous))].filter(Boolean).join('\n')}`
+    ].filter(Boolean).join('\n\n');
+
+    const entry: JournalEntry = {
+        id: `digest-${period}-${dayStamp(range.start)}`,
+        title: draft.title || `${period === 'month' ? 'Monthly' : 'Weekly'} digest: ${label}`,
+        content,
+        // Dated to the last moment of the period, so it sits after the entries it covers
+        date: new Date(range.end.getTime() - 1).toISOString(),
+        mode: JournalMode.PERSONAL,
+        tags: [DIGEST_TAG, period === 'month' ? 'monthly' : 'weekly'],
+        lastModified: Date.now()
+    };
+    await saveEntry(entry, 'ai');
+    return entry;
+};
+
+// --- Scheduling ---
+
+// Queues the digest of the last finished week and month, unless it was queued already or that
+// period is turned off, and runs the queue. Periods missed while the app was closed are not caught
+// up on. Resolves to how many digests were queued.
+export const runDueDigests = async (now = new Date()): Promise<number> => {
+    if (!getActiveProvider().isConfigured()) return 0;
+    const schedule = await getDigestSchedule();
+    let queued = 0;
+
+    for (const period of ['week', 'month'] as DigestPeriod[]) {
+        if (!schedule[period]) continue;
+        const last = previousPeriod(period, periodOf(period, now));
+        const stamp = dayStamp(last.start);
+        if ((await getMeta<string>(lastPeriodKey(period))) === stamp) continue;
+
+        await queueAIJob({ kind: 'digest', mode: JournalMode.PERSONAL, period, date: last.start.toISOString() });
+        await setMeta(lastPeriodKey(period), stamp);
+        queued++;
+    }
+    if (queued > 0) await runAIJobs();
+    return queued;
+};
+
+registerAIJobHandler('digest', async job => {
+    await createDigest(job.period, new Date(job.date));
+});
+
+// Checks for due digests now and every hour after. Returns a function that stops it.
+export const startDigestScheduler = (): (() => void) => {
+    let running = false;
+    const check = () => {
+        if (running) return;
+        running = true;
+        runDueDigests()
+            .catch(error => console.warn("Digest generation failed", error))
+            .finally(() => { running = false; });
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+};
@@ -0,0 +1,167 @@
+import { JournalEntry, Task, FinanceTransaction, EmbeddedKind, EmbeddingRecord } from '../types';
+import { StoreName, getRecord, getAllRecords, getAllKeys, putRecords, deleteRecords } from './db';
+import { subscribe, WatchedCollection } from './storageService';
+import { getActiveProvider } from './llmProvider';
+import { createRedactor, logRedactions } from './redactionService';
+
+// Local vector index for semantic search. Entries, tasks and transactions are embedded through
+// the active provider and kept in the 'embeddings' store, one vector per record. A record is
+// re-embedded only when its text changes (tracked by hash) or the embedding model changes.
+// Text is embedded after the privacy filter, so changing what it redacts re-embeds the records affected.
+
+const KIND_STORES: Record<EmbeddedKind, StoreName> = { entry: 'entries', task: 'tasks', transaction: 'finance' };
+const KIND_COLLECTIONS: Record<EmbeddedKind, WatchedCollection> = { entry: 'entries', task: 'tasks', transaction: 'finance' };
+const EMBED_BATCH_SIZE = 32;
+const MAX_EMBEDDED_CHARS = 2000;
+
+export interface RetrievedRecord {
+    kind: EmbeddedKind;
+    score: number;
+    record: JournalEntry | Task | FinanceTransaction;
+}
+
+const embeddingId = (kind: EmbeddedKind, recordId: string) => `${kind}:${recordId}`;
+
+const currentModel = () => {
+    const provider = getActiveProvider();
+    return `${provider.id}:${provider.models.embedding}`;
+};
+
+export const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The text a record is embedded (and later quoted to the model) as
+export const describeRecord = (kind: EmbeddedKind, record: any): string => {
+    switch (kind) {
+        case 'entry':
+            return `${record.title}\n${new Date(record.date).toDateString()}${record.tags?.length ? `\nTags: ${record.tags.join(', ')}` : ''}\n${record.content}`.slice(0, MAX_EMBEDDED_CHARS);
+        case 'task':
+            return `Task: ${record.title}${record.dueDate ? ` (due ${record.dueDate.split('T')[0]})` : ''} - ${record.completed ? 'done' : 'pending'}`;
+        case 'transaction':
+            return `${record.type === 'income' ? 'Income' : 'Expense'} of ₹${record.amount} on ${String(record.date).split('T')[0]}: ${record.description} (${record.category})`;
+    }
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// --- Indexing ---
+
+// Calls run one after another, so overlapping saves never embed the same record twice
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+const indexKind = async (kind: EmbeddedKind, ids?: string[]): Promise<number> => {
+    const provider = getActiveProvider();
+    if (!provider.isConfigured()) return 0;
+    const model = currentModel();
+    const store = KIND_STORES[kind];
+
+    const records: any[] = ids
+        ? (await Promise.all(ids.map(id => getRecord<any>(store, id)))).filter(Boolean)
+        : await getAllRecords<any>(store);
+
+    // Drop vectors of records that no longer exist
+    const present = new Set(records.map(r => r.id));
+    const candidates = ids
+        ? ids.map(id => embeddingId(kind, id))
+        : (await getAllKeys('embeddings')).map(String).filter(key => key.startsWith(`${kind}:`));
+    const removed = candidates.filter(key => !present.has(key.slice(kind.length + 1)));
+    if (removed.length) await deleteRecords('embeddings', removed);
+
+    const redactor = await createRedactor();
+    const stale: { record: any; text: string; hash: string }[] = [];
+    for (const record of records) {
+        const text = redactor.redact(describeRecord(kind, record));
+        const hash = await hashText(text);
+        const existing = await getRecord<EmbeddingRecord>('embeddings', embeddingId(kind, record.id));
+        if (!existing || existing.hash !== hash || existing.model !== model) stale.push({ record, text, hash });
+    }
+
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+        const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await provider.embed(batch.map(item => item.text));
+        await putRecords<EmbeddingRecord>('embeddings', batch.map((item, j) => ({
+            id: embeddingId(kind, item.record.id),
+            kind,
+            recordId: item.record.id,
+            model,
+            hash: item.hash,
+            vector: vectors[j] || []
+        })));
+    }
+    // Every record was filtered to compare hashes; only those embedded were sent
+    const sent = redactor.spans().filter(span => stale.some(item => item.text.includes(span.placeholder)));
+    await logRedactions('embedding', sent);
+    return stale.length;
+};
+
+// Brings the index up to date for the given records (or every record of the kinds given). Returns how many were embedded.
+export const updateEmbeddings = (kinds: EmbeddedKind[] = ['entry', 'task', 'transaction'], ids?: string[]): Promise<number> => {
+    const run = indexQueue.then(async () => {
+        let embedded = 0;
+        for (const kind of kinds) embedded += await indexKind(kind, ids);
+        return embedded;
+    });
+    indexQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Keeps the index current as records are saved in this tab (other tabs index their own writes).
+// Returns a function that stops it.
+export const startEmbeddingIndexer = (): (() => void) => {
+    const index = (kinds: EmbeddedKind[], ids?: string[]) => {
+        updateEmbeddings(kinds, ids).catch(error => console.warn("Search index update failed", error));
+    };
+
+    index(['entry', 'task', 'transaction']);
+    const unsubscribers = (Object.keys(KIND_COLLECTIONS) as EmbeddedKind[]).map(kind =>
+        subscribe(KIND_COLLECTIONS[kind], change => {
+            if (!change.remote) index([kind], change.ids);
+        })
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+// --- Retrieval ---
+
+// The k records most similar to the query, across entries, tasks and transactions. Only vectors
+// from the current embedding model are compared; records not indexed yet are not found.
+// With a filter (e.g. one workspace), the k best records that pass it are returned.
+export const retrieveRelevant = async (
+    query: string,
+    k = 8,
+    signal?: AbortSignal,
+    filter?: (match: RetrievedRecord) => boolean
+): Promise<RetrievedRecord[]> => {
+    const provider = getActiveProvider();
+    if (!provider.isConfigured() || !query.trim()) return [];
+
+    const model = currentModel();
+    const redactor = await createRedactor();
+    const [queryVector] = await provider.embed([redactor.redact(query)], signal);
+    await logRedactions('embedding', redactor.spans());
+    const candidates = (await getAllRecords<EmbeddingRecord>('embeddings')).filter(e => e.model === model);
+
+    const ranked = candidates
+        .map(e => ({ embedding: e, score: cosineSimilarity(queryVector || [], e.vector) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score);
+
+    const results: RetrievedRecord[] = [];
+    for (const { embedding, score } of ranked) {
+        if (results.length >= k) break;
+        const record = await getRecord<any>(KIND_STORES[embedding.kind], embedding.recordId);
+        const match: RetrievedRecord = { kind: embedding.kind, score, record };
+        if (record && (!filter || filter(match))) results.push(match);
+    }
+    return results;
+};
@@ -0,0 +1,171 @@
+import { JournalEntry, JournalMode, CalendarEvent, ChatMessage, Task, FinanceTransaction, MediaRef } from '../types';
+import { generateEntryFromChat } from './geminiService';
+import { getReviewBeforeSave, queueForReview, saveExtraction } from './reviewService';
+import { readReceipts, getSplitReceipts } from './receiptService';
+import { registerAIJobHandler, queueAIJob, runAIJobs } from './aiQueueService';
+
+// Auto-save: each batch of new chat messages is read into a journal entry, calendar events, tasks
+// and transactions, stamped with the workspace of the chat. A batch is queued before it is read,
+// so it is kept (and retried) until it is saved, even when the AI cannot be reached or the app is
+// closed first. Record ids come from the batch's messages, so a retry after a partial save writes
+// over what the failed attempt left rather than adding a second copy.
+
+// The extraction prompt quotes only the last ten messages before the batch
+const CONTEXT_MESSAGES = 10;
+
+// Reads one batch of messages and saves what it found, or holds it in the review inbox
+export const extractFromChat = async (newInput: ChatMessage[], context: ChatMessage[], mode: JournalMode): Promise<void> => {
+    // Everything is dated to when the batch was written, not to when it was read
+    const writtenAt = new Date(newInput[newInput.length - 1]?.timestamp || Date.now());
+
+    // Extract Media from new messages to attach to the entry (references into the media store, not copies)
+    const collectedMedia: MediaRef[] = [];
+    newInput.forEach(msg => {
+        if (msg.attachment && msg.attachment.type === 'image' && msg.attachment.mediaId) {
+            collectedMedia.push({
+                type: 'image',
+                mediaId: msg.attachment.mediaId,
+                mimeType: msg.attachment.mimeType || 'image/jpeg'
+            });
+        }
+    });
+
+    const generatedData = await generateEntryFromChat(newInput, context, mode, writtenAt);
+
+    // The entry is named after the batch's first message; the records linked to it after the entry
+    const entryId = newInput[0]?.id || writtenAt.getTime().toString();
+
+    // Helper: Get raw user text (excluding attachment tags) to use as fallback
+    const rawUserText = newInput
+      .filter(m => m.role === 'user')
+      .map(m => m.text.replace(/\[Attachment:.*?\]/gi, '').trim())
+      .filter(t => t.length > 0)
+      .join('\n');
+
+    // Determine if we should create a Journal Entry
+    const shouldCreateEntry = generatedData.hasContent === true || collectedMedia.length > 0;
+
+    // 1. Process Calendar Events
+    let newEvents: CalendarEvent[] = [];
+    if (generatedData.calendarEvents?.length > 0) {
+          newEvents = generatedData.calendarEvents
+              .filter((evt: any) => {
+                   // Validate date format to prevent calendar crashes
+                   const start = new Date(evt.startTime);
+                   const end = new Date(evt.endTime);
+                   return !isNaN(start.getTime()) && !isNaN(end.getTime());
+              })
+              .map((evt: any, i: number) => ({
+                  ...evt,
+                  id: `${entryId}-evt-${i}`,
+                  linkedEntryId: shouldCreateEntry ? entryId : undefined,
+                  mode: mode
+              }));
+    }
+
+    // 2. Process Tasks
+    let newTasks: Task[] = [];
+    if (generatedData.tasks?.length > 0) {
+          newTasks = generatedData.tasks.map((t: any, i: number) => ({
+              ...t,
+              id: `${entryId}-task-${i}`,
+              completed: false,
+              linkedEntryId: shouldCreateEntry ? entryId : undefined,
+              dueDate: t.dueDate || writtenAt.toISOString(),
+              mode: mode
+          }));
+    }
+
+    // 3. Process Transactions
+    let newTxs: FinanceTransaction[] = [];
+    if (generatedData.transactions?.length > 0) {
+          newTxs = generatedData.transactions.map((tx: any, i: number) => ({
+              ...tx,
+              id: `${entryId}-tx-${i}`,
+              linkedEntryId: shouldCreateEntry ? entryId : undefined,
+              date: tx.date || writtenAt.toISOString(),
+              mode: mode
+          }));
+    }
+
+    // Bill photos are read for their amounts, replacing what was typed about them
+    if (collectedMedia.length > 0) {
+        try {
+            newTxs = await readReceipts(collectedMedia, newTxs, {
+                split: await getSplitReceipts(),
+                entryId: shouldCreateEntry ? entryId : undefined,
+                date: writtenAt.toISOString(),
+                idPrefix: `${entryId}-receipt`,
+                mode: mode
+            });
+        } catch (error) {
+            console.warn("Receipt scan failed", error);
+        }
+    }
+
+    // 4. Build Entry (CONDITIONAL)
+    let newEntry: JournalEntry | undefined;
+    if (shouldCreateEntry) {
+          let finalTitle = generatedData.title;
+          let finalContent = generatedData.content;
+
+          // Fallback Title: Use user's typed text if AI failed to return a title
+          if (!finalTitle || finalTitle.trim() === "") {
+              if (rawUserText) {
+                   const firstLine = rawUserText.split('\n')[0];
+                   finalTitle = firstLine.length > 50 ? firstLine.substring(0, 50) + "..." : firstLine;
+              } else if (collectedMedia.length > 0) {
+                   finalTitle = "Photo Memory";
+              } else {
+                   finalTitle = `Log: ${writtenAt.toLocaleTimeString()}`;
+              }
+          }
+
+          // Fallback Content: Use user's typed text if AI failed to return content
+          if (!finalContent || finalContent.trim() === "") {
+              if (rawUserText) {
+                  finalContent = rawUserText;
+              }
+              // If no text but has media, leave content empty (don't force "Media Entry")
+          }
+
+          // Decisions from a work chat are kept in the entry itself
+          const decisions: string[] = (generatedData.decisions || []).filter((d: any) => typeof d === 'string' && d.trim());
+          if (decisions.length > 0) {
+              finalContent = [finalContent, `Decisions:\n${decisions.map(d => `- ${d.trim()}`).join('\n')}`].filter(Boolean).join('\n\n');
+          }
+
+          if (finalContent || collectedMedia.length > 0) {
+              newEntry = {
+                  id: entryId,
+                  title: finalTitle,
+                  content: finalContent || "",
+                  date: writtenAt.toISOString(),
+                  mode: mode,
+                  tags: generatedData.tags || [],
+                  media: collectedMedia,
+                  tasks: newTasks,
+                  calendarEvents: newEvents,
+                  transactions: newTxs,
+                  lastModified: Date.now()
+              };
+          }
+    }
+
+    // 5. Save, or hold everything in the review inbox until the user approves it
+    const extraction = { entry: newEntry, calendarEvents: newEvents, tasks: newTasks, transactions: newTxs };
+    if (await getReviewBeforeSave()) {
+        await queueForReview(extraction, newInput.map(m => m.id));
+    } else {
+        await saveExtraction(extraction);
+    }
+};
+
+// Queues a batch for extraction and runs the queue. Throws only when the batch could not be queued;
+// once it is, a failed attempt is recorded on the job and retried from there.
+export const queueChatExtraction = async (newInput: ChatMessage[], context: ChatMessage[], mode: JournalMode): Promise<void> => {
+    await queueAIJob({ kind: 'extraction', mode, messages: newInput, context: context.slice(-CONTEXT_MESSAGES) });
+    await runAIJobs().catch(error => console.warn("AI jobs failed", error));
+};
+
+registerAIJobHandler('extraction', job => extractFromChat(job.messages, job.context, job.mode));
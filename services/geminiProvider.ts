@@ -0,0 +1,165 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { LLMProvider, LLMSchema, ChatRequest, ChatResult, StructuredRequest } from "./llmProvider";
+import { parseJsonResponse, throwIfAborted, MAX_TOOL_ROUNDS, AIError } from "./llmProvider";
+import { getStoredApiKey } from "./vaultService";
+
+// Primary Model: Gemini 3 Pro Preview for complex reasoning and accurate extraction
+const MODEL_NAME = "gemini-3-pro-preview";
+// Fallback: Gemini Flash Lite
+const FALLBACK_MODEL = "gemini-flash-lite-latest";
+// Embeddings for semantic search
+const EMBEDDING_MODEL = "gemini-embedding-001";
+
+// Helper to check for key presence
+export const getApiKey = (): string | undefined => {
+  // 1. Check the key entered in Settings (localStorage, or the unlocked vault)
+  const localKey = getStoredApiKey();
+  if (localKey) return localKey;
+
+  // 2. Check Vite Environment Variables (Crucial for Vercel)
+  try {
+    // @ts-ignore
+    if (import.meta.env && import.meta.env.VITE_API_KEY) {
+        // @ts-ignore
+        return import.meta.env.VITE_API_KEY;
+    }
+  } catch (e) {}
+
+  // 3. Fallback check for process.env
+  try {
+    if (typeof process !== 'undefined' && process.env) {
+       if (process.env.API_KEY) return process.env.API_KEY;
+    }
+  } catch (e) {}
+
+  return undefined;
+};
+
+const SCHEMA_TYPES: Record<LLMSchema['type'], Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    number: Type.NUMBER,
+    boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: LLMSchema): any => ({
+    type: SCHEMA_TYPES[schema.type],
+    ...(schema.properties && {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.description && { description: schema.description })
+});
+
+const createClient = () => {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new AIError("MISSING_API_KEY");
+    return new GoogleGenAI({ apiKey });
+};
+
+const toSources = (response: any) => {
+    const groundingChunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const sources = groundingChunks
+        .filter((c: any) => c.web?.uri)
+        .map((c: any) => ({ title: c.web.title || c.web.uri, uri: c.web.uri }));
+    return sources.length > 0 ? sources : undefined;
+};
+
+const chat = async (request: ChatRequest): Promise<ChatResult> => {
+    // Per-message config does not inherit the chat's, so the abort signal goes on the chat
+    const config: any = { systemInstruction: request.systemInstruction, abortSignal: request.signal };
+    const tools: any[] = [];
+    if (request.useSearch) tools.push({ googleSearch: {} });
+    if (request.tools?.length) {
+        tools.push({
+            functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) }))
+        });
+    }
+    if (tools.length) config.tools = tools;
+
+    // The session keeps function calls (and their signatures) in its history between rounds
+    const session = createClient().chats.create({
+        model: request.model,
+        config,
+        history: request.history.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] }))
+    });
+
+    const images = request.images || [];
+    let message: any = images.length > 0
+        ? [{ text: request.message }, ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))]
+        : request.message;
+
+    let text = '';
+    let sources: ChatResult['sources'];
+    for (let round = 0; ; round++) {
+        const prefix = text ? `${text}\n\n` : '';
+        let roundText = '';
+        const calls: any[] = [];
+
+        if (!request.onText) {
+            const result = await session.sendMessage({ message });
+            roundText = result.text || '';
+            sources = toSources(result) || sources;
+            calls.push(...(result.functionCalls || []));
+        } else {
+            // Grounding metadata arrives with the last chunks, so keep the latest that has any
+            for await (const chunk of await session.sendMessageStream({ message })) {
+                throwIfAborted(request.signal);
+                if (chunk.text) {
+                    roundText += chunk.text;
+                    request.onText(prefix + roundText);
+                }
+                sources = toSources(chunk) || sources;
+                calls.push(...(chunk.functionCalls || []));
+            }
+        }
+        if (roundText) text = prefix + roundText;
+
+        if (calls.length === 0 || !request.runTool || round >= MAX_TOOL_ROUNDS) break;
+        message = [];
+        for (const call of calls) {
+            const result = await request.runTool({ id: call.id, name: call.name, args: call.args || {} });
+            message.push({ functionResponse: { id: call.id, name: call.name, response: { result } } });
+        }
+    }
+    return { text, sources };
+};
+
+const generateStructured = async <T,>(request: StructuredRequest): Promise<T> => {
+    const images = request.images || [];
+    const response = await createClient().models.generateContent({
+        model: request.model,
+        contents: images.length > 0
+            ? [{ role: 'user', parts: [{ text: request.prompt }, ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))] }]
+            : request.prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(request.schema),
+            abortSignal: request.signal
+        }
+    });
+    return parseJsonResponse<T>(response.text);
+};
+
+const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await createClient().models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts,
+        config: { abortSignal: signal }
+    });
+    return (response.embeddings || []).map(embedding => embedding.values || []);
+};
+
+export const createGeminiProvider = (): LLMProvider => ({
+    id: 'gemini',
+    label: 'Google Gemini',
+    models: { primary: MODEL_NAME, fallback: FALLBACK_MODEL, embedding: EMBEDDING_MODEL },
+    supportsSearch: true,
+    isConfigured: () => !!getApiKey(),
+    chat,
+    generateStructured,
+    embed
+});
@@ -1,72 +1,94 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { JournalEntry, CalendarEvent, ChatMessage, FinanceTransaction, Task } from "../types";
+import { JournalEntry, JournalMode, CalendarEvent, ChatMessage, FinanceTransaction, Task, Citation, EmbeddedKind, ChatAction, AIActionType, EntryMood, MemoryNote, MemoryCategory } from "../types";
+import { LLMSchema, LLMMessage, LLMImage, getActiveProvider, isAbortError, AIError } from "./llmProvider";
+import { requestChat, requestStructured } from "./llmPipeline";
+import { retrieveRelevant, describeRecord } from "./embeddingService";
+import { CHAT_TOOLS, createChatToolRunner } from "./chatTools";
+import { inWorkspace } from "./storageService";
+import { textSimilarity } from "./dedupService";
+
+// Prompts for every AI feature. The actual model calls go through llmPipeline, which tries the
+// models configured for each kind of request on the active LLMProvider (Gemini, an
+// OpenAI-compatible server or the offline mock). Failures surface as AIErrors for the UI to show.
 
-// Primary Model: Gemini 3 Pro Preview for complex reasoning and accurate extraction
-const MODEL_NAME = "gemini-3-pro-preview"; 
-// Fallback: Gemini Flash Lite
-const FALLBACK_MODEL = "gemini-flash-lite-latest";
+export const hasValidApiKey = (): boolean => {
+    return getActiveProvider().isConfigured();
+};
 
-// Helper for delay
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// An empty answer is a failed request, not something to show as a reply
+const requireText = (text: string | undefined): string => {
+    if (!text?.trim()) throw new AIError('BAD_RESPONSE');
+    return text;
+};
 
-// Helper: Run with Exponential Backoff Retry
-async function runWithRetry<T>(operation: () => Promise<T>, retries = 3): Promise<T> {
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await operation();
-    } catch (error: any) {
-      // Check for Rate Limit (429) or Server Overload (503/500)
-      const isRateLimit = error.status === 429 || error.message?.includes('429') || error.message?.includes('quota');
-      const isServerIssue = error.status === 503 || error.status === 500 || error.message?.includes('503') || error.message?.includes('500') || error.message?.includes('Internal error');
-      const isNotFound = error.status === 404 || error.message?.includes('404') || error.message?.includes('not found');
-
-      if (isNotFound) {
-         // If model not found, don't retry, just throw immediately so we can switch to fallback if applicable
-         throw error;
-      }
-
-      if ((isRateLimit || isServerIssue) && i < retries - 1) {
-        // Exponential backoff: 2s, 5s, 10s (Increased wait time)
-        const waitTime = (isRateLimit ? 3000 : 2000) * Math.pow(2, i);
-        console.warn(`Gemini API Error (${error.status || 'Quota'}). Retrying in ${waitTime}ms... (Attempt ${i + 1}/${retries})`);
-        await delay(waitTime);
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw new Error("Max retries exceeded");
+const toMessages = (history: { role: string, text: string }[]): LLMMessage[] =>
+    history.map(msg => ({ role: msg.role === 'user' ? 'user' : 'model', text: msg.text }));
+
+// A chat answer plus the records it cited and the changes it made or proposed
+export interface AssistantReply {
+    text: string;
+    citations?: Citation[];
+    actions?: ChatAction[];
 }
 
-// Helper to check for key presence
-export const getApiKey = (): string | undefined => {
-  // 1. Check Local Storage (User entered in Settings)
-  if (typeof localStorage !== 'undefined') {
-    const localKey = localStorage.getItem('gemini_api_key');
-    if (localKey) return localKey;
-  }
+// --- Retrieval Context ---
+// Records found by semantic search are quoted to the model under labels like [E1] (entry),
+// [T1] (task) and [F1] (transaction); the labels the answer uses become its citations.
 
-  // 2. Check Vite Environment Variables (Crucial for Vercel)
-  try {
-    // @ts-ignore
-    if (import.meta.env && import.meta.env.VITE_API_KEY) {
-        // @ts-ignore
-        return import.meta.env.VITE_API_KEY;
-    }
-  } catch (e) {}
+interface LabelledSource {
+    citation: Citation;
+    text: string;
+}
+
+const LABEL_PREFIX: Record<EmbeddedKind, string> = { entry: 'E', task: 'T', transaction: 'F' };
 
-  // 3. Fallback check for process.env
-  try {
-    if (typeof process !== 'undefined' && process.env) {
-       if (process.env.API_KEY) return process.env.API_KEY;
+const CITATION_RULE = 'Cite every record you use with its label in square brackets, e.g. [E1]. Never invent labels.';
+
+// Without a mode, records from both workspaces are searched
+const findSources = async (query: string, k: number, signal?: AbortSignal, mode?: JournalMode): Promise<LabelledSource[]> => {
+    try {
+        const counts: Record<string, number> = {};
+        const include = mode ? inWorkspace(mode) : undefined;
+        return (await retrieveRelevant(query, k, signal, include && (match => include(match.record)))).map(({ kind, record }) => {
+            const prefix = LABEL_PREFIX[kind];
+            counts[prefix] = (counts[prefix] || 0) + 1;
+            const r = record as any;
+            return {
+                citation: {
+                    label: `${prefix}${counts[prefix]}`,
+                    kind,
+                    id: r.id,
+                    title: kind === 'transaction' ? r.description : r.title,
+                    date: kind === 'task' ? r.dueDate : r.date
+                },
+                text: describeRecord(kind, record)
+            };
+        });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Without an index the chats fall back to recent context only
+        console.warn("Semantic search failed", error);
+        return [];
     }
-  } catch (e) {}
+};
+
+const formatSources = (sources: LabelledSource[]) =>
+    sources.map(source => `[${source.citation.label}] (id: ${source.citation.id}) ${source.text}`).join('\n---\n');
+
+// Up to `limit` notes, those closest to what is being talked about first (ties go to the newest)
+const MAX_MEMORIES = 15;
 
-  return undefined;
+const selectMemories = (notes: MemoryNote[], query: string, limit = MAX_MEMORIES): MemoryNote[] => {
+    if (notes.length <= limit) return notes;
+    return notes
+        .map(note => ({ note, score: textSimilarity(note.text, query) }))
+        .sort((a, b) => b.score - a.score || b.note.updatedAt - a.note.updatedAt)
+        .slice(0, limit)
+        .map(({ note }) => note);
 };
 
-export const hasValidApiKey = (): boolean => {
-    return !!getApiKey();
+const withCitations = (text: string, sources: LabelledSource[]): AssistantReply => {
+    const citations = sources.filter(source => text.includes(`[${source.citation.label}]`)).map(source => source.citation);
+    return citations.length > 0 ? { text, citations } : { text };
 };
 
 // 1. Interactive Chat Function
@@ -76,22 +98,23 @@ export const sendMessageToGemini = async (
     entries: JournalEntry[] = [],
     tasks: Task[] = [],
     calendarEvents: CalendarEvent[] = [],
-    attachment?: { type: 'image' | 'text', content: string, mimeType?: string }
-): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new Error("MISSING_API_KEY");
+    attachment?: { type: 'image' | 'text', content: string, mimeType?: string },
+    options: { signal?: AbortSignal; onText?: (text: string) => void; mode?: JournalMode; memories?: MemoryNote[] } = {}
+): Promise<AssistantReply> => {
+  const mode = options.mode || JournalMode.PERSONAL;
+  const isWork = mode === JournalMode.PROFESSIONAL;
+  const provider = getActiveProvider();
+  if (!provider.isConfigured()) {
+    throw new AIError('MISSING_API_KEY');
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
   // --- 1. Abstract: Live Data Context ---
   
   // A. Pending Tasks (Limit to top 15)
   const pendingTasks = tasks
     .filter(t => !t.completed)
     .slice(0, 15)
-    .map(t => `- [ ] ${t.title} ${t.dueDate ? `(Due: ${t.dueDate.split('T')[0]})` : ''}`)
+    .map(t => `- [ ] ${t.title} ${t.dueDate ? `(Due: ${t.dueDate.split('T')[0]})` : ''} (id: ${t.id})`)
     .join('\n');
 
   // B. Upcoming Events (Next 5 days)
@@ -104,7 +127,7 @@ export const sendMessageToGemini = async (
         const eDate = new Date(e.startTime);
         return eDate >= now && eDate <= nextWeek;
     })
-    .map(e => `- [${new Date(e.startTime).toLocaleString([], {weekday:'short', hour:'2-digit', minute:'2-digit'})}] ${e.title}`)
+    .map(e => `- [${new Date(e.startTime).toLocaleString([], {weekday:'short', hour:'2-digit', minute:'2-digit'})}] ${e.title} (id: ${e.id})`)
     .join('\n');
 
   // C. Recent Journal Logs (Last 3 relevant entries)
@@ -116,9 +139,24 @@ export const sendMessageToGemini = async (
     `[LOG ${new Date(e.date).toLocaleDateString()}]: ${e.title} - ${e.content.substring(0, 150)}...`
   ).join('\n');
 
+  // D. Records from the whole workspace that match the question
+  const sources = await findSources(newMessage, 8, options.signal, mode);
+
+  // E. What the companion remembers from conversations older than the history it is sent
+  const memories = selectMemories(options.memories || [], [...history.slice(-3).map(m => m.text), newMessage].join('\n'))
+    .map(note => `- (${note.category}) ${note.text}`)
+    .join('\n');
+
   // --- 2. Build System Instruction ---
-  const systemInstruction = `You are a warm, supportive personal journal companion.
-  You have access to Google Search.
+  const role = isWork
+    ? `You are a focused, practical work journal assistant. This is the user's PROFESSIONAL workspace: meetings, projects, decisions and action items. Their personal journal is kept separately.`
+    : `You are a warm, supportive personal journal companion.`;
+  const tone = isWork
+    ? `Keep responses concise and practical. Lead with what needs doing, who owns it and by when.`
+    : `Keep responses empathetic and concise.`;
+
+  const systemInstruction = `${role}
+  ${provider.supportsSearch ? 'You have access to Google Search.' : ''}
   
   === LIVE DASHBOARD (CURRENT STATE) ===
   Current Time: ${new Date().toString()}
@@ -131,168 +169,103 @@ export const sendMessageToGemini = async (
   
   RECENT LOGS:
   ${recentLogs || "(None)"}
+
+  === RELEVANT RECORDS (searched from the whole ${isWork ? 'work' : 'personal'} journal) ===
+  ${formatSources(sources) || "(None)"}
+
+  === WHAT YOU REMEMBER (from earlier conversations) ===
+  ${memories || "(Nothing yet)"}
   
   === INSTRUCTIONS ===
   1. Answer questions about schedule or tasks using the dashboard.
-  2. For general queries, use Google Search.
-  3. Keep responses empathetic and concise.
+  2. Answer questions about the user's past from the relevant records. ${CITATION_RULE}
+  3. ${provider.supportsSearch ? 'For general queries, use Google Search.' : 'For general queries, answer from your own knowledge.'}
+  4. ${tone}
+  5. Use the tools to search entries or to add and change tasks, events and transactions when the user asks. Take ids from the dashboard, the relevant records or search results. Changes to existing records wait for the user to confirm them on a card below your reply, so say they are ready for confirmation rather than done.
+  6. Stay inside this workspace. Search the other one (allWorkspaces) only when the user explicitly asks about both.
+  7. Use what you remember naturally, without reciting it. If the user says something that contradicts it, go with what they say now.
   `;
 
   // OPTIMIZATION: Only send the last 15 messages to conserve tokens (TPM Limit)
-  // This prevents the context from growing indefinitely and hitting quota.
+  // This prevents the context from growing indefinitely and hitting quota. Older turns live on as memory notes.
   const limitedHistory = history.slice(-15);
   
-  const previousHistory = limitedHistory.slice(0, -1).map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.text }]
-  }));
-
-  // Define generation helper
-  const generateResponse = async (useSearch: boolean, model: string) => {
-    return runWithRetry(async () => {
-        const config: any = { systemInstruction };
-        if (useSearch) {
-            config.tools = [{ googleSearch: {} }];
-        }
+  const previousHistory = toMessages(limitedHistory.slice(0, -1));
+
+  // Images go to the model; text files are appended to the message
+  const message = attachment && attachment.type !== 'image'
+      ? `${newMessage}\n\n[ATTACHED FILE CONTENT]:\n${attachment.content}`
+      : newMessage;
+  const images = attachment?.type === 'image' && attachment.mimeType
+      ? [{ mimeType: attachment.mimeType, data: attachment.content }]
+      : undefined;
+
+  // Shared by every attempt, so a retried request does not repeat the actions it already took
+  const tools = createChatToolRunner(mode);
+  const withActions = (reply: AssistantReply): AssistantReply =>
+      tools.actions.length > 0 ? { ...reply, actions: [...tools.actions] } : reply;
+
+  const result = await requestChat({
+      task: 'companionChat',
+      systemInstruction,
+      history: previousHistory,
+      message,
+      images,
+      useSearch: true,
+      tools: CHAT_TOOLS,
+      runTool: tools.runTool,
+      signal: options.signal,
+      onText: options.onText
+  });
+
+  if (!result.text) {
+      if (tools.actions.length > 0) return withActions({ text: "Done." });
+      throw new AIError('BAD_RESPONSE');
+  }
 
-        const chat = ai.chats.create({
-            model: model,
-            config,
-            history: previousHistory
-        });
+  let finalText = result.text;
 
-        if (attachment) {
-            if (attachment.type === 'image' && attachment.mimeType) {
-                // Send Image + Text
-                return await chat.sendMessage({ 
-                    message: [
-                        { text: newMessage },
-                        { 
-                            inlineData: { 
-                                mimeType: attachment.mimeType, 
-                                data: attachment.content // base64 string
-                            } 
-                        }
-                    ]
-                });
-            } else {
-                // Text file content - append to message
-                const combinedMessage = `${newMessage}\n\n[ATTACHED FILE CONTENT]:\n${attachment.content}`;
-                return await chat.sendMessage({ message: combinedMessage });
-            }
-        } else {
-            // Standard text message
-            return await chat.sendMessage({ message: newMessage });
-        }
-    });
-  };
+  // Grounding (Search Results)
+  const showSources = /source|reference|link|citation|where did you|where from/i.test(newMessage);
 
-  try {
-      // Attempt 1: Try with Search Grounding
-      const result = await generateResponse(true, MODEL_NAME);
-
-      if (!result.text) {
-          return "I received your message, but I couldn't generate a response. (Empty response from AI)";
-      }
-
-      let finalText = result.text;
-
-      // Extract Grounding (Search Results)
-      const groundingChunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      const showSources = /source|reference|link|citation|where did you|where from/i.test(newMessage);
-
-      if (groundingChunks && showSources) {
-          const sources = groundingChunks
-            .map((c: any) => c.web ? `[${c.web.title}](${c.web.uri})` : null)
-            .filter((s: any) => s !== null);
-          
-          if (sources.length > 0) {
-              finalText += "\n\n**Sources:**\n" + sources.map((s: string) => `- ${s}`).join('\n');
-          }
-      }
-
-      return finalText;
-  } catch (error: any) {
-      // Handle Quota/Permission errors by falling back to lighter model/no search
-      const isQuota = error.status === 429 || error.message?.includes('429') || error.message?.includes('quota');
-      const isForbidden = error.status === 403 || error.message?.includes('403');
-      const isNotFound = error.status === 404 || error.message?.includes('404') || error.message?.includes('not found');
-      
-      if (isForbidden || isQuota || isNotFound) {
-          console.warn(`Primary model failed (${isQuota ? 'Quota' : isNotFound ? 'Not Found' : 'Forbidden'}). Switching to fallback...`);
-          try {
-              // Try Fallback Model (Flash Lite) without search to save resources
-              const fallbackResult = await generateResponse(false, FALLBACK_MODEL);
-              return fallbackResult.text || "I'm having trouble thinking, but I'm here.";
-          } catch(finalError) {
-              throw finalError;
-          }
-      }
-      
-      // General Retry Fallback
-      try {
-           console.warn(`Model ${MODEL_NAME} failed. Switching to ${FALLBACK_MODEL}`);
-           const fallbackResult = await generateResponse(false, FALLBACK_MODEL);
-           return fallbackResult.text || "I experienced a hiccup, but I'm back.";
-      } catch(finalError) {
-           console.error("All Chat Fallbacks failed", finalError);
-           throw finalError;
-      }
+  if (result.sources && showSources) {
+      finalText += "\n\n**Sources:**\n" + result.sources.map(source => `- [${source.title}](${source.uri})`).join('\n');
   }
+
+  return withActions(withCitations(finalText, sources));
 };
 
 // 2. Chat with Journal Context (RAG-lite)
 export const chatWithJournal = async (
     history: {role: string, text: string}[], 
     entries: JournalEntry[]
-): Promise<string> => {
-    const apiKey = getApiKey();
-    if (!apiKey) return "API Key Missing. Please go to Settings and enter your Gemini API Key.";
-  
-    const ai = new GoogleGenAI({ apiKey });
-    
-    // Create context from recent entries
-    const contextEntries = entries.slice(0, 15).map(e => 
+): Promise<AssistantReply> => {
+    const limitedHistory = history.slice(-10); // Strict limit for RAG chat
+    const lastMessage = limitedHistory[limitedHistory.length - 1];
+
+    // Context: the records most relevant to the question, or the most recent entries if nothing is indexed yet
+    const sources = await findSources(lastMessage.text, 12);
+    const contextEntries = sources.length > 0 ? formatSources(sources) : entries.slice(0, 15).map(e => 
         `Date: ${new Date(e.date).toDateString()}\nTitle: ${e.title}\nContent: ${e.content}\nTags: ${e.tags.join(', ')}`
     ).join('\n---\n');
   
     const systemInstruction = `You are a helpful Journal Assistant. 
-    You have access to the user's past journal entries.
+    You have access to the user's past journal entries, tasks and transactions.
     Use this context to answer questions about their past, summarize their thoughts, or provide insights.
+    ${sources.length > 0 ? CITATION_RULE : ''}
     
     JOURNAL CONTEXT:
     ${contextEntries}`;
-  
-    const limitedHistory = history.slice(-10); // Strict limit for RAG chat
-    const lastMessage = limitedHistory[limitedHistory.length - 1];
-    const previousMessages = limitedHistory.slice(0, -1).map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.text }]
-    }));
-  
-    const runChat = async (model: string) => {
-        return runWithRetry(async () => {
-            const chat = ai.chats.create({
-                model: model,
-                config: { systemInstruction },
-                history: previousMessages
-            });
-            return await chat.sendMessage({ message: lastMessage.text });
-        });
-    };
 
-    try {
-        const result = await runChat(MODEL_NAME);
-        return result.text || "";
-    } catch (error: any) {
-        try {
-            const result = await runChat(FALLBACK_MODEL);
-            return result.text || "";
-        } catch (e) {
-            console.error("Journal Chat Fallback Error", e);
-            return "I'm having trouble analyzing your journal right now due to connection limits.";
-        }
-    }
+    const previousMessages = toMessages(limitedHistory.slice(0, -1));
+  
+    const result = await requestChat({
+        task: 'journalChat',
+        systemInstruction,
+        history: previousMessages,
+        message: lastMessage.text
+    });
+    return withCitations(requireText(result.text), sources);
 };
 
 // 3. Finance Chat Function
@@ -300,11 +273,6 @@ export const chatWithFinance = async (
     history: {role: string, text: string}[], 
     transactions: FinanceTransaction[]
 ): Promise<string> => {
-    const apiKey = getApiKey();
-    if (!apiKey) return "API Key Missing. Please go to Settings and enter your Gemini API Key.";
-  
-    const ai = new GoogleGenAI({ apiKey });
-    
     const contextData = transactions.slice(0, 50).map(t => 
         `${t.date.split('T')[0]}, ${t.type}, ${t.category}, ₹${t.amount}, "${t.description}"`
     ).join('\n');
@@ -320,49 +288,153 @@ export const chatWithFinance = async (
   
     const limitedHistory = history.slice(-10);
     const lastMessage = limitedHistory[limitedHistory.length - 1];
-    const previousMessages = limitedHistory.slice(0, -1).map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.text }]
-    }));
-  
-    const runChat = async (model: string) => {
-        return runWithRetry(async () => {
-            const chat = ai.chats.create({
-                model: model,
-                config: { systemInstruction },
-                history: previousMessages
-            });
-            return await chat.sendMessage({ message: lastMessage.text });
-        });
-    };
+    const previousMessages = toMessages(limitedHistory.slice(0, -1));
   
-    try {
-        const result = await runChat(MODEL_NAME);
-        return result.text || "";
-    } catch (error: any) {
-         try {
-            const result = await runChat(FALLBACK_MODEL);
-            return result.text || "";
-        } catch (e) {
-            return "I'm having trouble analyzing your financial data right now.";
-        }
+    const result = await requestChat({
+        task: 'financeChat',
+        systemInstruction,
+        history: previousMessages,
+        message: lastMessage.text
+    });
+    return requireText(result.text);
+};
+
+// Response formats for the structured extraction calls
+const ENTRY_EXTRACTION_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        hasContent: { type: 'boolean' },
+        title: { type: 'string' },
+        content: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        calendarEvents: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    startTime: { type: 'string' },
+                    endTime: { type: 'string' },
+                    description: { type: 'string' }
+                },
+                required: ["title", "startTime", "endTime"]
+            }
+        },
+        tasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    dueDate: { type: 'string' }
+                },
+                required: ["title"]
+            }
+        },
+        transactions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    amount: { type: 'number' },
+                    type: { type: 'string', enum: ["income", "expense"] },
+                    category: { type: 'string' },
+                    date: { type: 'string' }
+                },
+                required: ["amount", "type", "description"]
+            }
+        },
+        decisions: { type: 'array', items: { type: 'string' } } // Work workspace only
+    }
+};
+
+const FILE_IMPORT_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        entries: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    content: { type: 'string' },
+                    date: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } }
+                }
+            }
+        },
+        transactions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    amount: { type: 'number' },
+                    type: { type: 'string', enum: ["income", "expense"] },
+                    category: { type: 'string' },
+                    date: { type: 'string' }
+                }
+            }
+        },
+        tasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    dueDate: { type: 'string' }
+                },
+                required: ["title"]
+            }
+        },
+        calendarEvents: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    startTime: { type: 'string' },
+                    endTime: { type: 'string' },
+                    description: { type: 'string' }
+                },
+                required: ["title", "startTime", "endTime"]
+            }
+        },
+        unstructured_summary: { type: 'string' }
+    }
+};
+
+// Extraction rules per workspace: what the clerk looks for and what counts as a log worth keeping
+const EXTRACTION_RULES: Record<JournalMode, { task: string; rules: string }> = {
+    [JournalMode.PERSONAL]: {
+        task: 'Identify personal events, purchases, or tasks.',
+        rules: `1. Record past tense actions.
+      2. Rephrase into a complete narrative.
+      3. Set "hasContent" to TRUE only if input contains personal log/memory.`
+    },
+    [JournalMode.PROFESSIONAL]: {
+        task: 'This is a WORK log. Identify meetings, action items, decisions and work expenses.',
+        rules: `1. Record what happened at work: meetings held, progress made, blockers hit.
+      2. Rephrase into concise work notes (who, what, outcome). No personal reflections.
+      3. Set "hasContent" to TRUE only if input contains a work log (a meeting, progress, a decision).
+      - Meetings (past or upcoming) become Calendar Events; put attendees and agenda in "description".
+      - Action items become Tasks; include the owner in the title when it is not the user (e.g. "Priya: send the deck").
+      - Decisions go in "decisions", one short sentence each.
+      - Only business expenses and income are Transactions.`
     }
 };
 
 // 4. Multi-Modal Extraction Function (Supports Incremental Processing)
 export const generateEntryFromChat = async (
     newMessages: ChatMessage[], 
-    contextMessages: ChatMessage[]
+    contextMessages: ChatMessage[],
+    mode: JournalMode = JournalMode.PERSONAL,
+    now = new Date() // When the messages were written, so "tomorrow" means the day after that
 ): Promise<any> => {
-    const apiKey = getApiKey();
-    if (!apiKey) return {}; 
-  
-    const ai = new GoogleGenAI({ apiKey });
-    
     // Limit context context for auto-generation
     const contextTranscript = contextMessages.slice(-10).map(m => `${m.role.toUpperCase()}: ${m.text}`).join('\n');
     const newTranscript = newMessages.map(m => `${m.role.toUpperCase()}: ${m.text}`).join('\n');
-    const now = new Date();
 
     const prompt = `
       You are an intelligent Journal Clerk.
@@ -372,12 +444,10 @@ export const generateEntryFromChat = async (
       - Date: ${now.toLocaleDateString()}
       
       *** TASK ***
-      Analyze the "NEW INPUT". Identify personal events, purchases, or tasks.
+      Analyze the "NEW INPUT". ${EXTRACTION_RULES[mode].task}
       
       *** RULES ***
-      1. Record past tense actions.
-      2. Rephrase into a complete narrative.
-      3. Set "hasContent" to TRUE only if input contains personal log/memory.
+      ${EXTRACTION_RULES[mode].rules}
       4. For Calendar Events, ensure "startTime" and "endTime" are valid ISO-8601 strings (e.g. 2024-01-01T10:00:00).
       5. ***CRITICAL FOR TRANSACTIONS***: Extract the EXACT numerical amount for 'amount'. Do not include currency symbols or text. If user says "50 rupees", amount is 50. If "5k", amount is 5000.
       
@@ -388,91 +458,11 @@ export const generateEntryFromChat = async (
       ${newTranscript}
     `;
 
-    const generate = async (model: string) => {
-        return runWithRetry(async () => {
-            return await ai.models.generateContent({
-                model: model,
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                        hasContent: { type: Type.BOOLEAN },
-                        title: { type: Type.STRING },
-                        content: { type: Type.STRING },
-                        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        calendarEvents: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    title: { type: Type.STRING },
-                                    startTime: { type: Type.STRING },
-                                    endTime: { type: Type.STRING },
-                                    description: { type: Type.STRING }
-                                },
-                                required: ["title", "startTime", "endTime"]
-                            }
-                        },
-                        tasks: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    title: { type: Type.STRING },
-                                    dueDate: { type: Type.STRING }
-                                },
-                                required: ["title"]
-                            }
-                        },
-                        transactions: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    description: { type: Type.STRING },
-                                    amount: { type: Type.NUMBER },
-                                    type: { type: Type.STRING, enum: ["income", "expense"] },
-                                    category: { type: Type.STRING },
-                                    date: { type: Type.STRING }
-                                },
-                                required: ["amount", "type", "description"]
-                            }
-                        }
-                        }
-                    }
-                }
-            });
-        });
-    };
-  
-    try {
-        const response = await generate(MODEL_NAME);
-        let text = response.text || "{}";
-        text = text.replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-        return JSON.parse(text);
-    } catch (error: any) {
-        // Retry with Flash Lite on failure
-        try {
-            console.warn("Entry Generation Fallback to Flash Lite");
-            const response = await generate(FALLBACK_MODEL);
-            let text = response.text || "{}";
-            text = text.replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-            return JSON.parse(text);
-        } catch(e) {
-            console.error("Consolidation Error (All retries failed)", e);
-            return {};
-        }
-    }
+    return requestStructured({ task: 'entryExtraction', prompt, schema: ENTRY_EXTRACTION_SCHEMA });
   };
 
 // 5. File Import Processing
 export const processUploadedFile = async (text: string): Promise<any> => {
-    const apiKey = getApiKey();
-    if (!apiKey) throw new Error("API Key not found");
-  
-    const ai = new GoogleGenAI({ apiKey });
     const safeText = text.slice(0, 30000); // Reduced limit for safer quota
 
     const prompt = `
@@ -492,96 +482,407 @@ export const processUploadedFile = async (text: string): Promise<any> => {
       ${safeText}
     `;
 
-    const generate = async (model: string) => {
-        return runWithRetry(async () => {
-            return await ai.models.generateContent({
-                model: model,
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            entries: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        title: { type: Type.STRING },
-                                        content: { type: Type.STRING },
-                                        date: { type: Type.STRING },
-                                        tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                                    }
-                                }
-                            },
-                            transactions: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        description: { type: Type.STRING },
-                                        amount: { type: Type.NUMBER },
-                                        type: { type: Type.STRING, enum: ["income", "expense"] },
-                                        category: { type: Type.STRING },
-                                        date: { type: Type.STRING }
-                                    }
-                                }
-                            },
-                            tasks: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        title: { type: Type.STRING },
-                                        dueDate: { type: Type.STRING }
-                                    },
-                                    required: ["title"]
-                                }
-                            },
-                            calendarEvents: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        title: { type: Type.STRING },
-                                        startTime: { type: Type.STRING },
-                                        endTime: { type: Type.STRING },
-                                        description: { type: Type.STRING }
-                                    },
-                                    required: ["title", "startTime", "endTime"]
-                                }
-                            },
-                            unstructured_summary: { type: Type.STRING }
-                        }
-                    }
+    return requestStructured({ task: 'fileImport', prompt, schema: FILE_IMPORT_SCHEMA });
+}
+
+// 6. Entry Actions (the AI toolbar on entries)
+// Each action returns a suggestion; nothing is changed until the user accepts it.
+
+export type EntryActionResult =
+    | { action: AIActionType.SUMMARIZE; summary: string }
+    | { action: AIActionType.FIX_GRAMMAR; content: string }
+    | { action: AIActionType.EXTRACT_EVENTS; events: CalendarEvent[] }
+    | { action: AIActionType.GENERATE_TAGS; tags: string[] }
+    | { action: AIActionType.ADVICE; advice: string[] };
+
+type EntryDraft = Pick<JournalEntry, 'id' | 'title' | 'content' | 'tags' | 'date'>;
+
+const ENTRY_ACTION_SCHEMAS: Record<AIActionType, LLMSchema> = {
+    [AIActionType.SUMMARIZE]: {
+        type: 'object',
+        properties: { summary: { type: 'string' } },
+        required: ['summary']
+    },
+    [AIActionType.FIX_GRAMMAR]: {
+        type: 'object',
+        properties: { content: { type: 'string' } },
+        required: ['content']
+    },
+    [AIActionType.EXTRACT_EVENTS]: {
+        type: 'object',
+        properties: {
+            events: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string' },
+                        startTime: { type: 'string' },
+                        endTime: { type: 'string' },
+                        description: { type: 'string' }
+                    },
+                    required: ['title', 'startTime', 'endTime']
                 }
-            });
-        });
+            }
+        },
+        required: ['events']
+    },
+    [AIActionType.GENERATE_TAGS]: {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string' } } },
+        required: ['tags']
+    },
+    [AIActionType.ADVICE]: {
+        type: 'object',
+        properties: { advice: { type: 'array', items: { type: 'string' } } },
+        required: ['advice']
     }
+};
 
-    try {
-        const response = await generate(MODEL_NAME);
-        let text = response.text || "{}";
-        text = text.replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-        return JSON.parse(text);
-    } catch (error: any) {
-        try {
-            console.warn(`Import: Primary model failed, retrying with ${FALLBACK_MODEL}`);
-            const response = await generate(FALLBACK_MODEL);
-            let text = response.text || "{}";
-            text = text.replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-            return JSON.parse(text);
-        } catch (retryError) {
-             console.error("Import parsing error (Fallback failed)", retryError);
-             throw retryError;
+const ENTRY_ACTION_INSTRUCTIONS: Record<AIActionType, string> = {
+    [AIActionType.SUMMARIZE]: 'Summarize the entry in one or two sentences, in the first person, as the author would.',
+    [AIActionType.FIX_GRAMMAR]: 'Correct spelling, grammar and punctuation. Keep the wording, tone, language and line breaks; change nothing else. Return the full corrected text in "content".',
+    [AIActionType.EXTRACT_EVENTS]: 'List future appointments, meetings or plans the entry mentions, with ISO-8601 "startTime" and "endTime" (assume one hour when no end is given). Resolve relative dates like "tomorrow" against the entry date. Return an empty list if there are none.',
+    [AIActionType.GENERATE_TAGS]: 'Suggest 3 to 6 short lowercase tags (single words or hyphenated) describing the topics, people, places and mood of the entry.',
+    [AIActionType.ADVICE]: 'Offer 2 to 4 short, kind and practical suggestions in response to the entry, as a supportive friend would. No medical or legal claims.'
+};
+
+export const analyzeEntry = async (entry: EntryDraft, action: AIActionType): Promise<EntryActionResult> => {
+    const prompt = `
+      You help the user improve a personal journal entry.
+
+      *** TASK ***
+      ${ENTRY_ACTION_INSTRUCTIONS[action]}
+
+      ENTRY DATE: ${new Date(entry.date).toString()}
+      ENTRY TITLE: ${entry.title}
+      EXISTING TAGS: ${entry.tags.join(', ') || '(none)'}
+      ENTRY TEXT:
+      ${entry.content}
+    `;
+
+    const data = await requestStructured<any>({
+        task: 'entryAction',
+        prompt,
+        schema: ENTRY_ACTION_SCHEMAS[action]
+    });
+
+    switch (action) {
+        case AIActionType.SUMMARIZE:
+            return { action, summary: String(data?.summary || '').trim() };
+        case AIActionType.FIX_GRAMMAR:
+            return { action, content: String(data?.content || entry.content) };
+        case AIActionType.EXTRACT_EVENTS:
+            return { action, events: toCalendarEvents(entry.id, data?.events) };
+        case AIActionType.GENERATE_TAGS: {
+            const existing = new Set(entry.tags.map(t => t.toLowerCase()));
+            const tags = (data?.tags || [])
+                .map((t: any) => String(t).trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-'))
+                .filter((t: string) => t && !existing.has(t));
+            return { action, tags: Array.from(new Set<string>(tags)) };
         }
+        case AIActionType.ADVICE:
+            return { action, advice: (data?.advice || []).map((a: any) => String(a).trim()).filter(Boolean) };
     }
+};
+
+// Model output to calendar events linked to the entry; ones with unreadable times are dropped
+const toCalendarEvents = (entryId: string, raw: any[] = []): CalendarEvent[] => raw
+    .filter(evt => evt?.title && !isNaN(new Date(evt.startTime).getTime()))
+    .map((evt, i) => {
+        const start = new Date(evt.startTime);
+        const end = new Date(evt.endTime);
+        return {
+            id: `${entryId}-ai-evt-${Date.now()}-${i}`,
+            title: String(evt.title),
+            startTime: start.toISOString(),
+            endTime: (isNaN(end.getTime()) || end <= start ? new Date(start.getTime() + 60 * 60 * 1000) : end).toISOString(),
+            description: evt.description || undefined,
+            linkedEntryId: entryId
+        };
+    });
+
+export const extractCalendarEvents = async (entry: JournalEntry): Promise<CalendarEvent[]> => {
+    const result = await analyzeEntry(entry, AIActionType.EXTRACT_EVENTS);
+    return result.action === AIActionType.EXTRACT_EVENTS ? result.events : [];
+};
+
+// 7. Mood Analysis (scored in the background after an entry is saved)
+
+const MOOD_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        valence: { type: 'number', description: 'From -1 (very negative) to 1 (very positive)' },
+        energy: { type: 'number', description: 'From 0 (drained, flat) to 1 (energised, restless)' },
+        emotions: { type: 'array', items: { type: 'string' }, description: 'Up to 3 dominant emotions, strongest first' }
+    },
+    required: ['valence', 'energy', 'emotions']
+};
+
+const clamp = (value: any, min: number, max: number) => {
+    const n = Number(value);
+    return isNaN(n) ? (min + max) / 2 : Math.min(max, Math.max(min, n));
+};
+
+export const analyzeMood = async (entry: Pick<JournalEntry, 'title' | 'content'>): Promise<Pick<EntryMood, 'valence' | 'energy' | 'emotions'>> => {
+    const prompt = `
+      Rate the mood the author expresses in this personal journal entry.
+      "valence": how pleasant the feelings are, from -1 to 1 (0 is neutral).
+      "energy": how activated the author feels, from 0 to 1.
+      "emotions": up to 3 dominant emotions as single lowercase words (e.g. "calm", "anxious", "grateful").
+      Judge only what is written; a list of facts with no feelings is neutral.
+
+      ENTRY TITLE: ${entry.title}
+      ENTRY TEXT:
+      ${entry.content}
+    `;
+
+    const data = await requestStructured<any>({
+        task: 'moodAnalysis',
+        prompt,
+        schema: MOOD_SCHEMA
+    });
+
+    const emotions = (data?.emotions || [])
+        .map((e: any) => String(e).trim().toLowerCase())
+        .filter(Boolean);
+    return {
+        valence: clamp(data?.valence, -1, 1),
+        energy: clamp(data?.energy, 0, 1),
+        emotions: Array.from(new Set<string>(emotions)).slice(0, 3)
+    };
+};
+
+// 8. Receipt Scanning (reads bill photos into amounts)
+
+export interface ReceiptLine {
+    description: string;
+    quantity: number;
+    amount: number; // Line total
+    category: string;
 }
 
-export const analyzeEntry = async (text: string) => {
-    return { summary: text.slice(0, 50), sentiment: "Neutral" };
+export interface ReceiptScan {
+    merchant: string;
+    date?: string; // ISO date, when printed on the receipt
+    category: string;
+    items: ReceiptLine[];
+    tax: number;
+    total: number;
+}
+
+const RECEIPT_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        isReceipt: { type: 'boolean', description: 'False for photos that are not a receipt, bill or invoice' },
+        merchant: { type: 'string' },
+        date: { type: 'string', description: 'ISO-8601 date printed on the receipt, or empty' },
+        category: { type: 'string', description: 'Spending category for the whole receipt, e.g. Groceries, Dining, Fuel' },
+        items: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    quantity: { type: 'number' },
+                    amount: { type: 'number', description: 'Line total, after quantity' },
+                    category: { type: 'string' }
+                },
+                required: ['description', 'amount']
+            }
+        },
+        tax: { type: 'number', description: 'Total tax (GST, VAT, service charge), 0 if none' },
+        total: { type: 'number', description: 'Grand total actually paid' }
+    },
+    required: ['isReceipt', 'merchant', 'items', 'tax', 'total']
 };
 
-export const extractCalendarEvents = async (entry: JournalEntry): Promise<CalendarEvent[]> => {
-    return [];
-};
\ No newline at end of file
+const toAmount = (value: any): number => {
+    const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.-]/g, ''));
+    return isFinite(n) ? Math.round(n * 100) / 100 : 0;
+};
+
+// Resolves to null when the image is not a receipt or no total can be read from it
+export const scanReceipt = async (image: LLMImage): Promise<ReceiptScan | null> => {
+    const prompt = `
+      Read the photographed receipt, bill or invoice.
+      Return the merchant, the printed date, each purchased line with its line total, the total tax and the grand total paid.
+      Amounts are plain numbers without currency symbols. Leave out subtotals, change given and payment lines.
+      If the image is not a receipt, set "isReceipt" to false.
+    `;
+
+    const data = await requestStructured<any>({
+        task: 'receiptScan',
+        prompt,
+        schema: RECEIPT_SCHEMA,
+        images: [image]
+    });
+
+    const total = toAmount(data?.total);
+    if (data?.isReceipt === false || total <= 0) return null;
+
+    const category = String(data?.category || '').trim() || 'General';
+    const date = new Date(data?.date || '');
+    return {
+        merchant: String(data?.merchant || '').trim() || 'Receipt',
+        date: data?.date && !isNaN(date.getTime()) ? date.toISOString() : undefined,
+        category,
+        items: (data?.items || [])
+            .map((item: any) => ({
+                description: String(item?.description || '').trim(),
+                quantity: toAmount(item?.quantity) || 1,
+                amount: toAmount(item?.amount),
+                category: String(item?.category || '').trim() || category
+            }))
+            .filter((item: ReceiptLine) => item.description && item.amount !== 0),
+        tax: toAmount(data?.tax),
+        total
+    };
+};
+
+// 9. Period Digests (weekly and monthly retrospectives)
+
+export interface DigestDraft {
+    title: string;
+    summary: string;
+    highlights: string[];
+    themes: string[];
+    comparison: string;
+}
+
+const DIGEST_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: 'A short title capturing the period' },
+        summary: { type: 'string', description: 'Two to four sentences, in the first person' },
+        highlights: { type: 'array', items: { type: 'string' }, description: 'Three to five notable moments' },
+        themes: { type: 'array', items: { type: 'string' }, description: 'Topics, people or feelings that came up more than once' },
+        comparison: { type: 'string', description: 'One or two sentences on how this period compared with the previous one' }
+    },
+    required: ['title', 'summary', 'highlights', 'themes', 'comparison']
+};
+
+// `facts` are the period's numbers (tasks, events, spending, and the previous period's),
+// `entries` one line or paragraph per journal entry
+export const writeDigest = async (periodLabel: string, facts: string, entries: string[]): Promise<DigestDraft> => {
+    const prompt = `
+      You write a retrospective of the user's ${periodLabel} for their personal journal.
+      Base it only on the entries and facts below; do not invent events. Write warmly and in the first person, as the author.
+      Themes are things that recur across several entries, not one-off events.
+
+      FACTS:
+      ${facts}
+
+      ENTRIES:
+      ${entries.join('\n\n') || '(no entries)'}
+    `;
+
+    const data = await requestStructured<any>({
+        task: 'digest',
+        prompt,
+        schema: DIGEST_SCHEMA
+    });
+
+    const list = (value: any): string[] => (Array.isArray(value) ? value : []).map((v: any) => String(v).trim()).filter(Boolean);
+    return {
+        title: String(data?.title || '').trim(),
+        summary: String(data?.summary || '').trim(),
+        highlights: list(data?.highlights),
+        themes: list(data?.themes),
+        comparison: String(data?.comparison || '').trim()
+    };
+};
+
+// 10. Conversation Memory (older chat turns condensed into notes the companion keeps)
+
+export interface MemoryChanges {
+    add: { category: MemoryCategory; text: string }[];
+    update: { id: string; text: string }[];
+    remove: string[]; // Ids of notes that are no longer true
+}
+
+const MEMORY_CATEGORIES: MemoryCategory[] = ['person', 'situation', 'preference'];
+
+const MEMORY_SCHEMA: LLMSchema = {
+    type: 'object',
+    properties: {
+        add: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    category: { type: 'string', enum: MEMORY_CATEGORIES },
+                    text: { type: 'string', description: 'One sentence about the user, in the third person' }
+                },
+                required: ['category', 'text']
+            }
+        },
+        update: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    note: { type: 'string', description: 'Label of the note, e.g. M2' },
+                    text: { type: 'string' }
+                },
+                required: ['note', 'text']
+            }
+        },
+        remove: { type: 'array', items: { type: 'string' }, description: 'Labels of notes that are no longer true' }
+    },
+    required: ['add', 'update', 'remove']
+};
+
+const MEMORY_FOCUS: Record<JournalMode, string> = {
+    [JournalMode.PERSONAL]: `- person: people in the user's life, who they are to the user and what is going on with them.
+      - situation: things in progress, such as health, a move, exams, a relationship, plans being made.
+      - preference: likes, dislikes, routines and how the user wants to be spoken to.`,
+    [JournalMode.PROFESSIONAL]: `- person: colleagues, clients and managers, their roles and how the user works with them.
+      - situation: projects, deadlines, open problems and decisions still being made.
+      - preference: how the user likes to work, plan and be updated.`
+};
+
+// Notes the user has edited are shown to the model but never changed by it
+export const updateMemoryNotes = async (turns: ChatMessage[], existing: MemoryNote[], mode: JournalMode): Promise<MemoryChanges> => {
+    const labelled = existing.map((note, i) => ({ note, label: `M${i + 1}` }));
+    const byLabel = new Map(labelled.filter(({ note }) => !note.editedByUser).map(({ note, label }) => [label, note.id]));
+    const transcript = turns.map(m => `${m.role.toUpperCase()}: ${m.text}`).join('\n');
+
+    const prompt = `
+      You keep the long-term memory of a ${mode === JournalMode.PROFESSIONAL ? 'work' : 'personal'} journal companion.
+      Read the conversation and update the memory notes so the companion still knows what matters after these messages are gone.
+
+      Keep only what stays true beyond today:
+      ${MEMORY_FOCUS[mode]}
+      Skip small talk, single tasks, appointments and expenses (those are saved elsewhere).
+      Add a note only for something new. Update a note when the conversation changes it, and remove one that is no longer true.
+      Notes marked (fixed) were written by the user: never update or remove them, and do not repeat them.
+      Each note is one short sentence in the third person, e.g. "Priya is the user's sister and lives in Pune."
+
+      CURRENT NOTES:
+      ${labelled.map(({ note, label }) => `${label} (${note.category}${note.editedByUser ? ', fixed' : ''}): ${note.text}`).join('\n') || '(none)'}
+
+      CONVERSATION:
+      ${transcript}
+    `;
+
+    const data = await requestStructured<any>({
+        task: 'memory',
+        prompt,
+        schema: MEMORY_SCHEMA
+    });
+
+    const list = (value: any): any[] => Array.isArray(value) ? value : [];
+    return {
+        add: list(data?.add)
+            .map((item: any) => ({
+                category: MEMORY_CATEGORIES.includes(item?.category) ? item.category : 'situation',
+                text: String(item?.text || '').trim()
+            }))
+            .filter(item => item.text),
+        update: list(data?.update)
+            .map((item: any) => ({ id: byLabel.get(String(item?.note || '').trim()) || '', text: String(item?.text || '').trim() }))
+            .filter(item => item.id && item.text),
+        remove: list(data?.remove).map((label: any) => byLabel.get(String(label).trim()) || '').filter(Boolean)
+    };
+};
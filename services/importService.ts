@@ -0,0 +1,123 @@
+import { JournalEntry, JournalMode } from '../types';
+import { saveEntry, addCalendarEvents, addTasks, addTransactions } from './storageService';
+import { processUploadedFile } from './geminiService';
+import { AIError, isAIError, toAIError } from './llmProvider';
+import { registerAIJobHandler, queueAIJob, isTemporaryAIError } from './aiQueueService';
+
+// Importing text files the AI reads into entries, transactions, tasks and events. A file the AI
+// cannot make sense of, or that arrives while no provider is set up, is kept as a raw entry. One
+// that meets a connection problem, a rate limit or an exhausted budget is queued instead, and read
+// once the AI is reachable again. A queued file's records are named after its job, so a retry after
+// a partial save writes over them instead of importing the file twice.
+
+export interface ImportResult {
+    added: number;
+    aiError?: AIError; // Why the file was saved as raw text
+}
+
+// Throws the temporary AI errors a queued import would wait out; nothing is saved then
+export const importWithAI = async (text: string, mode: JournalMode, batchId = Date.now().toString()): Promise<ImportResult> => {
+    let data: any = {};
+    let aiError: AIError | undefined;
+    try {
+        data = await processUploadedFile(text);
+    } catch (error) {
+        if (isTemporaryAIError(error) && !isAIError(error, 'MISSING_API_KEY')) throw error;
+        // The file is still kept, as a raw entry below
+        console.error("AI Processing failed", error);
+        aiError = toAIError(error);
+    }
+    
+    let addedCount = 0;
+    
+    if (data.entries?.length) {
+        const newEntries = data.entries.map((item: any, i: number) => ({
+            id: `${batchId}-entry-${i}`,
+            title: item.title || "Imported Entry",
+            content: item.content || "",
+            date: item.date || new Date().toISOString(),
+            mode,
+            tags: [...(item.tags || []), 'imported'],
+            lastModified: Date.now()
+        }));
+        await Promise.all(newEntries.map((e: JournalEntry) => saveEntry(e, 'import')));
+        addedCount += newEntries.length;
+    }
+
+    if (data.transactions?.length) {
+            const newTxs = data.transactions.map((item: any, i: number) => ({
+            id: `${batchId}-tx-${i}`,
+            description: item.description || "Imported Tx",
+            amount: item.amount || 0,
+            type: item.type || 'expense',
+            category: item.category || 'Uncategorized',
+            date: item.date || new Date().toISOString(),
+            mode
+        }));
+        await addTransactions(newTxs);
+        addedCount += newTxs.length;
+    }
+
+    if (data.tasks?.length) {
+        const newTasks = data.tasks.map((t: any, i: number) => ({
+            id: `${batchId}-task-${i}`,
+            title: t.title || "Imported Task",
+            completed: false,
+            dueDate: t.dueDate || new Date().toISOString(),
+            mode
+        }));
+        await addTasks(newTasks);
+        addedCount += newTasks.length;
+    }
+
+    if (data.calendarEvents?.length) {
+        const newEvents = data.calendarEvents.map((evt: any, i: number) => ({
+            id: `${batchId}-evt-${i}`,
+            title: evt.title || "Imported Event",
+            startTime: evt.startTime || new Date().toISOString(),
+            endTime: evt.endTime || new Date(Date.now() + 3600000).toISOString(),
+            description: evt.description || "",
+            mode
+        }));
+        await addCalendarEvents(newEvents);
+        addedCount += newEvents.length;
+    }
+
+    if (data.unstructured_summary && !addedCount) {
+        const summaryEntry: JournalEntry = {
+            id: `${batchId}-summary`,
+            title: "Imported Context File",
+            content: data.unstructured_summary,
+            date: new Date().toISOString(),
+            mode,
+            tags: ['imported', 'context'],
+            lastModified: Date.now()
+        };
+        await saveEntry(summaryEntry, 'import');
+        addedCount++;
+    }
+
+    if (addedCount === 0 && text.trim().length > 0) {
+         const rawEntry: JournalEntry = {
+            id: `${batchId}-raw`,
+            title: "Imported File (Raw)",
+            content: text.substring(0, 100000), 
+            date: new Date().toISOString(),
+            mode,
+            tags: ['imported', 'raw'],
+            lastModified: Date.now()
+        };
+        await saveEntry(rawEntry, 'import');
+        addedCount++;
+    }
+
+    return { added: addedCount, aiError };
+};
+
+export const queueImport = async (fileName: string, text: string, mode: JournalMode): Promise<void> => {
+    await queueAIJob({ kind: 'import', mode, fileName, text });
+};
+
+registerAIJobHandler('import', async job => {
+    await importWithAI(job.text, job.mode, job.id);
+});
@@ -0,0 +1,338 @@
+import {
+    LLMProvider, LLMTask, ProviderId, ChatRequest, ChatResult, StructuredRequest,
+    getActiveProvider, createAbortError, isAbortError, throwIfAborted, AIError, toAIError
+} from './llmProvider';
+import { getMeta, setMeta, getRecord, getAllKeys, getAllRecords, putRecords, deleteRecords, replaceAllRecords, measureStore } from './db';
+import { Redactor, createRedactor, logRedactions } from './redactionService';
+import { hashText } from './embeddingService';
+
+// The one path every chat and structured request takes: the models in the task's chain are tried
+// in order, each with backoff on rate limits and server errors, and every attempt is counted
+// against the daily request and token budget. Text passes the privacy filter on the way out and is
+// restored on the way back. Whatever fails comes back as an AIError.
+// Structured requests that depend only on what is sent are answered from a local cache when the
+// exact same request was made before.
+// Embeddings for search go straight to the provider and are not counted.
+
+// Requests are grouped by what they are for; each group has its own model chain
+export type ModelChainKind = 'chat' | 'extraction' | 'import' | 'finance';
+
+export const MODEL_CHAIN_KINDS: ModelChainKind[] = ['chat', 'extraction', 'import', 'finance'];
+
+const TASK_CHAINS: Record<LLMTask, ModelChainKind> = {
+    companionChat: 'chat',
+    journalChat: 'chat',
+    financeChat: 'finance',
+    entryExtraction: 'extraction',
+    entryAction: 'extraction',
+    moodAnalysis: 'extraction',
+    receiptScan: 'extraction',
+    digest: 'extraction',
+    memory: 'extraction',
+    fileImport: 'import'
+};
+
+const MODEL_CHAINS_KEY = 'gemini_journal_model_chains';
+const BUDGET_KEY = 'aiBudget';
+const USAGE_KEY = 'aiUsage';
+const RETRIES = 3;
+
+// Tasks whose answer follows from the request alone, so a repeat (the same file imported again, an
+// extraction retried) can be answered from the cache. Entry actions and memory are left out, since
+// asking again is how the user gets a different answer.
+const CACHED_TASKS: LLMTask[] = ['entryExtraction', 'fileImport', 'receiptScan', 'moodAnalysis', 'digest'];
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+
+// Rough sizes for the usage meter: about four characters per token, and a flat cost per image
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+
+// --- Model Chains ---
+// Kept in localStorage per provider, next to the provider settings, and read on every request.
+
+type StoredChains = Partial<Record<ProviderId, Partial<Record<ModelChainKind, string[]>>>>;
+
+const readChains = (): StoredChains => {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(MODEL_CHAINS_KEY) || '{}') || {};
+    } catch (e) {
+        return {};
+    }
+};
+
+// The provider's own primary and fallback models
+export const getDefaultModelChain = (provider: LLMProvider): string[] =>
+    [...new Set([provider.models.primary, provider.models.fallback].filter(Boolean))];
+
+export const getModelChain = (kind: ModelChainKind, provider: LLMProvider = getActiveProvider()): string[] => {
+    const stored = readChains()[provider.id]?.[kind];
+    return stored?.length ? stored : getDefaultModelChain(provider);
+};
+
+// An empty list goes back to the provider's defaults
+export const saveModelChain = (providerId: ProviderId, kind: ModelChainKind, models: string[]) => {
+    const chains = readChains();
+    const cleaned = [...new Set(models.map(m => m.trim()).filter(Boolean))];
+    chains[providerId] = { ...chains[providerId], [kind]: cleaned.length ? cleaned : undefined };
+    localStorage.setItem(MODEL_CHAINS_KEY, JSON.stringify(chains));
+};
+
+// --- Budget & Usage ---
+
+// Per-day limits; a missing or zero limit means none
+export interface RequestBudget {
+    requests?: number;
+    tokens?: number;
+}
+
+export interface UsageCount {
+    requests: number;
+    tokens: number; // Estimated
+}
+
+export interface DailyUsage extends UsageCount {
+    day: string; // Local date, YYYY-MM-DD
+    byKind: Partial<Record<ModelChainKind, UsageCount>>;
+    failed: number;
+    cacheHits?: number; // Requests answered from the response cache, which cost nothing
+}
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const emptyUsage = (): DailyUsage => ({ day: today(), requests: 0, tokens: 0, byKind: {}, failed: 0, cacheHits: 0 });
+
+export const estimateTokens = (text = '', images = 0) => Math.ceil(text.length / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+
+export const getRequestBudget = async (): Promise<RequestBudget> => {
+    return (await getMeta<RequestBudget>(BUDGET_KEY)) || {};
+};
+
+export const setRequestBudget = async (budget: RequestBudget): Promise<void> => {
+    await setMeta(BUDGET_KEY, budget);
+    notifyUsage(await getDailyUsage());
+};
+
+// Today's usage; yesterday's counts are dropped at midnight
+export const getDailyUsage = async (): Promise<DailyUsage> => {
+    const stored = await getMeta<DailyUsage>(USAGE_KEY);
+    return stored?.day === today() ? stored : emptyUsage();
+};
+
+const usageListeners = new Set<(usage: DailyUsage) => void>();
+
+// Called after every counted request. Returns a function that unsubscribes.
+export const onUsageChange = (listener: (usage: DailyUsage) => void): (() => void) => {
+    usageListeners.add(listener);
+    return () => { usageListeners.delete(listener); };
+};
+
+const notifyUsage = (usage: DailyUsage) => usageListeners.forEach(listener => listener(usage));
+
+// Writes run one after another, so overlapping requests never lose a count
+let usageQueue: Promise<unknown> = Promise.resolve();
+
+const updateUsage = (change: (usage: DailyUsage) => DailyUsage): Promise<void> => {
+    const run = usageQueue.then(async () => {
+        const next = change(await getDailyUsage());
+        await setMeta(USAGE_KEY, next);
+        notifyUsage(next);
+    });
+    usageQueue = run.catch(() => undefined);
+    return run;
+};
+
+const recordUsage = (kind: ModelChainKind, tokens: number, failed: boolean): Promise<void> => updateUsage(usage => {
+    const forKind = usage.byKind[kind] || { requests: 0, tokens: 0 };
+    return {
+        ...usage,
+        requests: usage.requests + 1,
+        tokens: usage.tokens + tokens,
+        byKind: { ...usage.byKind, [kind]: { requests: forKind.requests + 1, tokens: forKind.tokens + tokens } },
+        failed: usage.failed + (failed ? 1 : 0)
+    };
+});
+
+const recordCacheHit = (): Promise<void> => updateUsage(usage => ({ ...usage, cacheHits: (usage.cacheHits || 0) + 1 }));
+
+const checkBudget = async () => {
+    const [budget, usage] = await Promise.all([getRequestBudget(), getDailyUsage()]);
+    if (budget.requests && usage.requests >= budget.requests) {
+        throw new AIError('BUDGET_EXCEEDED', `Today's limit of ${budget.requests} AI requests is reached. It resets at midnight, or can be raised in Settings.`);
+    }
+    if (budget.tokens && usage.tokens >= budget.tokens) {
+        throw new AIError('BUDGET_EXCEEDED', `Today's limit of about ${budget.tokens.toLocaleString()} AI tokens is reached. It resets at midnight, or can be raised in Settings.`);
+    }
+};
+
+// --- Response Cache ---
+// Kept in the 'aiCache' store, encrypted in vault mode like the records the answers came from.
+
+interface CachedResponse {
+    key: string;
+    task: LLMTask;
+    createdAt: number;
+    result: unknown;
+}
+
+// The request as the caller wrote it (before the privacy filter), and the provider it goes to
+const responseCacheKey = (request: Omit<StructuredRequest, 'model'>): Promise<string> =>
+    hashText(JSON.stringify([getActiveProvider().id, request.task, request.prompt, request.schema, request.images || []]));
+
+const readCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+    const cached = await getRecord<CachedResponse>('aiCache', key);
+    if (!cached || Date.now() - cached.createdAt <= CACHE_TTL_MS) return cached;
+    await deleteRecords('aiCache', [key]);
+    return undefined;
+};
+
+// The oldest answers make way once the cache is full
+const writeCachedResponse = async (key: string, task: LLMTask, result: unknown): Promise<void> => {
+    await putRecords<CachedResponse>('aiCache', [{ key, task, createdAt: Date.now(), result }]);
+    if ((await getAllKeys('aiCache')).length <= MAX_CACHE_ENTRIES) return;
+    const oldest = (await getAllRecords<CachedResponse>('aiCache')).sort((a, b) => b.createdAt - a.createdAt).slice(MAX_CACHE_ENTRIES);
+    await deleteRecords('aiCache', oldest.map(cached => cached.key));
+};
+
+export const getResponseCacheSize = (): Promise<{ count: number; bytes: number }> => measureStore('aiCache');
+
+export const clearResponseCache = async (): Promise<void> => {
+    await replaceAllRecords('aiCache', []);
+};
+
+// --- Running Requests ---
+
+// Ends early with an AbortError when the signal fires
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One model: rate limits and server errors are retried with exponential backoff (2s, 4s / 3s, 6s);
+// anything else goes straight back to the chain
+const runWithRetry = async <T>(model: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (error) {
+            if (isAbortError(error) || signal?.aborted) throw createAbortError();
+            const aiError = toAIError(error, model);
+            const retryable = aiError.code === 'RATE_LIMITED' || aiError.code === 'UNAVAILABLE';
+            if (!retryable || attempt >= RETRIES - 1) throw aiError;
+
+            const wait = (aiError.code === 'RATE_LIMITED' ? 3000 : 2000) * Math.pow(2, attempt);
+            console.warn(`${model}: ${aiError.code}. Retrying in ${wait}ms (attempt ${attempt + 1}/${RETRIES})`);
+            await delay(wait, signal);
+        }
+    }
+};
+
+// Tries each model of the task's chain until one answers. Missing setup and an exhausted budget
+// end the chain at once, since no other model would do better.
+const runChain = async <T>(
+    task: LLMTask,
+    signal: AbortSignal | undefined,
+    inputTokens: number,
+    call: (provider: LLMProvider, model: string) => Promise<T>,
+    outputTokens: (result: T) => number
+): Promise<T> => {
+    const provider = getActiveProvider();
+    if (!provider.isConfigured()) throw new AIError('MISSING_API_KEY');
+    const kind = TASK_CHAINS[task];
+    const chain = getModelChain(kind, provider);
+    if (chain.length === 0) throw new AIError('MODEL_NOT_FOUND', 'No model is configured. Add one in Settings.');
+
+    let lastError: AIError | undefined;
+    for (const [i, model] of chain.entries()) {
+        try {
+            return await runWithRetry(model, async () => {
+                await checkBudget();
+                let result: T;
+                try {
+                    result = await call(provider, model);
+                } catch (error) {
+                    await recordUsage(kind, inputTokens, true);
+                    throw error;
+                }
+                await recordUsage(kind, inputTokens + outputTokens(result), false);
+                return result;
+            }, signal);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            lastError = toAIError(error, model);
+            if (lastError.code === 'MISSING_API_KEY' || lastError.code === 'BUDGET_EXCEEDED') throw lastError;
+            if (i < chain.length - 1) console.warn(`${task}: ${model} failed (${lastError.code}). Trying ${chain[i + 1]}`);
+        }
+    }
+    throw lastError!;
+};
+
+// Logs what the request had redacted once it is over, whether or not it succeeded
+const withRedactor = async <T>(task: LLMTask, run: (redactor: Redactor) => Promise<T>): Promise<T> => {
+    const redactor = await createRedactor();
+    try {
+        return await run(redactor);
+    } finally {
+        logRedactions(task, redactor.spans()).catch(error => console.warn("Could not log redactions", error));
+    }
+};
+
+export const requestChat = (request: Omit<ChatRequest, 'model'>): Promise<ChatResult> => withRedactor(request.task, async redactor => {
+    const { onText, runTool } = request;
+    const redacted: Omit<ChatRequest, 'model'> = {
+        ...request,
+        systemInstruction: request.systemInstruction && redactor.redact(request.systemInstruction),
+        history: request.history.map(m => ({ ...m, text: redactor.redact(m.text) })),
+        message: redactor.redact(request.message),
+        onText: onText && (text => onText(redactor.restore(text))),
+        // Tools run on the real values, and what they return is filtered like everything else
+        runTool: runTool && (async call => redactor.redactValue(await runTool({ ...call, args: redactor.restoreValue(call.args) })))
+    };
+    const input = [redacted.systemInstruction, ...redacted.history.map(m => m.text), redacted.message].join('\n');
+    const result = await runChain(
+        request.task,
+        request.signal,
+        estimateTokens(input, request.images?.length),
+        (provider, model) => provider.chat({ ...redacted, model, useSearch: request.useSearch && provider.supportsSearch }),
+        result => estimateTokens(result.text)
+    );
+    return { ...result, text: redactor.restore(result.text) };
+});
+
+// Resolves to the parsed JSON object described by the schema
+export const requestStructured = async <T = any>(request: Omit<StructuredRequest, 'model'>): Promise<T> => {
+    const cacheKey = CACHED_TASKS.includes(request.task) ? await responseCacheKey(request) : undefined;
+    const cached = cacheKey ? await readCachedResponse(cacheKey) : undefined;
+    if (cached) {
+        throwIfAborted(request.signal);
+        recordCacheHit().catch(error => console.warn("Could not count a cache hit", error));
+        return cached.result as T;
+    }
+
+    const result = await withRedactor(request.task, async redactor => {
+        const prompt = redactor.redact(request.prompt);
+        const answer = await runChain<T>(
+            request.task,
+            request.signal,
+            estimateTokens(`${prompt}\n${JSON.stringify(request.schema)}`, request.images?.length),
+            (provider, model) => provider.generateStructured<T>({ ...request, prompt, model }),
+            answer => estimateTokens(JSON.stringify(answer ?? ''))
+        );
+        return redactor.restoreValue(answer);
+    });
+    if (cacheKey) writeCachedResponse(cacheKey, request.task, result).catch(error => console.warn("Could not cache the AI response", error));
+    return result;
+};
@@ -0,0 +1,252 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+import { getStoredApiKey, saveApiKey } from './vaultService';
+
+// Every AI call goes through an LLMProvider, so the app can talk to Gemini, to any server that
+// speaks the OpenAI chat completions API (llama.cpp, Ollama, LM Studio...), or to an offline mock.
+// Providers only move text in and out; retries, model chains and budgets live in llmPipeline,
+// prompts and parsing in geminiService.
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// What the request is for. The mock uses it to pick a canned answer.
+export type LLMTask = 'companionChat' | 'journalChat' | 'financeChat' | 'entryExtraction' | 'fileImport' | 'entryAction' | 'moodAnalysis' | 'receiptScan' | 'digest' | 'memory';
+
+export interface LLMMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LLMImage {
+    mimeType: string;
+    data: string; // base64, no data: prefix
+}
+
+// A provider-neutral subset of JSON Schema, enough for the extraction formats
+export interface LLMSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    properties?: Record<string, LLMSchema>;
+    items?: LLMSchema;
+    required?: string[];
+    enum?: string[];
+    description?: string;
+}
+
+// A function the model may call during a chat
+export interface LLMTool {
+    name: string;
+    description: string;
+    parameters: LLMSchema;
+}
+
+export interface LLMToolCall {
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+// Rounds of tool calls a provider runs for one message before it stops and returns what it has
+export const MAX_TOOL_ROUNDS = 4;
+
+export interface ChatRequest {
+    task: LLMTask;
+    model: string;
+    systemInstruction?: string;
+    history: LLMMessage[];
+    message: string;
+    images?: LLMImage[];
+    useSearch?: boolean;
+    signal?: AbortSignal;
+    // When set, the reply is streamed: called with the full text received so far after every chunk
+    onText?: (text: string) => void;
+    // Functions the model may call. The provider runs each call through runTool and sends the
+    // result back, until the model answers in text.
+    tools?: LLMTool[];
+    runTool?: (call: LLMToolCall) => Promise<unknown>;
+}
+
+export interface ChatSource {
+    title: string;
+    uri: string;
+}
+
+export interface ChatResult {
+    text: string;
+    sources?: ChatSource[];
+}
+
+export interface StructuredRequest {
+    task: LLMTask;
+    model: string;
+    prompt: string;
+    schema: LLMSchema;
+    images?: LLMImage[];
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    id: ProviderId;
+    label: string;
+    models: { primary: string; fallback: string; embedding: string };
+    supportsSearch: boolean;
+    isConfigured(): boolean;
+    chat(request: ChatRequest): Promise<ChatResult>;
+    // Resolves to the parsed JSON object described by the schema
+    generateStructured<T = any>(request: StructuredRequest): Promise<T>;
+    // One vector per text, in order
+    embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+// --- Configuration ---
+// Kept in localStorage and read synchronously per request. The OpenAI-compatible API key is kept
+// by vaultService like the Gemini key, so it is sealed while the vault is on.
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string;
+    model: string;
+    fallbackModel?: string;
+    embeddingModel?: string;
+    apiKey?: string;
+}
+
+export interface ProviderConfig {
+    provider: ProviderId;
+    openai?: OpenAICompatibleConfig;
+}
+
+const PROVIDER_CONFIG_KEY = 'gemini_journal_llm_provider';
+const DEFAULT_CONFIG: ProviderConfig = { provider: 'gemini' };
+
+export const getProviderConfig = (): ProviderConfig => {
+    if (typeof localStorage === 'undefined') return DEFAULT_CONFIG;
+    try {
+        const raw = localStorage.getItem(PROVIDER_CONFIG_KEY);
+        const config: ProviderConfig | null = raw ? JSON.parse(raw) : null;
+        if (!config || !['gemini', 'openai', 'mock'].includes(config.provider)) return DEFAULT_CONFIG;
+        // Earlier versions stored the key with the rest of the config
+        if (config.openai?.apiKey) {
+            const { apiKey, ...openai } = config.openai;
+            if (!getStoredApiKey('openai')) saveApiKey(apiKey, 'openai').catch(error => console.error("Failed to move the API key", error));
+            localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify({ ...config, openai }));
+        }
+        const apiKey = getStoredApiKey('openai');
+        return config.openai ? { ...config, openai: { ...config.openai, apiKey } } : config;
+    } catch (e) {
+        return DEFAULT_CONFIG;
+    }
+};
+
+export const saveProviderConfig = async (config: ProviderConfig): Promise<void> => {
+    const openai = config.openai && {
+        ...config.openai,
+        baseUrl: config.openai.baseUrl.trim().replace(/\/+$/, ''),
+        model: config.openai.model.trim(),
+        fallbackModel: config.openai.fallbackModel?.trim() || undefined,
+        embeddingModel: config.openai.embeddingModel?.trim() || undefined,
+        apiKey: undefined
+    };
+    localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify({ ...config, openai }));
+    await saveApiKey(config.openai?.apiKey?.trim() || '', 'openai');
+};
+
+// --- Active Provider ---
+
+let providerOverride: LLMProvider | null = null;
+
+// Lets tests and demos force a provider (e.g. createMockProvider()) regardless of settings
+export const setProviderOverride = (provider: LLMProvider | null) => {
+    providerOverride = provider;
+};
+
+export const getActiveProvider = (): LLMProvider => {
+    if (providerOverride) return providerOverride;
+    const config = getProviderConfig();
+    switch (config.provider) {
+        case 'openai': return createOpenAICompatibleProvider(config.openai);
+        case 'mock': return createMockProvider();
+        default: return createGeminiProvider();
+    }
+};
+
+// --- Cancellation ---
+
+export const createAbortError = () => new DOMException('The request was stopped.', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+// --- Errors ---
+// Failed AI requests reach the UI as an AIError whose message says what went wrong and what to
+// do about it; the code lets callers react (e.g. offer Settings when no provider is set up).
+
+export type AIErrorCode =
+    | 'MISSING_API_KEY'
+    | 'BUDGET_EXCEEDED' // The daily request or token budget is used up
+    | 'RATE_LIMITED'
+    | 'MODEL_NOT_FOUND'
+    | 'FORBIDDEN'
+    | 'UNAVAILABLE' // Network failure or server error
+    | 'BAD_RESPONSE' // Empty or unreadable output
+    | 'FAILED';
+
+const AI_ERROR_MESSAGES: Record<AIErrorCode, string> = {
+    MISSING_API_KEY: 'AI is not set up. Choose a provider (and enter its key) in Settings.',
+    BUDGET_EXCEEDED: "Today's AI budget is used up. It resets at midnight, or can be raised in Settings.",
+    RATE_LIMITED: 'The AI provider is rate limiting requests. Try again in a minute.',
+    MODEL_NOT_FOUND: 'The model was not found. Check the model chain in Settings.',
+    FORBIDDEN: 'The AI provider refused the request. Check the API key and its permissions.',
+    UNAVAILABLE: 'The AI provider could not be reached. Check your connection or try again later.',
+    BAD_RESPONSE: 'The model replied with nothing the app could use. Try again.',
+    FAILED: 'The AI request failed.'
+};
+
+export class AIError extends Error {
+    readonly code: AIErrorCode;
+    readonly status?: number;
+    readonly model?: string;
+
+    constructor(code: AIErrorCode, message = AI_ERROR_MESSAGES[code], details: { status?: number; model?: string; cause?: unknown } = {}) {
+        super(message, { cause: details.cause });
+        this.name = 'AIError';
+        this.code = code;
+        this.status = details.status;
+        this.model = details.model;
+    }
+}
+
+export const isAIError = (error: any, code?: AIErrorCode): error is AIError =>
+    error instanceof AIError && (!code || error.code === code);
+
+// Classifies whatever a provider threw. Abort errors are not AI errors and should be checked first.
+export const toAIError = (error: any, model?: string): AIError => {
+    if (error instanceof AIError) return error;
+    const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+    const message = String(error?.message || error || '');
+    const details = { status, model, cause: error };
+    const has = (...needles: string[]) => needles.some(needle => message.includes(needle));
+
+    if (message === 'MISSING_API_KEY') return new AIError('MISSING_API_KEY', undefined, details);
+    if (status === 429 || has('429', 'quota', 'RESOURCE_EXHAUSTED')) return new AIError('RATE_LIMITED', undefined, details);
+    if (status === 404 || has('404', 'not found')) {
+        return new AIError('MODEL_NOT_FOUND', model ? `The model "${model}" was not found. Check the model chain in Settings.` : undefined, details);
+    }
+    if (status === 401 || status === 403 || has('401', '403', 'API key not valid', 'PERMISSION_DENIED')) return new AIError('FORBIDDEN', undefined, details);
+    if ((status !== undefined && status >= 500) || has('500', '503', 'Internal error', 'Failed to fetch', 'fetch failed', 'NetworkError')) {
+        return new AIError('UNAVAILABLE', undefined, details);
+    }
+    if (error instanceof SyntaxError) return new AIError('BAD_RESPONSE', undefined, details);
+    return new AIError('FAILED', message ? `The AI request failed: ${message}` : undefined, details);
+};
+
+// A message for the user, for any error an AI feature may throw
+export const describeAIError = (error: any): string => isAbortError(error) ? 'Stopped.' : toAIError(error).message;
+
+// Strips a ```json fence some models wrap around structured output, then parses it
+export const parseJsonResponse = <T = any>(text: string | undefined): T => {
+    const cleaned = (text || '{}').trim().replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
+    return JSON.parse(cleaned || '{}');
+};
@@ -0,0 +1,239 @@
+import { MediaBlob, MediaRef } from '../types';
+import { StoreName, SCHEMA_VERSION_KEY, getRecord, getAllKeys, getAllRecords, putRecords, deleteRecords, runTransaction, promisifyRequest, getMeta, measureStore } from './db';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from './schema';
+import { toBase64, fromBase64, hashMedia } from './cryptoService';
+
+// Content-addressed media store. Every image is kept once under the SHA-256 of its bytes;
+// entries and chat messages only hold a MediaRef. A small JPEG thumbnail is generated per
+// image for the journal list.
+
+export interface MediaThumbnail {
+    id: string;
+    data: string; // base64 JPEG
+}
+
+const THUMBNAIL_WIDTH = 240;
+
+// --- Images ---
+// Helper to compress images for "smaller memory size"
+export const compressImage = (base64Str: string, maxWidth = 800, quality = 0.7, mimeType = 'image/jpeg'): Promise<string> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.src = `data:${mimeType};base64,${base64Str}`;
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            let width = img.width;
+            let height = img.height;
+
+            if (width > maxWidth) {
+                height = (height * maxWidth) / width;
+                width = maxWidth;
+            }
+
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            ctx?.drawImage(img, 0, 0, width, height);
+            // Compress to JPEG
+            const dataUrl = canvas.toDataURL('image/jpeg', quality);
+            resolve(dataUrl.split(',')[1]); // Return only base64 data
+        };
+        img.onerror = () => resolve(base64Str); // Fallback
+    });
+};
+
+// Thumbnails are a nicety: without a DOM (or for an undecodable image) the full image is shown instead
+const createThumbnail = async (blob: MediaBlob): Promise<MediaThumbnail | null> => {
+    if (typeof document === 'undefined') return null;
+    try {
+        const data = await compressImage(blob.data, THUMBNAIL_WIDTH, 0.6, blob.mimeType);
+        return data === blob.data ? null : { id: blob.id, data };
+    } catch (error) {
+        return null;
+    }
+};
+
+// --- Store ---
+const mediaExists = (id: string): Promise<boolean> => {
+    return runTransaction('media', 'readonly', async tx => (await promisifyRequest(tx.objectStore('media').getKey(id))) !== undefined);
+};
+
+const writeBlobs = async (blobs: MediaBlob[]) => {
+    if (blobs.length === 0) return;
+    await putRecords('media', blobs);
+    const thumbnails: MediaThumbnail[] = [];
+    for (const blob of blobs) {
+        const thumbnail = await createThumbnail(blob);
+        if (thumbnail) thumbnails.push(thumbnail);
+    }
+    if (thumbnails.length) await putRecords('thumbnails', thumbnails);
+};
+
+// Stores an image (base64) unless identical bytes are already stored, and returns its reference
+export const storeMedia = async (base64: string, mimeType: string): Promise<MediaRef> => {
+    const id = await hashMedia(base64);
+    if (!(await mediaExists(id))) {
+        await writeBlobs([{ id, mimeType, data: base64, size: fromBase64(base64).length, createdAt: Date.now() }]);
+    }
+    return { type: 'image', mediaId: id, mimeType };
+};
+
+// Saves blobs that came from a backup or another device. Blobs whose bytes do not match their id are skipped.
+export const saveMediaBlobs = async (blobs: MediaBlob[]): Promise<number> => {
+    const fresh: MediaBlob[] = [];
+    for (const blob of blobs) {
+        if (await hashMedia(blob.data) !== blob.id) {
+            console.warn(`Skipping media ${blob.id}: content does not match its hash`);
+            continue;
+        }
+        if (!(await mediaExists(blob.id)) && !fresh.some(b => b.id === blob.id)) fresh.push(blob);
+    }
+    await writeBlobs(fresh);
+    return fresh.length;
+};
+
+export const getMedia = async (id: string): Promise<MediaBlob | undefined> => {
+    try {
+        return await getRecord<MediaBlob>('media', id);
+    } catch (error) {
+        console.error("Failed to read media", error);
+        return undefined;
+    }
+};
+
+export const getMissingMediaIds = async (ids: string[]): Promise<string[]> => {
+    const stored = new Set(await getAllKeys('media'));
+    return [...new Set(ids)].filter(id => !stored.has(id));
+};
+
+// Data URL for displaying a reference; records from before the media store still carry the image inline
+export const getMediaUrl = async (ref: Pick<MediaRef, 'mediaId' | 'mimeType' | 'content'>, thumbnail = false): Promise<string | undefined> => {
+    if (ref.content) return `data:${ref.mimeType};base64,${ref.content}`;
+    if (!ref.mediaId) return undefined;
+    if (thumbnail) {
+        const thumb = await getRecord<MediaThumbnail>('thumbnails', ref.mediaId).catch(() => undefined);
+        if (thumb) return `data:image/jpeg;base64,${thumb.data}`;
+    }
+    const blob = await getMedia(ref.mediaId);
+    return blob ? `data:${blob.mimeType};base64,${blob.data}` : undefined;
+};
+
+// --- Inline Media ---
+// Moves inline base64 images into the store and returns the list with references only
+export const internMedia = async (media?: MediaRef[]): Promise<MediaRef[] | undefined> => {
+    if (!media || !media.some(m => m.content)) return media;
+    const refs: MediaRef[] = [];
+    for (const m of media) {
+        refs.push(m.content ? await storeMedia(m.content, m.mimeType || 'image/jpeg') : m);
+    }
+    return refs;
+};
+
+// --- References & Cleanup ---
+export const collectMediaIds = (records: any[] | undefined, ids = new Set<string>()): Set<string> => {
+    (records || []).forEach(record => {
+        if (!record) return;
+        if (Array.isArray(record.media)) record.media.forEach((m: any) => m?.mediaId && ids.add(m.mediaId));
+        if (record.attachment?.mediaId) ids.add(record.attachment.mediaId);
+    });
+    return ids;
+};
+
+// Deletes stored images nothing refers to any more (including history, trash, the review inbox, queued AI jobs, conflicts and the restore snapshot).
+// Nothing is pruned until the stored data is on this version's schema: before the migrations have
+// run (or with data from a newer version) images may be referenced in ways not looked at here.
+export const pruneUnusedMedia = async (): Promise<number> => {
+    const version = (await getMeta<number>(SCHEMA_VERSION_KEY)) ?? LEGACY_SCHEMA_VERSION;
+    if (version !== CURRENT_SCHEMA_VERSION) return 0;
+
+    const ids = new Set<string>();
+    for (const store of ['entries', 'entryRevisions', 'chat'] as StoreName[]) {
+        collectMediaIds(await getAllRecords(store), ids);
+    }
+    collectMediaIds((await getAllRecords<any>('trash')).map(item => item.record), ids);
+    collectMediaIds((await getAllRecords<any>('review')).map(item => item.record), ids);
+    (await getAllRecords<any>('aiJobs')).forEach(job => collectMediaIds(job.messages, ids));
+    (await getAllRecords<any>('conflicts')).forEach(c => collectMediaIds([c.base, c.local, c.remote], ids));
+    (await getAllRecords<any>('snapshots')).forEach(s => {
+        collectMediaIds(s.data?.entries, ids);
+        collectMediaIds(s.data?.chatPersonal, ids);
+        collectMediaIds(s.data?.chatProf, ids);
+    });
+
+    const unused = (await getAllKeys('media')).filter(key => !ids.has(key as string));
+    const orphanThumbs = (await getAllKeys('thumbnails')).filter(key => !ids.has(key as string));
+    if (unused.length) await deleteRecords('media', unused);
+    if (orphanThumbs.length) await deleteRecords('thumbnails', orphanThumbs);
+    return unused.length;
+};
+
+// --- Storage Usage ---
+export interface StorageUsageItem {
+    label: string;
+    count: number;
+    bytes: number;
+}
+
+export interface StorageUsage {
+    items: StorageUsageItem[];
+    total: number;
+    quota?: number; // Reported by the browser for the whole origin
+    used?: number;
+}
+
+const USAGE_GROUPS: { label: string; stores: StoreName[] }[] = [
+    { label: 'Journal entries', stores: ['entries'] },
+    { label: 'Images', stores: ['media'] },
+    { label: 'Thumbnails', stores: ['thumbnails'] },
+    { label: 'Chat history', stores: ['chat'] },
+    { label: 'Entry history', stores: ['entryRevisions'] },
+    { label: 'Calendar, tasks & finance', stores: ['calendar', 'tasks', 'finance'] },
+    { label: 'Trash', stores: ['trash'] },
+    { label: 'Restore snapshot', stores: ['snapshots'] },
+    { label: 'Sync records', stores: ['syncBase', 'tombstones', 'conflicts'] },
+    { label: 'Search index', stores: ['embeddings'] }
+];
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const items: StorageUsageItem[] = [];
+    for (const group of USAGE_GROUPS) {
+        const item: StorageUsageItem = { label: group.label, count: 0, bytes: 0 };
+        for (const store of group.stores) {
+            const { count, bytes } = await measureStore(store);
+            item.count += count;
+            item.bytes += bytes;
+        }
+        items.push(item);
+    }
+
+    let estimate: StorageEstimate | undefined;
+    try {
+        estimate = await navigator.storage?.estimate?.();
+    } catch (error) {
+        estimate = undefined;
+    }
+    return {
+        items,
+        total: items.reduce((sum, item) => sum + item.bytes, 0),
+        quota: estimate?.quota,
+        used: estimate?.usage
+    };
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Raw bytes of a stored image, for packaging into backups
+export const mediaToBytes = (blob: MediaBlob): Uint8Array => fromBase64(blob.data);
+
+export const bytesToMedia = (id: string, mimeType: string, bytes: Uint8Array): MediaBlob => ({
+    id,
+    mimeType,
+    data: toBase64(bytes),
+    size: bytes.length,
+    createdAt: Date.now()
+});
@@ -0,0 +1,83 @@
+import { JournalMode, MemoryNote } from '../types';
+import { getAllRecords, getAllByIndex, putRecords, deleteRecords, getMeta, setMeta } from './db';
+import { getChatHistory, subscribe } from './storageService';
+import { getActiveProvider } from './llmProvider';
+import { updateMemoryNotes } from './geminiService';
+
+// Long-term chat memory: the companion is sent only the latest messages, so turns older than that
+// are condensed into memory notes (people, ongoing situations, preferences), kept per workspace and
+// given back to it with every message. Turns are summarised a batch at a time, while still inside
+// the history the companion is sent, so nothing falls through the gap.
+
+const KEEP_RECENT = 8; // The newest messages are left for a later batch
+const BATCH_SIZE = 6;
+const MAX_MESSAGE_CHARS = 600;
+const cursorKey = (mode: JournalMode) => `memoryCursor:${mode}`;
+
+// Newest first
+export const getMemories = async (): Promise<MemoryNote[]> => {
+    const notes = await getAllRecords<MemoryNote>('memories');
+    return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// A note changed by the user, which later summaries leave as it is
+export const saveMemory = async (note: MemoryNote): Promise<void> => {
+    await putRecords('memories', [{ ...note, text: note.text.trim(), updatedAt: Date.now(), editedByUser: true }]);
+};
+
+export const deleteMemories = async (ids: string[]): Promise<void> => {
+    if (ids.length > 0) await deleteRecords('memories', ids);
+};
+
+// --- Summarising ---
+
+// Calls run one after another, so overlapping chat saves never summarise the same turns twice
+let memoryQueue: Promise<unknown> = Promise.resolve();
+
+const summarise = async (mode: JournalMode): Promise<number> => {
+    const cursor = (await getMeta<number>(cursorKey(mode))) || 0;
+    const messages = (await getChatHistory(mode)).filter(m => m.text.trim());
+    const pending = messages.slice(0, -KEEP_RECENT).filter(m => m.timestamp > cursor);
+    if (pending.length < BATCH_SIZE) return 0;
+
+    const existing = await getAllByIndex<MemoryNote>('memories', 'mode', mode);
+    const turns = pending.map(m => ({ ...m, text: m.text.slice(0, MAX_MESSAGE_CHARS) }));
+    const changes = await updateMemoryNotes(turns, existing, mode);
+
+    const now = Date.now();
+    const byId = new Map(existing.map(note => [note.id, note]));
+    const written: MemoryNote[] = [
+        ...changes.update.map(({ id, text }) => ({ ...byId.get(id)!, text, updatedAt: now })),
+        ...changes.add.map(({ category, text }, i) => ({ id: `memory-${now}-${i}`, mode, category, text, createdAt: now, updatedAt: now }))
+    ];
+    if (written.length > 0) await putRecords('memories', written);
+    await deleteMemories(changes.remove);
+    await setMeta(cursorKey(mode), pending[pending.length - 1].timestamp);
+    return written.length + changes.remove.length;
+};
+
+// Summarises the given workspace's (or both workspaces') older turns, once enough have built up.
+// Returns how many notes were added, changed or removed.
+export const updateMemories = (modes: JournalMode[] = [JournalMode.PERSONAL, JournalMode.PROFESSIONAL]): Promise<number> => {
+    const run = memoryQueue.then(async () => {
+        if (!getActiveProvider().isConfigured()) return 0;
+        let changed = 0;
+        for (const mode of modes) changed += await summarise(mode);
+        return changed;
+    });
+    memoryQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Summarises as the chat grows in this tab (other tabs summarise their own chats).
+// Returns a function that stops it.
+export const startMemoryKeeper = (): (() => void) => {
+    const update = () => {
+        updateMemories().catch(error => console.warn("Memory update failed", error));
+    };
+
+    update();
+    return subscribe('chat', change => {
+        if (!change.remote) update();
+    });
+};
@@ -0,0 +1,97 @@
+import { SyncConflict } from '../types';
+
+// Field-level three-way merge used when the same record was edited on two devices.
+// "base" is the last version both devices agreed on; fields changed on only one side are
+// taken from that side, and fields changed on both sides are merged where that is safe.
+
+type Collection = SyncConflict['collection'];
+
+// Fields compared individually. Collections not listed here fall back to last-writer-wins.
+export const MERGE_FIELDS: Partial<Record<Collection, string[]>> = {
+    entries: ['title', 'content', 'tags', 'media'],
+    tasks: ['title', 'completed', 'dueDate', 'linkedEntryId'],
+    finance: ['amount', 'type', 'category', 'description', 'date', 'linkedEntryId']
+};
+
+export interface MergeResult<T> {
+    merged: T;
+    conflicts: string[];
+}
+
+const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Three-way merge of two lists treated as sets: keeps additions and removals from both sides
+const mergeSets = <V>(base: V[], local: V[], remote: V[], key: (v: V) => string): V[] => {
+    const baseKeys = new Set(base.map(key));
+    const localKeys = new Set(local.map(key));
+    const remoteKeys = new Set(remote.map(key));
+    const result = local.filter(v => remoteKeys.has(key(v)) || !baseKeys.has(key(v)));
+    remote.forEach(v => {
+        if (!localKeys.has(key(v)) && !baseKeys.has(key(v))) result.push(v);
+    });
+    return result;
+};
+
+// Journal text is mostly appended to, so if one side only added text around the other, keep the longer one
+const mergeText = (base: string, local: string, remote: string): string | undefined => {
+    if (local.includes(remote) && remote.includes(base)) return local;
+    if (remote.includes(local) && local.includes(base)) return remote;
+    return undefined;
+};
+
+const mergeField = (field: string, base: any, local: any, remote: any): { value: any; conflict: boolean } => {
+    if (same(local, remote)) return { value: local, conflict: false };
+    if (same(base, local)) return { value: remote, conflict: false };
+    if (same(base, remote)) return { value: local, conflict: false };
+
+    // Both sides changed the field differently
+    if (field === 'tags' && Array.isArray(local) && Array.isArray(remote)) {
+        return { value: mergeSets<string>(base || [], local, remote, t => t.toLowerCase()), conflict: false };
+    }
+    if (field === 'media' && Array.isArray(local) && Array.isArray(remote)) {
+        return { value: mergeSets<any>(base || [], local, remote, m => m.mediaId || m.content), conflict: false };
+    }
+    if (field === 'content' && typeof local === 'string' && typeof remote === 'string') {
+        const text = mergeText(typeof base === 'string' ? base : '', local, remote);
+        if (text !== undefined) return { value: text, conflict: false };
+    }
+    return { value: local, conflict: true };
+};
+
+// Without a base every differing field counts as changed on both sides.
+// Conflicting fields keep the local value in `merged` and are listed in `conflicts`.
+export const mergeRecords = <T extends Record<string, any>>(
+    collection: Collection,
+    base: T | undefined,
+    local: T,
+    remote: T
+): MergeResult<T> => {
+    const fields = MERGE_FIELDS[collection];
+    const newer = (remote.lastModified || 0) > (local.lastModified || 0) ? remote : local;
+    if (!fields) return { merged: newer, conflicts: [] };
+
+    // Fields outside the merge list follow whichever side was written last
+    const merged: Record<string, any> = { ...newer };
+    const conflicts: string[] = [];
+    fields.forEach(field => {
+        const { value, conflict } = mergeField(field, base?.[field], local[field], remote[field]);
+        if (value === undefined) delete merged[field];
+        else merged[field] = value;
+        if (conflict) conflicts.push(field);
+    });
+    return { merged: merged as T, conflicts };
+};
+
+// Builds the record the user chose in the conflict inbox, picking each conflicting field from one side
+export const resolveConflictFields = <T extends Record<string, any>>(
+    conflict: SyncConflict,
+    choices: Record<string, 'local' | 'remote'>
+): T => {
+    const resolved: Record<string, any> = { ...conflict.local };
+    conflict.fields.forEach(field => {
+        const value = choices[field] === 'remote' ? conflict.remote[field] : conflict.local[field];
+        if (value === undefined) delete resolved[field];
+        else resolved[field] = value;
+    });
+    return resolved as T;
+};
@@ -0,0 +1,170 @@
+import type { LLMProvider, LLMSchema, LLMTask, LLMToolCall, ChatRequest, ChatResult, StructuredRequest } from "./llmProvider";
+import { throwIfAborted } from "./llmProvider";
+
+// Offline provider for tests and demos. It never touches the network and always gives the same
+// answer for the same request. Tests can replace the answer for a task with setMockHandler; a chat
+// handler may return { text, toolCalls } to exercise tools, which are run before the text is returned.
+
+export type MockHandler = (request: ChatRequest | StructuredRequest) => unknown;
+
+interface MockReply {
+    text: string;
+    toolCalls?: LLMToolCall[];
+}
+
+const handlers = new Map<LLMTask, MockHandler>();
+
+export const setMockHandler = (task: LLMTask, handler: MockHandler | null) => {
+    if (handler) handlers.set(task, handler);
+    else handlers.delete(task);
+};
+
+// Empty value of the right shape: objects with every property, empty arrays, '' / 0 / false
+const emptyValue = (schema: LLMSchema): any => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, emptyValue(value)]));
+        case 'array': return [];
+        case 'number': return 0;
+        case 'boolean': return false;
+        default: return schema.enum?.[0] ?? '';
+    }
+};
+
+// The lines of a prompt section, e.g. everything after "NEW INPUT:"
+const section = (prompt: string, heading: string): string => {
+    const start = prompt.lastIndexOf(heading);
+    return start === -1 ? '' : prompt.slice(start + heading.length).trim();
+};
+
+const titleFrom = (text: string) => {
+    const words = text.split(/\s+/).filter(Boolean);
+    return words.slice(0, 6).join(' ') + (words.length > 6 ? '...' : '');
+};
+
+// word prefix, valence, energy, emotion
+const MOOD_WORDS: [string, number, number, string][] = [
+    ['happy', 0.8, 0.7, 'happy'], ['great', 0.7, 0.7, 'happy'], ['excit', 0.8, 0.9, 'excited'],
+    ['grateful', 0.8, 0.4, 'grateful'], ['calm', 0.5, 0.2, 'calm'], ['relax', 0.5, 0.2, 'calm'],
+    ['proud', 0.7, 0.6, 'proud'], ['love', 0.8, 0.6, 'loving'], ['tired', -0.3, 0.1, 'tired'],
+    ['exhaust', -0.4, 0.05, 'tired'], ['sad', -0.7, 0.2, 'sad'], ['lonely', -0.6, 0.2, 'lonely'],
+    ['anxious', -0.6, 0.8, 'anxious'], ['worr', -0.5, 0.7, 'anxious'], ['stress', -0.6, 0.8, 'stressed'],
+    ['angry', -0.7, 0.9, 'angry'], ['frustrat', -0.6, 0.7, 'frustrated'], ['bored', -0.3, 0.1, 'bored']
+];
+
+// Canned structured answers, so extraction and import do something visible in a demo
+const defaultStructured = (request: StructuredRequest): any => {
+    const result = emptyValue(request.schema);
+    if (request.task === 'entryExtraction') {
+        const userText = section(request.prompt, 'NEW INPUT:')
+            .split('\n')
+            .filter(line => line.startsWith('USER:'))
+            .map(line => line.slice('USER:'.length).trim())
+            .filter(Boolean)
+            .join(' ');
+        if (!userText) return result;
+        return { ...result, hasContent: true, title: titleFrom(userText), content: userText, tags: ['mock'] };
+    }
+    if (request.task === 'fileImport') {
+        const text = section(request.prompt, 'Text Content:');
+        return { ...result, unstructured_summary: text.slice(0, 200) };
+    }
+    if (request.task === 'entryAction') {
+        // The action is told apart by the fields its schema asks for
+        const text = section(request.prompt, 'ENTRY TEXT:');
+        const fields = request.schema.properties || {};
+        if ('summary' in fields) return { summary: text.split(/(?<=[.!?])\s/)[0] || text.slice(0, 120) };
+        if ('content' in fields) return { content: text.replace(/(^|[.!?]\s+)([a-z])/g, (_, gap, letter) => gap + letter.toUpperCase()) };
+        if ('tags' in fields) {
+            const words = (text.toLowerCase().match(/[\p{L}]{5,}/gu) || []).sort((a, b) => b.length - a.length);
+            return { tags: Array.from(new Set(words)).slice(0, 3) };
+        }
+        if ('advice' in fields) return { advice: ['(Offline mock) Take a short walk and notice how you feel afterwards.'] };
+    }
+    if (request.task === 'moodAnalysis') {
+        // A tiny word list stands in for the model, so the mood view has something to show
+        const words = section(request.prompt, 'ENTRY TITLE:').toLowerCase().match(/[\p{L}]+/gu) || [];
+        const found = MOOD_WORDS.filter(([word]) => words.some(w => w.startsWith(word)));
+        if (found.length === 0) return { valence: 0, energy: 0.5, emotions: [] };
+        const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+        return {
+            valence: average(found.map(([, valence]) => valence)),
+            energy: average(found.map(([, , energy]) => energy)),
+            emotions: Array.from(new Set(found.map(([, , , emotion]) => emotion))).slice(0, 3)
+        };
+    }
+    if (request.task === 'memory') {
+        // Whatever the user asked to be remembered becomes a note
+        const notes = section(request.prompt, 'CONVERSATION:')
+            .split('\n')
+            .filter(line => line.startsWith('USER:') && /\bremember\b/i.test(line))
+            .map(line => ({ category: 'situation', text: line.slice('USER:'.length).trim() }));
+        return { ...result, add: notes };
+    }
+    return result;
+};
+
+const STREAM_DELAY_MS = 40;
+
+const cannedReply = (request: ChatRequest): MockReply => {
+    const handler = handlers.get(request.task);
+    if (handler) {
+        const reply: any = handler(request);
+        return typeof reply === 'object' && reply !== null ? { text: reply.text || '', toolCalls: reply.toolCalls } : { text: String(reply) };
+    }
+
+    const images = request.images || [];
+    const seen = images.length > 0
+        ? ` I can see ${images.length === 1 ? 'an image' : `${images.length} images`} (${images.map(i => i.mimeType).join(', ')}).`
+        : '';
+    return { text: `(Offline mock) You said: "${request.message.trim()}".${seen} This reply was generated locally; choose a real AI provider in Settings for genuine answers.` };
+};
+
+// Streams word by word with a small delay, so Stop can be tried out offline
+const chat = async (request: ChatRequest): Promise<ChatResult> => {
+    const { text, toolCalls } = cannedReply(request);
+    if (toolCalls && request.runTool) {
+        for (const call of toolCalls) await request.runTool(call);
+    }
+    if (!request.onText) return { text };
+
+    const words = text.split(/(?<=\s)/);
+    for (let i = 1; i <= words.length; i++) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        throwIfAborted(request.signal);
+        request.onText(words.slice(0, i).join(''));
+    }
+    return { text };
+};
+
+// Hashed bag of words: texts sharing words get similar vectors, so search works offline
+const EMBEDDING_DIMENSIONS = 256;
+
+const embedText = (text: string): number[] => {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        let hash = 2166136261;
+        for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+        vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+    }
+    const length = Math.hypot(...vector) || 1;
+    return vector.map(value => value / length);
+};
+
+const embed = async (texts: string[]): Promise<number[][]> => texts.map(embedText);
+
+const generateStructured = async <T,>(request: StructuredRequest): Promise<T> => {
+    const handler = handlers.get(request.task);
+    return (handler ? handler(request) : defaultStructured(request)) as T;
+};
+
+export const createMockProvider = (): LLMProvider => ({
+    id: 'mock',
+    label: 'Offline mock',
+    models: { primary: 'mock', fallback: 'mock', embedding: 'mock' },
+    supportsSearch: false,
+    isConfigured: () => true,
+    chat,
+    generateStructured,
+    embed
+});
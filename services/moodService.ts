@@ -0,0 +1,222 @@
+import { JournalEntry, Task, FinanceTransaction } from '../types';
+import { getRecord, getAllRecords } from './db';
+import { saveEntryMood, subscribe } from './storageService';
+import { getActiveProvider } from './llmProvider';
+import { analyzeMood } from './geminiService';
+import { hashText } from './embeddingService';
+import { isDigest } from './digestService';
+
+// Mood scoring: every saved entry gets a valence, energy and dominant emotions from the active
+// provider, stored on the entry itself. An entry is scored again only when its title or text changes.
+// Digests are summaries rather than the user's own words, so they are not scored.
+
+const isScorable = (entry: JournalEntry) => !!entry.content?.trim() && !isDigest(entry);
+
+const moodSource = (entry: Pick<JournalEntry, 'title' | 'content'>) => `${entry.title}\n${entry.content}`;
+
+// --- Scoring ---
+
+// Calls run one after another, so overlapping saves never score the same entry twice
+let moodQueue: Promise<unknown> = Promise.resolve();
+
+const scoreEntries = async (ids?: string[]): Promise<number> => {
+    if (!getActiveProvider().isConfigured()) return 0;
+    const entries = ids
+        ? (await Promise.all(ids.map(id => getRecord<JournalEntry>('entries', id)))).filter((e): e is JournalEntry => !!e)
+        : await getAllRecords<JournalEntry>('entries');
+
+    let scored = 0;
+    for (const entry of entries) {
+        if (!isScorable(entry)) continue;
+        const sourceHash = await hashText(moodSource(entry));
+        if (entry.mood?.sourceHash === sourceHash) continue;
+        const mood = await analyzeMood(entry);
+        await saveEntryMood(entry.id, { ...mood, analyzedAt: Date.now(), sourceHash });
+        scored++;
+    }
+    return scored;
+};
+
+// Scores the given entries (or every entry) whose text changed since it was last scored. Returns how many were scored.
+export const updateMoods = (ids?: string[]): Promise<number> => {
+    const run = moodQueue.then(() => scoreEntries(ids));
+    moodQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Entries that have text but no score for their current text
+export const countUnscoredEntries = async (entries: JournalEntry[]): Promise<number> => {
+    let count = 0;
+    for (const entry of entries) {
+        if (isScorable(entry) && entry.mood?.sourceHash !== await hashText(moodSource(entry))) count++;
+    }
+    return count;
+};
+
+// Scores entries as they are saved in this tab (other tabs score their own writes).
+// Returns a function that stops it.
+export const startMoodAnalyzer = (): (() => void) => {
+    const score = (ids?: string[]) => {
+        updateMoods(ids).catch(error => console.warn("Mood analysis failed", error));
+    };
+
+    score();
+    return subscribe('entries', change => {
+        if (!change.remote) score(change.ids);
+    });
+};
+
+// --- Insights ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MoodDay {
+    key: string; // Date.toDateString() of the local day
+    date: Date;
+    valence: number; // Average over the day's scored entries
+    energy: number;
+    emotions: string[];
+    entryIds: string[];
+}
+
+// Average mood on one group of days, e.g. days with spending
+export interface MoodComparison {
+    days: number;
+    valence: number | null;
+}
+
+export interface MonthSummary {
+    label: string;
+    start: Date;
+    valence: number | null;
+    energy: number | null;
+    scoredEntries: number;
+    tasksCompleted: number;
+    spent: number;
+}
+
+export interface MoodInsights {
+    days: MoodDay[];
+    valence: number | null;
+    energy: number | null;
+    emotions: { emotion: string; count: number }[];
+    tags: { tag: string; entries: number; valence: number; difference: number }[];
+    spending: { withSpending: MoodComparison; withoutSpending: MoodComparison; spentOnGoodDays: number | null; spentOnLowDays: number | null };
+    tasks: { withCompletions: MoodComparison; withoutCompletions: MoodComparison };
+    months: MonthSummary[];
+}
+
+const average = (values: number[]): number | null => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const dayKey = (iso?: string): string | null => {
+    const date = new Date(iso || '');
+    return isNaN(date.getTime()) ? null : date.toDateString();
+};
+
+// Older tasks were completed before completedAt was recorded; their last change stands in for it
+const completionKey = (task: Task): string | null => {
+    if (!task.completed) return null;
+    if (task.completedAt) return dayKey(task.completedAt);
+    return task.lastModified ? new Date(task.lastModified).toDateString() : null;
+};
+
+const compare = (days: MoodDay[], include: (day: MoodDay) => boolean): MoodComparison => {
+    const matching = days.filter(include);
+    return { days: matching.length, valence: average(matching.map(d => d.valence)) };
+};
+
+// Mood per day over the last `months` calendar months, set against tags, spending and completed tasks
+export const getMoodInsights = (entries: JournalEntry[], transactions: FinanceTransaction[], tasks: Task[], months = 6): MoodInsights => {
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+    const inRange = (date: Date) => date >= from && date.getTime() < now.getTime() + DAY_MS;
+
+    const scored = entries.filter(e => e.mood && inRange(new Date(e.date)));
+
+    // Days
+    const byDay = new Map<string, JournalEntry[]>();
+    scored.forEach(entry => {
+        const key = new Date(entry.date).toDateString();
+        byDay.set(key, [...(byDay.get(key) || []), entry]);
+    });
+    const days: MoodDay[] = [...byDay.entries()].map(([key, dayEntries]) => {
+        const emotionCounts = new Map<string, number>();
+        dayEntries.forEach(e => e.mood!.emotions.forEach(emotion => emotionCounts.set(emotion, (emotionCounts.get(emotion) || 0) + 1)));
+        return {
+            key,
+            date: new Date(key),
+            valence: average(dayEntries.map(e => e.mood!.valence))!,
+            energy: average(dayEntries.map(e => e.mood!.energy))!,
+            emotions: [...emotionCounts.entries()].sort((a, b) => b[1] - a[1]).map(([emotion]) => emotion),
+            entryIds: dayEntries.map(e => e.id)
+        };
+    }).sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const valence = average(scored.map(e => e.mood!.valence));
+    const emotionTotals = new Map<string, number>();
+    scored.forEach(e => e.mood!.emotions.forEach(emotion => emotionTotals.set(emotion, (emotionTotals.get(emotion) || 0) + 1)));
+
+    // Tags used on at least two scored entries, furthest from the overall average first
+    const byTag = new Map<string, number[]>();
+    scored.forEach(e => e.tags.forEach(tag => {
+        const key = tag.toLowerCase();
+        byTag.set(key, [...(byTag.get(key) || []), e.mood!.valence]);
+    }));
+    const tags = [...byTag.entries()]
+        .filter(([, values]) => values.length >= 2)
+        .map(([tag, values]) => {
+            const tagValence = average(values)!;
+            return { tag, entries: values.length, valence: tagValence, difference: tagValence - (valence || 0) };
+        })
+        .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+    // Spending
+    const spentByDay = new Map<string, number>();
+    transactions.filter(t => t.type === 'expense').forEach(t => {
+        const key = dayKey(t.date);
+        if (key) spentByDay.set(key, (spentByDay.get(key) || 0) + t.amount);
+    });
+    const spentOn = (moodDays: MoodDay[]) => average(moodDays.map(d => spentByDay.get(d.key) || 0));
+
+    // Tasks
+    const completedByDay = new Map<string, number>();
+    tasks.forEach(task => {
+        const key = completionKey(task);
+        if (key) completedByDay.set(key, (completedByDay.get(key) || 0) + 1);
+    });
+
+    // Months, oldest first
+    const monthSummaries: MonthSummary[] = Array.from({ length: months }, (_, i) => {
+        const start = new Date(from.getFullYear(), from.getMonth() + i, 1);
+        const sameMonth = (date: Date) => date.getFullYear() === start.getFullYear() && date.getMonth() === start.getMonth();
+        const monthEntries = scored.filter(e => sameMonth(new Date(e.date)));
+        return {
+            label: start.toLocaleDateString([], { month: 'short', year: 'numeric' }),
+            start,
+            valence: average(monthEntries.map(e => e.mood!.valence)),
+            energy: average(monthEntries.map(e => e.mood!.energy)),
+            scoredEntries: monthEntries.length,
+            tasksCompleted: [...completedByDay.entries()].filter(([key]) => sameMonth(new Date(key))).reduce((sum, [, n]) => sum + n, 0),
+            spent: [...spentByDay.entries()].filter(([key]) => sameMonth(new Date(key))).reduce((sum, [, amount]) => sum + amount, 0)
+        };
+    });
+
+    return {
+        days,
+        valence,
+        energy: average(scored.map(e => e.mood!.energy)),
+        emotions: [...emotionTotals.entries()].sort((a, b) => b[1] - a[1]).map(([emotion, count]) => ({ emotion, count })),
+        tags,
+        spending: {
+            withSpending: compare(days, d => spentByDay.has(d.key)),
+            withoutSpending: compare(days, d => !spentByDay.has(d.key)),
+            spentOnGoodDays: spentOn(days.filter(d => d.valence >= 0.25)),
+            spentOnLowDays: spentOn(days.filter(d => d.valence <= -0.25))
+        },
+        tasks: {
+            withCompletions: compare(days, d => completedByDay.has(d.key)),
+            withoutCompletions: compare(days, d => !completedByDay.has(d.key))
+        },
+        months: monthSummaries
+    };
+};
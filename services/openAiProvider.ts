@@ -0,0 +1,150 @@
+import type { LLMProvider, LLMImage, ChatRequest, ChatResult, StructuredRequest, OpenAICompatibleConfig } from "./llmProvider";
+import { parseJsonResponse, throwIfAborted, MAX_TOOL_ROUNDS, AIError } from "./llmProvider";
+
+// Talks to any server exposing POST <baseUrl>/chat/completions in the OpenAI format, e.g.
+// llama.cpp (http://localhost:8080/v1), Ollama (http://localhost:11434/v1) or LM Studio.
+// Images are sent as data: URLs, which only vision-capable models accept.
+
+const userContent = (text: string, images: LLMImage[] = []) => images.length === 0
+    ? text
+    : [
+        { type: 'text', text },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+    ];
+
+// One assistant turn: its text and any tool calls, in the wire format
+interface Completion {
+    text: string;
+    toolCalls: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+}
+
+// Reads a `stream: true` response: server-sent events whose data lines carry content deltas.
+// Tool calls arrive in fragments keyed by index and are stitched back together.
+const readStream = async (response: Response, onText: (text: string) => void, signal?: AbortSignal): Promise<Completion> => {
+    if (!response.body) throw new Error("The server did not return a stream.");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    const toolCalls: Completion['toolCalls'] = [];
+    while (true) {
+        throwIfAborted(signal);
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+            const delta = JSON.parse(data)?.choices?.[0]?.delta;
+            if (delta?.content) {
+                text += delta.content;
+                onText(text);
+            }
+            for (const part of delta?.tool_calls || []) {
+                const call = toolCalls[part.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                if (part.id) call.id = part.id;
+                if (part.function?.name) call.function.name += part.function.name;
+                if (part.function?.arguments) call.function.arguments += part.function.arguments;
+            }
+        }
+    }
+    return { text, toolCalls: toolCalls.filter(Boolean) };
+};
+
+export const createOpenAICompatibleProvider = (config?: OpenAICompatibleConfig): LLMProvider => {
+    const embeddingModel = config?.embeddingModel || config?.model || '';
+    const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+        if (!config?.baseUrl || !config.model) throw new AIError("MISSING_API_KEY");
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+        const response = await fetch(`${config.baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // Keep the status on the error so runWithRetry can tell rate limits from other failures
+            throw Object.assign(new Error(`${response.status} ${detail || response.statusText}`.trim()), { status: response.status });
+        }
+        return response;
+    };
+
+    const complete = async (body: Record<string, unknown>, signal?: AbortSignal, onText?: (text: string) => void): Promise<Completion> => {
+        const response = await post('/chat/completions', onText ? { ...body, stream: true } : body, signal);
+        if (onText) return readStream(response, onText, signal);
+        const data = await response.json();
+        const message = data?.choices?.[0]?.message;
+        return { text: message?.content || '', toolCalls: message?.tool_calls || [] };
+    };
+
+    const chat = async (request: ChatRequest): Promise<ChatResult> => {
+        const messages: any[] = [
+            ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+            ...request.history.map(msg => ({ role: msg.role === 'user' ? 'user' : 'assistant', content: msg.text })),
+            { role: 'user', content: userContent(request.message, request.images) }
+        ];
+        const tools = request.tools?.length
+            ? request.tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }))
+            : undefined;
+
+        let text = '';
+        for (let round = 0; ; round++) {
+            const prefix = text ? `${text}\n\n` : '';
+            const onText = request.onText && ((roundText: string) => request.onText!(prefix + roundText));
+            const completion = await complete({ model: request.model, messages, ...(tools && { tools }) }, request.signal, onText);
+            if (completion.text) text = prefix + completion.text;
+
+            if (completion.toolCalls.length === 0 || !request.runTool || round >= MAX_TOOL_ROUNDS) break;
+            messages.push({ role: 'assistant', content: completion.text || null, tool_calls: completion.toolCalls });
+            for (const call of completion.toolCalls) {
+                let args = {};
+                try {
+                    args = JSON.parse(call.function.arguments || '{}');
+                } catch (e) {}
+                const result = await request.runTool({ id: call.id, name: call.function.name, args });
+                messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+            }
+        }
+        return { text };
+    };
+
+    const generateStructured = async <T,>(request: StructuredRequest): Promise<T> => {
+        const { text } = await complete({
+            model: request.model,
+            messages: [
+                { role: 'system', content: 'Reply with a single JSON object that matches the given schema and nothing else.' },
+                { role: 'user', content: userContent(request.prompt, request.images) }
+            ],
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: request.task, schema: request.schema }
+            }
+        }, request.signal);
+        return parseJsonResponse<T>(text);
+    };
+
+    const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+        const response = await post('/embeddings', { model: embeddingModel, input: texts }, signal);
+        const data = await response.json();
+        return [...(data?.data || [])]
+            .sort((a: any, b: any) => a.index - b.index)
+            .map((item: any) => item.embedding || []);
+    };
+
+    return {
+        id: 'openai',
+        label: 'OpenAI-compatible server',
+        models: { primary: config?.model || '', fallback: config?.fallbackModel || config?.model || '', embedding: embeddingModel },
+        supportsSearch: false,
+        isConfigured: () => !!(config?.baseUrl && config.model),
+        chat,
+        generateStructured,
+        embed
+    };
+};
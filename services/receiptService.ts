@@ -0,0 +1,152 @@
+import { JournalEntry, JournalMode, FinanceTransaction, MediaRef, ReceiptRef, TrashItem } from '../types';
+import { getRecord, getMeta, setMeta } from './db';
+import { getMedia } from './mediaService';
+import { scanReceipt, ReceiptScan } from './geminiService';
+import { saveEntry, getLinkedItems, trashRecords } from './storageService';
+import { saveExtraction } from './reviewService';
+import { textSimilarity } from './dedupService';
+
+// Receipt photos read into ledger transactions. A receipt stands in for the expense the user typed
+// about it (the one closest to its total), and a typed amount that disagrees with the printed total
+// is kept on the transaction so it can be flagged.
+
+const SPLIT_RECEIPTS_KEY = 'splitReceipts';
+
+export interface ScannedReceipt {
+    media: MediaRef;
+    scan: ReceiptScan;
+}
+
+export interface ReceiptProposal {
+    receipt: ScannedReceipt;
+    replaces?: FinanceTransaction; // The typed expense this receipt is the bill for
+    typedAmount?: number; // Set when the typed amount disagrees with the receipt total
+}
+
+interface ReceiptOptions {
+    split: boolean; // One transaction per line item instead of one for the total
+    entryId?: string;
+    date: string; // Used when no date is printed on the receipt
+    idPrefix: string;
+    mode?: JournalMode; // Workspace of the entry the receipt belongs to
+}
+
+export const getSplitReceipts = async (): Promise<boolean> => {
+    return (await getMeta<boolean>(SPLIT_RECEIPTS_KEY)) === true;
+};
+
+export const setSplitReceipts = async (enabled: boolean): Promise<void> => {
+    await setMeta(SPLIT_RECEIPTS_KEY, enabled);
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (amounts: number[]) => round(amounts.reduce((total, amount) => total + amount, 0));
+
+// Differences under 1% (or ₹1) are rounding, not a mismatch
+export const amountsDisagree = (typed: number, total: number) => Math.abs(typed - total) > Math.max(1, total * 0.01);
+
+// Media the entry's transactions have already been read from
+export const getReadReceiptIds = (entry: Pick<JournalEntry, 'transactions'>): Set<string> =>
+    new Set((entry.transactions || []).map(t => t.receipt?.mediaId).filter((id): id is string => !!id));
+
+// --- Reading ---
+
+// Scans each image; photos that are not receipts, and media whose bytes are missing, are skipped
+export const scanReceipts = async (media: MediaRef[]): Promise<ScannedReceipt[]> => {
+    const receipts: ScannedReceipt[] = [];
+    for (const ref of media) {
+        const blob = await getMedia(ref.mediaId);
+        if (!blob) continue;
+        const scan = await scanReceipt({ mimeType: blob.mimeType, data: blob.data });
+        if (scan) receipts.push({ media: ref, scan });
+    }
+    return receipts;
+};
+
+// Pairs each receipt with the typed expense it is most likely the bill for: one within 25% of the
+// total, or one whose description names the merchant. Each typed expense is used once.
+export const proposeReceipts = (receipts: ScannedReceipt[], typed: FinanceTransaction[]): ReceiptProposal[] => {
+    const available = typed.filter(t => t.type === 'expense' && !t.receipt);
+    return receipts.map(receipt => {
+        const { total, merchant } = receipt.scan;
+        const candidates = available.filter(t =>
+            Math.abs(t.amount - total) <= total * 0.25 || textSimilarity(t.description, merchant) >= 0.5
+        );
+        const replaces = candidates.sort((a, b) => Math.abs(a.amount - total) - Math.abs(b.amount - total))[0];
+        if (!replaces) return { receipt };
+        available.splice(available.indexOf(replaces), 1);
+        return { receipt, replaces, typedAmount: amountsDisagree(replaces.amount, total) ? replaces.amount : undefined };
+    });
+};
+
+// The transactions a receipt becomes. Split receipts get a line per item plus tax; charges that
+// are not itemised get a line of their own, and discounts are spread over the items, so the lines
+// always add up to the total.
+export const toReceiptTransactions = (proposal: ReceiptProposal, options: ReceiptOptions): FinanceTransaction[] => {
+    const { media, scan } = proposal.receipt;
+    const receipt: ReceiptRef = { mediaId: media.mediaId, merchant: scan.merchant, total: scan.total };
+    if (proposal.typedAmount !== undefined) receipt.typedAmount = proposal.typedAmount;
+    const base = { type: 'expense' as const, date: scan.date || options.date, linkedEntryId: options.entryId, mode: options.mode };
+
+    if (!options.split || scan.items.length === 0) {
+        return [{ ...base, id: `${options.idPrefix}-0`, amount: scan.total, category: scan.category, description: scan.merchant, receipt }];
+    }
+
+    let lines = scan.items.map(item => ({
+        description: `${scan.merchant}: ${item.description}${item.quantity > 1 ? ` ×${item.quantity}` : ''}`,
+        amount: item.amount,
+        category: item.category
+    }));
+    const itemsTotal = round(scan.total - scan.tax);
+    const listed = sum(lines.map(l => l.amount));
+    if (listed > itemsTotal && listed > 0) {
+        const scale = itemsTotal / listed;
+        lines = lines.map(l => ({ ...l, amount: round(l.amount * scale) }));
+    } else if (itemsTotal - listed >= 0.01) {
+        lines.push({ description: `${scan.merchant}: Other charges`, amount: round(itemsTotal - listed), category: scan.category });
+    }
+    if (scan.tax > 0) lines.push({ description: `${scan.merchant}: Tax`, amount: scan.tax, category: scan.category });
+
+    // Rounding left over from scaling goes on the largest line
+    const leftover = round(scan.total - sum(lines.map(l => l.amount)));
+    if (leftover !== 0) {
+        const largest = lines.reduce((a, b) => (b.amount > a.amount ? b : a));
+        largest.amount = round(largest.amount + leftover);
+    }
+
+    return lines
+        .filter(l => l.amount > 0)
+        .map((line, i) => ({ ...base, ...line, id: `${options.idPrefix}-${i}`, receipt: { ...receipt, lineItem: true } }));
+};
+
+// Reads receipt photos attached in the chat. Returns the typed transactions with those the
+// receipts stand for replaced by what was read from them.
+export const readReceipts = async (media: MediaRef[], typed: FinanceTransaction[], options: ReceiptOptions): Promise<FinanceTransaction[]> => {
+    const proposals = proposeReceipts(await scanReceipts(media), typed);
+    const replaced = new Set(proposals.map(p => p.replaces?.id));
+    return [
+        ...typed.filter(t => !replaced.has(t.id)),
+        ...proposals.flatMap((proposal, i) => toReceiptTransactions(proposal, { ...options, idPrefix: `${options.idPrefix}-${i}` }))
+    ];
+};
+
+// Saves the accepted receipts of an entry. The typed expenses they replace go to the trash.
+export const applyReceipts = async (entry: JournalEntry, proposals: ReceiptProposal[], split: boolean): Promise<TrashItem[]> => {
+    const replaced = proposals.map(p => p.replaces?.id).filter((id): id is string => !!id);
+    const trashed = replaced.length > 0 ? await trashRecords('finance', replaced) : [];
+
+    const idPrefix = `${entry.id}-receipt-${Date.now()}`;
+    const transactions = proposals.flatMap((proposal, i) => toReceiptTransactions(proposal, {
+        split,
+        entryId: entry.id,
+        date: entry.date,
+        idPrefix: `${idPrefix}-${i}`,
+        mode: entry.mode
+    }));
+    await saveExtraction({ calendarEvents: [], tasks: [], transactions });
+
+    const stored = await getRecord<JournalEntry>('entries', entry.id) || entry;
+    await saveEntry({ ...stored, ...(await getLinkedItems(entry.id)), lastModified: Date.now() }, 'ai');
+    return trashed;
+};
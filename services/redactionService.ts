@@ -0,0 +1,228 @@
+import { getMeta, setMeta, deleteMeta, getSecureMeta, setSecureMeta, getAllKeys, StoreName } from './db';
+import { LLMTask } from './llmProvider';
+
+// Privacy filter: sensitive spans (email addresses, phone and account numbers, ID numbers and the
+// user's "never send" names and places) are replaced with placeholders such as [PHONE_3F9A] before
+// text leaves the device, and put back in what the model returns. A value always gets the same
+// placeholder, so a name redacted in one message is recognisable in the next and in the search
+// index. Images are sent as they are.
+// The settings (with the never-send names) are kept encrypted in vault mode, and the log records
+// only which kinds of detail were replaced, never the details themselves.
+
+export type RedactionRule = 'email' | 'phone' | 'account' | 'idNumber';
+
+export const REDACTION_RULES: RedactionRule[] = ['email', 'phone', 'account', 'idNumber'];
+
+export type RedactionKind = 'NAME' | 'EMAIL' | 'PHONE' | 'ACCOUNT' | 'ID';
+
+export interface RedactionSettings {
+    enabled: boolean;
+    rules: Record<RedactionRule, boolean>;
+    neverSend: string[]; // Names and places, matched as whole words regardless of case
+}
+
+export interface RedactedSpan {
+    placeholder: string;
+    kind: RedactionKind;
+    value: string; // As it first appeared in the request
+    count: number; // Times it was replaced
+}
+
+// What the log keeps of a span
+export type LoggedSpan = Omit<RedactedSpan, 'value'>;
+
+export interface RedactionLogEntry {
+    id: string;
+    at: number;
+    task: LLMTask | 'embedding';
+    spans: LoggedSpan[];
+}
+
+const SETTINGS_KEY = 'redaction';
+const LOG_KEY = 'redactionSummary';
+// Earlier versions kept the settings, and a log with the replaced values, in plaintext meta
+const LEGACY_LOG_KEY = 'redactionLog';
+const MAX_LOG_ENTRIES = 100;
+
+const DEFAULT_SETTINGS: RedactionSettings = {
+    enabled: true,
+    rules: { email: true, phone: true, account: true, idNumber: true },
+    neverSend: []
+};
+
+// A number next to a currency is an amount, whatever its length
+const NOT_AFTER_CURRENCY = String.raw`(?<!(?:[₹$€£]|\b(?:rs|inr|usd|eur|gbp)\.?)\s?)`;
+const NOT_BEFORE_CURRENCY = String.raw`(?!\s?(?:rupees?|dollars?|euros?|pounds?|lakhs?|crores?|rs|inr|usd|eur|gbp)\b)`;
+
+// A number is taken for a phone number only when it is written like one: with a country code, a
+// leading trunk 0 (07700 900123), as an Indian mobile number (98765 43210), in the (555) 123-4567 or
+// 555-123-4567 layout, or right after a word such as "phone" or "call"
+const PHONE_FORMATS = [
+    String.raw`\+\d{1,3}[\s.-]?\(?\d{1,4}\)?(?:[\s.-]?\d){5,10}`,
+    String.raw`0\d(?:[\s.-]?\d){8,9}`,
+    String.raw`[6-9]\d{4}[\s-]?\d{5}`,
+    String.raw`\(\d{3}\)\s?\d{3}[\s.-]\d{4}`,
+    String.raw`\d{3}-\d{3}-\d{4}`,
+    String.raw`\d{3}\.\d{3}\.\d{4}`,
+    String.raw`(?<=\b(?:phone|mobile|mob|cell|tel|call(?:ed)?|whatsapp|contact|ph)\b[^\d\n]{0,12})\d(?:[\s.-]?\d){9,10}`
+];
+
+// Digits may be grouped with single spaces or dashes; a match never starts or ends inside a
+// longer number or word, nor on a time such as "2024-01-01 10:00"
+const PATTERNS: Record<RedactionRule, { kind: RedactionKind; pattern: RegExp }> = {
+    // Also covers UPI handles (name@bank)
+    email: { kind: 'EMAIL', pattern: /(?<![\w.+-])[\w.+-]+@[A-Za-z][\w-]*(?:\.[\w-]+)*(?![\w@])/g },
+    phone: {
+        kind: 'PHONE',
+        pattern: new RegExp(String.raw`(?<![\w+-])${NOT_AFTER_CURRENCY}(?:${PHONE_FORMATS.join('|')})(?![\w:]|[\s.-]?\d)${NOT_BEFORE_CURRENCY}`, 'gi')
+    },
+    // Bank accounts, cards and Aadhaar: 9 to 18 digits. Record ids are skipped by the redactor.
+    account: {
+        kind: 'ACCOUNT',
+        pattern: new RegExp(String.raw`(?<![\w-])${NOT_AFTER_CURRENCY}\d(?:[\s-]?\d){8,17}(?![\w:-]|[\s-]?\d)${NOT_BEFORE_CURRENCY}`, 'gi')
+    },
+    // PAN and IBAN
+    idNumber: { kind: 'ID', pattern: /\b(?:[A-Z]{5}\d{4}[A-Z]|[A-Z]{2}\d{2}[A-Z0-9]{11,30})\b/g }
+};
+
+const PLACEHOLDER = /\[(NAME|EMAIL|PHONE|ACCOUNT|ID)_[0-9A-Z]{4,}\]/g;
+
+// --- Settings ---
+
+export const getRedactionSettings = async (): Promise<RedactionSettings> => {
+    let stored = await getSecureMeta<Partial<RedactionSettings>>(SETTINGS_KEY);
+    const legacy = stored ? undefined : await getMeta<Partial<RedactionSettings>>(SETTINGS_KEY);
+    if (legacy) {
+        await setSecureMeta(SETTINGS_KEY, legacy);
+        await deleteMeta(SETTINGS_KEY);
+        stored = legacy;
+    }
+    return { ...DEFAULT_SETTINGS, ...stored, rules: { ...DEFAULT_SETTINGS.rules, ...stored?.rules } };
+};
+
+export const setRedactionSettings = async (settings: RedactionSettings): Promise<void> => {
+    const neverSend = [...new Set(settings.neverSend.map(term => term.trim()).filter(Boolean))];
+    await setSecureMeta(SETTINGS_KEY, { ...settings, neverSend });
+};
+
+// --- Redacting ---
+
+export interface Redactor {
+    redact(text: string): string;
+    // Every string inside objects and arrays, e.g. a tool result
+    redactValue<T>(value: T): T;
+    restore(text: string): string;
+    restoreValue<T>(value: T): T;
+    // What was replaced so far, in order of first appearance
+    spans(): RedactedSpan[];
+}
+
+// FNV-1a, so a value gets the same placeholder in every request
+const shortHash = (text: string, length: number): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36).toUpperCase().padStart(7, '0').slice(-length);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Record ids are millisecond timestamps, which look like account numbers, and prompts quote them
+const ID_STORES: StoreName[] = ['entries', 'calendar', 'tasks', 'finance'];
+
+const getRecordIds = async (): Promise<Set<string>> => {
+    const keys = await Promise.all(ID_STORES.map(getAllKeys));
+    return new Set(keys.flat().map(String));
+};
+
+const mapStrings = (value: any, map: (text: string) => string): any => {
+    if (typeof value === 'string') return map(value);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, map));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+    }
+    return value;
+};
+
+// One redactor per request: it remembers the placeholders it handed out, so the reply can be restored
+export const createRedactor = async (): Promise<Redactor> => {
+    const settings = await getRedactionSettings();
+    const byPlaceholder = new Map<string, RedactedSpan>();
+    const byKey = new Map<string, string>();
+
+    // Longer terms first, so "New Delhi" wins over "Delhi". Never inside a placeholder already made.
+    const terms = settings.enabled ? [...settings.neverSend].sort((a, b) => b.length - a.length) : [];
+    const termPattern = terms.length > 0
+        ? new RegExp(`(?<![\\p{L}\\p{N}_[])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+        : null;
+    const rules = settings.enabled ? REDACTION_RULES.filter(rule => settings.rules[rule]) : [];
+    const recordIds = rules.includes('account') ? await getRecordIds() : new Set<string>();
+
+    const placeholderFor = (kind: RedactionKind, value: string): string => {
+        // Case and digit grouping do not make a different value
+        const key = `${kind}:${kind === 'NAME' || kind === 'EMAIL' ? value.toLowerCase() : value.replace(/[^\dA-Za-z]/g, '')}`;
+        const known = byKey.get(key);
+        if (known) {
+            byPlaceholder.get(known)!.count++;
+            return known;
+        }
+        let placeholder = `[${kind}_${shortHash(key, 4)}]`;
+        if (byPlaceholder.has(placeholder)) placeholder = `[${kind}_${shortHash(key, 7)}]`;
+        byKey.set(key, placeholder);
+        byPlaceholder.set(placeholder, { placeholder, kind, value, count: 1 });
+        return placeholder;
+    };
+
+    const applyRule = (text: string, rule: RedactionRule) =>
+        text.replace(PATTERNS[rule].pattern, match => recordIds.has(match) ? match : placeholderFor(PATTERNS[rule].kind, match));
+
+    // Addresses go first, so a name inside one does not split it
+    const redact = (text: string): string => {
+        if (!text) return text;
+        let result = rules.includes('email') ? applyRule(text, 'email') : text;
+        if (termPattern) result = result.replace(termPattern, match => placeholderFor('NAME', match));
+        return rules.filter(rule => rule !== 'email').reduce(applyRule, result);
+    };
+
+    const restore = (text: string): string =>
+        text && byPlaceholder.size > 0 ? text.replace(PLACEHOLDER, match => byPlaceholder.get(match)?.value ?? match) : text;
+
+    return {
+        redact,
+        redactValue: value => mapStrings(value, redact),
+        restore,
+        restoreValue: value => mapStrings(value, restore),
+        spans: () => [...byPlaceholder.values()].map(span => ({ ...span }))
+    };
+};
+
+// --- Log ---
+
+// Writes run one after another, so overlapping requests never drop an entry
+let logQueue: Promise<unknown> = Promise.resolve();
+
+// Records what a request had redacted, without the values; requests with nothing redacted are not logged
+export const logRedactions = (task: RedactionLogEntry['task'], spans: RedactedSpan[]): Promise<void> => {
+    if (spans.length === 0) return Promise.resolve();
+    const run = logQueue.then(async () => {
+        const logged = spans.map(({ placeholder, kind, count }) => ({ placeholder, kind, count }));
+        const entry: RedactionLogEntry = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, at: Date.now(), task, spans: logged };
+        if (await getMeta(LEGACY_LOG_KEY)) await deleteMeta(LEGACY_LOG_KEY);
+        await setMeta(LOG_KEY, [entry, ...(await getRedactionLog())].slice(0, MAX_LOG_ENTRIES));
+    });
+    logQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Newest first
+export const getRedactionLog = async (): Promise<RedactionLogEntry[]> => {
+    if (await getMeta(LEGACY_LOG_KEY)) await deleteMeta(LEGACY_LOG_KEY);
+    return (await getMeta<RedactionLogEntry[]>(LOG_KEY)) || [];
+};
+
+export const clearRedactionLog = async (): Promise<void> => {
+    await setMeta(LOG_KEY, []);
+    await deleteMeta(LEGACY_LOG_KEY);
+};
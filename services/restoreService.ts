@@ -0,0 +1,242 @@
+import { JournalEntry, JournalMode, CalendarEvent, Task, FinanceTransaction, ChatMessage, MediaBlob } from '../types';
+import { getRecord, putRecords, runTransaction } from './db';
+import { CollectionName, DataPayload, ValidationReport, normalizePayload } from './schema';
+import { isEncryptedBackup, openBackup } from './cryptoService';
+import { saveMediaBlobs } from './mediaService';
+import { readBackupMedia } from './backupService';
+import {
+    getAllData, getEntries, getCalendarEvents, getTasks, getTransactions, getChatHistory,
+    saveEntry, saveCalendarEvents, saveTasks, saveTransactions, saveChatHistory, trashRecords, updateLastBackupTime
+} from './storageService';
+
+// Merge-mode restore. A backup is compared with the current data by id and timestamp, and each
+// collection is restored with its own strategy. The current data is snapshotted first so the
+// whole restore can be rolled back.
+
+export type RestoreStrategy = 'overwrite' | 'keepNewer' | 'keepBoth';
+
+export const RESTORE_COLLECTIONS: CollectionName[] = ['entries', 'calendar', 'tasks', 'finance', 'chatPersonal', 'chatProf'];
+
+export interface PreparedRestore {
+    data: DataPayload;
+    report: ValidationReport;
+    media: MediaBlob[]; // Stored only when the restore is applied
+}
+
+export interface CollectionPreview {
+    inBackup: number;
+    current: number;
+    added: number;
+    updated: number;
+    skipped: number;
+    removed: number;
+}
+
+export type RestorePreview = Partial<Record<CollectionName, CollectionPreview>>;
+
+export interface RestoreSnapshot {
+    id: string;
+    createdAt: number;
+    data: DataPayload;
+}
+
+const SNAPSHOT_ID = 'beforeRestore';
+
+interface CollectionPlan {
+    writes: any[];
+    removals: string[];
+    preview: CollectionPreview;
+}
+
+// Decrypts the backup if needed, upgrades it to the current schema and repairs or drops malformed records.
+// Images (from the archive, or moved out of older backups' records by the schema migration) are held
+// with the prepared restore and only stored when it is applied, so nothing waits in the media store
+// for records that may never be written.
+export const prepareRestore = async (backup: any, passphrase?: string, files?: Map<string, Uint8Array>): Promise<PreparedRestore> => {
+    let key: CryptoKey | undefined;
+    if (isEncryptedBackup(backup)) {
+        if (!passphrase) throw new Error("BACKUP_PASSPHRASE_REQUIRED");
+        ({ payload: backup, key } = await openBackup<any>(backup, passphrase));
+    }
+    const archived = files ? await readBackupMedia(backup, files, key) : [];
+
+    const { data, report } = await normalizePayload(backup);
+    const media = [...archived, ...(data.movedMedia || [])];
+    delete data.media;
+    delete data.movedMedia;
+    if (report.issues.length > 0) console.warn("Backup repaired during restore", report);
+    return { data, report, media };
+};
+
+const loadCurrent = async (collection: CollectionName): Promise<any[]> => {
+    switch (collection) {
+        case 'entries': return getEntries();
+        case 'calendar': return getCalendarEvents();
+        case 'tasks': return getTasks();
+        case 'finance': return getTransactions();
+        case 'chatPersonal': return getChatHistory(JournalMode.PERSONAL);
+        case 'chatProf': return getChatHistory(JournalMode.PROFESSIONAL);
+    }
+};
+
+const stampOf = (record: any): number => record.lastModified ?? record.timestamp ?? 0;
+
+// Revision counters are device bookkeeping, not content
+const sameContent = (a: any, b: any) => {
+    const { revision: ra, ...restA } = a;
+    const { revision: rb, ...restB } = b;
+    return JSON.stringify(restA) === JSON.stringify(restB);
+};
+
+const copyId = (id: string) => `${id}-restored-${Date.now().toString(36)}`;
+
+// Entries copied under a new id (keep both) take their backup's linked items with them
+const planCollection = (
+    collection: CollectionName,
+    incoming: any[],
+    current: any[],
+    strategy: RestoreStrategy,
+    entryIdMap: Map<string, string>
+): CollectionPlan => {
+    const currentById = new Map(current.map(r => [r.id, r]));
+    const incomingIds = new Set(incoming.map(r => r.id));
+    const preview: CollectionPreview = { inBackup: incoming.length, current: current.length, added: 0, updated: 0, skipped: 0, removed: 0 };
+    const writes: any[] = [];
+
+    incoming.forEach(raw => {
+        const record = raw.linkedEntryId && entryIdMap.has(raw.linkedEntryId)
+            ? { ...raw, linkedEntryId: entryIdMap.get(raw.linkedEntryId) }
+            : raw;
+        const existing = currentById.get(record.id);
+
+        if (!existing) {
+            writes.push(record);
+            preview.added++;
+        } else if (sameContent(existing, record)) {
+            preview.skipped++;
+        } else if (strategy === 'overwrite' || (strategy === 'keepNewer' && stampOf(record) > stampOf(existing))) {
+            writes.push({ ...record, revision: existing.revision });
+            preview.updated++;
+        } else if (strategy === 'keepBoth') {
+            const id = copyId(record.id);
+            if (collection === 'entries') entryIdMap.set(record.id, id);
+            writes.push({ ...record, id, revision: undefined });
+            preview.added++;
+        } else {
+            preview.skipped++;
+        }
+    });
+
+    const removals = strategy === 'overwrite' ? current.filter(r => !incomingIds.has(r.id)).map(r => r.id) : [];
+    preview.removed = removals.length;
+    return { writes, removals, preview };
+};
+
+const planRestore = async (data: DataPayload, strategies: Partial<Record<CollectionName, RestoreStrategy>>) => {
+    const plans: Partial<Record<CollectionName, CollectionPlan>> = {};
+    const entryIdMap = new Map<string, string>();
+    for (const collection of RESTORE_COLLECTIONS) {
+        const strategy = strategies[collection];
+        if (!strategy || !Array.isArray(data[collection])) continue;
+        plans[collection] = planCollection(collection, data[collection], await loadCurrent(collection), strategy, entryIdMap);
+    }
+    return plans;
+};
+
+// Counts of what each strategy would change, without writing anything
+export const previewRestore = async (
+    data: DataPayload,
+    strategies: Partial<Record<CollectionName, RestoreStrategy>>
+): Promise<RestorePreview> => {
+    const plans = await planRestore(data, strategies);
+    const preview: RestorePreview = {};
+    (Object.keys(plans) as CollectionName[]).forEach(c => { preview[c] = plans[c]!.preview; });
+    return preview;
+};
+
+const writeCollection = async (collection: CollectionName, plan: CollectionPlan, current: any[]) => {
+    switch (collection) {
+        case 'entries':
+            for (const entry of plan.writes as JournalEntry[]) await saveEntry(entry, 'import');
+            break;
+        case 'calendar':
+            if (plan.writes.length) await saveCalendarEvents(plan.writes as CalendarEvent[]);
+            break;
+        case 'tasks':
+            if (plan.writes.length) await saveTasks(plan.writes as Task[]);
+            break;
+        case 'finance':
+            if (plan.writes.length) await saveTransactions(plan.writes as FinanceTransaction[]);
+            break;
+        case 'chatPersonal':
+        case 'chatProf': {
+            // Chat is saved as a whole list per mode
+            const removed = new Set(plan.removals);
+            const written = new Map(plan.writes.map(m => [m.id, m]));
+            const merged: ChatMessage[] = [
+                ...current.filter(m => !removed.has(m.id)).map(m => written.get(m.id) || m),
+                ...plan.writes.filter(m => !current.some(c => c.id === m.id))
+            ].sort((a, b) => a.timestamp - b.timestamp);
+            await saveChatHistory(collection === 'chatPersonal' ? JournalMode.PERSONAL : JournalMode.PROFESSIONAL, merged);
+            return;
+        }
+    }
+    // Records the backup no longer has go to the trash rather than disappearing
+    if (plan.removals.length) await trashRecords(collection, plan.removals);
+};
+
+const applyPlans = async (plans: Partial<Record<CollectionName, CollectionPlan>>) => {
+    for (const collection of RESTORE_COLLECTIONS) {
+        const plan = plans[collection];
+        if (plan) await writeCollection(collection, plan, await loadCurrent(collection));
+    }
+};
+
+// Snapshots the current data, stores the backup's images, then restores each collection that has a strategy
+export const applyRestore = async (
+    data: DataPayload,
+    strategies: Partial<Record<CollectionName, RestoreStrategy>>,
+    media: MediaBlob[] = []
+): Promise<RestorePreview> => {
+    const snapshot: RestoreSnapshot = { id: SNAPSHOT_ID, createdAt: Date.now(), data: await getAllData() };
+    await putRecords('snapshots', [snapshot]);
+    await saveMediaBlobs(media);
+
+    const plans = await planRestore(data, strategies);
+    await applyPlans(plans);
+    if (data.lastBackup) await updateLastBackupTime(Number(data.lastBackup));
+
+    const preview: RestorePreview = {};
+    (Object.keys(plans) as CollectionName[]).forEach(c => { preview[c] = plans[c]!.preview; });
+    return preview;
+};
+
+export const getRestoreSnapshotTime = async (): Promise<number | undefined> => {
+    try {
+        return (await getRecord<RestoreSnapshot>('snapshots', SNAPSHOT_ID))?.createdAt;
+    } catch (error) {
+        return undefined;
+    }
+};
+
+// Puts every collection back exactly as it was before the last restore
+export const rollbackRestore = async (): Promise<void> => {
+    const snapshot = await getRecord<RestoreSnapshot>('snapshots', SNAPSHOT_ID);
+    if (!snapshot) throw new Error("There is no restore to roll back.");
+
+    const strategies = Object.fromEntries(RESTORE_COLLECTIONS.map(c => [c, 'overwrite' as RestoreStrategy]));
+    await applyPlans(await planRestore(snapshot.data, strategies));
+    if (snapshot.data.lastBackup) await updateLastBackupTime(Number(snapshot.data.lastBackup));
+
+    await runTransaction('snapshots', 'readwrite', tx => { tx.objectStore('snapshots').delete(SNAPSHOT_ID); });
+};
+
+export const summarizePreview = (preview: RestorePreview): string => {
+    const totals = Object.values(preview).reduce(
+        (sum, p) => ({ added: sum.added + p!.added, updated: sum.updated + p!.updated, removed: sum.removed + p!.removed }),
+        { added: 0, updated: 0, removed: 0 }
+    );
+    const parts = [`${totals.added} added`, `${totals.updated} updated`];
+    if (totals.removed) parts.push(`${totals.removed} moved to Trash`);
+    return parts.join(', ');
+};
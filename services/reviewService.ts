@@ -0,0 +1,126 @@
+import { JournalEntry, CalendarEvent, Task, FinanceTransaction, ReviewItem, ReviewKind } from '../types';
+import { getAllRecords, getRecord, putRecords, deleteRecords, getMeta, setMeta } from './db';
+import { saveEntry, addCalendarEvents, saveCalendarEvents, addTasks, saveTasks, addTransactions, saveTransactions, getLinkedItems } from './storageService';
+import { resolveDuplicates, saveDuplicateCandidates } from './dedupService';
+
+// "Review before save": records extracted from the chat wait in the 'review' store until the user
+// approves them, instead of going straight into the journal, calendar, tasks and ledger.
+
+const REVIEW_MODE_KEY = 'reviewBeforeSave';
+const KIND_ORDER: ReviewKind[] = ['entry', 'event', 'task', 'transaction'];
+
+// Everything extracted from one batch of chat messages
+export interface Extraction {
+    entry?: JournalEntry;
+    calendarEvents: CalendarEvent[];
+    tasks: Task[];
+    transactions: FinanceTransaction[];
+}
+
+export const getReviewBeforeSave = async (): Promise<boolean> => {
+    return (await getMeta<boolean>(REVIEW_MODE_KEY)) === true;
+};
+
+export const setReviewBeforeSave = async (enabled: boolean): Promise<void> => {
+    await setMeta(REVIEW_MODE_KEY, enabled);
+};
+
+// Writes an extraction to storage (straight away without review, or once approved). Records that
+// repeat saved ones are merged into them, and borderline matches are flagged for the user.
+export const saveExtraction = async (extraction: Extraction): Promise<void> => {
+    const { extraction: { entry, calendarEvents, tasks, transactions }, merged, candidates } = await resolveDuplicates(extraction);
+
+    if (calendarEvents.length > 0) await addCalendarEvents(calendarEvents);
+    if (tasks.length > 0) await addTasks(tasks);
+    if (transactions.length > 0) await addTransactions(transactions);
+    if (merged.calendarEvents.length > 0) await saveCalendarEvents(merged.calendarEvents);
+    if (merged.tasks.length > 0) await saveTasks(merged.tasks);
+    if (merged.transactions.length > 0) await saveTransactions(merged.transactions);
+    await saveDuplicateCandidates(candidates);
+
+    // The entry lists what ended up linked to it as stored, including existing records that absorbed
+    // a duplicate and records a retried batch left untouched
+    if (entry) await saveEntry({ ...entry, ...(await getLinkedItems(entry.id)) }, 'ai');
+};
+
+// --- Inbox ---
+
+export const getReviewItems = async (): Promise<ReviewItem[]> => {
+    const items = await getAllRecords<ReviewItem>('review');
+    return items.sort((a, b) => b.createdAt - a.createdAt || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+};
+
+export const queueForReview = async ({ entry, calendarEvents, tasks, transactions }: Extraction, sourceMessageIds: string[]): Promise<void> => {
+    const createdAt = Date.now();
+    const batchId = entry?.id || sourceMessageIds[0] || createdAt.toString();
+    const toItem = (kind: ReviewKind, record: ReviewItem['record']): ReviewItem => ({
+        id: `${kind}:${record.id}`,
+        batchId,
+        kind,
+        record,
+        sourceMessageIds,
+        createdAt
+    });
+
+    const items = [
+        // The entry's copies of its linked items are rebuilt from whatever is approved
+        ...(entry ? [toItem('entry', { ...entry, calendarEvents: [], tasks: [], transactions: [] })] : []),
+        ...calendarEvents.map(e => toItem('event', e)),
+        ...tasks.map(t => toItem('task', t)),
+        ...transactions.map(t => toItem('transaction', t))
+    ];
+    if (items.length > 0) await putRecords('review', items);
+};
+
+// Saves edits made to an item before it is approved
+export const updateReviewItem = async (item: ReviewItem): Promise<void> => {
+    await putRecords('review', [item]);
+};
+
+export const rejectReviewItems = async (items: ReviewItem[]): Promise<void> => {
+    await deleteRecords('review', items.map(item => item.id));
+};
+
+// Persists the approved items and removes them from the inbox. Events, tasks and transactions stay
+// linked to their entry only while it is saved or still waiting for review; an entry's copies of
+// its linked items are refreshed from what has been approved so far.
+export const approveReviewItems = async (items: ReviewItem[]): Promise<void> => {
+    const approvedIds = new Set(items.map(item => item.id));
+    const approvedEntries = items.filter(item => item.kind === 'entry').map(item => item.record as JournalEntry);
+    const pendingEntryIds = new Set((await getReviewItems())
+        .filter(item => item.kind === 'entry' && !approvedIds.has(item.id))
+        .map(item => item.record.id));
+
+    const touchedEntryIds = new Set(approvedEntries.map(entry => entry.id));
+    const keepLink = async (entryId?: string): Promise<string | undefined> => {
+        if (!entryId) return undefined;
+        if (touchedEntryIds.has(entryId) || pendingEntryIds.has(entryId)) return entryId;
+        if (await getRecord<JournalEntry>('entries', entryId)) {
+            touchedEntryIds.add(entryId);
+            return entryId;
+        }
+        return undefined;
+    };
+    const relink = async <T extends { linkedEntryId?: string }>(kind: ReviewKind): Promise<T[]> => {
+        const records: T[] = [];
+        for (const item of items.filter(i => i.kind === kind)) {
+            const record = item.record as unknown as T;
+            records.push({ ...record, linkedEntryId: await keepLink(record.linkedEntryId) });
+        }
+        return records;
+    };
+
+    const calendarEvents = await relink<CalendarEvent>('event');
+    const tasks = await relink<Task>('task');
+    const transactions = await relink<FinanceTransaction>('transaction');
+    await saveExtraction({ calendarEvents, tasks, transactions });
+
+    for (const entryId of touchedEntryIds) {
+        const entry = approvedEntries.find(e => e.id === entryId) || await getRecord<JournalEntry>('entries', entryId);
+        if (!entry) continue;
+        const linked = await getLinkedItems(entryId);
+        await saveEntry({ ...entry, ...linked, lastModified: Date.now() }, 'ai');
+    }
+
+    await deleteRecords('review', [...approvedIds]);
+};
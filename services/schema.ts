@@ -0,0 +1,404 @@
+import { JournalEntry, JournalMode, CalendarEvent, Task, FinanceTransaction, ChatMessage, MediaBlob, MediaRef } from '../types';
+import { fromBase64, hashMedia } from './cryptoService';
+
+// Data schema versioning. Every backup produced by getAllData() and the IndexedDB meta store
+// carry a schemaVersion. Older payloads are upgraded step by step through MIGRATIONS and then
+// validated so malformed records are repaired (or dropped) instead of being written blindly.
+
+// Payloads without a version predate versioning and have the v1 shape.
+export const LEGACY_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface DataPayload {
+    schemaVersion?: number;
+    entries?: any[];
+    calendar?: any[];
+    tasks?: any[];
+    finance?: any[];
+    chatPersonal?: any[];
+    chatProf?: any[];
+    // Entry history and the trash are only present when the stored database is upgraded
+    entryRevisions?: any[];
+    trash?: any[];
+    movedMedia?: MediaBlob[]; // Images a migration took out of the records; the caller puts them in the media store
+    [key: string]: any;
+}
+
+export interface Migration {
+    from: number;
+    to: number;
+    description: string;
+    migrate: (payload: DataPayload) => DataPayload | Promise<DataPayload>;
+}
+
+const isObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+const stampLastModified = (records: any[] | undefined, stamp: number) => {
+    if (!Array.isArray(records)) return records;
+    return records.map(r => isObject(r) && typeof r.lastModified !== 'number' ? { ...r, lastModified: stamp } : r);
+};
+
+const stampMode = (records: any[] | undefined) => {
+    if (!Array.isArray(records)) return records;
+    return records.map(r => isObject(r) && r.mode === undefined ? { ...r, mode: JournalMode.PERSONAL } : r);
+};
+
+// Inline base64 images become references; the bytes are collected in moved, keyed by their hash
+const toMediaRefs = async (media: any, moved: Map<string, MediaBlob>): Promise<any> => {
+    if (!Array.isArray(media) || !media.some(m => isObject(m) && typeof m.content === 'string')) return media;
+    const refs: any[] = [];
+    for (const m of media) {
+        if (!isObject(m) || typeof m.content !== 'string') {
+            refs.push(m);
+            continue;
+        }
+        const mimeType = typeof m.mimeType === 'string' ? m.mimeType : 'image/jpeg';
+        const mediaId = await hashMedia(m.content);
+        if (!moved.has(mediaId)) moved.set(mediaId, { id: mediaId, mimeType, data: m.content, size: fromBase64(m.content).length, createdAt: Date.now() });
+        refs.push({ type: 'image', mediaId, mimeType } as MediaRef);
+    }
+    return refs;
+};
+
+const moveEntryMedia = async (records: any[] | undefined, moved: Map<string, MediaBlob>) => {
+    if (!Array.isArray(records)) return records;
+    const result: any[] = [];
+    for (const r of records) result.push(isObject(r) && r.media ? { ...r, media: await toMediaRefs(r.media, moved) } : r);
+    return result;
+};
+
+// Trashed records are migrated like the collection they came from
+const migrateTrash = async (items: any[] | undefined, moved: Map<string, MediaBlob>) => {
+    if (!Array.isArray(items)) return items;
+    const result: any[] = [];
+    for (const item of items) {
+        if (!isObject(item) || !isObject(item.record)) {
+            result.push(item);
+            continue;
+        }
+        const [record] = item.collection === 'entries' ? (await moveEntryMedia([item.record], moved))! : stampMode([item.record])!;
+        result.push({ ...item, record });
+    }
+    return result;
+};
+
+const moveAttachmentMedia = async (messages: any[] | undefined, moved: Map<string, MediaBlob>) => {
+    if (!Array.isArray(messages)) return messages;
+    const result: any[] = [];
+    for (const m of messages) {
+        const attachment = isObject(m) ? m.attachment : undefined;
+        if (!isObject(attachment) || attachment.type !== 'image' || typeof attachment.content !== 'string') {
+            result.push(m);
+            continue;
+        }
+        const [ref] = await toMediaRefs([attachment], moved);
+        result.push({ ...m, attachment: { type: 'image', mediaId: ref.mediaId, mimeType: ref.mimeType, name: attachment.name } });
+    }
+    return result;
+};
+
+// Ordered list of upgrade steps. To change a stored type, bump CURRENT_SCHEMA_VERSION and
+// append a step that rewrites payloads from the previous version.
+export const MIGRATIONS: Migration[] = [
+    {
+        from: 1,
+        to: 2,
+        description: 'Stamp lastModified on calendar events, tasks and transactions for sync change tracking',
+        migrate: (payload) => {
+            const stamp = typeof payload.timestamp === 'number' ? payload.timestamp : Date.now();
+            return {
+                ...payload,
+                calendar: stampLastModified(payload.calendar, stamp),
+                tasks: stampLastModified(payload.tasks, stamp),
+                finance: stampLastModified(payload.finance, stamp)
+            };
+        }
+    },
+    {
+        from: 2,
+        to: 3,
+        description: 'Stamp the personal workspace on calendar events, tasks and transactions without one, and move inline images (also in entry history and the trash) into the media store',
+        migrate: async (payload) => {
+            const moved = new Map<string, MediaBlob>();
+            const result: DataPayload = {
+                ...payload,
+                calendar: stampMode(payload.calendar),
+                tasks: stampMode(payload.tasks),
+                finance: stampMode(payload.finance),
+                entries: await moveEntryMedia(payload.entries, moved),
+                entryRevisions: await moveEntryMedia(payload.entryRevisions, moved),
+                trash: await migrateTrash(payload.trash, moved),
+                chatPersonal: await moveAttachmentMedia(payload.chatPersonal, moved),
+                chatProf: await moveAttachmentMedia(payload.chatProf, moved)
+            };
+            if (moved.size > 0) result.movedMedia = [...moved.values()];
+            return result;
+        }
+    }
+];
+
+export const getPayloadVersion = (payload: DataPayload): number => {
+    const version = Number(payload.schemaVersion);
+    return Number.isInteger(version) && version > 0 ? version : LEGACY_SCHEMA_VERSION;
+};
+
+export const migratePayload = async (payload: DataPayload): Promise<DataPayload> => {
+    let version = getPayloadVersion(payload);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Data was created by a newer version of the app (schema v${version}, this app supports v${CURRENT_SCHEMA_VERSION}).`);
+    }
+
+    let result = { ...payload };
+    while (version < CURRENT_SCHEMA_VERSION) {
+        const step = MIGRATIONS.find(m => m.from === version);
+        if (!step) throw new Error(`No migration registered from schema v${version}`);
+        result = await step.migrate(result);
+        version = step.to;
+    }
+    return { ...result, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// --- Validation & Repair ---
+export type CollectionName = 'entries' | 'calendar' | 'tasks' | 'finance' | 'chatPersonal' | 'chatProf';
+
+export interface ValidationIssue {
+    collection: CollectionName;
+    id?: string;
+    action: 'repaired' | 'dropped';
+    problems: string[];
+}
+
+export interface ValidationReport {
+    fromVersion: number;
+    toVersion: number;
+    issues: ValidationIssue[];
+    repaired: number;
+    dropped: number;
+}
+
+type Validator<T> = (raw: any, problems: string[]) => T | null;
+
+const toId = (raw: any, problems: string[]): string => {
+    if (typeof raw.id === 'string' && raw.id) return raw.id;
+    if (typeof raw.id === 'number') {
+        problems.push('id was a number');
+        return raw.id.toString();
+    }
+    problems.push('missing id');
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+};
+
+const toIsoDate = (value: any, field: string, problems: string[], fallback?: string): string | undefined => {
+    if (typeof value === 'string' && !isNaN(new Date(value).getTime())) return value;
+    if (typeof value === 'number' && !isNaN(new Date(value).getTime())) {
+        problems.push(`${field} was a timestamp`);
+        return new Date(value).toISOString();
+    }
+    if (value !== undefined && value !== null) problems.push(`invalid ${field}`);
+    else if (fallback !== undefined) problems.push(`missing ${field}`);
+    return fallback;
+};
+
+const toStringField = (value: any, field: string, problems: string[], fallback = ''): string => {
+    if (typeof value === 'string') return value;
+    if (value !== undefined && value !== null) {
+        problems.push(`${field} was not text`);
+        return String(value);
+    }
+    return fallback;
+};
+
+const toLastModified = (raw: any, problems: string[]): number => {
+    if (typeof raw.lastModified === 'number') return raw.lastModified;
+    problems.push('missing lastModified');
+    return Date.now();
+};
+
+const toMode = (raw: any, problems: string[]): JournalMode => {
+    if (Object.values(JournalMode).includes(raw.mode)) return raw.mode;
+    problems.push(raw.mode === undefined ? 'missing mode' : 'invalid mode');
+    return JournalMode.PERSONAL;
+};
+
+const validateEntry: Validator<JournalEntry> = (raw, problems) => {
+    const lastModified = toLastModified(raw, problems);
+
+    const date = toIsoDate(raw.date, 'date', problems, new Date(lastModified).toISOString())!;
+    const mode = toMode(raw, problems);
+
+    let tags: string[] = [];
+    if (Array.isArray(raw.tags)) {
+        tags = raw.tags.filter((t: any) => typeof t === 'string');
+        if (tags.length !== raw.tags.length) problems.push('non-text tags removed');
+    } else if (raw.tags !== undefined) {
+        problems.push('tags was not a list');
+    }
+
+    const entry: JournalEntry = {
+        ...raw,
+        id: toId(raw, problems),
+        title: toStringField(raw.title, 'title', problems),
+        content: toStringField(raw.content, 'content', problems),
+        date,
+        mode,
+        tags,
+        lastModified
+    };
+
+    if (raw.media !== undefined) {
+        // Inline images were turned into references by the v3 migration
+        const media = Array.isArray(raw.media)
+            ? raw.media.filter((m: any) => isObject(m) && typeof m.mediaId === 'string' && m.mediaId)
+            : [];
+        if (!Array.isArray(raw.media) || media.length !== raw.media.length) problems.push('invalid media removed');
+        entry.media = media.map((m: any) => ({ type: 'image', mediaId: m.mediaId, mimeType: m.mimeType || 'image/jpeg' }));
+    }
+    return entry;
+};
+
+const validateEvent: Validator<CalendarEvent> = (raw, problems) => {
+    const startTime = toIsoDate(raw.startTime, 'startTime', problems);
+    if (!startTime) {
+        problems.push('missing startTime');
+        return null;
+    }
+    const endTime = toIsoDate(raw.endTime, 'endTime', problems, new Date(new Date(startTime).getTime() + 3600000).toISOString())!;
+    return {
+        ...raw,
+        id: toId(raw, problems),
+        title: toStringField(raw.title, 'title', problems, 'Untitled Event'),
+        startTime,
+        endTime,
+        mode: toMode(raw, problems),
+        lastModified: toLastModified(raw, problems)
+    };
+};
+
+const validateTask: Validator<Task> = (raw, problems) => {
+    const title = toStringField(raw.title, 'title', problems);
+    if (!title.trim()) {
+        problems.push('missing title');
+        return null;
+    }
+    if (typeof raw.completed !== 'boolean') problems.push('completed was not a boolean');
+    const task: Task = {
+        ...raw,
+        id: toId(raw, problems),
+        title,
+        completed: raw.completed === true || raw.completed === 'true',
+        mode: toMode(raw, problems),
+        lastModified: toLastModified(raw, problems)
+    };
+    if (raw.dueDate !== undefined) task.dueDate = toIsoDate(raw.dueDate, 'dueDate', problems);
+    return task;
+};
+
+const validateTransaction: Validator<FinanceTransaction> = (raw, problems) => {
+    let amount = raw.amount;
+    if (typeof amount !== 'number') {
+        amount = parseFloat(String(amount ?? '').replace(/[^0-9.-]/g, ''));
+        problems.push('amount was not a number');
+    }
+    if (!isFinite(amount)) {
+        problems.push('unreadable amount');
+        return null;
+    }
+    const type = raw.type === 'income' || raw.type === 'expense' ? raw.type : 'expense';
+    if (type !== raw.type) problems.push('invalid type');
+
+    return {
+        ...raw,
+        id: toId(raw, problems),
+        amount,
+        type,
+        category: toStringField(raw.category, 'category', problems, 'Uncategorized') || 'Uncategorized',
+        description: toStringField(raw.description, 'description', problems),
+        date: toIsoDate(raw.date, 'date', problems, new Date().toISOString())!,
+        mode: toMode(raw, problems),
+        lastModified: toLastModified(raw, problems)
+    };
+};
+
+const validateChatMessage: Validator<ChatMessage> = (raw, problems) => {
+    if (raw.role !== 'user' && raw.role !== 'model') {
+        problems.push('invalid role');
+        return null;
+    }
+    const timestamp = typeof raw.timestamp === 'number' ? raw.timestamp : Number(raw.id) || Date.now();
+    if (typeof raw.timestamp !== 'number') problems.push('missing timestamp');
+    return { ...raw, id: toId(raw, problems), text: toStringField(raw.text, 'text', problems), timestamp };
+};
+
+const VALIDATORS: Record<CollectionName, Validator<any>> = {
+    entries: validateEntry,
+    calendar: validateEvent,
+    tasks: validateTask,
+    finance: validateTransaction,
+    chatPersonal: validateChatMessage,
+    chatProf: validateChatMessage
+};
+
+const validateCollection = (collection: CollectionName, records: any, issues: ValidationIssue[]): any[] | undefined => {
+    if (records === undefined) return undefined;
+    if (!Array.isArray(records)) {
+        issues.push({ collection, action: 'dropped', problems: ['collection was not a list'] });
+        return undefined;
+    }
+
+    const seen = new Set<string>();
+    const valid: any[] = [];
+    records.forEach(raw => {
+        const problems: string[] = [];
+        if (!isObject(raw)) {
+            issues.push({ collection, action: 'dropped', problems: ['record was not an object'] });
+            return;
+        }
+        const record = VALIDATORS[collection](raw, problems);
+        const id = record?.id ?? (typeof raw.id === 'string' ? raw.id : undefined);
+        if (!record) {
+            issues.push({ collection, id, action: 'dropped', problems });
+            return;
+        }
+        if (seen.has(record.id)) {
+            issues.push({ collection, id, action: 'dropped', problems: [...problems, 'duplicate id'] });
+            return;
+        }
+        seen.add(record.id);
+        if (problems.length > 0) issues.push({ collection, id, action: 'repaired', problems });
+        valid.push(record);
+    });
+    return valid;
+};
+
+// Upgrades a payload to the current schema and validates every collection it contains
+export const normalizePayload = async (payload: DataPayload): Promise<{ data: DataPayload; report: ValidationReport }> => {
+    const fromVersion = getPayloadVersion(payload);
+    const migrated = await migratePayload(payload);
+    const issues: ValidationIssue[] = [];
+
+    const data: DataPayload = { ...migrated };
+    (Object.keys(VALIDATORS) as CollectionName[]).forEach(collection => {
+        const valid = validateCollection(collection, migrated[collection], issues);
+        if (valid) data[collection] = valid;
+        else delete data[collection];
+    });
+
+    return {
+        data,
+        report: {
+            fromVersion,
+            toVersion: CURRENT_SCHEMA_VERSION,
+            issues,
+            repaired: issues.filter(i => i.action === 'repaired').length,
+            dropped: issues.filter(i => i.action === 'dropped').length
+        }
+    };
+};
+
+export const describeReport = (report: ValidationReport): string => {
+    const parts: string[] = [];
+    if (report.fromVersion !== report.toVersion) parts.push(`upgraded from v${report.fromVersion} to v${report.toVersion}`);
+    if (report.repaired) parts.push(`${report.repaired} record${report.repaired === 1 ? '' : 's'} repaired`);
+    if (report.dropped) parts.push(`${report.dropped} record${report.dropped === 1 ? '' : 's'} skipped`);
+    return parts.join(', ');
+};
@@ -1,182 +1,536 @@
-import { JournalEntry, JournalMode, CalendarEvent, Task, FinanceTransaction, ChatMessage } from '../types';
+import { JournalEntry, EntryMood, JournalMode, CalendarEvent, Task, FinanceTransaction, ChatMessage, Tombstone, EntryRevision, RevisionSource, TrashItem } from '../types';
+import {
+    runTransaction, promisifyRequest, encodeRecords,
+    getAllRecords, getAllByIndex, getRecord, putRecords, addRecordsIfAbsent, updateRecord,
+    getMeta, setMeta, onStoresWritten, StoreName
+} from './db';
+import { CURRENT_SCHEMA_VERSION } from './schema';
 
-const STORAGE_KEY = 'gemini_journal_data_v1';
-const CALENDAR_KEY = 'gemini_journal_calendar_v1';
-const TASKS_KEY = 'gemini_journal_tasks_v1';
-const FINANCE_KEY = 'gemini_journal_finance_v1';
-const CHAT_PERSONAL_KEY = 'gemini_journal_chat_personal_v1';
-const CHAT_PROF_KEY = 'gemini_journal_chat_prof_v1';
-const BACKUP_TIMESTAMP_KEY = 'gemini_journal_last_backup';
+const BACKUP_TIMESTAMP_KEY = 'lastBackup';
+const TRASH_RETENTION_KEY = 'trashRetentionDays';
+const ACTIVE_MODE_KEY = 'journalMode';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+type Collection = Tombstone['collection'];
+
+// --- Change Tracking ---
+// Every local write stamps lastModified and bumps the record's revision, and every delete
+// leaves a tombstone (see Trash below), so the sync engine can tell what changed since it last synced.
+// The revision continues from the stored copy, so saving a stale in-memory copy still counts as newer.
+const touch = async <T extends { id: string; revision?: number }>(collection: Collection, records: T[]): Promise<T[]> => {
+    const now = Date.now();
+    const stored = await Promise.all(records.map(r => getRecord<T>(collection, r.id)));
+    return records.map((r, i) => ({
+        ...r,
+        lastModified: now,
+        revision: Math.max(r.revision || 0, stored[i]?.revision || 0) + 1
+    }));
+};
 
 // --- Entries ---
-export const getEntries = (): JournalEntry[] => {
+export const getEntries = async (): Promise<JournalEntry[]> => {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    return await getAllRecords<JournalEntry>('entries');
   } catch (error) {
     console.error("Failed to load entries", error);
     return [];
   }
 };
 
-export const saveEntry = (entry: JournalEntry): void => {
-  const entries = getEntries();
-  const existingIndex = entries.findIndex(e => e.id === entry.id);
-  
-  if (existingIndex >= 0) {
-    entries[existingIndex] = entry;
+// Entries whose ISO date falls within [start, end]
+export const getEntriesInRange = async (start: Date, end: Date): Promise<JournalEntry[]> => {
+    try {
+        return await getAllByIndex<JournalEntry>('entries', 'date', IDBKeyRange.bound(start.toISOString(), end.toISOString()));
+    } catch (error) {
+        console.error("Failed to load entries in range", error);
+        return [];
+    }
+};
+
+// Saves the entry and appends a revision to its history when the visible content changed
+export const saveEntry = async (entry: JournalEntry, source: RevisionSource = 'manual'): Promise<void> => {
+  const [stamped] = await touch('entries', [entry]);
+  const history = await getAllByIndex<EntryRevision>('entryRevisions', 'entryId', entry.id);
+  const snapshots: EntryRevision[] = [];
+
+  let latest = history.sort((a, b) => b.revision - a.revision)[0];
+  if (!latest) {
+      // Entries written before history was kept get their stored version as the first revision
+      const stored = await getRecord<JournalEntry>('entries', entry.id);
+      if (stored) {
+          latest = toRevision(stored);
+          snapshots.push(latest);
+      }
+  }
+  const next = toRevision(stamped, source);
+  if (!latest || !sameRevisionContent(latest, next)) snapshots.push(next);
+
+  const [encodedEntry] = await encodeRecords('entries', [stamped]);
+  const encodedSnapshots = await encodeRecords('entryRevisions', snapshots);
+  await runTransaction(['entries', 'entryRevisions'], 'readwrite', tx => {
+      tx.objectStore('entries').put(encodedEntry);
+      encodedSnapshots.forEach(r => tx.objectStore('entryRevisions').put(r));
+  });
+};
+
+// Stores the AI's mood score on the entry. Not a content change, so no revision is recorded.
+export const saveEntryMood = async (id: string, mood: EntryMood): Promise<void> => {
+    await updateRecord<JournalEntry>('entries', id, e => ({ ...e, mood, lastModified: Date.now(), revision: (e.revision || 0) + 1 }));
+};
+
+// Moves the entry to the trash. With cascade its linked events, tasks and transactions go too;
+// otherwise they are detached from it (and reattached if the entry is restored).
+export const deleteEntry = async (id: string, cascade = false): Promise<TrashItem[]> => {
+  const entry = await getRecord<JournalEntry>('entries', id);
+  if (!entry) return [];
+
+  const { calendarEvents, tasks, transactions } = await getLinkedItems(id);
+  const linked: [Collection, { id: string }[]][] = [['calendar', calendarEvents], ['tasks', tasks], ['finance', transactions]];
+  const now = Date.now();
+
+  const items: TrashItem[] = [{ collection: 'entries', id, record: entry, deletedAt: now }];
+  if (cascade) {
+      linked.forEach(([collection, records]) => records.forEach(record => {
+          items.push({ collection, id: record.id, record, deletedAt: now, cascadeOf: id });
+      }));
   } else {
-    entries.push(entry);
+      items[0].unlinked = linked.flatMap(([collection, records]) => records.map(r => ({ collection, id: r.id })));
+      for (const [collection, records] of linked) {
+          if (records.length > 0) await putRecords(collection, await touch(collection, records.map(r => ({ ...r, linkedEntryId: undefined }))));
+      }
   }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  await moveToTrash(items);
+  return items;
+};
+
+// --- Entry History ---
+const toRevision = (entry: JournalEntry, source?: RevisionSource): EntryRevision => ({
+    entryId: entry.id,
+    revision: entry.revision || 0,
+    savedAt: entry.lastModified,
+    source,
+    title: entry.title,
+    content: entry.content,
+    tags: entry.tags || [],
+    media: entry.media
+});
+
+const sameRevisionContent = (a: EntryRevision, b: EntryRevision) =>
+    a.title === b.title &&
+    a.content === b.content &&
+    JSON.stringify(a.tags) === JSON.stringify(b.tags) &&
+    JSON.stringify(a.media || []) === JSON.stringify(b.media || []);
+
+// Newest first
+export const getEntryRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+    try {
+        const revisions = await getAllByIndex<EntryRevision>('entryRevisions', 'entryId', entryId);
+        return revisions.sort((a, b) => b.revision - a.revision);
+    } catch (error) {
+        console.error("Failed to load entry history", error);
+        return [];
+    }
 };
 
-export const deleteEntry = (id: string): void => {
-  const entries = getEntries().filter(e => e.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+// Copies an old revision's content back onto the entry as a new revision, so the restore itself can be undone
+export const restoreEntryRevision = async (revision: EntryRevision): Promise<JournalEntry | undefined> => {
+    const current = await getRecord<JournalEntry>('entries', revision.entryId);
+    if (!current) return undefined;
+    const restored: JournalEntry = {
+        ...current,
+        title: revision.title,
+        content: revision.content,
+        tags: revision.tags,
+        media: revision.media
+    };
+    await saveEntry(restored, 'restore');
+    return getRecord<JournalEntry>('entries', revision.entryId);
+};
+
+// Everything created from (and linked back to) a single entry
+export const getLinkedItems = async (entryId: string) => {
+    const [calendarEvents, tasks, transactions] = await Promise.all([
+        getAllByIndex<CalendarEvent>('calendar', 'linkedEntryId', entryId),
+        getAllByIndex<Task>('tasks', 'linkedEntryId', entryId),
+        getAllByIndex<FinanceTransaction>('finance', 'linkedEntryId', entryId)
+    ]);
+    return { calendarEvents, tasks, transactions };
 };
 
 // --- Calendar ---
-export const getCalendarEvents = (): CalendarEvent[] => {
+export const getCalendarEvents = async (): Promise<CalendarEvent[]> => {
     try {
-        const data = localStorage.getItem(CALENDAR_KEY);
-        return data ? JSON.parse(data) : [];
+        return await getAllRecords<CalendarEvent>('calendar');
     } catch (error) {
         return [];
     }
 }
 
-export const addCalendarEvents = (events: CalendarEvent[]): void => {
-    const current = getCalendarEvents();
-    const newEvents = [...current, ...events.filter(e => !current.find(c => c.id === e.id))];
-    localStorage.setItem(CALENDAR_KEY, JSON.stringify(newEvents));
+export const addCalendarEvents = async (events: CalendarEvent[]): Promise<void> => {
+    await addRecordsIfAbsent('calendar', await touch('calendar', events));
+}
+
+export const saveCalendarEvents = async (events: CalendarEvent[]): Promise<void> => {
+    await putRecords('calendar', await touch('calendar', events));
+}
+
+export const deleteCalendarEvent = async (id: string): Promise<TrashItem[]> => {
+    return trashRecord('calendar', id);
 }
 
 // --- Tasks ---
-export const getTasks = (): Task[] => {
+export const getTasks = async (): Promise<Task[]> => {
     try {
-        const data = localStorage.getItem(TASKS_KEY);
-        return data ? JSON.parse(data) : [];
+        return await getAllRecords<Task>('tasks');
     } catch (error) {
         return [];
     }
 }
 
-export const saveTasks = (tasks: Task[]): void => {
-    const current = getTasks();
-    // Update existing or add new
-    const updated = [...current];
-    tasks.forEach(t => {
-        const idx = updated.findIndex(existing => existing.id === t.id);
-        if (idx >= 0) updated[idx] = t;
-        else updated.push(t);
-    });
-    
-    // Deduplicate logic: Map by ID to ensure uniqueness
-    const uniqueMap = new Map();
-    updated.forEach(t => uniqueMap.set(t.id, t));
-    const uniqueTasks = Array.from(uniqueMap.values());
+// Update existing or add new (keyed by id, so duplicates are impossible)
+export const saveTasks = async (tasks: Task[]): Promise<void> => {
+    await putRecords('tasks', await touch('tasks', tasks));
+}
 
-    localStorage.setItem(TASKS_KEY, JSON.stringify(uniqueTasks));
+// Adds tasks whose ids are not stored yet, leaving existing ones (and their progress) as they are
+export const addTasks = async (tasks: Task[]): Promise<void> => {
+    await addRecordsIfAbsent('tasks', await touch('tasks', tasks));
 }
 
-export const updateTaskStatus = (id: string, completed: boolean): void => {
-    const tasks = getTasks().map(t => t.id === id ? { ...t, completed } : t);
-    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+export const updateTaskStatus = async (id: string, completed: boolean): Promise<void> => {
+    await updateRecord<Task>('tasks', id, t => ({
+        ...t,
+        completed,
+        completedAt: completed ? t.completedAt || new Date().toISOString() : undefined,
+        lastModified: Date.now(),
+        revision: (t.revision || 0) + 1
+    }));
 }
 
-export const deleteTask = (id: string): void => {
-    const tasks = getTasks().filter(t => t.id !== id);
-    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+export const deleteTask = async (id: string): Promise<TrashItem[]> => {
+    return trashRecord('tasks', id);
 }
 
 // --- Finance ---
-export const getTransactions = (): FinanceTransaction[] => {
+export const getTransactions = async (): Promise<FinanceTransaction[]> => {
     try {
-        const data = localStorage.getItem(FINANCE_KEY);
-        return data ? JSON.parse(data) : [];
+        return await getAllRecords<FinanceTransaction>('finance');
     } catch (error) {
         return [];
     }
 }
 
-export const addTransactions = (txs: FinanceTransaction[]): void => {
-    const current = getTransactions();
-    const newTxs = [...current, ...txs];
-    localStorage.setItem(FINANCE_KEY, JSON.stringify(newTxs));
+// Inserts only transactions whose id is not stored yet
+export const addTransactions = async (txs: FinanceTransaction[]): Promise<void> => {
+    await addRecordsIfAbsent('finance', await touch('finance', txs));
 }
 
-export const saveTransaction = (tx: FinanceTransaction): void => {
-    const current = getTransactions();
-    const idx = current.findIndex(t => t.id === tx.id);
-    if (idx >= 0) {
-        current[idx] = tx;
-    } else {
-        current.push(tx);
-    }
-    localStorage.setItem(FINANCE_KEY, JSON.stringify(current));
+export const saveTransactions = async (txs: FinanceTransaction[]): Promise<void> => {
+    await putRecords('finance', await touch('finance', txs));
+}
+
+export const saveTransaction = async (tx: FinanceTransaction): Promise<void> => {
+    await saveTransactions([tx]);
 }
 
-export const deleteTransaction = (id: string): void => {
-    const current = getTransactions().filter(t => t.id !== id);
-    localStorage.setItem(FINANCE_KEY, JSON.stringify(current));
+export const deleteTransaction = async (id: string): Promise<TrashItem[]> => {
+    return trashRecord('finance', id);
 }
 
+// --- Trash ---
+// Deleting moves records here and leaves a tombstone for sync. Items are purged for good once
+// they are older than the retention period (or when the user empties the trash).
+const moveToTrash = async (items: TrashItem[]): Promise<void> => {
+    const encoded = await encodeRecords('trash', items);
+    const stores = Array.from(new Set(items.map(i => i.collection)));
+    await runTransaction([...stores, 'trash', 'tombstones'], 'readwrite', tx => {
+        items.forEach((item, i) => {
+            tx.objectStore(item.collection).delete(item.id);
+            tx.objectStore('trash').put(encoded[i]);
+            const tombstone: Tombstone = { collection: item.collection, id: item.id, deletedAt: item.deletedAt };
+            tx.objectStore('tombstones').put(tombstone);
+        });
+    });
+};
+
+export const trashRecords = async (collection: Collection, ids: string[]): Promise<TrashItem[]> => {
+    const now = Date.now();
+    const records = await Promise.all(ids.map(id => getRecord<any>(collection, id)));
+    const items: TrashItem[] = records
+        .filter(record => record !== undefined)
+        .map(record => ({ collection, id: record.id, record, deletedAt: now }));
+    if (items.length > 0) await moveToTrash(items);
+    return items;
+};
+
+const trashRecord = (collection: Collection, id: string) => trashRecords(collection, [id]);
+
+// Newest first
+export const getTrash = async (): Promise<TrashItem[]> => {
+    try {
+        const items = await getAllRecords<TrashItem>('trash');
+        return items.sort((a, b) => b.deletedAt - a.deletedAt);
+    } catch (error) {
+        console.error("Failed to load trash", error);
+        return [];
+    }
+};
+
+// Puts items back (an entry brings back everything that was trashed with it) and cancels their
+// deletion. The restored revision is placed after any deletion that was already synced.
+export const restoreFromTrash = async (items: TrashItem[]): Promise<void> => {
+    const trash = await getTrash();
+    const keys = new Set(items.map(i => `${i.collection}:${i.id}`));
+    const entryIds = new Set(items.filter(i => i.collection === 'entries').map(i => i.id));
+    const toRestore = trash.filter(t => keys.has(`${t.collection}:${t.id}`) || (t.cascadeOf && entryIds.has(t.cascadeOf)));
+
+    const now = Date.now();
+    const restored: { collection: Collection; record: any }[] = [];
+    for (const item of toRestore) {
+        const base = await getRecord<{ revision: number }>('syncBase', [item.collection, item.id]);
+        restored.push({
+            collection: item.collection,
+            record: { ...item.record, lastModified: now, revision: Math.max(item.record.revision || 0, base?.revision || 0) + 1 }
+        });
+        for (const link of item.unlinked || []) {
+            const linkedRecord = await getRecord<any>(link.collection, link.id);
+            if (linkedRecord && !linkedRecord.linkedEntryId) {
+                const [relinked] = await touch(link.collection, [{ ...linkedRecord, linkedEntryId: item.id }]);
+                restored.push({ collection: link.collection, record: relinked });
+            }
+        }
+    }
+
+    const encoded = await Promise.all(restored.map(async r => (await encodeRecords(r.collection, [r.record]))[0]));
+    const stores = Array.from(new Set(restored.map(r => r.collection)));
+    await runTransaction([...stores, 'trash', 'tombstones'], 'readwrite', tx => {
+        restored.forEach((r, i) => tx.objectStore(r.collection).put(encoded[i]));
+        toRestore.forEach(item => {
+            tx.objectStore('trash').delete([item.collection, item.id]);
+            tx.objectStore('tombstones').delete([item.collection, item.id]);
+        });
+    });
+};
+
+// Permanent delete. Entry history goes with the entry.
+export const purgeFromTrash = async (items: TrashItem[]): Promise<void> => {
+    await runTransaction(['trash', 'entryRevisions'], 'readwrite', async tx => {
+        const revisions = tx.objectStore('entryRevisions');
+        for (const item of items) {
+            tx.objectStore('trash').delete([item.collection, item.id]);
+            if (item.collection === 'entries') {
+                const keys = await promisifyRequest(revisions.index('entryId').getAllKeys(item.id));
+                keys.forEach(key => revisions.delete(key));
+            }
+        }
+    });
+};
+
+export const emptyTrash = async (): Promise<void> => {
+    await purgeFromTrash(await getTrash());
+};
+
+export const getTrashRetentionDays = async (): Promise<number> => {
+    return (await getMeta<number>(TRASH_RETENTION_KEY)) || DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = async (days: number): Promise<void> => {
+    await setMeta(TRASH_RETENTION_KEY, days);
+};
+
+// Removes items older than the retention period. Returns how many were purged.
+export const purgeExpiredTrash = async (): Promise<number> => {
+    const cutoff = Date.now() - (await getTrashRetentionDays()) * 24 * 60 * 60 * 1000;
+    const expired = (await getTrash()).filter(item => item.deletedAt < cutoff);
+    if (expired.length > 0) await purgeFromTrash(expired);
+    return expired.length;
+};
+
+// --- Workspaces ---
+// Personal and Professional are separate workspaces, each with its own chat, entries, tasks,
+// calendar and ledger. Records saved before workspaces existed carry no mode and are personal.
+
+export const modeOf = (record: { mode?: JournalMode }): JournalMode => record.mode || JournalMode.PERSONAL;
+
+// Filter for one workspace's records, or for every record when allModes is set
+export const inWorkspace = (mode: JournalMode, allModes = false) => (record: { mode?: JournalMode }): boolean =>
+    allModes || modeOf(record) === mode;
+
+export const getActiveMode = async (): Promise<JournalMode> => {
+    const stored = await getMeta<JournalMode>(ACTIVE_MODE_KEY);
+    return stored === JournalMode.PROFESSIONAL ? JournalMode.PROFESSIONAL : JournalMode.PERSONAL;
+};
+
+export const setActiveMode = async (mode: JournalMode): Promise<void> => {
+    await setMeta(ACTIVE_MODE_KEY, mode);
+};
+
 // --- Chat History ---
-export const getChatHistory = (mode: JournalMode): ChatMessage[] => {
+type StoredChatMessage = ChatMessage & { mode: JournalMode };
+
+const stripMode = ({ mode, ...msg }: StoredChatMessage): ChatMessage => msg;
+
+export const getChatHistory = async (mode: JournalMode): Promise<ChatMessage[]> => {
     try {
-        const key = mode === JournalMode.PERSONAL ? CHAT_PERSONAL_KEY : CHAT_PROF_KEY;
-        const data = localStorage.getItem(key);
-        return data ? JSON.parse(data) : [];
+        const stored = await getAllByIndex<StoredChatMessage>('chat', 'mode', mode);
+        return stored
+            .sort((a, b) => a.timestamp - b.timestamp || Number(a.id) - Number(b.id))
+            .map(stripMode);
     } catch (error) {
         return [];
     }
 }
 
-export const saveChatHistory = (mode: JournalMode, messages: ChatMessage[]): void => {
-    const key = mode === JournalMode.PERSONAL ? CHAT_PERSONAL_KEY : CHAT_PROF_KEY;
-    localStorage.setItem(key, JSON.stringify(messages));
+// Saves run one after another, so a slower save never compares against what a later one already wrote
+let chatSaveQueue: Promise<unknown> = Promise.resolve();
+
+// Writes only messages that are new or changed, and removes ones no longer present
+export const saveChatHistory = (mode: JournalMode, messages: ChatMessage[]): Promise<void> => {
+    const run = chatSaveQueue.then(() => writeChatHistory(mode, messages));
+    chatSaveQueue = run.catch(() => undefined);
+    return run;
+};
+
+const writeChatHistory = async (mode: JournalMode, messages: ChatMessage[]): Promise<void> => {
+    const existing = await getAllByIndex<StoredChatMessage>('chat', 'mode', mode);
+    const existingById = new Map(existing.map(m => [m.id, JSON.stringify(stripMode(m))]));
+    const keepIds = new Set(messages.map(m => m.id));
+
+    const removedKeys = existing
+        .filter(m => !keepIds.has(m.id))
+        .map(m => [mode, m.id]);
+    const changed = await encodeRecords('chat', messages
+        .filter(m => existingById.get(m.id) !== JSON.stringify(m))
+        .map(m => ({ ...m, mode })));
+    if (removedKeys.length === 0 && changed.length === 0) return;
+
+    await runTransaction('chat', 'readwrite', tx => {
+        const store = tx.objectStore('chat');
+        removedKeys.forEach(key => store.delete(key));
+        changed.forEach(m => store.put(m));
+    });
 }
 
 // --- Backup & Restore ---
-export const getLastBackupTime = (): number => {
-    const data = localStorage.getItem(BACKUP_TIMESTAMP_KEY);
-    return data ? parseInt(data, 10) : 0;
+export const getLastBackupTime = async (): Promise<number> => {
+    return (await getMeta<number>(BACKUP_TIMESTAMP_KEY)) || 0;
 };
 
-export const updateLastBackupTime = (): void => {
-    localStorage.setItem(BACKUP_TIMESTAMP_KEY, Date.now().toString());
+export const updateLastBackupTime = async (timestamp = Date.now()): Promise<void> => {
+    await setMeta(BACKUP_TIMESTAMP_KEY, timestamp);
 };
 
-export const getAllData = () => {
+export const getAllData = async () => {
     return {
-        entries: getEntries(),
-        calendar: getCalendarEvents(),
-        tasks: getTasks(),
-        finance: getTransactions(),
-        chatPersonal: getChatHistory(JournalMode.PERSONAL),
-        chatProf: getChatHistory(JournalMode.PROFESSIONAL),
-        lastBackup: getLastBackupTime(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        entries: await getEntries(),
+        calendar: await getCalendarEvents(),
+        tasks: await getTasks(),
+        finance: await getTransactions(),
+        chatPersonal: await getChatHistory(JournalMode.PERSONAL),
+        chatProf: await getChatHistory(JournalMode.PROFESSIONAL),
+        lastBackup: await getLastBackupTime(),
         timestamp: Date.now()
     };
 };
 
-export const restoreData = (data: any) => {
-    if (data.entries && Array.isArray(data.entries)) localStorage.setItem(STORAGE_KEY, JSON.stringify(data.entries));
-    if (data.calendar && Array.isArray(data.calendar)) localStorage.setItem(CALENDAR_KEY, JSON.stringify(data.calendar));
-    if (data.tasks && Array.isArray(data.tasks)) localStorage.setItem(TASKS_KEY, JSON.stringify(data.tasks));
-    if (data.finance && Array.isArray(data.finance)) localStorage.setItem(FINANCE_KEY, JSON.stringify(data.finance));
-    if (data.chatPersonal && Array.isArray(data.chatPersonal)) localStorage.setItem(CHAT_PERSONAL_KEY, JSON.stringify(data.chatPersonal));
-    if (data.chatProf && Array.isArray(data.chatProf)) localStorage.setItem(CHAT_PROF_KEY, JSON.stringify(data.chatProf));
-    if (data.lastBackup) localStorage.setItem(BACKUP_TIMESTAMP_KEY, data.lastBackup.toString());
+
+// --- Change Subscriptions ---
+// Every committed write is reported to subscribers of the affected collection, in this tab and
+// (through a BroadcastChannel, or the storage event where that is missing) in other open tabs.
+// Writes that land close together, like a save touching several stores, arrive as one change.
+export type WatchedCollection = 'entries' | 'calendar' | 'tasks' | 'finance' | 'chat' | 'trash' | 'review' | 'duplicates' | 'memories' | 'aiJobs';
+
+export interface StorageChange {
+    collection: WatchedCollection;
+    ids?: string[];  // Changed record ids; undefined when any record may have changed
+    remote: boolean; // Written by another tab
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+const WATCHED_COLLECTIONS: WatchedCollection[] = ['entries', 'calendar', 'tasks', 'finance', 'chat', 'trash', 'review', 'duplicates', 'memories', 'aiJobs'];
+const CHANGE_CHANNEL = 'gemini_journal_changes';
+const CHANGE_STORAGE_KEY = 'gemini_journal_change';
+const CHANGE_BATCH_MS = 30;
+
+const changeListeners = new Map<WatchedCollection, Set<StorageChangeListener>>();
+const pendingChanges = new Map<WatchedCollection, Set<string> | null>(); // null: the whole collection
+let changeFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const changeChannel = typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(CHANGE_CHANNEL)
+    : null;
+
+const isWatched = (store: string): store is WatchedCollection => WATCHED_COLLECTIONS.includes(store as WatchedCollection);
+
+const deliverChange = (change: StorageChange) => {
+    changeListeners.get(change.collection)?.forEach(listener => {
+        try {
+            listener(change);
+        } catch (error) {
+            console.error("Storage change listener failed", error);
+        }
+    });
+};
+
+const receiveRemoteChanges = (changes: Omit<StorageChange, 'remote'>[]) => {
+    if (!Array.isArray(changes)) return;
+    changes.filter(c => isWatched(c?.collection)).forEach(c => deliverChange({ collection: c.collection, ids: c.ids, remote: true }));
 };
 
-// Simulates a Google Drive Sync
-export const simulateCloudSync = async (): Promise<boolean> => {
-    return new Promise((resolve) => {
-        setTimeout(() => {
-            resolve(true);
-        }, 1500);
+const broadcastChanges = (changes: Omit<StorageChange, 'remote'>[]) => {
+    if (changeChannel) {
+        changeChannel.postMessage(changes);
+    } else if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+        // The storage event only fires in other tabs, and only when the value differs
+        localStorage.setItem(CHANGE_STORAGE_KEY, JSON.stringify({ changes, at: Date.now(), nonce: Math.random() }));
+    }
+};
+
+if (changeChannel) {
+    changeChannel.onmessage = (event) => receiveRemoteChanges(event.data);
+} else if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+        if (event.key !== CHANGE_STORAGE_KEY || !event.newValue) return;
+        try {
+            receiveRemoteChanges(JSON.parse(event.newValue).changes);
+        } catch (error) {
+            console.warn("Ignoring malformed change notification", error);
+        }
     });
-};
\ No newline at end of file
+}
+
+const flushChanges = () => {
+    changeFlushTimer = null;
+    const changes = [...pendingChanges].map(([collection, ids]) => ({ collection, ids: ids ? [...ids] : undefined }));
+    pendingChanges.clear();
+    changes.forEach(change => deliverChange({ ...change, remote: false }));
+    broadcastChanges(changes);
+};
+
+const queueChange = (collection: WatchedCollection, ids?: string[]) => {
+    const pending = pendingChanges.get(collection);
+    if (!ids) pendingChanges.set(collection, null);
+    else if (pending !== null) pendingChanges.set(collection, new Set([...(pending || []), ...ids]));
+    if (!changeFlushTimer) changeFlushTimer = setTimeout(flushChanges, CHANGE_BATCH_MS);
+};
+
+onStoresWritten((stores: StoreName[], ids?: string[]) => {
+    stores.filter(isWatched).forEach(store => queueChange(store, ids));
+});
+
+// Calls the listener after every change to a collection. Returns the unsubscribe function.
+export const subscribe = (collection: WatchedCollection, listener: StorageChangeListener): (() => void) => {
+    if (!changeListeners.has(collection)) changeListeners.set(collection, new Set());
+    changeListeners.get(collection)!.add(listener);
+    return () => { changeListeners.get(collection)?.delete(listener); };
+};
+
+// Like subscribe, but only for changes that may include the given record
+export const subscribeToRecord = (collection: WatchedCollection, id: string, listener: StorageChangeListener): (() => void) => {
+    return subscribe(collection, change => {
+        if (!change.ids || change.ids.includes(id)) listener(change);
+    });
+};
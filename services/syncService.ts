@@ -0,0 +1,396 @@
+import { Tombstone, SyncConflict, MediaBlob } from '../types';
+import { StoreName, runTransaction, encodeRecords, getAllRecords, getRecord, getMeta, setMeta, putRecords } from './db';
+import { mergeRecords } from './mergeService';
+import { getMedia, getMissingMediaIds, saveMediaBlobs, collectMediaIds } from './mediaService';
+import { fromBase64 } from './cryptoService';
+import { getVaultStatus } from './vaultService';
+
+// Pull/push sync against a self-hosted server (see server/syncServer.mjs). Every record carries a
+// revision counter; the "sync base" store remembers the last revision agreed with the server, so a
+// record is unsent when its revision differs from its base. When both devices edited a record the
+// versions are merged field by field against the base, and anything that cannot be merged lands in
+// the conflict inbox. Chat history stays on the device. Images travel separately, once per hash.
+// Records are sent as they are, so sync is held back while the vault encrypts them on this device.
+
+export type SyncCollection = Tombstone['collection'];
+
+export const SYNCED_COLLECTIONS: SyncCollection[] = ['entries', 'calendar', 'tasks', 'finance'];
+
+export interface SyncConfig {
+    serverUrl: string;
+    token?: string;
+}
+
+export interface SyncChange {
+    collection: SyncCollection;
+    id: string;
+    revision: number;
+    baseRevision?: number; // Revision this change was made on top of (push only)
+    lastModified: number;
+    deleted?: boolean;
+    record?: any;
+}
+
+interface SyncState {
+    deviceId: string;
+    cursor: number; // Server sequence number of the last change pulled
+    lastSyncedAt?: number;
+}
+
+export type SyncPhase = 'unconfigured' | 'idle' | 'syncing' | 'error' | 'offline';
+
+export interface SyncStatus {
+    phase: SyncPhase;
+    lastSyncedAt?: number;
+    error?: string;
+    conflicts?: number;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    conflicts: number;
+}
+
+const SYNC_CONFIG_KEY = 'syncConfig';
+const SYNC_STATE_KEY = 'syncState';
+
+export const VAULT_SYNC_BLOCKED = "Sync is paused while the vault is on: the server would receive your records unencrypted.";
+
+let status: SyncStatus = { phase: 'unconfigured' };
+let inFlight: Promise<SyncResult> | null = null;
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+const recordKey = (collection: string, id: string) => `${collection}:${id}`;
+
+// --- Status ---
+const setStatus = (next: SyncStatus) => {
+    status = next;
+    statusListeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const onSyncStatusChange = (listener: (status: SyncStatus) => void): (() => void) => {
+    statusListeners.add(listener);
+    return () => { statusListeners.delete(listener); };
+};
+
+// --- Config ---
+export const getSyncConfig = () => getMeta<SyncConfig>(SYNC_CONFIG_KEY);
+
+export const saveSyncConfig = async (config: SyncConfig | null): Promise<void> => {
+    if (config && config.serverUrl.trim()) {
+        await setMeta(SYNC_CONFIG_KEY, { serverUrl: config.serverUrl.trim().replace(/\/+$/, ''), token: config.token || undefined });
+    } else {
+        await runTransaction('meta', 'readwrite', tx => { tx.objectStore('meta').delete(SYNC_CONFIG_KEY); });
+    }
+    await refreshSyncStatus();
+};
+
+// Loads the persisted sync state into the in-memory status (call once on startup)
+export const refreshSyncStatus = async (): Promise<SyncStatus> => {
+    const [config, state, conflicts] = await Promise.all([getSyncConfig(), getMeta<SyncState>(SYNC_STATE_KEY), getConflicts()]);
+    if (!config) setStatus({ phase: 'unconfigured', conflicts: conflicts.length });
+    else if (status.phase === 'unconfigured') setStatus({ phase: 'idle', lastSyncedAt: state?.lastSyncedAt, conflicts: conflicts.length });
+    else setStatus({ ...status, conflicts: conflicts.length });
+    return status;
+};
+
+const getSyncState = async (): Promise<SyncState> => {
+    const state = await getMeta<SyncState>(SYNC_STATE_KEY);
+    if (state) return state;
+    const fresh: SyncState = {
+        deviceId: Date.now().toString(36) + Math.random().toString(36).substr(2, 9),
+        cursor: 0
+    };
+    await setMeta(SYNC_STATE_KEY, fresh);
+    return fresh;
+};
+
+// --- Transport ---
+const request = async <T>(config: SyncConfig, path: string, init: RequestInit = {}): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+
+    const response = await fetch(`${config.serverUrl}${path}`, { ...init, headers });
+    if (response.status === 401 || response.status === 403) throw new Error("Sync server rejected the access token.");
+    if (!response.ok) throw new Error(`Sync server error (${response.status}).`);
+    return response.json();
+};
+
+// --- Local State ---
+interface LocalSnapshot {
+    records: Map<string, any>;
+    bases: Map<string, SyncChange>;
+    tombstones: Map<string, Tombstone>;
+    conflicts: Set<string>;
+}
+
+const readLocalSnapshot = async (): Promise<LocalSnapshot> => {
+    const records = new Map<string, any>();
+    for (const collection of SYNCED_COLLECTIONS) {
+        (await getAllRecords<any>(collection)).forEach(r => records.set(recordKey(collection, r.id), r));
+    }
+    const [bases, tombstones, conflicts] = await Promise.all([
+        getAllRecords<SyncChange>('syncBase'),
+        getAllRecords<Tombstone>('tombstones'),
+        getAllRecords<SyncConflict>('conflicts')
+    ]);
+    return {
+        records,
+        bases: new Map(bases.map(b => [recordKey(b.collection, b.id), b])),
+        tombstones: new Map(tombstones.map(t => [recordKey(t.collection, t.id), t])),
+        conflicts: new Set(conflicts.map(c => recordKey(c.collection, c.id)))
+    };
+};
+
+const isDirty = (record: any, base?: SyncChange) => !base || (record.revision || 0) !== base.revision;
+
+// Records edited since they were last synced, plus local deletions. Records with an open
+// conflict are held back until the user resolves it.
+const collectLocalChanges = (local: LocalSnapshot): SyncChange[] => {
+    const changes: SyncChange[] = [];
+    local.records.forEach((record, key) => {
+        const base = local.bases.get(key);
+        if (!isDirty(record, base) || local.conflicts.has(key)) return;
+        const collection = key.slice(0, key.indexOf(':')) as SyncCollection;
+        changes.push({
+            collection,
+            id: record.id,
+            revision: record.revision || 0,
+            baseRevision: base?.revision ?? 0,
+            lastModified: record.lastModified || Date.now(),
+            record
+        });
+    });
+    local.tombstones.forEach((t, key) => {
+        const baseRevision = local.bases.get(key)?.revision ?? 0;
+        changes.push({ collection: t.collection, id: t.id, revision: baseRevision + 1, baseRevision, lastModified: t.deletedAt, deleted: true });
+    });
+    return changes;
+};
+
+// --- Pull ---
+interface PullPlan {
+    puts: Map<SyncCollection, any[]>;
+    deletes: Map<SyncCollection, string[]>;
+    bases: SyncChange[];
+    clearedTombstones: SyncChange[];
+    conflicts: SyncConflict[];
+}
+
+// Decides what to do with each remote change without restamping it:
+// untouched locally -> take remote; edited on both sides -> three-way merge (or conflict);
+// deleted on one side and edited on the other -> the edit wins.
+const planRemoteChanges = (changes: SyncChange[], local: LocalSnapshot): PullPlan => {
+    const plan: PullPlan = { puts: new Map(), deletes: new Map(), bases: [], clearedTombstones: [], conflicts: [] };
+    const put = (collection: SyncCollection, record: any) => plan.puts.set(collection, [...(plan.puts.get(collection) || []), record]);
+    const remove = (collection: SyncCollection, id: string) => plan.deletes.set(collection, [...(plan.deletes.get(collection) || []), id]);
+
+    changes.forEach(change => {
+        if (!SYNCED_COLLECTIONS.includes(change.collection)) return;
+        const key = recordKey(change.collection, change.id);
+        const record = local.records.get(key);
+        const base = local.bases.get(key);
+        const tombstone = local.tombstones.get(key);
+        const baseEntry: SyncChange = { ...change, baseRevision: undefined };
+
+        if (base && change.revision === base.revision) return;
+        plan.bases.push(baseEntry);
+
+        if (tombstone) {
+            plan.clearedTombstones.push(change);
+            if (!change.deleted) put(change.collection, change.record);
+            return;
+        }
+        if (!record || !isDirty(record, base)) {
+            if (change.deleted) remove(change.collection, change.id);
+            else put(change.collection, change.record);
+            return;
+        }
+        // Edited locally: a remote deletion is ignored and the local edit is pushed on top of it
+        const revision = Math.max(record.revision || 0, change.revision) + 1;
+        if (change.deleted) {
+            put(change.collection, { ...record, revision });
+            return;
+        }
+
+        const { merged, conflicts } = mergeRecords(change.collection, base?.record, record, change.record);
+        put(change.collection, { ...merged, lastModified: Date.now(), revision });
+        if (conflicts.length > 0) {
+            plan.conflicts.push({
+                collection: change.collection,
+                id: change.id,
+                base: base?.record,
+                local: merged,
+                remote: change.record,
+                fields: conflicts,
+                detectedAt: Date.now()
+            });
+        }
+    });
+    return plan;
+};
+
+const applyPullPlan = async (plan: PullPlan): Promise<number> => {
+    const encodedPuts = new Map<SyncCollection, any[]>();
+    for (const [collection, records] of plan.puts) {
+        encodedPuts.set(collection, await encodeRecords(collection, records));
+    }
+    const bases = await encodeRecords('syncBase', plan.bases);
+    const conflicts = await encodeRecords('conflicts', plan.conflicts);
+
+    const stores: StoreName[] = [...SYNCED_COLLECTIONS, 'syncBase', 'tombstones', 'conflicts'];
+    await runTransaction(stores, 'readwrite', tx => {
+        encodedPuts.forEach((records, collection) => records.forEach(r => tx.objectStore(collection).put(r)));
+        plan.deletes.forEach((ids, collection) => ids.forEach(id => tx.objectStore(collection).delete(id)));
+        bases.forEach(b => tx.objectStore('syncBase').put(b));
+        plan.clearedTombstones.forEach(c => tx.objectStore('tombstones').delete([c.collection, c.id]));
+        conflicts.forEach(c => tx.objectStore('conflicts').put(c));
+    });
+
+    let applied = 0;
+    plan.puts.forEach(records => { applied += records.length; });
+    plan.deletes.forEach(ids => { applied += ids.length; });
+    return applied;
+};
+
+// --- Push ---
+// Accepted changes become the new base; rejected ones were overtaken by another device and are
+// merged on the next pull. Deletions keep a base too, so restoring from the trash later is pushed
+// on top of the deleted revision.
+const recordPushResult = async (outgoing: SyncChange[], accepted: string[]) => {
+    const acceptedKeys = new Set(accepted);
+    const done = outgoing.filter(c => acceptedKeys.has(recordKey(c.collection, c.id)));
+    const bases = await encodeRecords('syncBase', done.map(c => ({ ...c, baseRevision: undefined })));
+
+    await runTransaction(['syncBase', 'tombstones'], 'readwrite', tx => {
+        bases.forEach(b => tx.objectStore('syncBase').put(b));
+        done.filter(c => c.deleted).forEach(c => tx.objectStore('tombstones').delete([c.collection, c.id]));
+    });
+    return done.length;
+};
+
+// --- Media ---
+// Images are uploaded before the entries referencing them are pushed. After a pull, any image a
+// local record references but this device lacks is fetched.
+const uploadMedia = async (config: SyncConfig, changes: SyncChange[]) => {
+    const ids = [...collectMediaIds(changes.filter(c => !c.deleted).map(c => c.record))];
+    if (ids.length === 0) return;
+    const { missing } = await request<{ missing: string[] }>(config, '/sync/media/missing', {
+        method: 'POST',
+        body: JSON.stringify({ ids })
+    });
+    for (const id of missing || []) {
+        const blob = await getMedia(id);
+        if (!blob) continue;
+        await request(config, '/sync/media', {
+            method: 'POST',
+            body: JSON.stringify({ id, mimeType: blob.mimeType, data: blob.data })
+        });
+    }
+};
+
+const downloadMissingMedia = async (config: SyncConfig, local: LocalSnapshot) => {
+    const missing = await getMissingMediaIds([...collectMediaIds([...local.records.values()])]);
+    const blobs: MediaBlob[] = [];
+    for (const id of missing) {
+        try {
+            const { mimeType, data } = await request<{ mimeType: string; data: string }>(config, `/sync/media/${id}`);
+            blobs.push({ id, mimeType: mimeType || 'image/jpeg', data, size: fromBase64(data).length, createdAt: Date.now() });
+        } catch (error) {
+            // Not uploaded yet by the device that has it; retried on the next sync
+        }
+    }
+    await saveMediaBlobs(blobs);
+};
+
+// --- Sync ---
+const runSync = async (config: SyncConfig): Promise<SyncResult> => {
+    const state = await getSyncState();
+
+    // Pull first so local edits are merged with anything newer before being pushed
+    const pulled = await request<{ changes: SyncChange[]; cursor: number }>(
+        config,
+        `/sync/pull?since=${state.cursor}&deviceId=${encodeURIComponent(state.deviceId)}`
+    );
+    const plan = planRemoteChanges(pulled.changes || [], await readLocalSnapshot());
+    const applied = await applyPullPlan(plan);
+
+    const local = await readLocalSnapshot();
+    await downloadMissingMedia(config, local);
+
+    const outgoing = collectLocalChanges(local);
+    let pushed = 0;
+    if (outgoing.length > 0) {
+        await uploadMedia(config, outgoing);
+        const result = await request<{ accepted: string[] }>(config, '/sync/push', {
+            method: 'POST',
+            body: JSON.stringify({ deviceId: state.deviceId, changes: outgoing })
+        });
+        pushed = await recordPushResult(outgoing, result.accepted || []);
+    }
+
+    const lastSyncedAt = Date.now();
+    await setMeta<SyncState>(SYNC_STATE_KEY, { ...state, cursor: pulled.cursor ?? state.cursor, lastSyncedAt });
+    const conflicts = (await getConflicts()).length;
+    setStatus({ phase: 'idle', lastSyncedAt, conflicts });
+    return { pushed, pulled: applied, conflicts };
+};
+
+// Pulls remote changes then pushes local ones. Concurrent calls share the same run.
+export const syncNow = async (): Promise<SyncResult> => {
+    if (inFlight) return inFlight;
+
+    const config = await getSyncConfig();
+    if (!config) {
+        setStatus({ ...status, phase: 'unconfigured' });
+        throw new Error("SYNC_NOT_CONFIGURED");
+    }
+
+    const previous = status;
+    if (await getVaultStatus() !== 'disabled') {
+        setStatus({ ...previous, phase: 'error', error: VAULT_SYNC_BLOCKED });
+        throw new Error(VAULT_SYNC_BLOCKED);
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        setStatus({ ...previous, phase: 'offline', error: undefined });
+        throw new Error("You are offline.");
+    }
+
+    setStatus({ ...previous, phase: 'syncing', error: undefined });
+    inFlight = runSync(config)
+        .catch(error => {
+            const message = error instanceof TypeError ? "Could not reach the sync server." : (error?.message || "Sync failed.");
+            setStatus({ ...previous, phase: 'error', error: message });
+            throw new Error(message);
+        })
+        .finally(() => { inFlight = null; });
+    return inFlight;
+};
+
+// --- Conflict Inbox ---
+export const getConflicts = async (): Promise<SyncConflict[]> => {
+    try {
+        const conflicts = await getAllRecords<SyncConflict>('conflicts');
+        return conflicts.sort((a, b) => b.detectedAt - a.detectedAt);
+    } catch (error) {
+        return [];
+    }
+};
+
+// Saves the version the user settled on as a new local revision and releases it for the next push
+export const resolveConflict = async (conflict: SyncConflict, resolved: any): Promise<void> => {
+    const current = await getRecord<any>(conflict.collection, conflict.id);
+    const record = {
+        ...resolved,
+        lastModified: Date.now(),
+        revision: Math.max(current?.revision || 0, conflict.remote?.revision || 0) + 1
+    };
+    await putRecords(conflict.collection, [record]);
+    await runTransaction('conflicts', 'readwrite', tx => {
+        tx.objectStore('conflicts').delete([conflict.collection, conflict.id]);
+    });
+    setStatus({ ...status, conflicts: (await getConflicts()).length });
+};
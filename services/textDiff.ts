@@ -0,0 +1,70 @@
+// Word-level text diff (longest common subsequence) for showing what changed between two versions.
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many LCS cells the diff falls back to whole lines to stay fast on long entries
+const MAX_CELLS = 2_000_000;
+
+const tokenize = (text: string, byLine: boolean): string[] =>
+    byLine ? text.split(/(?<=\n)/) : text.match(/\s+|[^\s]+/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+};
+
+export const diffText = (before: string, after: string): DiffPart[] => {
+    let a = tokenize(before, false);
+    let b = tokenize(after, false);
+    if (a.length * b.length > MAX_CELLS) {
+        a = tokenize(before, true);
+        b = tokenize(after, true);
+    }
+
+    // Trim the common prefix and suffix so the table only covers the changed middle
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const n = midA.length;
+    const m = midB.length;
+
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    if (start > 0) pushPart(parts, 'same', a.slice(0, start).join(''));
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            pushPart(parts, 'same', midA[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            pushPart(parts, 'removed', midA[i++]);
+        } else {
+            pushPart(parts, 'added', midB[j++]);
+        }
+    }
+    while (i < n) pushPart(parts, 'removed', midA[i++]);
+    while (j < m) pushPart(parts, 'added', midB[j++]);
+    if (endA < a.length) pushPart(parts, 'same', a.slice(endA).join(''));
+    return parts;
+};
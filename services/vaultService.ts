@@ -0,0 +1,229 @@
+import {
+    RecordCodec, PLAINTEXT_FIELDS, ENCRYPTED_STORES, VAULT_HEADER_KEY,
+    setRecordCodec, getAllRecords, getMeta, setMeta, runTransaction, runStoredSchemaUpgrade
+} from './db';
+import {
+    EncryptedBlob, EncryptedBackup, KdfParams,
+    createKdfParams, deriveKey, encryptJson, decryptJson, createVerifier, checkVerifier, encryptBackup
+} from './cryptoService';
+
+// Optional "vault mode": every collection is encrypted at rest with a key derived from the
+// user's passphrase. The key only lives in memory while the vault is unlocked.
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+export interface VaultHeader {
+    kdf: KdfParams;
+    verifier: EncryptedBlob;
+    autoLockMinutes: number;
+    createdAt: number;
+}
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+const ENCRYPTED_FIELD = '__enc';
+
+// Provider API keys: in plaintext localStorage, or sealed with the vault key in meta while the vault is on
+export type ApiKeyName = 'gemini' | 'openai';
+
+const API_KEYS: Record<ApiKeyName, { storageKey: string; vaultKey: string }> = {
+    gemini: { storageKey: 'gemini_api_key', vaultKey: 'vaultApiKey' },
+    openai: { storageKey: 'gemini_journal_openai_api_key', vaultKey: 'vaultOpenAIApiKey' }
+};
+const API_KEY_NAMES = Object.keys(API_KEYS) as ApiKeyName[];
+
+let vaultKey: CryptoKey | null = null;
+let unlockedApiKeys: Partial<Record<ApiKeyName, string>> = {};
+const lockListeners = new Set<() => void>();
+
+// --- Codecs ---
+const createCodec = (key: CryptoKey): RecordCodec => ({
+    encode: async (store, record) => {
+        const stored: any = { [ENCRYPTED_FIELD]: await encryptJson(key, record) };
+        const plaintextFields = PLAINTEXT_FIELDS[store] || [];
+        plaintextFields.forEach(field => {
+            if (record[field] !== undefined) stored[field] = record[field];
+        });
+        return stored;
+    },
+    decode: async (store, stored) => {
+        return stored && stored[ENCRYPTED_FIELD] ? decryptJson(key, stored[ENCRYPTED_FIELD]) : stored;
+    }
+});
+
+// Installed while locked so nothing reads ciphertext or writes plaintext by accident
+const lockedCodec: RecordCodec = {
+    encode: async () => { throw new Error("VAULT_LOCKED"); },
+    decode: async () => { throw new Error("VAULT_LOCKED"); }
+};
+
+const getHeader = () => getMeta<VaultHeader>(VAULT_HEADER_KEY);
+
+// Rewrites every encrypted store (and optionally meta keys) in one transaction
+const rewriteStores = async (records: Record<string, any[]>, metaPuts: [string, any][], metaDeletes: string[]) => {
+    await runTransaction([...ENCRYPTED_STORES, 'meta'], 'readwrite', tx => {
+        ENCRYPTED_STORES.forEach(store => {
+            const objectStore = tx.objectStore(store);
+            objectStore.clear();
+            records[store].forEach(record => objectStore.put(record));
+        });
+        metaPuts.forEach(([key, value]) => tx.objectStore('meta').put(value, key));
+        metaDeletes.forEach(key => tx.objectStore('meta').delete(key));
+    });
+};
+
+const readAllStores = async (): Promise<Record<string, any[]>> => {
+    const records: Record<string, any[]> = {};
+    for (const store of ENCRYPTED_STORES) {
+        records[store] = await getAllRecords(store);
+    }
+    return records;
+};
+
+// --- Status ---
+export const getVaultStatus = async (): Promise<VaultStatus> => {
+    const header = await getHeader();
+    if (!header) return 'disabled';
+    if (vaultKey) return 'unlocked';
+    setRecordCodec(lockedCodec);
+    return 'locked';
+};
+
+export const getAutoLockMinutes = async (): Promise<number> => {
+    return (await getHeader())?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+    const header = await getHeader();
+    if (header) await setMeta(VAULT_HEADER_KEY, { ...header, autoLockMinutes: minutes });
+};
+
+// --- Lock / Unlock ---
+export const unlockVault = async (passphrase: string): Promise<void> => {
+    const header = await getHeader();
+    if (!header) throw new Error("Encryption is not enabled.");
+
+    const key = await deriveKey(passphrase, header.kdf);
+    if (!(await checkVerifier(key, header.verifier))) {
+        throw new Error("Incorrect passphrase.");
+    }
+
+    vaultKey = key;
+    setRecordCodec(createCodec(key));
+
+    unlockedApiKeys = {};
+    for (const name of API_KEY_NAMES) {
+        const sealedApiKey = await getMeta<EncryptedBlob>(API_KEYS[name].vaultKey);
+        if (sealedApiKey) unlockedApiKeys[name] = await decryptJson<string>(key, sealedApiKey);
+        // A key saved while the vault was locked is sealed now
+        const plainApiKey = localStorage.getItem(API_KEYS[name].storageKey);
+        if (plainApiKey) {
+            await saveApiKey(plainApiKey, name);
+            localStorage.removeItem(API_KEYS[name].storageKey);
+        }
+    }
+
+    await runStoredSchemaUpgrade();
+};
+
+export const lockVault = () => {
+    if (!vaultKey) return;
+    vaultKey = null;
+    unlockedApiKeys = {};
+    setRecordCodec(lockedCodec);
+    lockListeners.forEach(listener => listener());
+};
+
+export const onVaultLocked = (listener: () => void): (() => void) => {
+    lockListeners.add(listener);
+    return () => { lockListeners.delete(listener); };
+};
+
+// --- Enable / Disable ---
+// Encrypts all existing data in place and moves the API keys out of plaintext localStorage
+export const enableVault = async (passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> => {
+    if (await getHeader()) throw new Error("Encryption is already enabled.");
+
+    const kdf = createKdfParams();
+    const key = await deriveKey(passphrase, kdf);
+    const codec = createCodec(key);
+    const header: VaultHeader = { kdf, verifier: await createVerifier(key), autoLockMinutes, createdAt: Date.now() };
+
+    const plain = await readAllStores();
+    const encrypted: Record<string, any[]> = {};
+    for (const store of ENCRYPTED_STORES) {
+        encrypted[store] = await Promise.all(plain[store].map(record => codec.encode(store, record)));
+    }
+
+    const apiKeys: Partial<Record<ApiKeyName, string>> = {};
+    const metaPuts: [string, any][] = [[VAULT_HEADER_KEY, header]];
+    for (const name of API_KEY_NAMES) {
+        const apiKey = localStorage.getItem(API_KEYS[name].storageKey);
+        if (!apiKey) continue;
+        apiKeys[name] = apiKey;
+        metaPuts.push([API_KEYS[name].vaultKey, await encryptJson(key, apiKey)]);
+    }
+
+    await rewriteStores(encrypted, metaPuts, []);
+
+    vaultKey = key;
+    unlockedApiKeys = apiKeys;
+    setRecordCodec(codec);
+    API_KEY_NAMES.forEach(name => localStorage.removeItem(API_KEYS[name].storageKey));
+};
+
+// Decrypts everything back to plaintext. Requires the vault to be unlocked and the passphrase re-entered.
+export const disableVault = async (passphrase: string): Promise<void> => {
+    const header = await getHeader();
+    if (!header || !vaultKey) throw new Error("Unlock the vault first.");
+    if (!(await checkVerifier(await deriveKey(passphrase, header.kdf), header.verifier))) {
+        throw new Error("Incorrect passphrase.");
+    }
+
+    const plain = await readAllStores();
+    await rewriteStores(plain, [], [VAULT_HEADER_KEY, ...API_KEY_NAMES.map(name => API_KEYS[name].vaultKey)]);
+
+    API_KEY_NAMES.forEach(name => {
+        const apiKey = unlockedApiKeys[name];
+        if (apiKey) localStorage.setItem(API_KEYS[name].storageKey, apiKey);
+    });
+    vaultKey = null;
+    unlockedApiKeys = {};
+    setRecordCodec(null);
+};
+
+// --- API Keys ---
+// Synchronous so the providers can read them per request; in vault mode they come from memory.
+export const getStoredApiKey = (name: ApiKeyName = 'gemini'): string | undefined => {
+    if (vaultKey) return unlockedApiKeys[name];
+    if (typeof localStorage === 'undefined') return undefined;
+    return localStorage.getItem(API_KEYS[name].storageKey) || undefined;
+};
+
+export const saveApiKey = async (apiKey: string, name: ApiKeyName = 'gemini'): Promise<void> => {
+    const { storageKey, vaultKey: sealedKey } = API_KEYS[name];
+    if (vaultKey) {
+        unlockedApiKeys[name] = apiKey || undefined;
+        if (apiKey) await setMeta(sealedKey, await encryptJson(vaultKey, apiKey));
+        else await runTransaction('meta', 'readwrite', tx => { tx.objectStore('meta').delete(sealedKey); });
+        return;
+    }
+    if (apiKey) localStorage.setItem(storageKey, apiKey);
+    else localStorage.removeItem(storageKey);
+};
+
+// --- Backups ---
+// In vault mode backups are encrypted with the vault key; the KDF params let the same
+// passphrase decrypt them on any device.
+export const sealBackup = async (payload: unknown): Promise<unknown | EncryptedBackup> => {
+    const header = await getHeader();
+    if (!header || !vaultKey) return payload;
+    return encryptBackup(vaultKey, header.kdf, payload);
+};
+
+// Files packed next to a sealed backup (its media) use the same key; null when the vault is off
+export const sealBackupFile = async (base64: string): Promise<EncryptedBlob | null> => {
+    const header = await getHeader();
+    if (!header || !vaultKey) return null;
+    return encryptJson(vaultKey, base64);
+};
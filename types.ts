@@ -13,8 +13,18 @@ export interface JournalEntry {
   calendarEvents?: CalendarEvent[];
   tasks?: Task[];
   transactions?: FinanceTransaction[];
-  media?: { type: 'image'; content: string; mimeType: string }[]; // New field for photos/bills
+  media?: MediaRef[]; // Photos/bills, stored once in the media store
+  mood?: EntryMood; // Scored by the AI after the entry is saved
   lastModified: number;
+  revision?: number; // Incremented on every local write, used to detect concurrent edits
+}
+
+export interface EntryMood {
+  valence: number; // -1 (very negative) to 1 (very positive)
+  energy: number; // 0 (drained) to 1 (energised)
+  emotions: string[]; // Dominant emotions, strongest first
+  analyzedAt: number;
+  sourceHash: string; // Hash of the title and text that were scored, to skip unchanged entries
 }
 
 export interface CalendarEvent {
@@ -24,14 +34,21 @@ export interface CalendarEvent {
   endTime: string; // ISO String
   description?: string;
   linkedEntryId?: string;
+  mode?: JournalMode; // Workspace; records without one are personal
+  lastModified?: number; // Stamped by storageService on every write
+  revision?: number;
 }
 
 export interface Task {
   id: string;
   title: string;
   completed: boolean;
+  completedAt?: string; // ISO String, set when the task is ticked off
   dueDate?: string; // ISO String
   linkedEntryId?: string;
+  mode?: JournalMode; // Workspace; records without one are personal
+  lastModified?: number; // Stamped by storageService on every write
+  revision?: number;
 }
 
 export interface FinanceTransaction {
@@ -42,6 +59,18 @@ export interface FinanceTransaction {
   description: string;
   date: string; // ISO String
   linkedEntryId?: string;
+  receipt?: ReceiptRef; // Set when the amount was read from a photographed receipt
+  mode?: JournalMode; // Workspace; records without one are personal
+  lastModified?: number; // Stamped by storageService on every write
+  revision?: number;
+}
+
+export interface ReceiptRef {
+  mediaId: string; // The receipt photo
+  merchant?: string;
+  total: number; // Receipt total, tax included
+  lineItem?: boolean; // One line of a receipt split into several transactions
+  typedAmount?: number; // What the user wrote for it, when that disagrees with the total
 }
 
 export interface ChatMessage {
@@ -49,7 +78,160 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-  attachment?: { type: 'image' | 'text'; content: string; mimeType?: string; name?: string }; // New field to persist chat attachments
+  attachment?: { type: 'image' | 'text'; content?: string; mediaId?: string; mimeType?: string; name?: string }; // Images keep only a mediaId, text files keep their content
+  stopped?: boolean; // Reply cut short with Stop; text is what had streamed so far
+  citations?: Citation[]; // Records the reply drew on, by the labels it used
+  actions?: ChatAction[]; // Changes the reply made, or proposed, through chat tools
+}
+
+// A change to tasks, calendar or ledger requested in chat. Creations are applied straight away;
+// changes to existing records wait as 'pending' until the user confirms them.
+export interface ChatAction {
+  id: string;
+  tool: string;
+  args: Record<string, any>;
+  summary: string; // e.g. 'Move "Team sync" to Tue 16:00'
+  status: 'applied' | 'pending' | 'cancelled' | 'failed';
+  error?: string;
+}
+
+// A record an AI answer cites, shown as a link back to it
+export interface Citation {
+  label: string; // As written in the answer, e.g. "E2"
+  kind: EmbeddedKind;
+  id: string;
+  title: string;
+  date?: string;
+}
+
+// An image attached to an entry. The bytes live in the media store under their SHA-256 hash.
+export interface MediaRef {
+  type: 'image';
+  mediaId: string;
+  mimeType: string;
+  content?: string; // Inline base64 from before the media store, moved into it by the v3 schema migration
+}
+
+// One stored image, keyed by the hash of its bytes so identical uploads are kept once
+export interface MediaBlob {
+  id: string;
+  mimeType: string;
+  data: string; // base64
+  size: number; // bytes
+  createdAt: number;
+}
+
+// Records that are embedded for semantic search
+export type EmbeddedKind = 'entry' | 'task' | 'transaction';
+
+// The embedding of one record's text. Only comparable with vectors from the same model.
+export interface EmbeddingRecord {
+  id: string; // `${kind}:${recordId}`
+  kind: EmbeddedKind;
+  recordId: string;
+  model: string; // Provider and embedding model that produced the vector
+  hash: string; // SHA-256 of the embedded text, to spot records that changed
+  vector: number[];
+}
+
+export type ReviewKind = 'entry' | 'event' | 'task' | 'transaction';
+
+// A record extracted by the AI that waits in the review inbox until the user approves it
+export interface ReviewItem {
+  id: string; // `${kind}:${record.id}`
+  batchId: string; // Items extracted from the same messages share a batch
+  kind: ReviewKind;
+  record: JournalEntry | CalendarEvent | Task | FinanceTransaction;
+  sourceMessageIds: string[]; // Chat messages the record was extracted from
+  createdAt: number;
+}
+
+export type DuplicateKind = 'event' | 'task' | 'transaction';
+
+// A saved record that looks like a possible duplicate of another, waiting for the user to decide
+export interface DuplicateCandidate {
+  id: string; // `${kind}:${recordId}`
+  kind: DuplicateKind;
+  recordId: string; // The newer record
+  matchId: string; // The record it resembles
+  score: number; // 0..1
+  reasons: string[];
+  detectedAt: number;
+}
+
+export type MemoryCategory = 'person' | 'situation' | 'preference';
+
+// Something the companion remembers from earlier conversations, kept per workspace
+export interface MemoryNote {
+  id: string;
+  mode: JournalMode;
+  category: MemoryCategory;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+  editedByUser?: boolean; // Set once the user edits the note; summaries no longer rewrite it
+}
+
+// Background AI work, kept until it succeeds so nothing is lost to a dropped connection, a rate
+// limit or a reload
+export type AIJobKind = 'extraction' | 'import' | 'digest';
+
+export type AIJobPayload =
+  | { kind: 'extraction'; messages: ChatMessage[]; context: ChatMessage[] } // A batch of chat turned into records
+  | { kind: 'import'; fileName: string; text: string } // A file the AI reads into records
+  | { kind: 'digest'; period: 'week' | 'month'; date: string }; // The digest of the period containing date
+
+export type AIJob = AIJobPayload & {
+  id: string;
+  mode: JournalMode;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  failed?: boolean; // Failed in a way retrying will not fix; waits for the user to retry or discard it
+  lastError?: { code: string; message: string };
+};
+
+// What produced a saved version of an entry
+export type RevisionSource = 'manual' | 'ai' | 'import' | 'restore';
+
+// Snapshot of the user-visible fields of an entry at one point in time
+export interface EntryRevision {
+  entryId: string;
+  revision: number;
+  savedAt: number;
+  source?: RevisionSource; // Unknown for versions saved before history was kept
+  title: string;
+  content: string;
+  tags: string[];
+  media?: JournalEntry['media'];
+}
+
+// Marker left behind when a record is deleted, so the deletion can be synced
+export interface Tombstone {
+  collection: 'entries' | 'calendar' | 'tasks' | 'finance';
+  id: string;
+  deletedAt: number;
+}
+
+// A soft-deleted record, kept until restored or purged after the retention period
+export interface TrashItem {
+  collection: Tombstone['collection'];
+  id: string;
+  record: any;
+  deletedAt: number;
+  cascadeOf?: string; // Entry id whose deletion also trashed this item
+  unlinked?: { collection: Tombstone['collection']; id: string }[]; // Items detached from a deleted entry, relinked on restore
+}
+
+// Two devices changed the same fields of a record and the edits could not be merged
+export interface SyncConflict {
+  collection: Tombstone['collection'];
+  id: string;
+  base?: any;     // Last version both devices agreed on, if known
+  local: any;     // This device's version (already containing every field that merged cleanly)
+  remote: any;    // The other device's version
+  fields: string[];
+  detectedAt: number;
 }
 
 export enum AIActionType {